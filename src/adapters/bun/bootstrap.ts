@@ -0,0 +1,287 @@
+/**
+ * Bun Adapter Bootstrap
+ *
+ * Common initialization for Bun-based adapters.
+ * Mirrors bootstrap.php / bootstrap.rb: stdin/stdout handling and worker loop.
+ */
+
+/**
+ * Current time in Unix epoch milliseconds (fractional).
+ */
+function epochMs(): number {
+  return performance.timeOrigin + performance.now();
+}
+
+/**
+ * Interpreter up: when this bootstrap started executing (epoch ms).
+ */
+const INTERPRETER_AT_MS = epochMs();
+
+/**
+ * Environment variable that enables persistent worker mode.
+ * Set by the harness (src/lib/adapter/worker.ts).
+ */
+export const WORKER_ENV = "LEB_WORKER";
+
+/**
+ * Protocol version implemented by this bootstrap.
+ * Must match PROTOCOL_VERSION in src/lib/adapter/protocol.ts.
+ */
+export const PROTOCOL_VERSION = 1;
+
+/**
+ * Input fields this bootstrap understands; any other field is rejected.
+ */
+const INPUT_FIELDS = [
+  "template",
+  "data",
+  "iterations",
+  "warmup",
+  "protocol_version",
+  "progress_interval",
+  "cold_start",
+  "batch_size",
+  "time_budget_ms",
+];
+
+/**
+ * Feature announced in the protocol handshake.
+ */
+export type Capability =
+  | "memory"
+  | "progress"
+  | "worker_mode"
+  | "cold_start"
+  | "batching"
+  | "time_budget";
+
+/**
+ * Options for serve().
+ */
+export interface ServeOptions {
+  /** Capabilities the adapter implements */
+  capabilities: Capability[];
+  /**
+   * Protocol version announced in the handshake (default: PROTOCOL_VERSION).
+   * 0 leaves handshakes unanswered and ignores LEB_WORKER (one job until
+   * EOF), like an adapter predating them.
+   */
+  protocolVersion?: number;
+  /** Timer overhead reported with every output (ms), when the adapter calibrated one */
+  timerOverheadMs?: number;
+}
+
+/**
+ * Single benchmark job as sent by the harness.
+ */
+export interface Input {
+  template: string;
+  data: Record<string, unknown>;
+  iterations: number;
+  warmup: number;
+  /** Protocol version negotiated in the handshake */
+  protocol_version?: number;
+  /** Iterations per progress record (0 or absent: none) */
+  progress_interval?: number;
+  /** Report boot timestamps in the output */
+  cold_start?: boolean;
+  /** Consecutive calls timed per iteration (absent: 1) */
+  batch_size?: number;
+  /** Stop measuring after this many milliseconds (absent: run all iterations) */
+  time_budget_ms?: number;
+}
+
+/**
+ * Adapter result written to stdout.
+ * Conforms to adapter-output.schema.json.
+ */
+export interface Output {
+  library: string;
+  version: string;
+  lang: string;
+  runtime_version: string;
+  timings: { parse_ms: number[]; render_ms: number[] };
+  memory?: { parse_peak_bytes: number[]; render_peak_bytes: number[]; measure?: "peak" | "live" };
+  boot?: { interpreter_at_ms: number; library_at_ms: number };
+  timer_overhead_ms?: number;
+  rendered_output: string;
+}
+
+/**
+ * Progress record streamed ahead of the output.
+ * Timings and memory cover only the iterations since the previous record.
+ */
+export interface Progress {
+  completed: number;
+  total: number;
+  timings?: Output["timings"];
+  memory?: Output["memory"];
+}
+
+/**
+ * Parse one JSON message (job or handshake).
+ *
+ * @throws Error if the JSON is invalid or not an object
+ */
+function decodeMessage(input: string): Record<string, unknown> {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(input);
+  } catch (e) {
+    throw new Error(`Invalid JSON input: ${e instanceof Error ? e.message : String(e)}`);
+  }
+
+  if (typeof decoded !== "object" || decoded === null || Array.isArray(decoded)) {
+    throw new Error("Invalid JSON input: expected an object");
+  }
+
+  return decoded as Record<string, unknown>;
+}
+
+/**
+ * Validate a decoded job.
+ * Requires template, data, iterations and warmup; rejects fields and
+ * protocol versions this bootstrap does not know.
+ *
+ * @throws Error if a field is missing or unknown
+ */
+function validateInput(decoded: Record<string, unknown>): Input {
+  for (const field of ["template", "data", "iterations", "warmup"]) {
+    if (!(field in decoded)) {
+      throw new Error(`Missing required field: ${field}`);
+    }
+  }
+
+  for (const field of Object.keys(decoded)) {
+    if (!INPUT_FIELDS.includes(field)) {
+      throw new Error(`Unknown input field: ${field}`);
+    }
+  }
+
+  const { protocol_version: version } = decoded;
+  if (typeof version === "number" && version > PROTOCOL_VERSION) {
+    throw new Error(`Unsupported protocol_version ${version} (adapter speaks ${PROTOCOL_VERSION})`);
+  }
+
+  return decoded as unknown as Input;
+}
+
+/**
+ * Decode and validate a single JSON job.
+ *
+ * @throws Error if the JSON is invalid, or a field is missing or unknown
+ */
+export function decodeInput(input: string): Input {
+  return validateInput(decodeMessage(input));
+}
+
+/**
+ * Answer a handshake message.
+ *
+ * @returns true if the message was a handshake (and has been answered)
+ */
+function answerHandshake(message: Record<string, unknown>, options: ServeOptions): boolean {
+  const version = options.protocolVersion ?? PROTOCOL_VERSION;
+  if (!("handshake" in message) || version === 0) return false;
+
+  writeOutput({ handshake: { protocol_version: version, capabilities: options.capabilities } });
+  return true;
+}
+
+/**
+ * Write JSON output to stdout (one document per line).
+ */
+export function writeOutput(
+  output:
+    | Output
+    | { error: string }
+    | { handshake: { protocol_version: number; capabilities: Capability[] } }
+): void {
+  process.stdout.write(`${JSON.stringify(output)}\n`);
+}
+
+/**
+ * Write a progress record to stdout (one line, ahead of the output).
+ */
+export function writeProgress(progress: Progress): void {
+  process.stdout.write(`${JSON.stringify({ progress })}\n`);
+}
+
+/**
+ * Add boot timestamps to the output of a cold-start job.
+ *
+ * @param libraryAtMs When the adapter entered serve() (epoch ms)
+ */
+function withBoot(output: Output, input: Input, libraryAtMs: number): Output {
+  if (input.cold_start !== true) return output;
+  return { ...output, boot: { interpreter_at_ms: INTERPRETER_AT_MS, library_at_ms: libraryAtMs } };
+}
+
+/**
+ * Add the timer overhead, when known, to the output of a job.
+ */
+function withTimerOverhead(output: Output, options: ServeOptions): Output {
+  if (options.timerOverheadMs === undefined) return output;
+  return { ...output, timer_overhead_ms: options.timerOverheadMs };
+}
+
+/**
+ * Format an error as "Class: message" for stderr and error lines.
+ */
+function describeError(e: unknown): string {
+  return e instanceof Error ? `${e.name}: ${e.message}` : String(e);
+}
+
+/**
+ * Serve benchmark jobs.
+ *
+ * One-shot mode (default): reads one job from stdin, writes one result.
+ * Worker mode (LEB_WORKER=1): reads one job per line until stdin closes,
+ * writing one result line per job. Job failures are reported as
+ * {"error": "..."} so the process can keep serving.
+ * In both modes a {"handshake": ...} message is answered with the
+ * protocol version and capabilities instead of running a job.
+ * Entering serve() marks the library as loaded for cold-start jobs.
+ *
+ * @param handler Runs one job and returns the output
+ * @param options Capabilities announced in the handshake and timer overhead
+ */
+export async function serve(
+  handler: (input: Input) => Promise<Output>,
+  options: ServeOptions
+): Promise<void> {
+  const libraryAtMs = epochMs();
+
+  if (process.env[WORKER_ENV] !== "1" || options.protocolVersion === 0) {
+    const raw = await Bun.stdin.text();
+    if (raw === "") {
+      console.error("Error: No input received from stdin");
+      process.exit(1);
+    }
+
+    try {
+      const message = decodeMessage(raw);
+      if (answerHandshake(message, options)) return;
+      const input = validateInput(message);
+      writeOutput(withTimerOverhead(withBoot(await handler(input), input, libraryAtMs), options));
+    } catch (e) {
+      console.error(`Error: ${describeError(e)}`);
+      process.exit(1);
+    }
+    return;
+  }
+
+  for await (const line of console) {
+    if (line.trim() === "") continue;
+
+    try {
+      const message = decodeMessage(line);
+      if (answerHandshake(message, options)) continue;
+      const input = validateInput(message);
+      writeOutput(withTimerOverhead(withBoot(await handler(input), input, libraryAtMs), options));
+    } catch (e) {
+      console.error(describeError(e));
+      writeOutput({ error: describeError(e) });
+    }
+  }
+}
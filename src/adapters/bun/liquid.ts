@@ -0,0 +1,1044 @@
+/**
+ * Minimal Liquid Interpreter
+ *
+ * Renders the Liquid subset used by the reference adapter.
+ * Not a benchmark target: it exists so the harness can be exercised
+ * without PHP or Ruby.
+ *
+ * Supported tags: comment, assign, capture, if/elsif/else, unless,
+ * case/when, for (limit, offset, reversed, else, break, continue),
+ * echo, render, include.
+ * Anything else fails at parse time with "Unknown tag" / "Unknown filter",
+ * the same way a strict engine rejects unsupported syntax.
+ */
+
+/**
+ * Error raised for templates outside the supported subset.
+ */
+export class LiquidSyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LiquidSyntaxError";
+  }
+}
+
+/**
+ * Resolves a partial name (e.g. "product_card") to its source.
+ */
+export type PartialLoader = (name: string) => string | null;
+
+// ============================================================================
+// Template Tokens
+// ============================================================================
+
+type Token =
+  | { kind: "text"; value: string }
+  | { kind: "output" | "tag"; markup: string; trimLeft: boolean; trimRight: boolean };
+
+const TOKEN_PATTERN = /\{\{(-?)([\s\S]*?)(-?)\}\}|\{%(-?)([\s\S]*?)(-?)%\}/g;
+
+/**
+ * Split template source into text, output and tag tokens.
+ * Applies whitespace control ({{- -}}, {%- -%}) to neighbouring text.
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let last = 0;
+
+  for (const match of source.matchAll(TOKEN_PATTERN)) {
+    if (match.index > last) {
+      tokens.push({ kind: "text", value: source.slice(last, match.index) });
+    }
+    if (match[2] !== undefined) {
+      tokens.push({
+        kind: "output",
+        markup: match[2].trim(),
+        trimLeft: match[1] === "-",
+        trimRight: match[3] === "-",
+      });
+    } else {
+      tokens.push({
+        kind: "tag",
+        markup: (match[5] ?? "").trim(),
+        trimLeft: match[4] === "-",
+        trimRight: match[6] === "-",
+      });
+    }
+    last = match.index + match[0].length;
+  }
+  if (last < source.length) {
+    tokens.push({ kind: "text", value: source.slice(last) });
+  }
+
+  for (const [i, token] of tokens.entries()) {
+    if (token.kind === "text") continue;
+    const prev = tokens[i - 1];
+    const next = tokens[i + 1];
+    if (token.trimLeft && prev?.kind === "text") prev.value = prev.value.trimEnd();
+    if (token.trimRight && next?.kind === "text") next.value = next.value.trimStart();
+  }
+
+  return tokens;
+}
+
+// ============================================================================
+// Expressions
+// ============================================================================
+
+type ExprToken = { type: "string" | "number" | "id" | "op" | "punct"; value: string };
+
+const EXPR_TOKEN_PATTERN =
+  /\s*(?:'([^']*)'|"([^"]*)"|(-?\d+(?:\.\d+)?)|(\.\.|==|!=|<>|<=|>=|<|>)|([A-Za-z_][\w-]*\??)|([.[\]():,|]))/y;
+
+function lexExpression(markup: string): ExprToken[] {
+  const tokens: ExprToken[] = [];
+  EXPR_TOKEN_PATTERN.lastIndex = 0;
+
+  while (EXPR_TOKEN_PATTERN.lastIndex < markup.length) {
+    if (markup.slice(EXPR_TOKEN_PATTERN.lastIndex).trim() === "") break;
+    const match = EXPR_TOKEN_PATTERN.exec(markup);
+    if (!match) {
+      throw new LiquidSyntaxError(`Unexpected character in "${markup}"`);
+    }
+    const [, single, double, number, op, id, punct] = match;
+    if (single !== undefined || double !== undefined) {
+      tokens.push({ type: "string", value: single ?? double ?? "" });
+    } else if (number !== undefined) {
+      tokens.push({ type: "number", value: number });
+    } else if (op !== undefined) {
+      tokens.push({ type: "op", value: op });
+    } else if (id !== undefined) {
+      tokens.push({ type: "id", value: id });
+    } else if (punct !== undefined) {
+      tokens.push({ type: "punct", value: punct });
+    }
+  }
+
+  return tokens;
+}
+
+type Expr =
+  | { type: "literal"; value: unknown }
+  | { type: "empty" | "blank" }
+  | { type: "range"; from: Expr; to: Expr }
+  | { type: "variable"; name: string; path: Expr[] };
+
+interface FilterCall {
+  name: string;
+  fn: Filter;
+  args: Expr[];
+}
+
+interface Filtered {
+  expr: Expr;
+  filters: FilterCall[];
+}
+
+type Condition =
+  | { type: "compare"; left: Expr; op?: string; right?: Expr }
+  | { type: "and" | "or"; left: Condition; right: Condition }
+  | { type: "not"; condition: Condition };
+
+const LITERALS = new Map<string, unknown>([
+  ["true", true],
+  ["false", false],
+  ["nil", null],
+  ["null", null],
+]);
+
+/**
+ * Recursive-descent parser over the tokens of one tag or output markup.
+ */
+class ExpressionParser {
+  private readonly tokens: ExprToken[];
+  private pos = 0;
+
+  constructor(private readonly markup: string) {
+    this.tokens = lexExpression(markup);
+  }
+
+  done(): boolean {
+    return this.pos >= this.tokens.length;
+  }
+
+  peek(value?: string): ExprToken | undefined {
+    const token = this.tokens[this.pos];
+    if (value !== undefined && token?.value !== value) return undefined;
+    return token;
+  }
+
+  consume(value?: string): ExprToken {
+    const token = this.tokens[this.pos];
+    if (!token || (value !== undefined && token.value !== value)) {
+      throw new LiquidSyntaxError(`Expected "${value ?? "expression"}" in "${this.markup}"`);
+    }
+    this.pos++;
+    return token;
+  }
+
+  accept(value: string): boolean {
+    if (this.peek(value)) {
+      this.pos++;
+      return true;
+    }
+    return false;
+  }
+
+  expectEnd(): void {
+    if (!this.done()) {
+      throw new LiquidSyntaxError(`Unexpected "${this.peek()?.value}" in "${this.markup}"`);
+    }
+  }
+
+  identifier(): string {
+    const token = this.consume();
+    if (token.type !== "id") {
+      throw new LiquidSyntaxError(`Expected identifier in "${this.markup}"`);
+    }
+    return token.value;
+  }
+
+  expression(): Expr {
+    const token = this.consume();
+
+    if (token.type === "string") return { type: "literal", value: token.value };
+    if (token.type === "number") return { type: "literal", value: Number(token.value) };
+
+    if (token.value === "(") {
+      const from = this.expression();
+      this.consume("..");
+      const to = this.expression();
+      this.consume(")");
+      return { type: "range", from, to };
+    }
+
+    if (token.type !== "id") {
+      throw new LiquidSyntaxError(`Unexpected "${token.value}" in "${this.markup}"`);
+    }
+    if (LITERALS.has(token.value)) return { type: "literal", value: LITERALS.get(token.value) };
+    if (token.value === "empty" || token.value === "blank") return { type: token.value };
+
+    const path: Expr[] = [];
+    while (true) {
+      if (this.accept(".")) {
+        path.push({ type: "literal", value: this.identifier() });
+      } else if (this.accept("[")) {
+        path.push(this.expression());
+        this.consume("]");
+      } else {
+        break;
+      }
+    }
+    return { type: "variable", name: token.value, path };
+  }
+
+  filtered(): Filtered {
+    const expr = this.expression();
+    const filters: FilterCall[] = [];
+
+    while (this.accept("|")) {
+      const name = this.identifier();
+      const fn = FILTERS.get(name);
+      if (!fn) {
+        throw new LiquidSyntaxError(`Unknown filter '${name}'`);
+      }
+      const args: Expr[] = [];
+      if (this.accept(":")) {
+        do {
+          // Keyword arguments (e.g. allow_false: true) are accepted and ignored
+          if (this.peek()?.type === "id" && this.tokens[this.pos + 1]?.value === ":") {
+            this.pos += 2;
+            this.expression();
+            continue;
+          }
+          args.push(this.expression());
+        } while (this.accept(","));
+      }
+      filters.push({ name, fn, args });
+    }
+
+    return { expr, filters };
+  }
+
+  condition(): Condition {
+    const left = this.expression();
+    let comparison: Condition = { type: "compare", left };
+
+    const op = this.peek();
+    if (op && (op.type === "op" || op.value === "contains")) {
+      this.pos++;
+      comparison = { type: "compare", left, op: op.value, right: this.expression() };
+    }
+
+    // Liquid groups and/or from the right: a or b and c == a or (b and c)
+    const joiner = this.peek()?.value;
+    if (joiner === "and" || joiner === "or") {
+      this.pos++;
+      return { type: joiner, left: comparison, right: this.condition() };
+    }
+    return comparison;
+  }
+}
+
+// ============================================================================
+// Template AST
+// ============================================================================
+
+type Node =
+  | { type: "text"; value: string }
+  | { type: "output"; value: Filtered }
+  | { type: "assign"; name: string; value: Filtered }
+  | { type: "capture"; name: string; body: Node[] }
+  | { type: "if"; branches: { condition: Condition; body: Node[] }[]; otherwise: Node[] }
+  | { type: "case"; subject: Expr; whens: { values: Expr[]; body: Node[] }[]; otherwise: Node[] }
+  | {
+      type: "for";
+      variable: string;
+      collection: Expr;
+      limit?: Expr;
+      offset?: Expr;
+      reversed: boolean;
+      body: Node[];
+      otherwise: Node[];
+    }
+  | { type: "break" | "continue" }
+  | {
+      type: "partial";
+      isolated: boolean;
+      template: Node[];
+      args: [string, Expr][];
+    };
+
+/**
+ * Parsed template, ready to render many times.
+ */
+export interface Template {
+  nodes: Node[];
+}
+
+interface Block {
+  nodes: Node[];
+  /** Tag name that ended the block (e.g. "else", "endif") */
+  end: string;
+  /** Markup after the end tag name (e.g. the condition of "elsif") */
+  endMarkup: string;
+}
+
+function splitTag(markup: string): [string, string] {
+  const match = markup.match(/^(\w+)\s*([\s\S]*)$/);
+  if (!match) {
+    throw new LiquidSyntaxError(`Invalid tag "${markup}"`);
+  }
+  return [match[1] ?? "", match[2] ?? ""];
+}
+
+class TemplateParser {
+  private pos = 0;
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly partials: PartialLoader
+  ) {}
+
+  parse(): Node[] {
+    const block = this.block([]);
+    return block.nodes;
+  }
+
+  /**
+   * Parse nodes until one of the given tags (or end of input when none).
+   */
+  private block(endTags: string[]): Block {
+    const nodes: Node[] = [];
+
+    while (this.pos < this.tokens.length) {
+      const token = this.tokens[this.pos++];
+      if (!token) break;
+
+      if (token.kind === "text") {
+        if (token.value !== "") nodes.push({ type: "text", value: token.value });
+        continue;
+      }
+
+      if (token.kind === "output") {
+        const parser = new ExpressionParser(token.markup);
+        const value = parser.filtered();
+        parser.expectEnd();
+        nodes.push({ type: "output", value });
+        continue;
+      }
+
+      const [name, rest] = splitTag(token.markup);
+      if (endTags.includes(name)) {
+        return { nodes, end: name, endMarkup: rest };
+      }
+      const node = this.tag(name, rest);
+      if (node) nodes.push(node);
+    }
+
+    if (endTags.length > 0) {
+      throw new LiquidSyntaxError(`Missing "${endTags.at(-1)}"`);
+    }
+    return { nodes, end: "", endMarkup: "" };
+  }
+
+  private tag(name: string, markup: string): Node | null {
+    switch (name) {
+      case "comment":
+        this.skipComment();
+        return null;
+      case "assign":
+        return this.assign(markup);
+      case "capture": {
+        const body = this.block(["endcapture"]).nodes;
+        return { type: "capture", name: markup.trim(), body };
+      }
+      case "if":
+      case "unless":
+        return this.conditional(name, markup);
+      case "case":
+        return this.caseTag(markup);
+      case "for":
+        return this.forTag(markup);
+      case "break":
+      case "continue":
+        return { type: name };
+      case "echo": {
+        const parser = new ExpressionParser(markup);
+        const value = parser.filtered();
+        parser.expectEnd();
+        return { type: "output", value };
+      }
+      case "render":
+      case "include":
+        return this.partial(name, markup);
+      default:
+        throw new LiquidSyntaxError(`Unknown tag '${name}'`);
+    }
+  }
+
+  private skipComment(): void {
+    let depth = 1;
+    while (this.pos < this.tokens.length) {
+      const token = this.tokens[this.pos++];
+      if (token?.kind !== "tag") continue;
+      const name = token.markup.split(/\s/)[0];
+      if (name === "comment") depth++;
+      if (name === "endcomment" && --depth === 0) return;
+    }
+    throw new LiquidSyntaxError('Missing "endcomment"');
+  }
+
+  private assign(markup: string): Node {
+    const match = markup.match(/^([\w-]+)\s*=\s*([\s\S]+)$/);
+    if (!match) {
+      throw new LiquidSyntaxError(`Invalid assign "${markup}"`);
+    }
+    const parser = new ExpressionParser(match[2] ?? "");
+    const value = parser.filtered();
+    parser.expectEnd();
+    return { type: "assign", name: match[1] ?? "", value };
+  }
+
+  private conditional(name: "if" | "unless", markup: string): Node {
+    const branches: { condition: Condition; body: Node[] }[] = [];
+    const endTag = `end${name}`;
+    let condition = this.condition(markup);
+    if (name === "unless") condition = { type: "not", condition };
+
+    while (true) {
+      const block = this.block(["elsif", "else", endTag]);
+      branches.push({ condition, body: block.nodes });
+
+      if (block.end === "elsif") {
+        condition = this.condition(block.endMarkup);
+        continue;
+      }
+      const otherwise = block.end === "else" ? this.block([endTag]).nodes : [];
+      return { type: "if", branches, otherwise };
+    }
+  }
+
+  private condition(markup: string): Condition {
+    const parser = new ExpressionParser(markup);
+    const condition = parser.condition();
+    parser.expectEnd();
+    return condition;
+  }
+
+  private caseTag(markup: string): Node {
+    const parser = new ExpressionParser(markup);
+    const subject = parser.expression();
+    parser.expectEnd();
+
+    // Content between {% case %} and the first {% when %} is ignored
+    let block = this.block(["when", "else", "endcase"]);
+    const whens: { values: Expr[]; body: Node[] }[] = [];
+
+    while (block.end === "when") {
+      const whenParser = new ExpressionParser(block.endMarkup);
+      const values: Expr[] = [];
+      do {
+        values.push(whenParser.expression());
+      } while (whenParser.accept(",") || whenParser.accept("or"));
+      whenParser.expectEnd();
+
+      block = this.block(["when", "else", "endcase"]);
+      whens.push({ values, body: block.nodes });
+    }
+
+    const otherwise = block.end === "else" ? this.block(["endcase"]).nodes : [];
+    return { type: "case", subject, whens, otherwise };
+  }
+
+  private forTag(markup: string): Node {
+    const parser = new ExpressionParser(markup);
+    const variable = parser.identifier();
+    parser.consume("in");
+    const collection = parser.expression();
+
+    let reversed = false;
+    const options: { limit?: Expr; offset?: Expr } = {};
+    while (!parser.done()) {
+      const option = parser.identifier();
+      if (option === "reversed") {
+        reversed = true;
+      } else if (option === "limit" || option === "offset") {
+        parser.consume(":");
+        options[option] = parser.expression();
+      } else {
+        throw new LiquidSyntaxError(`Unknown for option '${option}'`);
+      }
+    }
+
+    const block = this.block(["else", "endfor"]);
+    const otherwise = block.end === "else" ? this.block(["endfor"]).nodes : [];
+    return {
+      type: "for",
+      variable,
+      collection,
+      ...options,
+      reversed,
+      body: block.nodes,
+      otherwise,
+    };
+  }
+
+  private partial(name: "render" | "include", markup: string): Node {
+    const parser = new ExpressionParser(markup);
+    const nameToken = parser.consume();
+    if (nameToken.type !== "string") {
+      throw new LiquidSyntaxError(`${name} requires a quoted partial name`);
+    }
+
+    const args: [string, Expr][] = [];
+    while (parser.accept(",")) {
+      const key = parser.identifier();
+      parser.consume(":");
+      args.push([key, parser.expression()]);
+    }
+    parser.expectEnd();
+
+    const source = this.partials(nameToken.value);
+    if (source === null) {
+      throw new LiquidSyntaxError(`Could not find partial '${nameToken.value}'`);
+    }
+    const template = new TemplateParser(tokenize(source), this.partials).parse();
+    return { type: "partial", isolated: name === "render", template, args };
+  }
+}
+
+/**
+ * Parse template source.
+ *
+ * @param source Liquid template source
+ * @param partials Loader for render/include partials
+ * @throws LiquidSyntaxError for unsupported tags, filters or malformed markup
+ */
+export function parseTemplate(source: string, partials: PartialLoader = () => null): Template {
+  return { nodes: new TemplateParser(tokenize(source), partials).parse() };
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+type Scope = Record<string, unknown>;
+
+/** Values of the `empty` and `blank` keywords (only meaningful in comparisons) */
+const EMPTY = Symbol("empty");
+const BLANK = Symbol("blank");
+
+/** Control-flow signals for {% break %} / {% continue %} */
+class LoopSignal {
+  constructor(readonly kind: "break" | "continue") {}
+}
+
+class Context {
+  constructor(private readonly scopes: Scope[]) {}
+
+  lookup(name: string): unknown {
+    for (let i = this.scopes.length - 1; i >= 0; i--) {
+      const scope = this.scopes[i];
+      if (scope && Object.hasOwn(scope, name)) return scope[name];
+    }
+    return null;
+  }
+
+  /** assign/capture write to the outermost scope, as in Liquid */
+  set(name: string, value: unknown): void {
+    const root = this.scopes[0];
+    if (root) root[name] = value;
+  }
+
+  push(scope: Scope): void {
+    this.scopes.push(scope);
+  }
+
+  pop(): void {
+    this.scopes.pop();
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function property(value: unknown, key: unknown): unknown {
+  if (Array.isArray(value)) {
+    if (typeof key === "number") return value.at(key) ?? null;
+    if (key === "size") return value.length;
+    if (key === "first") return value[0] ?? null;
+    if (key === "last") return value.at(-1) ?? null;
+    return null;
+  }
+  if (typeof value === "string") {
+    return key === "size" ? value.length : null;
+  }
+  if (isObject(value)) {
+    const name = String(key);
+    if (Object.hasOwn(value, name)) return value[name];
+    return name === "size" ? Object.keys(value).length : null;
+  }
+  return null;
+}
+
+function evaluate(expr: Expr, ctx: Context): unknown {
+  switch (expr.type) {
+    case "literal":
+      return expr.value;
+    case "empty":
+      return EMPTY;
+    case "blank":
+      return BLANK;
+    case "range": {
+      const from = Math.trunc(toNumber(evaluate(expr.from, ctx)));
+      const to = Math.trunc(toNumber(evaluate(expr.to, ctx)));
+      return Array.from({ length: Math.max(0, to - from + 1) }, (_, i) => from + i);
+    }
+    case "variable": {
+      let value = ctx.lookup(expr.name);
+      for (const segment of expr.path) {
+        value = property(value, evaluate(segment, ctx));
+      }
+      return value;
+    }
+  }
+}
+
+function evaluateFiltered(filtered: Filtered, ctx: Context): unknown {
+  let value = evaluate(filtered.expr, ctx);
+  for (const filter of filtered.filters) {
+    value = filter.fn(value, ...filter.args.map((arg) => evaluate(arg, ctx)));
+  }
+  return value;
+}
+
+function isTruthy(value: unknown): boolean {
+  return value !== null && value !== undefined && value !== false;
+}
+
+function isEmpty(value: unknown): boolean {
+  if (typeof value === "string" || Array.isArray(value)) return value.length === 0;
+  if (isObject(value)) return Object.keys(value).length === 0;
+  return false;
+}
+
+function isBlank(value: unknown): boolean {
+  if (value === null || value === undefined || value === false) return true;
+  if (typeof value === "string") return value.trim() === "";
+  return isEmpty(value);
+}
+
+function equals(left: unknown, right: unknown): boolean {
+  if (right === EMPTY) return isEmpty(left);
+  if (right === BLANK) return isBlank(left);
+  if (left === EMPTY || left === BLANK) return equals(right, left);
+  if (left === undefined) left = null;
+  if (right === undefined) right = null;
+  if (typeof left === "object" || typeof right === "object") {
+    return JSON.stringify(left) === JSON.stringify(right);
+  }
+  return left === right;
+}
+
+function compare(left: unknown, op: string, right: unknown): boolean {
+  switch (op) {
+    case "==":
+      return equals(left, right);
+    case "!=":
+    case "<>":
+      return !equals(left, right);
+    case "contains":
+      if (typeof left === "string") return left.includes(toText(right));
+      if (Array.isArray(left)) return left.some((item) => equals(item, right));
+      return false;
+  }
+
+  const bothNumbers = typeof left === "number" && typeof right === "number";
+  const bothStrings = typeof left === "string" && typeof right === "string";
+  if (!bothNumbers && !bothStrings) return false;
+  const [a, b] = [left as number | string, right as number | string];
+
+  switch (op) {
+    case "<":
+      return a < b;
+    case ">":
+      return a > b;
+    case "<=":
+      return a <= b;
+    case ">=":
+      return a >= b;
+    default:
+      throw new LiquidSyntaxError(`Unknown operator '${op}'`);
+  }
+}
+
+function check(condition: Condition, ctx: Context): boolean {
+  switch (condition.type) {
+    case "compare": {
+      const left = evaluate(condition.left, ctx);
+      if (condition.op === undefined || condition.right === undefined) return isTruthy(left);
+      return compare(left, condition.op, evaluate(condition.right, ctx));
+    }
+    case "and":
+      return check(condition.left, ctx) && check(condition.right, ctx);
+    case "or":
+      return check(condition.left, ctx) || check(condition.right, ctx);
+    case "not":
+      return !check(condition.condition, ctx);
+  }
+}
+
+function renderFor(node: Extract<Node, { type: "for" }>, ctx: Context, out: string[]): void {
+  let items = toArray(evaluate(node.collection, ctx));
+  const offset = node.offset ? Math.trunc(toNumber(evaluate(node.offset, ctx))) : 0;
+  const limit = node.limit ? Math.trunc(toNumber(evaluate(node.limit, ctx))) : undefined;
+  items = items.slice(offset, limit === undefined ? undefined : offset + limit);
+  if (node.reversed) items = items.reverse();
+
+  if (items.length === 0) {
+    renderNodes(node.otherwise, ctx, out);
+    return;
+  }
+
+  const length = items.length;
+  const scope: Scope = {};
+  ctx.push(scope);
+  try {
+    for (const [index, item] of items.entries()) {
+      Object.assign(scope, {
+        [node.variable]: item,
+        forloop: {
+          index: index + 1,
+          index0: index,
+          rindex: length - index,
+          rindex0: length - index - 1,
+          first: index === 0,
+          last: index === length - 1,
+          length,
+        },
+      });
+      try {
+        renderNodes(node.body, ctx, out);
+      } catch (e) {
+        if (!(e instanceof LoopSignal)) throw e;
+        if (e.kind === "break") break;
+      }
+    }
+  } finally {
+    ctx.pop();
+  }
+}
+
+function renderNodes(nodes: Node[], ctx: Context, out: string[]): void {
+  for (const node of nodes) {
+    switch (node.type) {
+      case "text":
+        out.push(node.value);
+        break;
+      case "output":
+        out.push(toText(evaluateFiltered(node.value, ctx)));
+        break;
+      case "assign":
+        ctx.set(node.name, evaluateFiltered(node.value, ctx));
+        break;
+      case "capture": {
+        const captured: string[] = [];
+        renderNodes(node.body, ctx, captured);
+        ctx.set(node.name, captured.join(""));
+        break;
+      }
+      case "if": {
+        const branch = node.branches.find((b) => check(b.condition, ctx));
+        renderNodes(branch ? branch.body : node.otherwise, ctx, out);
+        break;
+      }
+      case "case": {
+        const subject = evaluate(node.subject, ctx);
+        const match = node.whens.find((w) =>
+          w.values.some((v) => equals(subject, evaluate(v, ctx)))
+        );
+        renderNodes(match ? match.body : node.otherwise, ctx, out);
+        break;
+      }
+      case "for":
+        renderFor(node, ctx, out);
+        break;
+      case "break":
+      case "continue":
+        throw new LoopSignal(node.type);
+      case "partial": {
+        const args: Scope = {};
+        for (const [key, expr] of node.args) args[key] = evaluate(expr, ctx);
+        if (node.isolated) {
+          renderNodes(node.template, new Context([args]), out);
+        } else {
+          ctx.push(args);
+          try {
+            renderNodes(node.template, ctx, out);
+          } finally {
+            ctx.pop();
+          }
+        }
+        break;
+      }
+    }
+  }
+}
+
+/**
+ * Render a parsed template.
+ *
+ * @param template Result of parseTemplate()
+ * @param data Template variables
+ * @returns Rendered output
+ */
+export function renderTemplate(template: Template, data: Record<string, unknown>): string {
+  const out: string[] = [];
+  renderNodes(template.nodes, new Context([{ ...data }]), out);
+  return out.join("");
+}
+
+// ============================================================================
+// Filters
+// ============================================================================
+
+type Filter = (input: unknown, ...args: unknown[]) => unknown;
+
+function toText(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "string") return value;
+  if (Array.isArray(value)) return value.map(toText).join("");
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function toNumber(value: unknown): number {
+  if (typeof value === "number") return value;
+  if (typeof value === "string") {
+    const parsed = Number.parseFloat(value);
+    return Number.isNaN(parsed) ? 0 : parsed;
+  }
+  return 0;
+}
+
+function toArray(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  if (value === null || value === undefined) return [];
+  return [value];
+}
+
+function propertyOf(item: unknown, key: unknown): unknown {
+  return isObject(item) ? (item[toText(key)] ?? null) : null;
+}
+
+function sortValues(a: unknown, b: unknown): number {
+  if (a === null || a === undefined) return b === null || b === undefined ? 0 : 1;
+  if (b === null || b === undefined) return -1;
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  const [x, y] = [toText(a), toText(b)];
+  return x < y ? -1 : x > y ? 1 : 0;
+}
+
+const HTML_ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+function escapeHtml(value: string, pattern: RegExp): string {
+  return value.replace(pattern, (char) => HTML_ESCAPES[char] ?? char);
+}
+
+function roundTo(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Supported filters.
+ * Deliberately incomplete: missing filters exercise the harness's
+ * unsupported-scenario handling.
+ */
+const FILTERS = new Map<string, Filter>([
+  // Strings
+  ["upcase", (input) => toText(input).toUpperCase()],
+  ["downcase", (input) => toText(input).toLowerCase()],
+  [
+    "capitalize",
+    (input) => {
+      const s = toText(input);
+      return s.charAt(0).toUpperCase() + s.slice(1).toLowerCase();
+    },
+  ],
+  ["append", (input, suffix) => toText(input) + toText(suffix)],
+  ["prepend", (input, prefix) => toText(prefix) + toText(input)],
+  ["strip", (input) => toText(input).trim()],
+  ["lstrip", (input) => toText(input).trimStart()],
+  ["rstrip", (input) => toText(input).trimEnd()],
+  ["strip_newlines", (input) => toText(input).replace(/\r?\n/g, "")],
+  ["newline_to_br", (input) => toText(input).replace(/\r?\n/g, "<br />\n")],
+  [
+    "strip_html",
+    (input) =>
+      toText(input)
+        .replace(/<script[\s\S]*?<\/script>|<style[\s\S]*?<\/style>|<!--[\s\S]*?-->/g, "")
+        .replace(/<[\s\S]*?>/g, ""),
+  ],
+  ["escape", (input) => escapeHtml(toText(input), /[&<>"']/g)],
+  ["escape_once", (input) => escapeHtml(toText(input), /[<>"']|&(?!(?:[a-zA-Z]+|#\d+);)/g)],
+  ["url_encode", (input) => encodeURIComponent(toText(input)).replace(/%20/g, "+")],
+  ["replace", (input, from, to) => toText(input).replaceAll(toText(from), toText(to))],
+  ["replace_first", (input, from, to) => toText(input).replace(toText(from), toText(to))],
+  ["remove", (input, part) => toText(input).replaceAll(toText(part), "")],
+  ["remove_first", (input, part) => toText(input).replace(toText(part), "")],
+  [
+    "truncate",
+    (input, length = 50, ellipsis = "...") => {
+      const s = toText(input);
+      const max = Math.trunc(toNumber(length));
+      if (s.length <= max) return s;
+      const suffix = toText(ellipsis);
+      return s.slice(0, Math.max(0, max - suffix.length)) + suffix;
+    },
+  ],
+  [
+    "truncatewords",
+    (input, count = 15, ellipsis = "...") => {
+      const words = toText(input).split(/\s+/).filter(Boolean);
+      const max = Math.max(1, Math.trunc(toNumber(count)));
+      if (words.length <= max) return toText(input);
+      return words.slice(0, max).join(" ") + toText(ellipsis);
+    },
+  ],
+  [
+    "split",
+    (input, separator) => {
+      const parts = toText(input).split(toText(separator));
+      while (parts.length > 0 && parts.at(-1) === "") parts.pop();
+      return parts;
+    },
+  ],
+  [
+    "slice",
+    (input, start, length = 1) => {
+      const source = Array.isArray(input) ? input : toText(input);
+      let from = Math.trunc(toNumber(start));
+      if (from < 0) from += source.length;
+      return source.slice(from, from + Math.trunc(toNumber(length)));
+    },
+  ],
+
+  // Numbers
+  ["plus", (input, n) => toNumber(input) + toNumber(n)],
+  ["minus", (input, n) => toNumber(input) - toNumber(n)],
+  ["times", (input, n) => toNumber(input) * toNumber(n)],
+  [
+    "divided_by",
+    (input, n) => {
+      const [a, b] = [toNumber(input), toNumber(n)];
+      if (b === 0) throw new Error("Liquid error: divided by 0");
+      return Number.isInteger(a) && Number.isInteger(b) ? Math.floor(a / b) : a / b;
+    },
+  ],
+  ["modulo", (input, n) => toNumber(input) % toNumber(n)],
+  ["abs", (input) => Math.abs(toNumber(input))],
+  ["ceil", (input) => Math.ceil(toNumber(input))],
+  ["floor", (input) => Math.floor(toNumber(input))],
+  ["round", (input, digits = 0) => roundTo(toNumber(input), Math.trunc(toNumber(digits)))],
+
+  // Arrays
+  ["size", (input) => property(input, "size") ?? 0],
+  ["first", (input) => (typeof input === "string" ? input.charAt(0) : property(input, "first"))],
+  ["last", (input) => (typeof input === "string" ? input.slice(-1) : property(input, "last"))],
+  ["join", (input, separator = " ") => toArray(input).map(toText).join(toText(separator))],
+  ["reverse", (input) => [...toArray(input)].reverse()],
+  ["concat", (input, other) => [...toArray(input), ...toArray(other)]],
+  ["map", (input, key) => toArray(input).map((item) => propertyOf(item, key))],
+  [
+    "compact",
+    (input, key) =>
+      toArray(input).filter((item) => (key === undefined ? item : propertyOf(item, key)) != null),
+  ],
+  [
+    "uniq",
+    (input, key) => {
+      const seen = new Set<string>();
+      return toArray(input).filter((item) => {
+        const id = JSON.stringify(key === undefined ? item : propertyOf(item, key)) ?? "";
+        if (seen.has(id)) return false;
+        seen.add(id);
+        return true;
+      });
+    },
+  ],
+  [
+    "sort",
+    (input, key) =>
+      [...toArray(input)].sort((a, b) =>
+        key === undefined ? sortValues(a, b) : sortValues(propertyOf(a, key), propertyOf(b, key))
+      ),
+  ],
+  [
+    "sort_natural",
+    (input, key) =>
+      [...toArray(input)].sort((a, b) => {
+        const [x, y] = key === undefined ? [a, b] : [propertyOf(a, key), propertyOf(b, key)];
+        return sortValues(toText(x).toLowerCase(), toText(y).toLowerCase());
+      }),
+  ],
+  [
+    "where",
+    (input, key, ...rest) =>
+      toArray(input).filter((item) =>
+        rest.length === 0 ? isTruthy(propertyOf(item, key)) : equals(propertyOf(item, key), rest[0])
+      ),
+  ],
+
+  // Misc
+  ["default", (input, fallback) => (isTruthy(input) && !isEmpty(input) ? input : fallback)],
+  ["json", (input) => JSON.stringify(input ?? null)],
+]);
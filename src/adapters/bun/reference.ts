@@ -0,0 +1,301 @@
+/**
+ * Reference Adapter
+ *
+ * Deterministic stand-in adapter for testing the harness without PHP or Ruby.
+ * Renders a Liquid subset (see liquid.ts) and reports synthetic timings
+ * drawn from a seeded RNG, so the same input always yields the same output.
+ * Peak memory is synthetic too: a fixed base plus a cost per byte of
+ * template (parse) or rendered output (render).
+ * A time budget is spent in synthetic time: measuring stops at the
+ * iteration where the samples (times the batch size) add up to it.
+ *
+ * Configuration (environment, usually via "env" in leb.config.json):
+ *   LEB_REF_SEED              RNG seed (default: 1)
+ *   LEB_REF_PARSE_MS          Mean parse time in ms (default: 0.05)
+ *   LEB_REF_RENDER_MS         Mean render time in ms (default: 0.2)
+ *   LEB_REF_RENDER_MS_PER_KB  Extra render time per KB of output (default: 0.01)
+ *   LEB_REF_JITTER            Relative standard deviation of timings (default: 0.05)
+ *   LEB_REF_TIMER_OVERHEAD_MS Reported timer overhead in ms (default: 0.0001)
+ *   LEB_REF_WARMUP            Iterations of the process (warmup included) until
+ *                             steady state: the first is 3× slower, decaying
+ *                             linearly (default: 0, steady from the start)
+ *
+ * Fault injection:
+ *   LEB_REF_FAULT             crash | timeout | malformed | error
+ *   LEB_REF_FAULT_MATCH       Only inject when the template contains this text
+ *   LEB_REF_FAULT_AT          Inject after this many measured iterations were
+ *                             reported as progress (default: 0, before parsing)
+ *   LEB_REF_FAULT_SPARE       Path of a marker file: the first process to find
+ *                             it missing creates it and runs without faults
+ *                             (to fail a later fork only)
+ *
+ * Protocol (to exercise the handshake):
+ *   LEB_REF_PROTOCOL          Announced protocol version (default: bootstrap's;
+ *                             0: ignore handshakes and LEB_WORKER like a
+ *                             legacy adapter)
+ *   LEB_REF_CAPABILITIES      Comma-separated capabilities
+ *                             (default: memory,progress,worker_mode,cold_start,batching,
+ *                             time_budget)
+ */
+
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { createRng } from "../../lib/stats/bootstrap";
+import {
+  type Capability,
+  type Input,
+  type Output,
+  PROTOCOL_VERSION,
+  serve,
+  writeProgress,
+} from "./bootstrap";
+import { parseTemplate, renderTemplate } from "./liquid";
+
+const LIBRARY = "leb/reference";
+const VERSION = "1.0.0";
+
+/** Synthetic heap baseline and per-byte costs for memory reporting */
+const BASE_BYTES = 1 << 20;
+const PARSE_BYTES_PER_CHAR = 64;
+const RENDER_BYTES_PER_CHAR = 4;
+
+const PARTIALS_DIR = join(import.meta.dir, "../../../scenarios/partials");
+
+/**
+ * Read a numeric setting from the environment.
+ */
+function envNumber(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") return fallback;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) {
+    console.error(`Error: ${name} must be a non-negative number, got "${raw}"`);
+    process.exit(1);
+  }
+  return value;
+}
+
+const {
+  LEB_REF_FAULT = "",
+  LEB_REF_FAULT_MATCH = "",
+  LEB_REF_FAULT_SPARE = "",
+  LEB_REF_CAPABILITIES = "memory,progress,worker_mode,cold_start,batching,time_budget",
+} = process.env;
+
+const SETTINGS = {
+  seed: envNumber("LEB_REF_SEED", 1),
+  parseMs: envNumber("LEB_REF_PARSE_MS", 0.05),
+  renderMs: envNumber("LEB_REF_RENDER_MS", 0.2),
+  renderMsPerKb: envNumber("LEB_REF_RENDER_MS_PER_KB", 0.01),
+  jitter: envNumber("LEB_REF_JITTER", 0.05),
+  timerOverheadMs: envNumber("LEB_REF_TIMER_OVERHEAD_MS", 0.0001),
+  warmup: envNumber("LEB_REF_WARMUP", 0),
+  faultAt: envNumber("LEB_REF_FAULT_AT", 0),
+  fault: LEB_REF_FAULT,
+  faultMatch: LEB_REF_FAULT_MATCH,
+  faultSpare: LEB_REF_FAULT_SPARE,
+  protocolVersion: envNumber("LEB_REF_PROTOCOL", PROTOCOL_VERSION),
+  capabilities: LEB_REF_CAPABILITIES.split(",").filter((c) => c !== "") as Capability[],
+};
+
+/**
+ * FNV-1a hash, so each template gets its own timing stream.
+ */
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h = Math.imul(h ^ text.charCodeAt(i), 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Draw `count` samples around `mean` with relative jitter (Box-Muller).
+ * A sample of a batch is the mean of `batchSize` calls, so its jitter
+ * shrinks by the square root of the batch size.
+ */
+function samples(rng: () => number, count: number, mean: number, batchSize = 1): number[] {
+  const jitter = SETTINGS.jitter / Math.sqrt(batchSize);
+  return Array.from({ length: count }, () => {
+    const u = 1 - rng();
+    const v = rng();
+    const gaussian = Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+    return Math.max(0, mean * (1 + jitter * gaussian));
+  });
+}
+
+/**
+ * Iterations run by this process so far, warmup included (for LEB_REF_WARMUP).
+ */
+let executed = 0;
+
+/**
+ * Slow down samples of iterations before steady state.
+ *
+ * @param values Samples of consecutive iterations
+ * @param first Iteration of the process the first sample belongs to
+ */
+function warmingUp(values: number[], first: number): number[] {
+  const { warmup } = SETTINGS;
+  return values.map((value, i) => {
+    const n = first + i;
+    return n < warmup ? value * (1 + (2 * (warmup - n)) / warmup) : value;
+  });
+}
+
+/**
+ * Measured iterations that fit in a time budget: up to and including the
+ * one whose synthetic time exhausts it.
+ */
+function iterationsWithin(
+  parseMs: number[],
+  renderMs: number[],
+  budgetMs: number,
+  batchSize: number
+): number {
+  let spent = 0;
+  for (let i = 0; i < parseMs.length; i++) {
+    spent += ((parseMs[i] ?? 0) + (renderMs[i] ?? 0)) * batchSize;
+    if (spent >= budgetMs) return i + 1;
+  }
+  return parseMs.length;
+}
+
+/**
+ * Whether LEB_REF_FAULT_SPARE spares this process (decided on the first fault check).
+ */
+let spared: boolean | undefined;
+
+function isSpared(): boolean {
+  if (spared === undefined) {
+    spared = SETTINGS.faultSpare !== "" && !existsSync(SETTINGS.faultSpare);
+    if (spared) writeFileSync(SETTINGS.faultSpare, "");
+  }
+  return spared;
+}
+
+/**
+ * Apply the configured fault, if any, to this job.
+ */
+async function injectFault(template: string): Promise<void> {
+  if (SETTINGS.fault === "" || !template.includes(SETTINGS.faultMatch) || isSpared()) return;
+
+  if (SETTINGS.fault === "crash") {
+    console.error("Fatal: injected crash");
+    // Let progress already written reach the harness, like a synchronous runtime would
+    await new Promise<void>((resolve) => process.stdout.write("", () => resolve()));
+    process.exit(70);
+  }
+  if (SETTINGS.fault === "timeout") {
+    // Keep the event loop alive and never answer
+    setInterval(() => {}, 1 << 30);
+    await new Promise(() => {});
+  }
+  if (SETTINGS.fault === "malformed") {
+    // Truncated document, then exit as if the process died mid-write
+    process.stdout.write('{"library": "leb/reference", "timings": [\n');
+    process.exit(0);
+  }
+  if (SETTINGS.fault === "error") {
+    throw new Error("Injected failure");
+  }
+  throw new Error(`Unknown LEB_REF_FAULT: ${SETTINGS.fault}`);
+}
+
+function loadPartial(name: string): string | null {
+  try {
+    return readFileSync(join(PARTIALS_DIR, `${name}.liquid`), "utf-8");
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Stream the synthetic measurements as progress records, one batch per
+ * progress_interval iterations. A fault set with LEB_REF_FAULT_AT fires at
+ * the first batch boundary at or after that iteration.
+ */
+async function streamProgress(input: Input, output: Output): Promise<void> {
+  const total = input.iterations;
+  const measured = output.timings.parse_ms.length;
+  const interval = input.progress_interval ?? 0;
+  if (interval <= 0) return;
+
+  writeProgress({ completed: 0, total });
+  for (let done = 0; done < measured; ) {
+    if (SETTINGS.faultAt > 0 && done >= SETTINGS.faultAt) {
+      await injectFault(input.template);
+    }
+
+    const end = Math.min(measured, done + interval);
+    const slice = (values: number[]) => values.slice(done, end);
+    writeProgress({
+      completed: end,
+      total,
+      timings: {
+        parse_ms: slice(output.timings.parse_ms),
+        render_ms: slice(output.timings.render_ms),
+      },
+      ...(output.memory && {
+        memory: {
+          parse_peak_bytes: slice(output.memory.parse_peak_bytes),
+          render_peak_bytes: slice(output.memory.render_peak_bytes),
+        },
+      }),
+    });
+    done = end;
+  }
+}
+
+await serve(
+  async (input: Input): Promise<Output> => {
+    if (SETTINGS.faultAt === 0) {
+      await injectFault(input.template);
+    }
+
+    const template = parseTemplate(input.template, loadPartial);
+    const rendered = renderTemplate(template, input.data);
+
+    const rng = createRng(SETTINGS.seed ^ hash(input.template));
+    const renderMean = SETTINGS.renderMs + (rendered.length / 1024) * SETTINGS.renderMsPerKb;
+    const batchSize = input.batch_size ?? 1;
+
+    const first = executed + input.warmup;
+    let parseMs = warmingUp(samples(rng, input.iterations, SETTINGS.parseMs, batchSize), first);
+    let renderMs = warmingUp(samples(rng, input.iterations, renderMean, batchSize), first);
+    if (input.time_budget_ms !== undefined) {
+      const measured = iterationsWithin(parseMs, renderMs, input.time_budget_ms, batchSize);
+      parseMs = parseMs.slice(0, measured);
+      renderMs = renderMs.slice(0, measured);
+    }
+    executed = first + parseMs.length;
+
+    const output: Output = {
+      library: LIBRARY,
+      version: VERSION,
+      lang: "javascript",
+      runtime_version: Bun.version,
+      timings: {
+        parse_ms: parseMs,
+        render_ms: renderMs,
+      },
+      memory: {
+        parse_peak_bytes: Array(parseMs.length).fill(
+          BASE_BYTES + input.template.length * PARSE_BYTES_PER_CHAR
+        ),
+        render_peak_bytes: Array(parseMs.length).fill(
+          BASE_BYTES + rendered.length * RENDER_BYTES_PER_CHAR
+        ),
+      },
+      rendered_output: rendered,
+    };
+
+    await streamProgress(input, output);
+    return output;
+  },
+  {
+    capabilities: SETTINGS.capabilities,
+    protocolVersion: SETTINGS.protocolVersion,
+    timerOverheadMs: SETTINGS.timerOverheadMs,
+  }
+);
@@ -9,6 +9,11 @@
 
 declare(strict_types=1);
 
+/**
+ * Interpreter up: when this bootstrap started executing (Unix epoch ms).
+ */
+define('INTERPRETER_AT_MS', microtime(true) * 1000);
+
 // Force error output to stderr for debugging
 // This must come before any requires to capture autoload/class errors
 ini_set('display_errors', '1');
@@ -23,12 +28,124 @@ if (php_sapi_name() !== 'cli') {
 }
 
 /**
- * Read JSON input from stdin.
- * Validates required fields: template, data, iterations, warmup.
+ * Environment variable that enables persistent worker mode.
+ * Set by the harness (src/lib/adapter/worker.ts).
+ */
+const WORKER_ENV = 'LEB_WORKER';
+
+/**
+ * Protocol version implemented by this bootstrap.
+ * Must match PROTOCOL_VERSION in src/lib/adapter/protocol.ts.
+ */
+const PROTOCOL_VERSION = 1;
+
+/**
+ * Empty measureTime() calls timed to calibrate the timer overhead.
+ */
+const TIMER_CALIBRATION_RUNS = 1000;
+
+/**
+ * Input fields this bootstrap understands; any other field is rejected.
+ */
+const INPUT_FIELDS = [
+    'template',
+    'data',
+    'iterations',
+    'warmup',
+    'protocol_version',
+    'progress_interval',
+    'cold_start',
+    'batch_size',
+    'time_budget_ms',
+];
+
+/**
+ * Environment variable pointing at an additional library version's
+ * dependency directory (.generated/deps/{name}@{version}).
+ * Set by the harness (src/lib/adapter/registry.ts).
+ */
+const DEPS_DIR_ENV = 'LEB_DEPS_DIR';
+
+/**
+ * Directory holding vendor/ and composer.lock for this adapter.
+ * Defaults to the project root (the library's main version).
+ */
+function depsDir(): string
+{
+    $dir = getenv(DEPS_DIR_ENV);
+    return $dir !== false && $dir !== '' ? $dir : dirname(__DIR__, 3);
+}
+
+/**
+ * Parse one JSON message (job or handshake).
+ *
+ * @throws InvalidArgumentException If the JSON is invalid or not an object
+ */
+function decodeMessage(string $input): array
+{
+    $decoded = json_decode($input, true);
+
+    if (json_last_error() !== JSON_ERROR_NONE) {
+        throw new InvalidArgumentException('Invalid JSON input: ' . json_last_error_msg());
+    }
+
+    if (!is_array($decoded)) {
+        throw new InvalidArgumentException('Invalid JSON input: expected an object');
+    }
+
+    return $decoded;
+}
+
+/**
+ * Validate a decoded job.
+ * Requires template, data, iterations and warmup; rejects fields and
+ * protocol versions this bootstrap does not know.
  *
  * @return array{template: string, data: array, iterations: int, warmup: int}
+ * @throws InvalidArgumentException If a field is missing or unknown
  */
-function readInput(): array
+function validateInput(array $decoded): array
+{
+    // Validate required fields
+    $required = ['template', 'data', 'iterations', 'warmup'];
+    foreach ($required as $field) {
+        if (!array_key_exists($field, $decoded)) {
+            throw new InvalidArgumentException("Missing required field: {$field}");
+        }
+    }
+
+    foreach (array_keys($decoded) as $field) {
+        if (!in_array($field, INPUT_FIELDS, true)) {
+            throw new InvalidArgumentException("Unknown input field: {$field}");
+        }
+    }
+
+    $version = $decoded['protocol_version'] ?? null;
+    if (is_int($version) && $version > PROTOCOL_VERSION) {
+        throw new InvalidArgumentException(
+            "Unsupported protocol_version {$version} (adapter speaks " . PROTOCOL_VERSION . ')'
+        );
+    }
+
+    return $decoded;
+}
+
+/**
+ * Decode and validate a single JSON job.
+ *
+ * @return array{template: string, data: array, iterations: int, warmup: int}
+ * @throws InvalidArgumentException If the JSON is invalid, or a field is missing or unknown
+ */
+function decodeInput(string $input): array
+{
+    return validateInput(decodeMessage($input));
+}
+
+/**
+ * Read one JSON message from stdin.
+ * Exits with an error if stdin is empty or not a JSON object.
+ */
+function readMessage(): array
 {
     $input = file_get_contents('php://stdin');
 
@@ -37,23 +154,110 @@ function readInput(): array
         exit(1);
     }
 
-    $decoded = json_decode($input, true);
+    try {
+        return decodeMessage($input);
+    } catch (InvalidArgumentException $e) {
+        fwrite(STDERR, "Error: {$e->getMessage()}\n");
+        exit(1);
+    }
+}
 
-    if (json_last_error() !== JSON_ERROR_NONE) {
-        fwrite(STDERR, "Error: Invalid JSON input: " . json_last_error_msg() . "\n");
+/**
+ * Read JSON input from stdin.
+ * Validates required fields: template, data, iterations, warmup.
+ *
+ * @param array|null $message Already decoded message (default: read stdin)
+ * @return array{template: string, data: array, iterations: int, warmup: int}
+ */
+function readInput(?array $message = null): array
+{
+    try {
+        return validateInput($message ?? readMessage());
+    } catch (InvalidArgumentException $e) {
+        fwrite(STDERR, "Error: {$e->getMessage()}\n");
         exit(1);
     }
+}
 
-    // Validate required fields
-    $required = ['template', 'data', 'iterations', 'warmup'];
-    foreach ($required as $field) {
-        if (!array_key_exists($field, $decoded)) {
-            fwrite(STDERR, "Error: Missing required field: {$field}\n");
-            exit(1);
+/**
+ * Answer a handshake message.
+ *
+ * @param string[] $capabilities Capabilities the adapter implements
+ * @return bool True if the message was a handshake (and has been answered)
+ */
+function answerHandshake(array $message, array $capabilities): bool
+{
+    if (!array_key_exists('handshake', $message)) {
+        return false;
+    }
+
+    writeOutput(['handshake' => ['protocol_version' => PROTOCOL_VERSION, 'capabilities' => $capabilities]]);
+    return true;
+}
+
+/**
+ * Add boot timestamps to the output of a cold-start job.
+ *
+ * @param float $libraryAtMs When the adapter entered serve() (epoch ms)
+ */
+function withBoot(array $output, array $input, float $libraryAtMs): array
+{
+    if (($input['cold_start'] ?? false) !== true) {
+        return $output;
+    }
+
+    $output['boot'] = ['interpreter_at_ms' => INTERPRETER_AT_MS, 'library_at_ms' => $libraryAtMs];
+    return $output;
+}
+
+/**
+ * Serve benchmark jobs.
+ *
+ * One-shot mode (default): reads one job from stdin, writes one result.
+ * Worker mode (LEB_WORKER=1): reads one job per line until stdin closes,
+ * writing one result line per job. Job failures are reported as
+ * {"error": "..."} so the process can keep serving.
+ * In both modes a {"handshake": ...} message is answered with the
+ * protocol version and capabilities instead of running a job.
+ * Entering serve() marks the library as loaded for cold-start jobs; the
+ * timer is then calibrated once and its overhead reported with every output.
+ *
+ * @param callable(array): array $handler Runs one job and returns the output array
+ * @param string[] $capabilities Capabilities announced in the handshake
+ */
+function serve(callable $handler, array $capabilities): void
+{
+    $libraryAtMs = microtime(true) * 1000;
+    $timerOverheadMs = calibrateTimer();
+
+    if (getenv(WORKER_ENV) !== '1') {
+        $message = readMessage();
+        if (!answerHandshake($message, $capabilities)) {
+            $input = readInput($message);
+            $output = withBoot($handler($input), $input, $libraryAtMs);
+            writeOutput($output + ['timer_overhead_ms' => $timerOverheadMs]);
         }
+        return;
     }
 
-    return $decoded;
+    while (($line = fgets(STDIN)) !== false) {
+        $line = trim($line);
+        if ($line === '') {
+            continue;
+        }
+
+        try {
+            $message = decodeMessage($line);
+            if (!answerHandshake($message, $capabilities)) {
+                $input = validateInput($message);
+                $output = withBoot($handler($input), $input, $libraryAtMs);
+                writeOutput($output + ['timer_overhead_ms' => $timerOverheadMs]);
+            }
+        } catch (Throwable $e) {
+            fwrite(STDERR, get_class($e) . ": {$e->getMessage()}\n");
+            writeOutput(['error' => get_class($e) . ": {$e->getMessage()}"]);
+        }
+    }
 }
 
 /**
@@ -66,12 +270,32 @@ function readInput(): array
  *   lang: string,
  *   runtime_version: string,
  *   timings: array{parse_ms: float[], render_ms: float[]},
+ *   memory?: array{parse_peak_bytes: int[], render_peak_bytes: int[]},
+ *   boot?: array{interpreter_at_ms: float, library_at_ms: float},
+ *   timer_overhead_ms?: float,
  *   rendered_output: string
  * } $output
  */
 function writeOutput(array $output): void
 {
-    echo json_encode($output, JSON_UNESCAPED_UNICODE | JSON_UNESCAPED_SLASHES);
+    // One document per line (required by worker mode, harmless otherwise)
+    echo json_encode($output, JSON_UNESCAPED_UNICODE | JSON_UNESCAPED_SLASHES) . "\n";
+}
+
+/**
+ * Write a progress record to stdout (one line, ahead of the output).
+ * Timings and memory cover only the iterations since the previous record.
+ *
+ * @param array{
+ *   completed: int,
+ *   total: int,
+ *   timings?: array{parse_ms: float[], render_ms: float[]},
+ *   memory?: array{parse_peak_bytes: int[], render_peak_bytes: int[]}
+ * } $progress
+ */
+function writeProgress(array $progress): void
+{
+    echo json_encode(['progress' => $progress], JSON_UNESCAPED_UNICODE | JSON_UNESCAPED_SLASHES) . "\n";
 }
 
 /**
@@ -95,24 +319,100 @@ function measureTime(callable $fn): array
     ];
 }
 
+/**
+ * Calibrate the timer: median time of an empty measureTime() call.
+ * Part of every sample, so the harness can subtract it and flag phases
+ * too short for the timer to resolve.
+ *
+ * @return float Timer overhead in milliseconds
+ */
+function calibrateTimer(): float
+{
+    $samples = [];
+    for ($i = 0; $i < TIMER_CALIBRATION_RUNS; $i++) {
+        $samples[] = measureTime(static fn() => null)['time_ms'];
+    }
+    sort($samples);
+
+    return $samples[intdiv(count($samples), 2)];
+}
+
+/**
+ * Measure execution time and peak memory of a phase.
+ *
+ * Resets the engine peak first (PHP 8.2+), so the reading is the peak of
+ * allocated memory while $fn ran. Older versions report the process-wide peak.
+ *
+ * @param callable $fn Function to measure
+ * @return array{result: mixed, time_ms: float, peak_bytes: int}
+ */
+function measurePhase(callable $fn): array
+{
+    if (function_exists('memory_reset_peak_usage')) {
+        memory_reset_peak_usage();
+    }
+
+    $measured = measureTime($fn);
+    $measured['peak_bytes'] = memory_get_peak_usage();
+
+    return $measured;
+}
+
+/**
+ * Call a function several times in a row.
+ *
+ * @param callable $fn Function to call
+ * @param int $times Number of calls
+ * @return mixed Result of the last call
+ */
+function repeatCall(callable $fn, int $times): mixed
+{
+    $result = null;
+    for ($i = 0; $i < $times; $i++) {
+        $result = $fn();
+    }
+
+    return $result;
+}
+
 /**
  * Run benchmark iterations.
  * Executes warmup runs (discarded) followed by measured iterations.
+ * With a progress interval, streams a progress record after warmup and
+ * after every $progressInterval iterations.
+ * With a batch size, each iteration times $batchSize consecutive calls of
+ * a phase and records the per-call time; peaks cover the whole batch.
+ * With a time budget, stops after the iteration that exhausts it, so
+ * fewer than $iterations may be measured (at least one).
  *
  * @param callable $parseFn Function that parses template
  * @param callable $renderFn Function that renders template (receives parse result)
  * @param int $iterations Number of measured iterations
  * @param int $warmup Number of warmup iterations
- * @return array{parse_ms: float[], render_ms: float[], rendered_output: string}
+ * @param int $progressInterval Iterations per progress record (0: none)
+ * @param int $batchSize Calls timed together per iteration
+ * @param float $timeBudgetMs Time for measured iterations in milliseconds (0: unlimited)
+ * @return array{
+ *   parse_ms: float[],
+ *   render_ms: float[],
+ *   parse_peak_bytes: int[],
+ *   render_peak_bytes: int[],
+ *   rendered_output: string
+ * }
  */
 function runBenchmark(
     callable $parseFn,
     callable $renderFn,
     int $iterations,
-    int $warmup
+    int $warmup,
+    int $progressInterval = 0,
+    int $batchSize = 1,
+    float $timeBudgetMs = 0
 ): array {
     $parseTimings = [];
     $renderTimings = [];
+    $parsePeaks = [];
+    $renderPeaks = [];
     $lastRenderedOutput = '';
 
     // Warmup runs (results discarded)
@@ -121,23 +421,56 @@ function runBenchmark(
         $renderFn($parseResult);
     }
 
+    if ($progressInterval > 0) {
+        writeProgress(['completed' => 0, 'total' => $iterations]);
+    }
+    $reported = 0;
+    $deadline = $timeBudgetMs > 0 ? hrtime(true) + (int) ($timeBudgetMs * 1_000_000) : null;
+
     // Measured iterations
     for ($i = 0; $i < $iterations; $i++) {
         // Measure parse
-        $parseData = measureTime($parseFn);
-        $parseTimings[] = $parseData['time_ms'];
+        $parseData = measurePhase(fn() => repeatCall($parseFn, $batchSize));
+        $parseTimings[] = $parseData['time_ms'] / $batchSize;
+        $parsePeaks[] = $parseData['peak_bytes'];
 
         // Measure render
-        $renderData = measureTime(fn() => $renderFn($parseData['result']));
-        $renderTimings[] = $renderData['time_ms'];
+        $parsed = $parseData['result'];
+        $renderData = measurePhase(fn() => repeatCall(fn() => $renderFn($parsed), $batchSize));
+        $renderTimings[] = $renderData['time_ms'] / $batchSize;
+        $renderPeaks[] = $renderData['peak_bytes'];
 
         // Keep the last rendered output for snapshot testing
         $lastRenderedOutput = $renderData['result'];
+
+        $completed = $i + 1;
+        $outOfTime = $deadline !== null && hrtime(true) >= $deadline;
+        $last = $completed === $iterations || $outOfTime;
+        if ($progressInterval > 0 && ($completed % $progressInterval === 0 || $last)) {
+            writeProgress([
+                'completed' => $completed,
+                'total' => $iterations,
+                'timings' => [
+                    'parse_ms' => array_slice($parseTimings, $reported),
+                    'render_ms' => array_slice($renderTimings, $reported),
+                ],
+                'memory' => [
+                    'parse_peak_bytes' => array_slice($parsePeaks, $reported),
+                    'render_peak_bytes' => array_slice($renderPeaks, $reported),
+                ],
+            ]);
+            $reported = $completed;
+        }
+        if ($outOfTime) {
+            break;
+        }
     }
 
     return [
         'parse_ms' => $parseTimings,
         'render_ms' => $renderTimings,
+        'parse_peak_bytes' => $parsePeaks,
+        'render_peak_bytes' => $renderPeaks,
         'rendered_output' => $lastRenderedOutput,
     ];
 }
@@ -10,19 +10,12 @@
 declare(strict_types=1);
 
 require_once __DIR__ . '/bootstrap.php';
-require_once __DIR__ . '/../../../vendor/autoload.php';
+require_once depsDir() . '/vendor/autoload.php';
 
 use Liquid\Template;
 use Liquid\FileSystem\Local as LocalFileSystem;
 use Liquid\Liquid;
 
-// Read input from stdin
-$input = readInput();
-$templateSource = $input['template'];
-$data = $input['data'];
-$iterations = (int) $input['iterations'];
-$warmup = (int) $input['warmup'];
-
 // Partials directory for include/render tags
 $partialsPath = __DIR__ . '/../../../scenarios/partials';
 
@@ -30,27 +23,9 @@ $partialsPath = __DIR__ . '/../../../scenarios/partials';
 // Default is '_' which would look for '_product-card.liquid' instead of 'product-card.liquid'
 Liquid::set('INCLUDE_PREFIX', '');
 
-// Create FileSystem loader for partials
-$fileSystem = new LocalFileSystem($partialsPath);
-
-// Run benchmark
-$benchmarkResult = runBenchmark(
-    parseFn: function () use ($templateSource, $fileSystem): Template {
-        $template = new Template();
-        $template->setFileSystem($fileSystem);
-        $template->parse($templateSource);
-        return $template;
-    },
-    renderFn: function (Template $template) use ($data): string {
-        return $template->render($data);
-    },
-    iterations: $iterations,
-    warmup: $warmup
-);
-
 // Get library version from Composer
 $composerLock = json_decode(
-    file_get_contents(__DIR__ . '/../../../composer.lock'),
+    file_get_contents(depsDir() . '/composer.lock'),
     true
 );
 $version = '0.0.0';
@@ -61,15 +36,44 @@ foreach ($composerLock['packages'] ?? [] as $package) {
     }
 }
 
-// Output result
-writeOutput([
-    'library' => 'liquid/liquid',
-    'version' => $version,
-    'lang' => 'php',
-    'runtime_version' => PHP_VERSION,
-    'timings' => [
-        'parse_ms' => $benchmarkResult['parse_ms'],
-        'render_ms' => $benchmarkResult['render_ms'],
-    ],
-    'rendered_output' => $benchmarkResult['rendered_output'],
-]);
+serve(function (array $input) use ($partialsPath, $version): array {
+    $templateSource = $input['template'];
+    $data = $input['data'];
+
+    // Create FileSystem loader for partials
+    $fileSystem = new LocalFileSystem($partialsPath);
+
+    // Run benchmark
+    $benchmarkResult = runBenchmark(
+        parseFn: function () use ($templateSource, $fileSystem): Template {
+            $template = new Template();
+            $template->setFileSystem($fileSystem);
+            $template->parse($templateSource);
+            return $template;
+        },
+        renderFn: function (Template $template) use ($data): string {
+            return $template->render($data);
+        },
+        iterations: (int) $input['iterations'],
+        warmup: (int) $input['warmup'],
+        progressInterval: (int) ($input['progress_interval'] ?? 0),
+        batchSize: (int) ($input['batch_size'] ?? 1),
+        timeBudgetMs: (float) ($input['time_budget_ms'] ?? 0)
+    );
+
+    return [
+        'library' => 'liquid/liquid',
+        'version' => $version,
+        'lang' => 'php',
+        'runtime_version' => PHP_VERSION,
+        'timings' => [
+            'parse_ms' => $benchmarkResult['parse_ms'],
+            'render_ms' => $benchmarkResult['render_ms'],
+        ],
+        'memory' => [
+            'parse_peak_bytes' => $benchmarkResult['parse_peak_bytes'],
+            'render_peak_bytes' => $benchmarkResult['render_peak_bytes'],
+        ],
+        'rendered_output' => $benchmarkResult['rendered_output'],
+    ];
+}, ['memory', 'progress', 'worker_mode', 'cold_start', 'batching', 'time_budget']);
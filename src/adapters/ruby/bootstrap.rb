@@ -7,16 +7,101 @@
 # Provides stdin/stdout handling and timing utilities.
 #
 
+##
+# Interpreter up: when this bootstrap started executing (Unix epoch ms).
+#
+INTERPRETER_AT_MS = Process.clock_gettime(Process::CLOCK_REALTIME, :float_millisecond)
+
 require 'bundler/setup'
 require 'json'
 
 ##
-# Read JSON input from stdin.
-# Validates required fields: template, data, iterations, warmup.
+# Environment variable that enables persistent worker mode.
+# Set by the harness (src/lib/adapter/worker.ts).
+#
+WORKER_ENV = 'LEB_WORKER'
+
+##
+# Protocol version implemented by this bootstrap.
+# Must match PROTOCOL_VERSION in src/lib/adapter/protocol.ts.
+#
+PROTOCOL_VERSION = 1
+
+##
+# Empty measure_time calls timed to calibrate the timer overhead.
+#
+TIMER_CALIBRATION_RUNS = 1000
+
+##
+# Input fields this bootstrap understands; any other field is rejected.
+#
+INPUT_FIELDS = %w[template data iterations warmup protocol_version progress_interval cold_start
+                  batch_size time_budget_ms].freeze
+
+##
+# Parse one JSON message (job or handshake).
+#
+# @param input [String] JSON document
+# @return [Hash] Decoded message
+# @raise [ArgumentError] If the JSON is invalid or not an object
+#
+def decode_message(input)
+  begin
+    decoded = JSON.parse(input)
+  rescue JSON::ParserError => e
+    raise ArgumentError, "Invalid JSON input: #{e.message}"
+  end
+
+  raise ArgumentError, 'Invalid JSON input: expected an object' unless decoded.is_a?(Hash)
+
+  decoded
+end
+
+##
+# Validate a decoded job.
+# Requires template, data, iterations and warmup; rejects fields and
+# protocol versions this bootstrap does not know.
+#
+# @param decoded [Hash] Decoded message
+# @return [Hash] Input with keys: template, data, iterations, warmup
+# @raise [ArgumentError] If a field is missing or unknown
 #
+def validate_input(decoded)
+  # Validate required fields
+  required = %w[template data iterations warmup]
+  required.each do |field|
+    raise ArgumentError, "Missing required field: #{field}" unless decoded.key?(field)
+  end
+
+  unknown = decoded.keys.find { |field| !INPUT_FIELDS.include?(field) }
+  raise ArgumentError, "Unknown input field: #{unknown}" if unknown
+
+  version = decoded['protocol_version']
+  if version.is_a?(Integer) && version > PROTOCOL_VERSION
+    raise ArgumentError, "Unsupported protocol_version #{version} (adapter speaks #{PROTOCOL_VERSION})"
+  end
+
+  decoded
+end
+
+##
+# Decode and validate a single JSON job.
+#
+# @param input [String] JSON document
 # @return [Hash] Input with keys: template, data, iterations, warmup
+# @raise [ArgumentError] If the JSON is invalid, or a field is missing or unknown
+#
+def decode_input(input)
+  validate_input(decode_message(input))
+end
+
+##
+# Read one JSON message from stdin.
+# Exits with an error if stdin is empty or not a JSON object.
+#
+# @return [Hash] Decoded message
 #
-def read_input
+def read_message
   input = $stdin.read
 
   if input.nil? || input.empty?
@@ -25,22 +110,101 @@ def read_input
   end
 
   begin
-    decoded = JSON.parse(input)
-  rescue JSON::ParserError => e
-    warn "Error: Invalid JSON input: #{e.message}"
+    decode_message(input)
+  rescue ArgumentError => e
+    warn "Error: #{e.message}"
     exit 1
   end
+end
 
-  # Validate required fields
-  required = %w[template data iterations warmup]
-  required.each do |field|
-    unless decoded.key?(field)
-      warn "Error: Missing required field: #{field}"
-      exit 1
+##
+# Read JSON input from stdin.
+# Validates required fields: template, data, iterations, warmup.
+#
+# @param message [Hash, nil] Already decoded message (default: read stdin)
+# @return [Hash] Input with keys: template, data, iterations, warmup
+#
+def read_input(message = nil)
+  validate_input(message || read_message)
+rescue ArgumentError => e
+  warn "Error: #{e.message}"
+  exit 1
+end
+
+##
+# Answer a handshake message.
+#
+# @param message [Hash] Decoded message
+# @param capabilities [Array<String>] Capabilities the adapter implements
+# @return [Boolean] True if the message was a handshake (and has been answered)
+#
+def answer_handshake(message, capabilities)
+  return false unless message.key?('handshake')
+
+  write_output(handshake: { protocol_version: PROTOCOL_VERSION, capabilities: capabilities })
+  true
+end
+
+##
+# Add boot timestamps to the output of a cold-start job.
+#
+# @param output [Hash] Output hash from the handler
+# @param input [Hash] Decoded job
+# @param library_at_ms [Float] When the adapter entered serve (epoch ms)
+# @return [Hash] Output, with boot for cold-start jobs
+#
+def with_boot(output, input, library_at_ms)
+  return output unless input['cold_start'] == true
+
+  output.merge(boot: { interpreter_at_ms: INTERPRETER_AT_MS, library_at_ms: library_at_ms })
+end
+
+##
+# Serve benchmark jobs.
+#
+# One-shot mode (default): reads one job from stdin, writes one result.
+# Worker mode (LEB_WORKER=1): reads one job per line until stdin closes,
+# writing one result line per job. Job failures are reported as
+# {"error": "..."} so the process can keep serving.
+# In both modes a {"handshake": ...} message is answered with the
+# protocol version and capabilities instead of running a job.
+# Entering serve marks the library as loaded for cold-start jobs; the
+# timer is then calibrated once and its overhead reported with every output.
+#
+# @param capabilities [Array<String>] Capabilities announced in the handshake
+# @yieldparam input [Hash] Decoded job
+# @yieldreturn [Hash] Output hash for write_output
+#
+def serve(capabilities:)
+  library_at_ms = Process.clock_gettime(Process::CLOCK_REALTIME, :float_millisecond)
+  timer_overhead_ms = calibrate_timer
+
+  unless ENV[WORKER_ENV] == '1'
+    message = read_message
+    unless answer_handshake(message, capabilities)
+      input = read_input(message)
+      output = with_boot(yield(input), input, library_at_ms)
+      write_output(output.merge(timer_overhead_ms: timer_overhead_ms))
     end
+    return
   end
 
-  decoded
+  $stdin.each_line do |line|
+    line = line.strip
+    next if line.empty?
+
+    begin
+      message = decode_message(line)
+      next if answer_handshake(message, capabilities)
+
+      input = validate_input(message)
+      output = with_boot(yield(input), input, library_at_ms)
+      write_output(output.merge(timer_overhead_ms: timer_overhead_ms))
+    rescue StandardError => e
+      warn "#{e.class}: #{e.message}"
+      write_output(error: "#{e.class}: #{e.message}")
+    end
+  end
 end
 
 ##
@@ -51,6 +215,18 @@ end
 #
 def write_output(output)
   puts JSON.generate(output)
+  $stdout.flush
+end
+
+##
+# Write a progress record to stdout (one line, ahead of the output).
+# Timings and memory cover only the iterations since the previous record.
+#
+# @param progress [Hash] completed, total, and optionally timings and memory
+#
+def write_progress(progress)
+  puts JSON.generate(progress: progress)
+  $stdout.flush
 end
 
 ##
@@ -70,20 +246,95 @@ def measure_time
   [result, time_ms]
 end
 
+##
+# Current monotonic time in milliseconds (for time budgets).
+#
+def monotonic_ms
+  Process.clock_gettime(Process::CLOCK_MONOTONIC, :float_millisecond)
+end
+
+##
+# Calibrate the timer: median time of an empty measure_time call.
+# Part of every sample, so the harness can subtract it and flag phases
+# too short for the timer to resolve.
+#
+# @return [Float] Timer overhead in milliseconds
+#
+def calibrate_timer
+  samples = Array.new(TIMER_CALIBRATION_RUNS) { measure_time { nil }[1] }
+  samples.sort[samples.size / 2]
+end
+
+##
+# Size pools of the object heap and their slot sizes (GC.stat_heap), read
+# once: the full stat hashes are garbage that the next phase would collect.
+#
+HEAP_POOLS = GC.stat_heap.keys.freeze
+HEAP_SLOT_SIZES = HEAP_POOLS.map { |pool| GC.stat_heap(pool, :slot_size) }.freeze
+
+##
+# Live Ruby heap (bytes): object slots in use in every size pool plus malloc
+# growth since the last GC. Not a peak: sampled at the end of a phase,
+# before GC reclaims the phase's garbage, it includes what the phase
+# allocated. Reads single GC.stat values, which allocate nothing.
+#
+# @return [Integer] Bytes
+#
+def heap_live_bytes
+  live = GC.stat(:malloc_increase_bytes)
+  HEAP_POOLS.each_index do |i|
+    pool = HEAP_POOLS[i]
+    in_use = GC.stat_heap(pool, :total_allocated_objects) - GC.stat_heap(pool, :total_freed_objects)
+    live += HEAP_SLOT_SIZES[i] * in_use
+  end
+  live
+end
+
+##
+# What the memory values measure, reported as memory.measure: Ruby has no
+# peak counter, so parse_peak_bytes and render_peak_bytes hold heap_live_bytes.
+#
+MEMORY_MEASURE = 'live'
+
+##
+# Call a block several times in a row.
+#
+# @param times [Integer] Number of calls
+# @yield Block to call
+# @return [Object] Result of the last call
+#
+def repeat(times)
+  result = nil
+  times.times { result = yield }
+  result
+end
+
 ##
 # Run benchmark iterations.
 # Executes warmup runs (discarded) followed by measured iterations.
+# With a progress interval, streams a progress record after warmup and
+# after every progress_interval iterations.
+# With a batch size, each iteration times batch_size consecutive calls of
+# a phase and records the per-call time.
+# With a time budget, stops after the iteration that exhausts it, so
+# fewer than iterations may be measured (at least one).
 #
 # @param iterations [Integer] Number of measured iterations
 # @param warmup [Integer] Number of warmup iterations
+# @param progress_interval [Integer] Iterations per progress record (0: none)
+# @param batch_size [Integer] Calls timed together per iteration
+# @param time_budget_ms [Numeric] Time for measured iterations in milliseconds (0: unlimited)
 # @yield [phase] Block that receives :parse or :render and returns the operation result
 # @yieldparam phase [Symbol] Either :parse or :render
 # @yieldparam parse_result [Object, nil] Parse result (only for :render phase)
-# @return [Hash] { parse_ms: Array<Float>, render_ms: Array<Float>, rendered_output: String }
+# @return [Hash] { parse_ms: Array<Float>, render_ms: Array<Float>,
+#   parse_peak_bytes: Array<Integer>, render_peak_bytes: Array<Integer>, rendered_output: String }
 #
-def run_benchmark(iterations:, warmup:, &block)
+def run_benchmark(iterations:, warmup:, progress_interval: 0, batch_size: 1, time_budget_ms: 0, &block)
   parse_timings = []
   render_timings = []
+  parse_peaks = []
+  render_peaks = []
   last_rendered_output = ''
 
   # Warmup runs (results discarded)
@@ -92,23 +343,49 @@ def run_benchmark(iterations:, warmup:, &block)
     block.call(:render, parse_result)
   end
 
+  write_progress(completed: 0, total: iterations) if progress_interval.positive?
+  reported = 0
+  deadline = time_budget_ms.positive? ? monotonic_ms + time_budget_ms : nil
+
   # Measured iterations
-  iterations.times do
+  iterations.times do |i|
     # Measure parse
-    parse_result, parse_time = measure_time { block.call(:parse, nil) }
-    parse_timings << parse_time
+    parse_result, parse_time = measure_time { repeat(batch_size) { block.call(:parse, nil) } }
+    parse_timings << (parse_time / batch_size)
+    parse_peaks << heap_live_bytes
 
     # Measure render
-    render_result, render_time = measure_time { block.call(:render, parse_result) }
-    render_timings << render_time
+    render_result, render_time = measure_time { repeat(batch_size) { block.call(:render, parse_result) } }
+    render_timings << (render_time / batch_size)
+    render_peaks << heap_live_bytes
 
     # Keep the last rendered output for snapshot testing
     last_rendered_output = render_result
+
+    completed = i + 1
+    out_of_time = !deadline.nil? && monotonic_ms >= deadline
+    if progress_interval.positive? &&
+       ((completed % progress_interval).zero? || completed == iterations || out_of_time)
+      write_progress(
+        completed: completed,
+        total: iterations,
+        timings: { parse_ms: parse_timings[reported..], render_ms: render_timings[reported..] },
+        memory: {
+          parse_peak_bytes: parse_peaks[reported..],
+          render_peak_bytes: render_peaks[reported..],
+          measure: MEMORY_MEASURE
+        }
+      )
+      reported = completed
+    end
+    break if out_of_time
   end
 
   {
     parse_ms: parse_timings,
     render_ms: render_timings,
+    parse_peak_bytes: parse_peaks,
+    render_peak_bytes: render_peaks,
     rendered_output: last_rendered_output
   }
 end
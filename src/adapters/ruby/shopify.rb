@@ -10,35 +10,42 @@
 require_relative 'bootstrap'
 require 'liquid'
 
-# Read input from stdin
-input = read_input
-template_source = input['template']
-data = input['data']
-iterations = input['iterations'].to_i
-warmup = input['warmup'].to_i
+serve(capabilities: %w[memory progress worker_mode cold_start batching time_budget]) do |input|
+  template_source = input['template']
+  data = input['data']
+  iterations = input['iterations'].to_i
+  warmup = input['warmup'].to_i
+  progress_interval = input['progress_interval'].to_i
+  batch_size = (input['batch_size'] || 1).to_i
+  time_budget_ms = (input['time_budget_ms'] || 0).to_f
 
-# Run benchmark
-benchmark_result = run_benchmark(iterations: iterations, warmup: warmup) do |phase, parse_result|
-  case phase
-  when :parse
-    Liquid::Template.parse(template_source)
-  when :render
-    parse_result.render(data)
+  # Run benchmark
+  benchmark_result = run_benchmark(iterations: iterations, warmup: warmup,
+                                   progress_interval: progress_interval,
+                                   batch_size: batch_size,
+                                   time_budget_ms: time_budget_ms) do |phase, parse_result|
+    case phase
+    when :parse
+      Liquid::Template.parse(template_source)
+    when :render
+      parse_result.render(data)
+    end
   end
-end
-
-# Get library version
-version = Liquid::VERSION
 
-# Output result
-write_output(
-  library: 'shopify/liquid',
-  version: version,
-  lang: 'ruby',
-  runtime_version: RUBY_VERSION,
-  timings: {
-    parse_ms: benchmark_result[:parse_ms],
-    render_ms: benchmark_result[:render_ms]
-  },
-  rendered_output: benchmark_result[:rendered_output]
-)
+  {
+    library: 'shopify/liquid',
+    version: Liquid::VERSION,
+    lang: 'ruby',
+    runtime_version: RUBY_VERSION,
+    timings: {
+      parse_ms: benchmark_result[:parse_ms],
+      render_ms: benchmark_result[:render_ms]
+    },
+    memory: {
+      parse_peak_bytes: benchmark_result[:parse_peak_bytes],
+      render_peak_bytes: benchmark_result[:render_peak_bytes],
+      measure: MEMORY_MEASURE
+    },
+    rendered_output: benchmark_result[:rendered_output]
+  }
+end
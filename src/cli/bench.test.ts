@@ -351,14 +351,14 @@ describe("parseArgs_", () => {
       expect(() => parseArgs_(["keepsuit", "unit/tags/for", "-i", "0"])).toThrow(
         "process.exit called"
       );
-      expect(errorSpy).toHaveBeenCalledWith("Error: --iterations must be between 1 and 10000");
+      expect(errorSpy).toHaveBeenCalledWith("Error: --iterations must be between 1 and 1000000");
     });
 
     test("exits with error for excessive iterations", () => {
-      expect(() => parseArgs_(["keepsuit", "unit/tags/for", "-i", "99999"])).toThrow(
+      expect(() => parseArgs_(["keepsuit", "unit/tags/for", "-i", "1000001"])).toThrow(
         "process.exit called"
       );
-      expect(errorSpy).toHaveBeenCalledWith("Error: --iterations must be between 1 and 10000");
+      expect(errorSpy).toHaveBeenCalledWith("Error: --iterations must be between 1 and 1000000");
     });
 
     test("exits with error for negative warmup", () => {
@@ -392,9 +392,9 @@ describe("parseArgs_", () => {
     });
 
     test("accepts maximum iterations", () => {
-      const result = parseArgs_(["keepsuit", "unit/tags/for", "-i", "10000"]);
+      const result = parseArgs_(["keepsuit", "unit/tags/for", "-i", "1000000"]);
 
-      expect(result.iterations).toBe(10000);
+      expect(result.iterations).toBe(1000000);
     });
 
     test("accepts minimum iterations", () => {
@@ -681,6 +681,349 @@ describe("parseArgs_", () => {
       }
     });
   });
+  describe("--fresh-process option", () => {
+    test("freshProcess is false by default in all mode", () => {
+      const result = parseArgs_([]);
+
+      expect(result.mode).toBe("all");
+      if (result.mode === "all") {
+        expect(result.freshProcess).toBe(false);
+      }
+    });
+
+    test("parses --fresh-process flag in all mode", () => {
+      const result = parseArgs_(["--fresh-process"]);
+
+      expect(result.mode).toBe("all");
+      if (result.mode === "all") {
+        expect(result.freshProcess).toBe(true);
+      }
+    });
+
+    test("--fresh-process does not consume the next argument", () => {
+      const result = parseArgs_(["--fresh-process", "-c", "unit/tags"]);
+
+      expect(result.mode).toBe("all");
+      if (result.mode === "all") {
+        expect(result.freshProcess).toBe(true);
+        expect(result.category).toBe("unit/tags");
+      }
+    });
+  });
+  describe("--reprobe option", () => {
+    test("reprobe is false by default in all mode", () => {
+      const result = parseArgs_([]);
+
+      expect(result.mode).toBe("all");
+      if (result.mode === "all") {
+        expect(result.reprobe).toBe(false);
+      }
+    });
+
+    test("parses --reprobe flag in all mode", () => {
+      const result = parseArgs_(["--reprobe", "-c", "unit/filters"]);
+
+      expect(result.mode).toBe("all");
+      if (result.mode === "all") {
+        expect(result.reprobe).toBe(true);
+        expect(result.category).toBe("unit/filters");
+      }
+    });
+  });
+
+  describe("--timeout option", () => {
+    test("timeout is unset by default", () => {
+      expect(parseArgs_([]).timeout).toBeUndefined();
+    });
+
+    test("parses --timeout in both modes", () => {
+      expect(parseArgs_(["--timeout", "60000"]).timeout).toBe(60000);
+      expect(parseArgs_(["keepsuit", "unit/tags/for", "--timeout", "5000"]).timeout).toBe(5000);
+    });
+
+    test("exits with error for invalid timeout", () => {
+      expect(() => parseArgs_(["--timeout", "0"])).toThrow("process.exit called");
+      expect(() => parseArgs_(["--timeout", "1.5"])).toThrow("process.exit called");
+      expect(() => parseArgs_(["--timeout", "abc"])).toThrow("process.exit called");
+    });
+  });
+
+  describe("confidence interval options", () => {
+    test("defaults to 95% intervals from 1000 seeded resamples", () => {
+      expect(parseArgs_([]).bootstrap).toEqual({ level: 0.95, resamples: 1000, seed: 1 });
+    });
+
+    test("parses --ci-level, --resamples and --seed in both modes", () => {
+      expect(
+        parseArgs_(["--ci-level", "0.99", "--resamples", "5000", "--seed", "7"]).bootstrap
+      ).toEqual({ level: 0.99, resamples: 5000, seed: 7 });
+      expect(
+        parseArgs_(["keepsuit", "unit/tags/for", "--resamples", "0"]).bootstrap.resamples
+      ).toBe(0);
+    });
+
+    test("exits with error for invalid settings", () => {
+      expect(() => parseArgs_(["--ci-level", "1"])).toThrow("process.exit called");
+      expect(() => parseArgs_(["--ci-level", "95"])).toThrow("process.exit called");
+      expect(() => parseArgs_(["--resamples", "100001"])).toThrow("process.exit called");
+      expect(() => parseArgs_(["--seed", "1.5"])).toThrow("process.exit called");
+    });
+  });
+
+  describe("--outliers option", () => {
+    test("keeps outliers by default", () => {
+      expect(parseArgs_([]).outliers).toBe("keep");
+    });
+
+    test("parses --outliers in both modes", () => {
+      expect(parseArgs_(["--outliers", "trim"]).outliers).toBe("trim");
+      expect(parseArgs_(["keepsuit", "unit/tags/for", "--outliers", "winsorize"]).outliers).toBe(
+        "winsorize"
+      );
+    });
+
+    test("exits with error for unknown mode", () => {
+      expect(() => parseArgs_(["--outliers", "drop"])).toThrow("process.exit called");
+    });
+  });
+
+  describe("--percentiles and --stat options", () => {
+    test("reports tail percentiles and compares means by default", () => {
+      const options = parseArgs_([]);
+
+      expect(options.percentiles).toEqual([75, 90, 95, 99]);
+      expect(options.mode === "all" && options.stat).toBe("mean");
+    });
+
+    test("parses --percentiles in both modes", () => {
+      expect(parseArgs_(["--percentiles", "50,99.9"]).percentiles).toEqual([50, 99.9]);
+      expect(parseArgs_(["keepsuit", "unit/tags/for", "--percentiles", "90"]).percentiles).toEqual([
+        90,
+      ]);
+    });
+
+    test("parses --stat and reports its percentile", () => {
+      const options = parseArgs_(["--stat", "p99.5", "--percentiles", "95"]);
+
+      expect(options.mode === "all" && options.stat).toBe("p99.5");
+      expect(options.percentiles).toEqual([95, 99.5]);
+      expect(parseArgs_(["--stat", "median"]).percentiles).toEqual([75, 90, 95, 99]);
+    });
+
+    test("exits with error for invalid values", () => {
+      expect(() => parseArgs_(["--stat", "p100"])).toThrow("process.exit called");
+      expect(() => parseArgs_(["--stat", "average"])).toThrow("process.exit called");
+      expect(() => parseArgs_(["--percentiles", "95,"])).toThrow("process.exit called");
+      expect(() => parseArgs_(["--percentiles", "0"])).toThrow("process.exit called");
+    });
+
+    test("exits with error in single mode", () => {
+      expect(() => parseArgs_(["keepsuit", "unit/tags/for", "--stat", "p95"])).toThrow(
+        "process.exit called"
+      );
+      expect(errorSpy.mock.calls.flat().join("\n")).toContain("--stat - all mode only");
+    });
+  });
+
+  describe("--noise-threshold option", () => {
+    test("defaults to 10%", () => {
+      expect(parseArgs_([]).noiseThreshold).toBe(0.1);
+    });
+
+    test("parses a percentage or a fraction in both modes", () => {
+      expect(parseArgs_(["--noise-threshold", "5%"]).noiseThreshold).toBe(0.05);
+      expect(
+        parseArgs_(["keepsuit", "unit/tags/for", "--noise-threshold", "0.2"]).noiseThreshold
+      ).toBe(0.2);
+    });
+
+    test("exits with error for thresholds out of range", () => {
+      expect(() => parseArgs_(["--noise-threshold", "0"])).toThrow("process.exit called");
+      expect(() => parseArgs_(["--noise-threshold", "150%"])).toThrow("process.exit called");
+      expect(errorSpy).toHaveBeenCalledWith(
+        "Error: --noise-threshold must be between 0 and 1 (e.g., 10% or 0.1)"
+      );
+    });
+  });
+
+  describe("--throughput option", () => {
+    test("compares time by default", () => {
+      expect(parseArgs_([])).not.toHaveProperty("throughput");
+    });
+
+    test("parses throughput units", () => {
+      expect(parseArgs_(["--throughput", "renders"])).toMatchObject({ throughput: "renders" });
+      expect(parseArgs_(["--throughput", "parses"])).toMatchObject({ throughput: "parses" });
+      expect(parseArgs_(["--throughput", "bytes"])).toMatchObject({ throughput: "bytes" });
+    });
+
+    test("exits with error for an unknown unit", () => {
+      expect(() => parseArgs_(["--throughput", "rps"])).toThrow("process.exit called");
+      expect(errorSpy).toHaveBeenCalledWith('Error: Invalid throughput "rps"');
+    });
+
+    test("exits with error in single mode", () => {
+      expect(() => parseArgs_(["keepsuit", "unit/tags/for", "--throughput", "renders"])).toThrow(
+        "process.exit called"
+      );
+      expect(errorSpy.mock.calls.flat().join("\n")).toContain("--throughput - all mode only");
+    });
+  });
+
+  describe("--against option", () => {
+    test("is unset by default", () => {
+      expect(parseArgs_(["keepsuit", "unit/tags/for"])).not.toHaveProperty("against");
+    });
+
+    test("parses --against in single mode", () => {
+      const result = parseArgs_(["keepsuit", "unit/tags/for", "--against", "earlier.json"]);
+
+      expect(result.mode === "single" && result.against).toBe("earlier.json");
+    });
+
+    test("exits with error in all mode", () => {
+      expect(() => parseArgs_(["--against", "earlier.json"])).toThrow("process.exit called");
+      expect(errorSpy.mock.calls.flat().join("\n")).toContain("--against - single mode only");
+    });
+  });
+
+  describe("--save-samples option", () => {
+    test("is off by default", () => {
+      expect(parseArgs_([]).saveSamples).toBe(false);
+      expect(parseArgs_(["keepsuit", "unit/tags/for"]).saveSamples).toBe(false);
+    });
+
+    test("parses --save-samples in both modes", () => {
+      expect(parseArgs_(["--save-samples"]).saveSamples).toBe(true);
+      expect(parseArgs_(["keepsuit", "unit/tags/for", "--save-samples"]).saveSamples).toBe(true);
+    });
+  });
+
+  describe("--target-rsd and --max-time options", () => {
+    test("iterations are fixed by default", () => {
+      expect(parseArgs_([])).not.toHaveProperty("adaptive");
+    });
+
+    test("parses a percentage or a fraction with the default time budget", () => {
+      expect(parseArgs_(["--target-rsd", "1%"]).adaptive).toEqual({
+        targetRsd: 0.01,
+        maxTimeMs: 30_000,
+      });
+      expect(
+        parseArgs_(["keepsuit", "unit/tags/for", "--target-rsd", "0.02"]).adaptive?.targetRsd
+      ).toBe(0.02);
+    });
+
+    test("parses --max-time durations", () => {
+      const maxTime = (value: string) =>
+        parseArgs_(["--target-rsd", "1%", "--max-time", value]).adaptive?.maxTimeMs;
+
+      expect(maxTime("500ms")).toBe(500);
+      expect(maxTime("30s")).toBe(30_000);
+      expect(maxTime("2m")).toBe(120_000);
+      expect(maxTime("1.5")).toBe(1500);
+    });
+
+    test("exits with error for invalid targets and durations", () => {
+      expect(() => parseArgs_(["--target-rsd", "0%"])).toThrow("process.exit called");
+      expect(() => parseArgs_(["--target-rsd", "1"])).toThrow("process.exit called");
+      expect(() => parseArgs_(["--target-rsd", "%"])).toThrow("process.exit called");
+      expect(() => parseArgs_(["--target-rsd", "1%", "--max-time", "0s"])).toThrow(
+        "process.exit called"
+      );
+      expect(() => parseArgs_(["--target-rsd", "1%", "--max-time", "1h"])).toThrow(
+        "process.exit called"
+      );
+    });
+
+    test("exits with error for --max-time without --target-rsd", () => {
+      expect(() => parseArgs_(["--max-time", "30s"])).toThrow("process.exit called");
+    });
+  });
+
+  describe("--warmup auto", () => {
+    test("parses auto in both modes", () => {
+      expect(parseArgs_(["--warmup", "auto"]).warmup).toBe("auto");
+      expect(parseArgs_(["keepsuit", "unit/tags/for", "-w", "auto"]).warmup).toBe("auto");
+    });
+
+    test("exits with error for other words", () => {
+      expect(() => parseArgs_(["-w", "auto2"])).toThrow("process.exit called");
+      expect(errorSpy).toHaveBeenCalledWith("Error: --warmup must be between 0 and 1000");
+    });
+  });
+
+  describe("--forks option", () => {
+    test("runs one process by default", () => {
+      expect(parseArgs_([]).forks).toBe(1);
+    });
+
+    test("parses --forks in both modes", () => {
+      expect(parseArgs_(["--forks", "5"]).forks).toBe(5);
+      expect(parseArgs_(["keepsuit", "unit/tags/for", "--forks", "3"]).forks).toBe(3);
+    });
+
+    test("exits with error for invalid fork counts", () => {
+      expect(() => parseArgs_(["--forks", "0"])).toThrow("process.exit called");
+      expect(() => parseArgs_(["--forks", "101"])).toThrow("process.exit called");
+      expect(() => parseArgs_(["--forks", "1.5"])).toThrow("process.exit called");
+      expect(errorSpy).toHaveBeenCalledWith("Error: --forks must be between 1 and 100");
+    });
+
+    test("exits with error with --target-rsd", () => {
+      expect(() => parseArgs_(["--forks", "3", "--target-rsd", "1%"])).toThrow(
+        "process.exit called"
+      );
+      expect(errorSpy).toHaveBeenCalledWith("Error: --forks cannot be combined with --target-rsd");
+    });
+  });
+
+  describe("--cold-start option", () => {
+    test("cold start is off by default", () => {
+      expect(parseArgs_([]).coldStart).toBe(0);
+    });
+
+    test("parses --cold-start in both modes", () => {
+      expect(parseArgs_(["--cold-start", "20"]).coldStart).toBe(20);
+      expect(parseArgs_(["keepsuit", "unit/tags/for", "--cold-start", "5"]).coldStart).toBe(5);
+    });
+
+    test("exits with error for invalid run counts", () => {
+      expect(() => parseArgs_(["--cold-start", "1001"])).toThrow("process.exit called");
+      expect(() => parseArgs_(["--cold-start", "2.5"])).toThrow("process.exit called");
+      expect(() => parseArgs_(["--cold-start", "abc"])).toThrow("process.exit called");
+    });
+  });
+
+  describe("--subtract-overhead option", () => {
+    test("keeps the timer overhead in samples by default", () => {
+      expect(parseArgs_([]).subtractOverhead).toBe(false);
+    });
+
+    test("parses --subtract-overhead in both modes", () => {
+      expect(parseArgs_(["--subtract-overhead"]).subtractOverhead).toBe(true);
+      expect(
+        parseArgs_(["keepsuit", "unit/tags/for", "--subtract-overhead"]).subtractOverhead
+      ).toBe(true);
+    });
+  });
+
+  describe("--batch-size option", () => {
+    test("batching is off by default", () => {
+      expect(parseArgs_([]).batchSize).toBe(1);
+    });
+
+    test("parses --batch-size in both modes", () => {
+      expect(parseArgs_(["--batch-size", "1000"]).batchSize).toBe(1000);
+      expect(parseArgs_(["keepsuit", "unit/tags/for", "--batch-size", "50"]).batchSize).toBe(50);
+    });
+
+    test("exits with error for invalid batch sizes", () => {
+      expect(() => parseArgs_(["--batch-size", "0"])).toThrow("process.exit called");
+      expect(() => parseArgs_(["--batch-size", "100001"])).toThrow("process.exit called");
+      expect(() => parseArgs_(["--batch-size", "2.5"])).toThrow("process.exit called");
+    });
+  });
 });
 
 describe("VerifyOptions behavior", () => {
@@ -12,30 +12,94 @@
 
 import { parseArgs } from "node:util";
 import {
+  AdapterError,
+  type AdapterProtocol,
+  AdapterProtocolError,
+  type AdapterResult,
+  AdapterTimeoutError,
+  AdapterWorker,
+  type AdaptiveOptions,
+  type AdaptiveStopReason,
+  type AdaptiveSummary,
   adapterExists,
   addArrays,
+  affordableResamples,
+  type BootstrapOptions,
+  belowResolution,
+  bootstrapRatioInterval,
   CliError,
+  calculateColdStartMetrics,
+  calculateMemoryMetrics,
   calculateMetrics,
+  calculateThroughput,
+  compareSamples,
   createScenarioLoader,
+  DEFAULT_BOOTSTRAP,
+  DEFAULT_PERCENTILES,
   Errors,
   ensureAdapterReady,
+  getAdapterConfig,
+  getBaselineAdapter,
   getExcludedScenarios,
+  getLibraryVersion,
+  handleOutliers,
+  hasCapability,
+  histogram,
+  isOutlierMode,
   listAdapters,
   loadConfig,
   loadData,
   loadScenario,
+  MAX_AUTO_WARMUP,
+  MIN_ADAPTIVE_SAMPLES,
+  max,
+  mean,
+  median,
+  mergeResults,
+  min,
+  negotiateProtocol,
+  OUTLIER_MODES,
+  type OutlierMode,
+  type PartialRun,
+  type ProgressListener,
+  perSecond,
+  progressInterval,
+  quantile,
+  RESOLUTION_FACTOR,
+  resolveSupport,
+  resolveTimeout,
   runAdapter,
+  runAdaptive,
+  runColdStart,
   ScenarioLoader,
+  SIGNIFICANCE_LEVEL,
+  type Statistic,
+  SteadyStateRunner,
+  scoreAdapters,
+  subtractOverhead,
   updateSnapshot,
   type VerifyResult,
+  varianceComponents,
   verifySnapshot,
 } from "../lib";
 import {
-  ADAPTER_NAMES,
+  type AdapterConfig,
+  type AdapterInput,
   type AdapterName,
+  type ColdStartMetrics,
+  type ConfidenceInterval,
+  type ForkMetrics,
+  type Histogram,
   isScale,
+  type MemoryMetrics,
+  type PhaseMetrics,
+  type RawMemory,
+  type RawTimings,
+  type SampleComparison,
   SCALES,
   type Scale,
+  type ScoreSummary,
+  type ThroughputMetrics,
   type TimingMetrics,
 } from "../types";
 
@@ -54,6 +118,11 @@ type OutputFormat = "json" | "table";
  */
 type VerifyMode = "self" | "baseline" | "off";
 
+/**
+ * Warmup iterations before measurement, or "auto" to measure from steady state.
+ */
+type Warmup = number | "auto";
+
 /**
  * CLI options for single benchmark mode.
  * adapter and scenario are positional args, rest are optional flags.
@@ -64,12 +133,36 @@ interface SingleBenchOptions {
   scenario: string;
   scale: Scale;
   iterations: number;
-  warmup: number;
+  warmup: Warmup;
   output?: string;
   format: OutputFormat;
   quiet: boolean;
   verifyMode: VerifyMode;
   updateSnapshots: boolean;
+  /** Adapter timeout in milliseconds, overriding leb.config.json */
+  timeout?: number;
+  /** Fresh processes for cold-start measurement (0: off) */
+  coldStart: number;
+  /** Consecutive calls timed per sample (1: off) */
+  batchSize: number;
+  /** Fresh processes each benchmark runs in, merged (1: a single process) */
+  forks: number;
+  /** Subtract the adapter's calibrated timer overhead from each sample */
+  subtractOverhead: boolean;
+  /** Confidence interval settings (0 resamples: no intervals) */
+  bootstrap: BootstrapOptions;
+  /** How outliers are handled before computing statistics */
+  outliers: OutlierMode;
+  /** Percentiles reported per phase */
+  percentiles: number[];
+  /** Coefficient of variation above which a phase is flagged as noisy */
+  noiseThreshold: number;
+  /** Include the raw per-iteration samples in JSON results */
+  saveSamples: boolean;
+  /** Earlier single-mode JSON result to test the run against */
+  against?: string;
+  /** Run until a target precision instead of a fixed iteration count */
+  adaptive?: AdaptiveOptions;
 }
 
 /**
@@ -80,12 +173,42 @@ interface AllBenchOptions {
   mode: "all";
   scale: Scale;
   iterations: number;
-  warmup: number;
+  warmup: Warmup;
   format: OutputFormat;
   quiet: boolean;
   category?: string;
   verifyMode: VerifyMode;
   updateSnapshots: boolean;
+  /** Spawn a fresh process per scenario instead of one worker per adapter */
+  freshProcess: boolean;
+  /** Ignore cached support results and probe every scenario again */
+  reprobe: boolean;
+  /** Adapter timeout in milliseconds, overriding leb.config.json */
+  timeout?: number;
+  /** Fresh processes for cold-start measurement (0: off) */
+  coldStart: number;
+  /** Consecutive calls timed per sample (1: off) */
+  batchSize: number;
+  /** Fresh processes each benchmark runs in, merged (1: a single process) */
+  forks: number;
+  /** Subtract the adapter's calibrated timer overhead from each sample */
+  subtractOverhead: boolean;
+  /** Confidence interval settings (0 resamples: no intervals) */
+  bootstrap: BootstrapOptions;
+  /** How outliers are handled before computing statistics */
+  outliers: OutlierMode;
+  /** Percentiles reported per phase */
+  percentiles: number[];
+  /** Coefficient of variation above which a phase is flagged as noisy */
+  noiseThreshold: number;
+  /** Include the raw per-iteration samples in JSON results */
+  saveSamples: boolean;
+  /** Statistic of total time compared in the table */
+  stat: TableStat;
+  /** Throughput compared in the table instead of time */
+  throughput?: TableThroughput;
+  /** Run until a target precision instead of a fixed iteration count */
+  adaptive?: AdaptiveOptions;
 }
 
 type BenchOptions = SingleBenchOptions | AllBenchOptions;
@@ -97,6 +220,10 @@ const DEFAULTS = {
   iterations: 100,
   warmup: 10,
   scale: "medium" satisfies Scale,
+  /** Time budget of an adaptive run (--max-time) */
+  maxTimeMs: 30_000,
+  /** Coefficient of variation above which a phase is noisy (--noise-threshold) */
+  noiseThreshold: 0.1,
 };
 
 /**
@@ -117,6 +244,62 @@ function isVerifyMode(s: string): s is VerifyMode {
   return VERIFY_MODES.includes(s as VerifyMode);
 }
 
+/**
+ * Statistic compared in tables: mean, median, min, max or a percentile (e.g., p95).
+ */
+type TableStat = "mean" | "median" | "min" | "max" | `p${number}`;
+
+/**
+ * Throughput compared in tables instead of time: parses, renders or
+ * rendered output bytes per second.
+ */
+const TABLE_THROUGHPUTS = ["parses", "renders", "bytes"] as const;
+
+type TableThroughput = (typeof TABLE_THROUGHPUTS)[number];
+
+function isTableThroughput(s: string): s is TableThroughput {
+  return TABLE_THROUGHPUTS.includes(s as TableThroughput);
+}
+
+/**
+ * Parse a percentile strictly between 0 and 100 (e.g., "95", "99.9").
+ */
+function parsePercentile(s: string): number | undefined {
+  const p = s.trim() === "" ? Number.NaN : Number(s);
+  return p > 0 && p < 100 ? p : undefined;
+}
+
+/**
+ * Parse a table statistic, normalizing percentiles (e.g., "p95.0" → "p95").
+ */
+function parseStat(s: string): TableStat | undefined {
+  if (s === "mean" || s === "median" || s === "min" || s === "max") return s;
+  const p = s.startsWith("p") ? parsePercentile(s.slice(1)) : undefined;
+  return p !== undefined ? `p${p}` : undefined;
+}
+
+/**
+ * Parse a relative precision as a percentage ("1%") or a fraction ("0.01"),
+ * strictly between 0 and 1.
+ */
+function parseRsd(s: string): number | undefined {
+  const percent = s.endsWith("%");
+  const text = percent ? s.slice(0, -1) : s;
+  const value = text.trim() === "" ? Number.NaN : Number(text) / (percent ? 100 : 1);
+  return value > 0 && value < 1 ? value : undefined;
+}
+
+/**
+ * Parse a positive duration in milliseconds: "500ms", "30s", "2m", or plain seconds.
+ */
+function parseDuration(s: string): number | undefined {
+  const match = /^(\d+(?:\.\d+)?)(ms|s|m)?$/.exec(s.trim());
+  if (!match?.[1]) return undefined;
+  const unit = (match[2] ?? "s") as "ms" | "s" | "m";
+  const ms = Number(match[1]) * { ms: 1, s: 1000, m: 60_000 }[unit];
+  return ms > 0 ? ms : undefined;
+}
+
 /**
  * Parse flags common to both modes.
  * Returns parsed options and any positional arguments.
@@ -125,13 +308,29 @@ function parseCommonFlags(args: string[]): {
   positional: string[];
   scale: Scale;
   iterations: number;
-  warmup: number;
+  warmup: Warmup;
   output?: string;
   format?: OutputFormat;
   quiet: boolean;
   category?: string;
   verifyMode: VerifyMode;
   updateSnapshots: boolean;
+  freshProcess: boolean;
+  reprobe: boolean;
+  timeout?: number;
+  coldStart: number;
+  batchSize: number;
+  forks: number;
+  subtractOverhead: boolean;
+  bootstrap: BootstrapOptions;
+  outliers: OutlierMode;
+  percentiles: number[];
+  noiseThreshold: number;
+  saveSamples: boolean;
+  stat?: TableStat;
+  throughput?: TableThroughput;
+  against?: string;
+  adaptive?: AdaptiveOptions;
 } {
   // Separate positional arguments from flags
   const allPositional: string[] = [];
@@ -147,7 +346,7 @@ function parseCommonFlags(args: string[]): {
       process.exit(0);
     } else if (arg.startsWith("-")) {
       allFlags.push(arg);
-      // Flags that expect a value (not including boolean flags like -q/--quiet, -u/--update-snapshots)
+      // Flags that expect a value (not including boolean flags like -q/--quiet, -u/--update-snapshots, --fresh-process, --reprobe, --subtract-overhead, --save-samples)
       if (
         arg === "-s" ||
         arg === "-i" ||
@@ -162,7 +361,22 @@ function parseCommonFlags(args: string[]): {
         arg === "--output" ||
         arg === "--format" ||
         arg === "--category" ||
-        arg === "--verify"
+        arg === "--verify" ||
+        arg === "--timeout" ||
+        arg === "--cold-start" ||
+        arg === "--batch-size" ||
+        arg === "--forks" ||
+        arg === "--ci-level" ||
+        arg === "--resamples" ||
+        arg === "--seed" ||
+        arg === "--outliers" ||
+        arg === "--percentiles" ||
+        arg === "--noise-threshold" ||
+        arg === "--stat" ||
+        arg === "--throughput" ||
+        arg === "--against" ||
+        arg === "--target-rsd" ||
+        arg === "--max-time"
       ) {
         expectingValue = true;
       }
@@ -184,6 +398,25 @@ function parseCommonFlags(args: string[]): {
       category: { type: "string", short: "c" },
       verify: { type: "string", short: "v" },
       "update-snapshots": { type: "boolean", short: "u" },
+      "fresh-process": { type: "boolean" },
+      reprobe: { type: "boolean" },
+      timeout: { type: "string" },
+      "cold-start": { type: "string" },
+      "batch-size": { type: "string" },
+      forks: { type: "string" },
+      "subtract-overhead": { type: "boolean" },
+      "save-samples": { type: "boolean" },
+      "ci-level": { type: "string" },
+      resamples: { type: "string" },
+      seed: { type: "string" },
+      outliers: { type: "string" },
+      percentiles: { type: "string" },
+      "noise-threshold": { type: "string" },
+      stat: { type: "string" },
+      throughput: { type: "string" },
+      against: { type: "string" },
+      "target-rsd": { type: "string" },
+      "max-time": { type: "string" },
     },
     strict: true,
     allowPositionals: false,
@@ -219,20 +452,144 @@ function parseCommonFlags(args: string[]): {
     verifyMode = values.verify;
   }
 
+  // Validate outlier mode
+  let outliers: OutlierMode = "keep"; // default
+  if (values.outliers) {
+    if (!isOutlierMode(values.outliers)) {
+      console.error(`Error: Invalid outlier mode "${values.outliers}"`);
+      console.error(`Valid modes: ${OUTLIER_MODES.join(", ")}`);
+      process.exit(1);
+    }
+    outliers = values.outliers;
+  }
+
+  // Validate table statistic
+  let stat: TableStat | undefined;
+  if (values.stat) {
+    const parsed = parseStat(values.stat);
+    if (!parsed) {
+      console.error(`Error: Invalid statistic "${values.stat}"`);
+      console.error("Valid statistics: mean, median, min, max, p<percentile> (e.g., p95)");
+      process.exit(1);
+    }
+    stat = parsed;
+  }
+
+  // Validate table throughput
+  const throughput = values.throughput;
+  if (throughput !== undefined && !isTableThroughput(throughput)) {
+    console.error(`Error: Invalid throughput "${throughput}"`);
+    console.error(`Valid throughputs: ${TABLE_THROUGHPUTS.join(", ")}`);
+    process.exit(1);
+  }
+
   // Parse numeric options
   const iterations = values.iterations ? parseInt(values.iterations, 10) : DEFAULTS.iterations;
-  const warmup = values.warmup ? parseInt(values.warmup, 10) : DEFAULTS.warmup;
-
-  if (Number.isNaN(iterations) || iterations < 1 || iterations > 10000) {
-    console.error("Error: --iterations must be between 1 and 10000");
+  const warmup =
+    values.warmup === "auto"
+      ? "auto"
+      : values.warmup
+        ? parseInt(values.warmup, 10)
+        : DEFAULTS.warmup;
+
+  if (Number.isNaN(iterations) || iterations < 1 || iterations > 1000000) {
+    console.error("Error: --iterations must be between 1 and 1000000");
     process.exit(1);
   }
 
-  if (Number.isNaN(warmup) || warmup < 0 || warmup > 1000) {
+  if (warmup !== "auto" && (Number.isNaN(warmup) || warmup < 0 || warmup > 1000)) {
     console.error("Error: --warmup must be between 0 and 1000");
     process.exit(1);
   }
 
+  const timeout = values.timeout !== undefined ? Number(values.timeout) : undefined;
+  if (timeout !== undefined && (!Number.isInteger(timeout) || timeout < 1)) {
+    console.error("Error: --timeout must be a positive number of milliseconds");
+    process.exit(1);
+  }
+
+  const coldStart = values["cold-start"] !== undefined ? Number(values["cold-start"]) : 0;
+  if (!Number.isInteger(coldStart) || coldStart < 0 || coldStart > 1000) {
+    console.error("Error: --cold-start must be between 0 and 1000 processes");
+    process.exit(1);
+  }
+
+  const batchSize = values["batch-size"] !== undefined ? Number(values["batch-size"]) : 1;
+  if (!Number.isInteger(batchSize) || batchSize < 1 || batchSize > 100000) {
+    console.error("Error: --batch-size must be between 1 and 100000");
+    process.exit(1);
+  }
+
+  const forks = values.forks !== undefined ? Number(values.forks) : 1;
+  if (!Number.isInteger(forks) || forks < 1 || forks > 100) {
+    console.error("Error: --forks must be between 1 and 100");
+    process.exit(1);
+  }
+
+  const level =
+    values["ci-level"] !== undefined ? Number(values["ci-level"]) : DEFAULT_BOOTSTRAP.level;
+  if (!(level > 0 && level < 1)) {
+    console.error("Error: --ci-level must be between 0 and 1 (e.g., 0.95)");
+    process.exit(1);
+  }
+
+  const resamples =
+    values.resamples !== undefined ? Number(values.resamples) : DEFAULT_BOOTSTRAP.resamples;
+  if (!Number.isInteger(resamples) || resamples < 0 || resamples > 100000) {
+    console.error("Error: --resamples must be between 0 and 100000");
+    process.exit(1);
+  }
+
+  const seed = values.seed !== undefined ? Number(values.seed) : DEFAULT_BOOTSTRAP.seed;
+  if (!Number.isInteger(seed) || seed < 0) {
+    console.error("Error: --seed must be a non-negative integer");
+    process.exit(1);
+  }
+
+  const percentiles =
+    values.percentiles !== undefined
+      ? values.percentiles.split(",").map(parsePercentile)
+      : [...DEFAULT_PERCENTILES];
+  if (percentiles.some((p) => p === undefined)) {
+    console.error("Error: --percentiles must be a comma-separated list between 0 and 100");
+    process.exit(1);
+  }
+
+  const noiseThreshold =
+    values["noise-threshold"] !== undefined
+      ? parseRsd(values["noise-threshold"])
+      : DEFAULTS.noiseThreshold;
+  if (noiseThreshold === undefined) {
+    console.error("Error: --noise-threshold must be between 0 and 1 (e.g., 10% or 0.1)");
+    process.exit(1);
+  }
+  const targetRsd = values["target-rsd"] !== undefined ? parseRsd(values["target-rsd"]) : undefined;
+  if (values["target-rsd"] !== undefined && targetRsd === undefined) {
+    console.error("Error: --target-rsd must be between 0 and 1 (e.g., 1% or 0.01)");
+    process.exit(1);
+  }
+
+  const maxTimeMs =
+    values["max-time"] !== undefined ? parseDuration(values["max-time"]) : DEFAULTS.maxTimeMs;
+  if (maxTimeMs === undefined) {
+    console.error("Error: --max-time must be a positive duration (e.g., 30s, 500ms, 2m)");
+    process.exit(1);
+  }
+  if (values["max-time"] !== undefined && targetRsd === undefined) {
+    console.error("Error: --max-time requires --target-rsd");
+    process.exit(1);
+  }
+  if (forks > 1 && targetRsd !== undefined) {
+    console.error("Error: --forks cannot be combined with --target-rsd");
+    process.exit(1);
+  }
+
+  // A percentile compared in the table is always reported
+  const statPercentile = stat?.startsWith("p") ? Number(stat.slice(1)) : undefined;
+  if (statPercentile !== undefined && !percentiles.includes(statPercentile)) {
+    percentiles.push(statPercentile);
+  }
+
   return {
     positional: allPositional,
     scale: scaleInput,
@@ -244,6 +601,22 @@ function parseCommonFlags(args: string[]): {
     category: values.category,
     verifyMode,
     updateSnapshots: values["update-snapshots"] ?? false,
+    freshProcess: values["fresh-process"] ?? false,
+    reprobe: values.reprobe ?? false,
+    ...(timeout !== undefined && { timeout }),
+    coldStart,
+    batchSize,
+    forks,
+    subtractOverhead: values["subtract-overhead"] ?? false,
+    bootstrap: { level, resamples, seed },
+    outliers,
+    percentiles: percentiles.filter((p) => p !== undefined),
+    noiseThreshold,
+    saveSamples: values["save-samples"] ?? false,
+    ...(stat !== undefined && { stat }),
+    ...(throughput !== undefined && { throughput }),
+    ...(values.against !== undefined && { against: values.against }),
+    ...(targetRsd !== undefined && { adaptive: { targetRsd, maxTimeMs } }),
   };
 }
 
@@ -264,11 +637,30 @@ export function parseArgs_(args: string[]): BenchOptions {
     category,
     verifyMode,
     updateSnapshots,
+    freshProcess,
+    reprobe,
+    timeout,
+    coldStart,
+    batchSize,
+    forks,
+    subtractOverhead,
+    bootstrap,
+    outliers,
+    percentiles,
+    noiseThreshold,
+    saveSamples,
+    stat,
+    throughput,
+    against,
+    adaptive,
   } = parseCommonFlags(args);
 
   // No positional arguments → "all" mode (run all adapters × all scenarios)
   // Default format for all mode is "table" (comparison table)
   if (positional.length === 0) {
+    if (against !== undefined) {
+      rejectArgument("--against", "single mode only", format ?? "table");
+    }
     return {
       mode: "all",
       scale,
@@ -279,6 +671,21 @@ export function parseArgs_(args: string[]): BenchOptions {
       category,
       verifyMode,
       updateSnapshots,
+      freshProcess,
+      reprobe,
+      ...(timeout !== undefined && { timeout }),
+      coldStart,
+      batchSize,
+      forks,
+      subtractOverhead,
+      bootstrap,
+      outliers,
+      percentiles,
+      noiseThreshold,
+      saveSamples,
+      stat: stat ?? "mean",
+      ...(throughput !== undefined && { throughput }),
+      ...(adaptive && { adaptive }),
     };
   }
 
@@ -299,10 +706,18 @@ export function parseArgs_(args: string[]): BenchOptions {
     process.exit(1);
   }
 
+  // Table options have no effect on a single benchmark
+  if (stat !== undefined) {
+    rejectArgument("--stat", "all mode only", format ?? "json");
+  }
+  if (throughput !== undefined) {
+    rejectArgument("--throughput", "all mode only", format ?? "json");
+  }
+
   // Default format for single mode is "json"
   return {
     mode: "single",
-    adapter: adapter as AdapterName,
+    adapter,
     scenario,
     scale,
     iterations,
@@ -312,9 +727,29 @@ export function parseArgs_(args: string[]): BenchOptions {
     quiet,
     verifyMode,
     updateSnapshots,
+    ...(timeout !== undefined && { timeout }),
+    coldStart,
+    batchSize,
+    forks,
+    subtractOverhead,
+    bootstrap,
+    outliers,
+    percentiles,
+    noiseThreshold,
+    saveSamples,
+    ...(against !== undefined && { against }),
+    ...(adaptive && { adaptive }),
   };
 }
 
+/**
+ * Report an argument given in the wrong mode and exit.
+ */
+function rejectArgument(arg: string, reason: string, format: OutputFormat): never {
+  outputError(Errors.invalidArgument(arg, reason), format);
+  process.exit(1);
+}
+
 /**
  * Print help message for bench command.
  */
@@ -327,17 +762,45 @@ Usage:
   leb bench <adapter> <scenario>     # Run a single benchmark (json output)
 
 Arguments (single mode):
-  <adapter>    Adapter name (keepsuit, kalimatas, shopify)
+  <adapter>    Adapter name (see 'leb list adapters')
   <scenario>   Scenario path (e.g., unit/tags/for, representative/simple)
 
 Options:
   -s, --scale <size>       Data scale: small, medium, large, 2xl (default: medium)
   -i, --iterations <n>     Number of measured iterations (default: 100)
-  -w, --warmup <n>         Number of warmup iterations (default: 10)
+  -w, --warmup <n|auto>    Number of warmup iterations, or auto to detect
+                           steady state per benchmark (default: 10)
   -c, --category <cat>     Filter by category (e.g., representative, unit/tags, unit/filters)
   -o, --output <file>      Output file path (single mode only)
   -f, --format <type>      Output format: table, json (default: table for all, json for single)
   -q, --quiet              Suppress progress output
+  --fresh-process          Spawn a new adapter process per scenario (all mode only)
+                           Default reuses one worker process per adapter
+  --reprobe                Re-detect supported scenarios instead of using the cache
+                           (all mode only)
+  --timeout <ms>           Adapter timeout per scenario, overriding leb.config.json
+  --cold-start <n>         Also measure cold starts over n fresh processes
+  --batch-size <k>         Time k consecutive calls per sample (default: 1)
+  --subtract-overhead      Subtract each adapter's timer overhead from its samples
+  --ci-level <p>           Confidence level of intervals (default: 0.95)
+  --resamples <n>          Bootstrap resamples per interval, 0 disables (default: 1000)
+  --seed <n>               Bootstrap RNG seed (default: 1)
+  --outliers <mode>        Outlier handling: keep, trim, winsorize (default: keep)
+  --percentiles <list>     Percentiles reported per phase (default: 75,90,95,99)
+  --noise-threshold <p>    Flag results whose coefficient of variation exceeds p
+                           in any phase (default: ${DEFAULTS.noiseThreshold * 100}%)
+  --stat <stat>            Statistic compared in the table (all mode only):
+                           mean, median, min, max, p<n> (default: mean)
+  --throughput <unit>      Compare throughput instead of time (all mode only):
+                           parses, renders, bytes (output bytes per second)
+  --save-samples           Include raw per-iteration samples in JSON results
+  --against <file>         Test the run against an earlier single-mode JSON result
+                           saved with --save-samples (single mode only)
+  --target-rsd <p>         Measure until the mean is known within ±p (e.g., 1%);
+                           -i sets the first batch
+  --max-time <duration>    Time budget with --target-rsd, e.g., 30s, 500ms, 2m
+                           (default: 30s)
+  --forks <n>              Run each benchmark in n fresh processes (default: 1)
   -h, --help               Show this help
 
 Verification:
@@ -347,9 +810,126 @@ Verification:
                              off      - Skip verification
   -u, --update-snapshots   Update snapshots with current output
 
+Feature Support (all mode):
+  Each adapter runs every scenario once before benchmarking. Scenarios that
+  fail on an unknown tag or filter are skipped; other failures are benchmarked
+  and reported as errors. Results are cached per library version in
+  .generated/support.json. excludeScenarios in leb.config.json always applies.
+
+Timeouts:
+  Without --timeout, each scenario's limit comes from leb.config.json: the
+  most specific timeouts.scenarios entry (e.g., "unit"), else the library's
+  timeout, else timeouts.default (5 minutes), multiplied by timeouts.scales
+  for the data scale. Timeout errors report the limit that applied.
+
+Cold Start:
+  With --cold-start n, each adapter × scenario is also run in n fresh
+  processes, one iteration each, no warmup. Reported per phase: boot (spawn
+  to interpreter up), load (library loaded), first parse, first render and
+  their total. This is the latency a CLI tool or serverless renderer sees.
+  If the cold-start processes fail, the warm measurement still stands; the
+  error is logged and reported as cold_start_error in JSON.
+
+Batching:
+  Scenarios that take well under a microsecond are dominated by timer
+  resolution and clock overhead. With --batch-size k, each sample times k
+  consecutive parses (or renders) and records the per-call time, so
+  --iterations stays the number of samples. Adapters without batching
+  support ignore it and time single calls.
+
+Timer Overhead:
+  Each adapter times an empty call of its timer at startup and reports the
+  median with every result. --subtract-overhead subtracts it from every
+  sample. Phases whose median sample is shorter than ${RESOLUTION_FACTOR} timer overheads
+  are flagged as below timer resolution (! in tables, below_resolution in
+  JSON) with or without subtraction; use --batch-size for them.
+
+Confidence Intervals:
+  Mean and median of each phase get bootstrap confidence intervals
+  (mean_ci, median_ci in JSON), and ratios to the baseline in the table
+  get one too: 2.69x [2.55–2.81]. An interval that excludes 1.00x means
+  the difference is unlikely to be noise. Resampling is seeded, so the
+  same measurements always give the same intervals. An interval draws at
+  most 10M values: larger samples get fewer resamples, and none past
+  100,000 samples.
+
+Outliers:
+  Samples outside the Tukey fences (quartiles ± 1.5 × IQR), typically GC
+  pauses and scheduler hiccups, are counted per phase (outliers in JSON).
+  --outliers trim drops them before computing statistics, winsorize clamps
+  them to the most extreme remaining sample. JSON always reports how many
+  samples were dropped (excluded) and the mode in the metadata.
+
+Noise:
+  Each phase reports its coefficient of variation (cv: stddev / mean). A
+  result with a phase above --noise-threshold is flagged: noisy: true in
+  JSON (and noisy in the phase), ~ in the table, [noisy] in the progress
+  log, and counted in the end-of-run summary. Noisy numbers usually mean
+  a busy machine or too few iterations; rerun before publishing them.
+
+Percentiles:
+  Each phase reports percentiles (percentiles.p95 in JSON) for tail
+  latency. --stat p99 compares p99 total time in the table instead of the
+  mean, with ratios and intervals computed from the same statistic; a
+  percentile given to --stat is always reported.
+
+Throughput:
+  Results report parses, renders and parse + render cycles per second at
+  the mean times (throughput in JSON), and rendered output bytes per second
+  of render time. --throughput renders shows renders per second in the
+  table instead of total time (parses: parse time; bytes: output bytes per
+  second), at the --stat statistic; ratios above 1 mean faster than the
+  baseline, and no intervals or ≈ marks are shown.
+
+Significance:
+  Total-time samples of each adapter are tested against the baseline's
+  (significance in JSON): Mann-Whitney U decides, Welch's t-test and
+  Cliff's delta (effect size) are reported with it. Ratios without a
+  significant difference (p ≥ ${SIGNIFICANCE_LEVEL}) are marked ≈ in the table. With
+  --save-samples, JSON results keep the raw samples (parse_ms and render_ms
+  per iteration, up to millions of numbers), so --against can test a later
+  run of the same benchmark against them.
+
+Scores:
+  The table ends with a score per adapter: the geometric mean of its ratios
+  to the baseline (of throughput with --throughput), over all scenarios and
+  per category. Only scenarios every adapter completed count; the others
+  are listed below the table. JSON reports the scores of total time at the
+  --stat statistic (summary.overall, summary.categories, summary.excluded).
+
+Adaptive Iterations:
+  With --target-rsd 1%, each benchmark runs in batches until the confidence
+  interval of the mean total time (normal approximation at --ci-level) is
+  within ±1% of the mean, or --max-time is spent. The first batch runs -i
+  iterations after warmup; each further batch doubles the samples so far,
+  and the target needs at least ${MIN_ADAPTIVE_SAMPLES} of them. JSON reports why the run
+  stopped (adaptive.stop_reason: target_reached, max_time, max_iterations),
+  the iterations measured and the precision reached (adaptive.rsd).
+
+Automatic Warmup:
+  With --warmup auto, the first job of each benchmark runs without warmup and
+  with up to -i extra iterations (at most ${MAX_AUTO_WARMUP}). Measurement starts where
+  the total times settle (MSER-5: the batch-of-5 boundary minimizing the
+  standard error of what follows), and -i iterations from there are kept.
+  The iterations dropped are reported per result (warmup_iterations) and,
+  in the table, per adapter. Adaptive batches in fresh processes repeat the
+  detected warmup.
+
+Forks:
+  A process fixes JIT decisions, address-space layout and allocator state for
+  its lifetime, so its samples understate how much results vary. With
+  --forks n, each benchmark runs -i iterations in each of n fresh processes,
+  one after another. Metrics cover all samples; JSON adds each fork's metrics
+  (forks.runs) and the standard deviation of total time within and between
+  forks (one-way ANOVA), with the share of variance between them. When a
+  fork fails, the forks before it and what it measured are reported as a
+  partial result. Not combinable with --target-rsd.
+
 Output Formats:
-  table    Comparison table with baseline ratios (shopify as baseline)
-  json     Raw JSON output for programmatic use
+  table    Comparison table with baseline ratios (shopify as baseline);
+           in single mode, a summary with a histogram of total times
+  json     Raw JSON output for programmatic use, with the histogram buckets
+           of total times (histogram.buckets: lower, upper, count)
 
 Examples:
   # Run all benchmarks with comparison table (default)
@@ -370,21 +950,307 @@ Examples:
   leb bench keepsuit unit/tags/for --verify baseline
   leb bench --verify baseline  # All adapters vs shopify
 
+  # Full process isolation per scenario (slower, no shared runtime state)
+  leb bench --fresh-process
+
+  # Measure until the mean is known within ±1%, for at most 30 seconds
+  leb bench shopify representative/simple --target-rsd 1% --max-time 30s
+
+  # Start measuring once each adapter reaches steady state
+  leb bench -c representative --warmup auto
+
+  # Compare renders per second instead of time
+  leb bench -c representative --throughput renders
+
+  # Include variation between processes: 5 forks of 200 iterations
+  leb bench shopify representative/simple --forks 5 -i 200
+
+  # Cold-start latency over 20 fresh processes
+  leb bench shopify representative/simple --cold-start 20
+
   # Suppress progress output for scripting
   leb bench -q keepsuit unit/tags/for > result.json
 `);
 }
 
+/**
+ * Timer overhead of the adapter that produced a set of samples.
+ */
+interface TimerOverhead {
+  /** Calibrated overhead per sample (milliseconds) */
+  overheadMs: number;
+  /** Calls timed per sample */
+  batchSize: number;
+  /** Subtract the overhead from each sample */
+  subtract: boolean;
+}
+
+/**
+ * Samples of one phase with the timer overhead subtracted when requested.
+ */
+function correctSamples(values: number[], timer?: TimerOverhead): number[] {
+  return timer?.subtract ? subtractOverhead(values, timer.overheadMs, timer.batchSize) : values;
+}
+
+/**
+ * Per-iteration total samples (parse + render), corrected and with
+ * outliers handled like the metrics.
+ */
+function totalSamples(
+  parseMs: number[],
+  renderMs: number[],
+  timer?: TimerOverhead,
+  outliers: OutlierMode = "keep"
+): number[] {
+  const totals = addArrays(correctSamples(parseMs, timer), correctSamples(renderMs, timer));
+  return handleOutliers(totals, outliers).values;
+}
+
+/**
+ * Significance of the difference between two sets of total samples.
+ * Undefined unless both have at least two samples.
+ */
+function compareTotals(
+  totals: number[] | undefined,
+  reference: number[] | undefined
+): SampleComparison | undefined {
+  if (!totals || !reference || totals.length < 2 || reference.length < 2) return undefined;
+  return compareSamples(totals, reference);
+}
+
+/**
+ * Describe a comparison for humans (e.g., "no significant difference").
+ */
+function describeSignificance(comparison: SampleComparison): string {
+  if (!comparison.significant) return "no significant difference";
+  return `p=${comparison.mann_whitney.p_value.toFixed(3)}, ${comparison.effect} effect`;
+}
+
+/**
+ * Load the total samples of an earlier single-mode JSON result (--against),
+ * corrected and with outliers handled like the current run.
+ */
+async function loadRunTotals(
+  path: string,
+  subtract: boolean,
+  outliers: OutlierMode
+): Promise<number[]> {
+  const file = Bun.file(path);
+  if (!(await file.exists())) {
+    throw Errors.invalidArgument("--against", `file not found: ${path}`);
+  }
+  const previous: {
+    samples?: RawTimings;
+    timer_overhead_ms?: number;
+    metadata?: { batch_size?: number };
+  } = await file.json().catch(() => ({}));
+  const samples = previous.samples;
+  if (!samples || samples.parse_ms.length < 2) {
+    throw Errors.invalidArgument(
+      "--against",
+      `no samples in ${path} (single-mode JSON result saved with --save-samples)`
+    );
+  }
+  const overheadMs = previous.timer_overhead_ms;
+  const timer =
+    overheadMs !== undefined
+      ? { overheadMs, batchSize: previous.metadata?.batch_size ?? 1, subtract }
+      : undefined;
+  return totalSamples(samples.parse_ms, samples.render_ms, timer, outliers);
+}
+
+/**
+ * Why an adaptive run stopped, as shown in logs and tables.
+ */
+const ADAPTIVE_REASONS: Record<AdaptiveStopReason, string> = {
+  target_reached: "target reached",
+  max_time: "out of time",
+  max_iterations: "iteration cap",
+};
+
+/**
+ * One-line summary of an adaptive run, e.g., "400 iterations, ±0.84% (target reached)".
+ */
+function describeAdaptive(summary: AdaptiveSummary): string {
+  const rsd = summary.rsd !== undefined ? `±${(summary.rsd * 100).toFixed(2)}%` : "±?";
+  return `${summary.iterations} iterations, ${rsd} (${ADAPTIVE_REASONS[summary.stop_reason]})`;
+}
+
+/**
+ * One-line summary of forks, e.g., "5 processes, within ±0.12ms, between ±40.0μs (10% of variance)".
+ */
+function describeForks(forks: ForkMetrics): string {
+  const share = `${Math.round(forks.between_share * 100)}% of variance`;
+  return `${forks.count} processes, within ${formatSpread(forks.within_stddev_ms)}, between ${formatSpread(forks.between_stddev_ms)} (${share})`;
+}
+
+/**
+ * Format a standard deviation as ±time, with ±0 for none.
+ */
+function formatSpread(ms: number): string {
+  return ms > 0 ? `±${formatTime(ms)}` : "±0";
+}
+
 /**
  * Calculate timing metrics from raw timing arrays.
+ * With a timer overhead, optionally subtracts it from each sample and
+ * flags phases below the timer resolution (judged on the raw samples;
+ * a total sample spans two timed calls). With bootstrap settings, adds
+ * confidence intervals of the mean and median. Each phase reports the
+ * requested percentiles, its outlier count and the samples the outlier
+ * mode excluded, and is flagged as noisy above the noise threshold.
  */
-function calculateTimingMetrics(parseMs: number[], renderMs: number[]): TimingMetrics {
-  const totalMs = addArrays(parseMs, renderMs);
+function calculateTimingMetrics(
+  parseMs: number[],
+  renderMs: number[],
+  timer?: TimerOverhead,
+  analysis: AnalysisOptions = DEFAULT_MEASURE
+): TimingMetrics {
+  const { bootstrap, outliers, percentiles, noiseThreshold } = analysis;
+  const phase = (values: number[]): PhaseMetrics => {
+    const handled = handleOutliers(values, outliers);
+    const metrics = calculateMetrics(handled.values, { bootstrap, percentiles });
+    return {
+      ...metrics,
+      ...(metrics.cv > noiseThreshold && { noisy: true }),
+      outliers: handled.outliers,
+      excluded: handled.excluded,
+    };
+  };
+  const flag = (metrics: PhaseMetrics, raw: number[], timedCalls: number): PhaseMetrics =>
+    timer && belowResolution(raw, timedCalls * timer.overheadMs, timer.batchSize)
+      ? { ...metrics, below_resolution: true }
+      : metrics;
+
+  const parse = phase(correctSamples(parseMs, timer));
+  const render = phase(correctSamples(renderMs, timer));
+  const total = phase(addArrays(correctSamples(parseMs, timer), correctSamples(renderMs, timer)));
 
   return {
-    parse: calculateMetrics(parseMs),
-    render: calculateMetrics(renderMs),
-    total: calculateMetrics(totalMs),
+    parse: flag(parse, parseMs, 1),
+    render: flag(render, renderMs, 1),
+    total: flag(total, addArrays(parseMs, renderMs), 2),
+  };
+}
+
+/**
+ * Calculate the metrics of each fork and how total time varies within and
+ * between them. Fork metrics skip confidence intervals.
+ */
+function calculateForkMetrics(
+  results: AdapterResult[],
+  timer: TimerOverhead | undefined,
+  analysis: AnalysisOptions
+): ForkMetrics {
+  const runs = results.map(({ output }) =>
+    calculateTimingMetrics(output.timings.parse_ms, output.timings.render_ms, timer, {
+      ...analysis,
+      bootstrap: { ...analysis.bootstrap, resamples: 0 },
+    })
+  );
+  const { within, between } = varianceComponents(
+    results.map(({ output }) =>
+      totalSamples(output.timings.parse_ms, output.timings.render_ms, timer, analysis.outliers)
+    )
+  );
+
+  return {
+    count: results.length,
+    runs,
+    within_stddev_ms: Math.sqrt(within),
+    between_stddev_ms: Math.sqrt(between),
+    between_share: within + between > 0 ? between / (within + between) : 0,
+  };
+}
+
+/**
+ * Measurements of a forked run whose fork failed: the completed forks,
+ * then the iterations the failed fork streamed before it stopped.
+ *
+ * @param completed Results of the forks that completed
+ * @param failed Iterations salvaged from the failed fork (absent: none streamed)
+ * @param total Measured iterations requested over all forks
+ * @param error Why the failed fork stopped
+ */
+function mergeForkPartial(
+  completed: AdapterResult[],
+  failed: PartialRun | undefined,
+  total: number,
+  error: unknown
+): PartialRun {
+  const { timings, memory } = mergeResults(completed).output;
+  const parseMs = [...timings.parse_ms, ...(failed?.timings.parse_ms ?? [])];
+  const stopped: PartialRun["reason"] =
+    error instanceof AdapterTimeoutError
+      ? "timeout"
+      : error instanceof AdapterError && error.exitCode
+        ? "crash"
+        : "error";
+
+  return {
+    reason: failed?.reason ?? stopped,
+    completed: parseMs.length,
+    total,
+    timings: {
+      parse_ms: parseMs,
+      render_ms: [...timings.render_ms, ...(failed?.timings.render_ms ?? [])],
+    },
+    ...(memory &&
+      (!failed || failed.memory) && {
+        memory: {
+          ...memory,
+          parse_peak_bytes: [
+            ...memory.parse_peak_bytes,
+            ...(failed?.memory?.parse_peak_bytes ?? []),
+          ],
+          render_peak_bytes: [
+            ...memory.render_peak_bytes,
+            ...(failed?.memory?.render_peak_bytes ?? []),
+          ],
+        },
+      }),
+  };
+}
+
+/**
+ * Phases of timing metrics flagged as noisy.
+ */
+function noisyPhases(metrics: TimingMetrics): (keyof TimingMetrics)[] {
+  return (["parse", "render", "total"] as const).filter((p) => metrics[p].noisy);
+}
+
+/**
+ * Coefficients of variation of the noisy phases, e.g., "cv parse 14.2%, total 11.8%".
+ */
+function describeNoise(metrics: TimingMetrics): string {
+  const phases = noisyPhases(metrics).map((p) => `${p} ${(metrics[p].cv * 100).toFixed(1)}%`);
+  return `cv ${phases.join(", ")}`;
+}
+
+/**
+ * Phases of timing metrics flagged as below the timer resolution.
+ */
+function phasesBelowResolution(metrics: TimingMetrics): string[] {
+  return (["parse", "render", "total"] as const).filter((p) => metrics[p].below_resolution);
+}
+
+/**
+ * Calculate memory metrics from adapter-reported phase memory and the
+ * runner-sampled process RSS. Returns undefined when neither is available.
+ */
+function calculateMemory(
+  raw: RawMemory | undefined,
+  peakRssBytes: number | undefined
+): MemoryMetrics | undefined {
+  if (!raw && peakRssBytes === undefined) return undefined;
+
+  return {
+    ...(raw && {
+      parse: calculateMemoryMetrics(raw.parse_peak_bytes),
+      render: calculateMemoryMetrics(raw.render_peak_bytes),
+      ...(raw.measure && { measure: raw.measure }),
+    }),
+    ...(peakRssBytes !== undefined && { peak_rss_bytes: peakRssBytes }),
   };
 }
 
@@ -414,6 +1280,36 @@ function formatTime(ms: number): string {
   return `${ms.toFixed(1)}ms`;
 }
 
+/**
+ * Format a byte count for display.
+ */
+function formatBytes(bytes: number): string {
+  if (bytes === 0) return "-";
+  if (bytes < 1024) return `${bytes}B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)}KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+}
+
+/**
+ * Format a rate per second for display (e.g., "4.0k/s").
+ */
+function formatRate(perSec: number): string {
+  if (perSec === 0) return "-";
+  if (perSec < 10) return `${perSec.toFixed(1)}/s`;
+  if (perSec < 1000) return `${perSec.toFixed(0)}/s`;
+  if (perSec < 1_000_000) return `${(perSec / 1000).toFixed(1)}k/s`;
+  return `${(perSec / 1_000_000).toFixed(1)}M/s`;
+}
+
+/**
+ * Column labels of table throughputs.
+ */
+const THROUGHPUT_LABELS: Record<TableThroughput, string> = {
+  parses: "parses/s",
+  renders: "renders/s",
+  bytes: "output/s",
+};
+
 /**
  * Format ratio for display.
  * 1.00x = same as baseline, 1.50x = 50% slower, 0.80x = 20% faster
@@ -423,24 +1319,249 @@ function formatRatio(ratio: number): string {
   return `${ratio.toFixed(2)}x`;
 }
 
+/**
+ * Format a ratio confidence interval for display (e.g., "[2.55–2.81]").
+ */
+function formatInterval(interval: ConfidenceInterval): string {
+  return `[${interval.lower.toFixed(2)}–${interval.upper.toFixed(2)}]`;
+}
+
+/**
+ * Render a histogram of times as rows of "lower bound, bar, count" within
+ * `width` characters. Bars use eighth blocks and scale to the fullest bucket;
+ * lower bounds get as many decimals as the bucket width needs.
+ */
+function histogramRows(distribution: Histogram, width: number): string[] {
+  const { buckets } = distribution;
+  const first = buckets[0];
+  const last = buckets[buckets.length - 1];
+  if (!first || !last) return [];
+
+  const micro = last.upper < 1;
+  const scale = micro ? 1000 : 1;
+  const bucketWidth = ((last.upper - first.lower) / buckets.length) * scale;
+  const decimals =
+    bucketWidth > 0 ? Math.min(3, Math.max(0, Math.ceil(-Math.log10(bucketWidth)))) : 1;
+  const labels = buckets.map((b) => `${(b.lower * scale).toFixed(decimals)}${micro ? "μs" : "ms"}`);
+  const counts = buckets.map((b) => String(b.count));
+
+  const labelWidth = Math.max(...labels.map((l) => l.length));
+  const countWidth = Math.max(...counts.map((c) => c.length));
+  const barWidth = Math.max(1, width - labelWidth - countWidth - 2);
+  const fullest = Math.max(...buckets.map((b) => b.count));
+  const eighths = ["", "▏", "▎", "▍", "▌", "▋", "▊", "▉"];
+
+  return buckets.map((b, i) => {
+    const length = fullest > 0 ? Math.round((b.count / fullest) * barWidth * 8) : 0;
+    const bar = "█".repeat(Math.floor(length / 8)) + (eighths[length % 8] ?? "");
+    return `${(labels[i] ?? "").padStart(labelWidth)} ${bar.padEnd(barWidth)} ${(counts[i] ?? "").padStart(countWidth)}`;
+  });
+}
+
+/**
+ * Value of a table statistic in phase metrics (0 when not reported).
+ */
+function statValue(phase: PhaseMetrics, stat: TableStat): number {
+  switch (stat) {
+    case "mean":
+      return phase.mean_ms;
+    case "median":
+      return phase.median_ms;
+    case "min":
+      return phase.min_ms;
+    case "max":
+      return phase.max_ms;
+    default:
+      return phase.percentiles?.[stat] ?? 0;
+  }
+}
+
+/**
+ * Function computing a table statistic from samples (for ratio intervals).
+ */
+function statFunction(stat: TableStat): Statistic {
+  switch (stat) {
+    case "mean":
+      return mean;
+    case "median":
+      return median;
+    case "min":
+      return min;
+    case "max":
+      return max;
+    default:
+      return (values) => quantile(values, Number(stat.slice(1)) / 100);
+  }
+}
+
 /**
  * Output comparison table to stdout.
- * Shows scenario × adapter with baseline ratios.
+ * Shows scenario × adapter with baseline ratios for the chosen statistic of
+ * total time (with bootstrap confidence intervals unless resamples is 0), followed by
+ * peak process RSS when the runner could sample it and mean cold-start
+ * latency when it was measured. With a throughput, the first table shows
+ * it at the chosen statistic of the phase's time instead, without intervals.
+ * Results with a phase varying beyond noiseThreshold (coefficient of
+ * variation) are marked "~".
  */
 function outputTable(
   results: BenchResult[],
   adapters: readonly AdapterName[],
-  baseline: AdapterName
+  baseline: AdapterName,
+  bootstrap: BootstrapOptions,
+  stat: TableStat = "mean",
+  throughput?: TableThroughput,
+  noiseThreshold = DEFAULTS.noiseThreshold
 ): void {
-  // Filter to only adapters that have results
-  const adaptersWithResults = new Set(results.map((r) => r.adapter));
-  const activeAdapters = adapters.filter((a) => adaptersWithResults.has(a));
+  const grid = groupResults(results, adapters, baseline);
 
-  if (activeAdapters.length === 0) {
+  if (grid.activeAdapters.length === 0) {
     console.log("\nNo benchmark results to display.\n");
     return;
   }
 
+  let summary: ScoreSummary | undefined;
+  if (throughput) {
+    const label = THROUGHPUT_LABELS[throughput];
+    const phase = throughput === "parses" ? "parse" : "render";
+    const units = (r: BenchResult) =>
+      throughput !== "bytes" ? 1 : r.rendered_output ? Buffer.byteLength(r.rendered_output) : 0;
+    const metric = (r: BenchResult) =>
+      r.metrics ? perSecond(statValue(r.metrics[phase], stat), units(r)) : 0;
+    const format = throughput === "bytes" ? (v: number) => `${formatBytes(v)}/s` : formatRate;
+    const title = stat === "mean" ? `Scenario (${label})` : `Scenario (${label} at ${stat})`;
+    summary = scoreGrid(grid, metric);
+    printComparison(grid, title, metric, format, {
+      markResolution: true,
+      markNoise: true,
+      ...(summary && { summary }),
+    });
+  } else {
+    const title = stat === "mean" ? "Scenario" : `Scenario (${stat})`;
+    const metric = (r: BenchResult) => (r.metrics ? statValue(r.metrics.total, stat) : 0);
+    summary = scoreGrid(grid, metric);
+    printComparison(grid, title, metric, formatTime, {
+      markResolution: true,
+      markNoise: true,
+      markSimilar: true,
+      ...(summary && { summary }),
+      ...(bootstrap.resamples > 0 && {
+        ratioInterval: (result: BenchResult, base: BenchResult) => {
+          if (!result.total_samples || !base.total_samples) return undefined;
+          const size = result.total_samples.length + base.total_samples.length;
+          const resamples = affordableResamples(size, bootstrap.resamples);
+          return resamples > 0
+            ? bootstrapRatioInterval(result.total_samples, base.total_samples, statFunction(stat), {
+                ...bootstrap,
+                resamples,
+              })
+            : undefined;
+        },
+      }),
+    });
+  }
+
+  if (results.some((r) => r.memory?.peak_rss_bytes !== undefined)) {
+    printComparison(grid, "Peak RSS", (r) => r.memory?.peak_rss_bytes ?? 0, formatBytes);
+  }
+
+  if (results.some((r) => r.cold_start)) {
+    printComparison(grid, "Cold start", (r) => r.cold_start?.total.mean_ms ?? 0, formatTime);
+  }
+
+  if (results.some((r) => r.forks)) {
+    printComparison(grid, "Between forks (sd)", (r) => r.forks?.between_stddev_ms ?? 0, formatTime);
+  }
+
+  if (results.some((r) => r.warmup_iterations !== undefined)) {
+    printWarmup(results, grid.activeAdapters);
+  }
+
+  if (summary) {
+    console.log(
+      `score: geometric mean of ratios over ${summary.overall.scenarios} scenarios every adapter completed`
+    );
+    if (summary.excluded.length > 0) {
+      console.log(`  left out: ${summary.excluded.join(", ")}`);
+    }
+  }
+  if (results.some((r) => r.partial)) {
+    console.log("* partial: adapter stopped early; metrics cover completed iterations only");
+  }
+  if (results.some((r) => r.metrics?.total.below_resolution)) {
+    console.log(
+      `! below timer resolution: samples under ${RESOLUTION_FACTOR} timer overheads; try --batch-size`
+    );
+  }
+  const noisy = results.some((r) => r.metrics && noisyPhases(r.metrics).length > 0);
+  if (noisy) {
+    console.log(
+      `~ noisy: a phase's coefficient of variation is above ${noiseThreshold * 100}%; rerun before publishing`
+    );
+  }
+  if (throughput) {
+    console.log("ratios: throughput relative to the baseline (higher is faster)");
+  }
+  const similar = !throughput && results.some((r) => r.significance && !r.significance.significant);
+  if (similar) {
+    console.log(
+      `≈ no significant difference from the baseline (Mann-Whitney U, p ≥ ${SIGNIFICANCE_LEVEL})`
+    );
+  }
+  if (
+    results.some((r) => r.partial || r.metrics?.total.below_resolution) ||
+    noisy ||
+    similar ||
+    throughput ||
+    summary
+  ) {
+    console.log("");
+  }
+}
+
+/**
+ * Print the warmup iterations detected per adapter (--warmup auto):
+ * median and range over its scenarios.
+ */
+function printWarmup(results: BenchResult[], adapters: AdapterName[]): void {
+  const width = Math.max(...adapters.map((a) => a.length));
+
+  console.log("Warmup (auto)");
+  for (const adapter of adapters) {
+    const counts = results.flatMap((r) =>
+      r.adapter === adapter && r.warmup_iterations !== undefined ? [r.warmup_iterations] : []
+    );
+    if (counts.length === 0) continue;
+    console.log(
+      `  ${adapter.padEnd(width)}  median ${median(counts)}, ${min(counts)}-${max(counts)} iterations`
+    );
+  }
+  console.log("");
+}
+
+/**
+ * Results grouped for comparison tables.
+ */
+interface ComparisonGrid {
+  byScenario: Map<string, Map<AdapterName, BenchResult>>;
+  activeAdapters: AdapterName[];
+  actualBaseline: AdapterName | undefined;
+}
+
+/**
+ * Group results by scenario for comparison tables. Adapters without
+ * results are dropped; the first remaining one stands in for a baseline
+ * without results.
+ */
+function groupResults(
+  results: BenchResult[],
+  adapters: readonly AdapterName[],
+  baseline: AdapterName
+): ComparisonGrid {
+  // Filter to only adapters that have results
+  const adaptersWithResults = new Set(results.map((r) => r.adapter));
+  const activeAdapters = adapters.filter((a) => adaptersWithResults.has(a));
+
   // Determine actual baseline (use first available if configured baseline has no results)
   const actualBaseline = adaptersWithResults.has(baseline) ? baseline : activeAdapters[0];
 
@@ -453,16 +1574,131 @@ function outputTable(
     byScenario.get(r.scenario)?.set(r.adapter, r);
   }
 
+  return { byScenario, activeAdapters, actualBaseline };
+}
+
+/**
+ * Geometric-mean score of each adapter on a metric of its complete
+ * results (0: not available; partial runs count as not available).
+ * Undefined with fewer than two adapters.
+ */
+function scoreGrid(
+  grid: ComparisonGrid,
+  metric: (result: BenchResult) => number
+): ScoreSummary | undefined {
+  const { byScenario, activeAdapters, actualBaseline } = grid;
+  if (!actualBaseline || activeAdapters.length < 2) return undefined;
+
+  const values = new Map<string, Map<string, number>>();
+  for (const [scenario, scenarioResults] of byScenario) {
+    values.set(
+      scenario,
+      new Map(
+        [...scenarioResults].map(([adapter, r]) => [
+          adapter,
+          r.success && !r.partial ? metric(r) : 0,
+        ])
+      )
+    );
+  }
+  return scoreAdapters(values, activeAdapters, actualBaseline);
+}
+
+/**
+ * Extras of a comparison table.
+ */
+interface ComparisonOptions {
+  /** Mark results below the timer resolution with "!" */
+  markResolution?: boolean;
+  /** Mark results with a noisy phase with "~" */
+  markNoise?: boolean;
+  /** Prefix ratios without a significant difference from the baseline with "≈" */
+  markSimilar?: boolean;
+  /** Confidence interval of a result's ratio to the baseline result */
+  ratioInterval?: (result: BenchResult, baseline: BenchResult) => ConfidenceInterval | undefined;
+  /** Scores shown as footer rows, overall and per category */
+  summary?: ScoreSummary;
+}
+
+/**
+ * Print one scenario × adapter table of a metric with ratios vs baseline.
+ * A metric value of 0 means "not available" and is shown as "-".
+ * Partial results are marked "*"; with markResolution, results below the
+ * timer resolution are marked "!"; with markSimilar, ratios without a
+ * significant difference are prefixed "≈". Columns widen to fit ratio intervals.
+ */
+function printComparison(
+  grid: ComparisonGrid,
+  title: string,
+  metric: (result: BenchResult) => number,
+  format: (value: number) => string,
+  options: ComparisonOptions = {}
+): void {
+  const { byScenario, activeAdapters, actualBaseline } = grid;
+
   // Sort scenarios
   const scenarios = [...byScenario.keys()].sort();
 
+  // Cell text per scenario row, one per adapter
+  const rows = scenarios.map((scenario) => {
+    const scenarioResults = byScenario.get(scenario) ?? new Map<AdapterName, BenchResult>();
+    const baselineResult = actualBaseline ? scenarioResults.get(actualBaseline) : undefined;
+    const baselineValue = baselineResult?.success ? metric(baselineResult) : 0;
+
+    const cells = activeAdapters.map((adapter) => {
+      const result = scenarioResults.get(adapter);
+
+      if (!result) return "-";
+      if (!result.success) return "ERR";
+
+      const value = metric(result);
+      const unresolved = options.markResolution && result.metrics?.total.below_resolution;
+      const noisy = options.markNoise && result.metrics && noisyPhases(result.metrics).length > 0;
+      const mark = `${result.partial ? "*" : ""}${unresolved ? "!" : ""}${noisy ? "~" : ""}`;
+
+      if (adapter === actualBaseline) {
+        return `${format(value)}${mark}`;
+      }
+
+      // Show value and ratio vs baseline, with its confidence interval when available
+      const ratio = baselineValue > 0 ? value / baselineValue : 0;
+      if (ratio === 0 || !baselineResult) return `${format(value)}${mark}`;
+      const interval = options.ratioInterval?.(result, baselineResult);
+      const similar = options.markSimilar && result.significance?.significant === false;
+      const intervalText = interval ? ` ${formatInterval(interval)}` : "";
+      const ratioText = `${similar ? "≈" : ""}${formatRatio(ratio)}${intervalText}`;
+      return `${format(value)} (${ratioText})${mark}`;
+    });
+
+    return { scenario, cells };
+  });
+
+  // Footer rows of scores with the common scenarios they cover, per category when mixed
+  const summary = options.summary;
+  const categories = Object.entries(summary?.categories ?? {});
+  const footer =
+    summary && summary.overall.scenarios > 0
+      ? [
+          ["Score", summary.overall] as const,
+          ...(categories.length > 1 ? categories : []).map(
+            ([c, score]) => [`  ${c}`, score] as const
+          ),
+        ].map(([label, score]) => ({
+          scenario: `${label} (${score.scenarios})`,
+          cells: activeAdapters.map((a) => formatRatio(score.scores[a] ?? 0)),
+        }))
+      : [];
+
   // Calculate column widths
-  const scenarioWidth = Math.max(25, ...scenarios.map((s) => s.length));
-  const colWidth = 18;
+  const scenarioWidth = Math.max(25, ...[...rows, ...footer].map((r) => r.scenario.length));
+  const colWidth = Math.max(
+    18,
+    ...[...rows, ...footer].flatMap((r) => r.cells.map((c) => c.length))
+  );
 
   // Header row
   const header = [
-    "Scenario".padEnd(scenarioWidth),
+    title.padEnd(scenarioWidth),
     ...activeAdapters.map((a) => (a === actualBaseline ? `${a} (base)` : a).padStart(colWidth)),
   ].join(" | ");
 
@@ -475,32 +1711,15 @@ function outputTable(
   console.log(header);
   console.log(separator);
 
-  // Data rows
-  for (const scenario of scenarios) {
-    const scenarioResults = byScenario.get(scenario);
-    if (!scenarioResults) continue;
-    const baselineResult = scenarioResults.get(actualBaseline);
-    const baselineMs = baselineResult?.success ? (baselineResult.metrics?.total.mean_ms ?? 0) : 0;
-
-    const cols = activeAdapters.map((adapter) => {
-      const result = scenarioResults.get(adapter);
-
-      if (!result) return "-".padStart(colWidth);
-      if (!result.success) return "ERR".padStart(colWidth);
-
-      const meanMs = result.metrics?.total.mean_ms ?? 0;
-
-      if (adapter === actualBaseline) {
-        return formatTime(meanMs).padStart(colWidth);
-      }
-
-      // Show time and ratio vs baseline
-      const ratio = baselineMs > 0 ? meanMs / baselineMs : 0;
-      const cell = ratio > 0 ? `${formatTime(meanMs)} (${formatRatio(ratio)})` : formatTime(meanMs);
-      return cell.padStart(colWidth);
-    });
-
-    console.log([scenario.padEnd(scenarioWidth), ...cols].join(" | "));
+  // Data rows, then score rows below a separator
+  const print = ({ scenario, cells }: { scenario: string; cells: string[] }) =>
+    console.log(
+      [scenario.padEnd(scenarioWidth), ...cells.map((c) => c.padStart(colWidth))].join(" | ")
+    );
+  rows.forEach(print);
+  if (footer.length > 0) {
+    console.log(separator);
+    footer.forEach(print);
   }
 
   console.log("");
@@ -515,17 +1734,54 @@ interface BenchResult {
   adapter: AdapterName;
   scenario: string;
   metrics?: TimingMetrics;
+  /** Operations and rendered output bytes per second at the mean times */
+  throughput?: ThroughputMetrics;
+  /** Peak memory per phase and of the adapter process */
+  memory?: MemoryMetrics;
+  /** Cold-start phases over fresh processes (when requested) */
+  cold_start?: ColdStartMetrics;
+  /** Why the cold-start measurement failed (the warm measurement stands) */
+  cold_start_error?: string;
+  /** Timer overhead calibrated by the adapter (milliseconds) */
+  timer_overhead_ms?: number;
+  /** Raw timings reported by the adapter */
+  samples?: RawTimings;
+  /** Total time samples behind metrics, for ratio intervals and tests (not part of the JSON output) */
+  total_samples?: number[];
+  /** Significance of the difference from the baseline (all mode) or an earlier run (--against) */
+  significance?: SampleComparison;
+  /** How the adaptive run went (--target-rsd) */
+  adaptive?: AdaptiveSummary;
+  /** Metrics per fork and variation between them (--forks) */
+  forks?: ForkMetrics;
+  /** Warmup iterations detected before steady state (--warmup auto) */
+  warmup_iterations?: number;
   library?: string;
   version?: string;
   lang?: string;
   runtime_version?: string;
   error?: string;
+  /** Limit that was exceeded, when the adapter timed out (milliseconds) */
+  timeout_ms?: number;
+  /** Set when metrics cover only the iterations completed before a timeout or crash */
+  partial?: PartialInfo;
   /** Rendered output from template execution (for snapshot testing) */
   rendered_output?: string;
   /** Verification result against baseline snapshot */
   verification?: VerifyResult;
 }
 
+/**
+ * How far a partial result got.
+ */
+interface PartialInfo {
+  reason: PartialRun["reason"];
+  /** Measured iterations completed before the adapter stopped */
+  completed_iterations: number;
+  /** Measured iterations requested */
+  total_iterations: number;
+}
+
 /**
  * Verification options for benchmark execution.
  */
@@ -538,22 +1794,79 @@ interface VerifyOptions {
   baselineAdapter: AdapterName;
 }
 
+/**
+ * How a benchmark is measured and analyzed, beyond iterations and warmup.
+ */
+interface MeasureOptions {
+  /** Fresh processes for cold-start measurement (0: off) */
+  coldStartRuns: number;
+  /** Consecutive calls timed per sample (1: off) */
+  batchSize: number;
+  /** Fresh processes the job runs in, merged (1: a single process, or the worker) */
+  forks: number;
+  /** Subtract the adapter's timer overhead from each sample */
+  subtractOverhead: boolean;
+  /** Confidence interval settings (0 resamples: no intervals) */
+  bootstrap: BootstrapOptions;
+  /** How outliers are handled before computing statistics */
+  outliers: OutlierMode;
+  /** Percentiles reported per phase */
+  percentiles: readonly number[];
+  /** Coefficient of variation above which a phase is flagged as noisy */
+  noiseThreshold: number;
+  /** Run until a target precision instead of a fixed iteration count (absent: fixed) */
+  adaptive?: AdaptiveOptions;
+}
+
+/**
+ * Measure options that shape the statistics computed from samples.
+ */
+type AnalysisOptions = Pick<
+  MeasureOptions,
+  "bootstrap" | "outliers" | "percentiles" | "noiseThreshold"
+>;
+
+/**
+ * Measurement defaults: no cold start, no batching, overhead kept, default
+ * intervals and percentiles, outliers kept.
+ */
+const DEFAULT_MEASURE: MeasureOptions = {
+  coldStartRuns: 0,
+  batchSize: 1,
+  forks: 1,
+  subtractOverhead: false,
+  bootstrap: DEFAULT_BOOTSTRAP,
+  outliers: "keep",
+  percentiles: DEFAULT_PERCENTILES,
+  noiseThreshold: DEFAULTS.noiseThreshold,
+};
+
 /**
  * Run a single benchmark.
  * Core logic shared between single and all modes.
  * Optionally verifies output against baseline snapshot.
+ * @param warmup - Warmup iterations, or "auto" to detect steady state per benchmark
  * @param showProgress - If true, output progress to stderr
  * @param verifyOptions - Verification options (optional)
+ * @param worker - Persistent adapter process to reuse (optional, fresh process if omitted;
+ *   unused with several forks)
+ * @param timeoutMs - Adapter timeout in milliseconds
+ * @param measure - Cold start, batching, overhead, adaptive and statistics settings
  */
 async function runSingleBenchmark(
   adapter: AdapterName,
   scenario: string,
   scale: Scale,
   iterations: number,
-  warmup: number,
+  warmup: Warmup,
   showProgress: boolean = true,
-  verifyOptions?: VerifyOptions
+  verifyOptions?: VerifyOptions,
+  worker?: AdapterWorker,
+  timeoutMs?: number,
+  measure: MeasureOptions = DEFAULT_MEASURE
 ): Promise<BenchResult> {
+  const { coldStartRuns, batchSize, forks, outliers } = measure;
+
   // Progress output to stderr
   if (showProgress) {
     console.error(`  ${adapter} × ${scenario}`);
@@ -562,26 +1875,70 @@ async function runSingleBenchmark(
   const template = await loadScenario(scenario);
   const data = loadData(scale);
 
-  const input = {
+  const input: AdapterInput = {
     template,
     data,
     iterations,
-    warmup,
+    warmup: warmup === "auto" ? 0 : warmup,
+    progress_interval: progressInterval(iterations),
+    ...(batchSize > 1 && { batch_size: batchSize }),
   };
 
+  const live = showProgress ? liveProgress() : undefined;
+  // Forks each need a fresh process, so they bypass the worker
+  const jobWorker = forks > 1 ? undefined : worker;
+  const runJob = (job: AdapterInput) =>
+    jobWorker
+      ? jobWorker.run(job, timeoutMs, live?.listener)
+      : runAdapter(adapter, job, timeoutMs, live?.listener);
+  // With automatic warmup, the first job detects steady state; fresh processes repeat its warmup
+  const steady = warmup === "auto" ? new SteadyStateRunner(runJob, !jobWorker) : undefined;
+  const measureJob = steady ? (job: AdapterInput) => steady.run(job) : runJob;
+  const forkResults: AdapterResult[] = [];
   try {
-    const result = await runAdapter(adapter, input);
-
-    const metrics = calculateTimingMetrics(
-      result.output.timings.parse_ms,
-      result.output.timings.render_ms
+    for (let fork = 0; fork < forks && !measure.adaptive; fork++) {
+      forkResults.push(await measureJob(input));
+    }
+    const { result, adaptive } = measure.adaptive
+      ? await runAdaptive(measureJob, input, {
+          ...measure.adaptive,
+          level: measure.bootstrap.level,
+          warmEveryBatch: jobWorker === undefined,
+        })
+      : { result: mergeResults(forkResults), adaptive: undefined };
+
+    const { parse_ms: parseMs, render_ms: renderMs } = result.output.timings;
+    const overheadMs = result.output.timer_overhead_ms;
+    const timer =
+      overheadMs !== undefined
+        ? { overheadMs, batchSize, subtract: measure.subtractOverhead }
+        : undefined;
+    const metrics = calculateTimingMetrics(parseMs, renderMs, timer, measure);
+    const forkMetrics =
+      forkResults.length > 1 ? calculateForkMetrics(forkResults, timer, measure) : undefined;
+    const rendered = result.output.rendered_output;
+    const throughput = calculateThroughput(
+      metrics,
+      rendered !== undefined ? Buffer.byteLength(rendered) : undefined
     );
 
+    const memory = calculateMemory(result.output.memory, result.peakRssBytes);
+
     const benchResult: BenchResult = {
       success: true,
       adapter,
       scenario,
       metrics,
+      throughput,
+      ...(memory && { memory }),
+      ...(overheadMs !== undefined && { timer_overhead_ms: overheadMs }),
+      samples: result.output.timings,
+      total_samples: totalSamples(parseMs, renderMs, timer, outliers),
+      ...(adaptive && { adaptive }),
+      ...(forkMetrics && { forks: forkMetrics }),
+      ...(steady?.warmupIterations !== undefined && {
+        warmup_iterations: steady.warmupIterations,
+      }),
       library: result.output.library,
       version: result.output.version,
       lang: result.output.lang,
@@ -589,6 +1946,19 @@ async function runSingleBenchmark(
       rendered_output: result.output.rendered_output,
     };
 
+    if (coldStartRuns > 0) {
+      if (showProgress) {
+        console.error(`    cold start: ${coldStartRuns} processes`);
+      }
+      // A failed cold start leaves the warm measurement and its snapshot check intact
+      try {
+        const samples = await runColdStart(adapter, { template, data }, coldStartRuns, timeoutMs);
+        benchResult.cold_start = calculateColdStartMetrics(samples);
+      } catch (e) {
+        benchResult.cold_start_error = e instanceof Error ? e.message : String(e);
+      }
+    }
+
     // Snapshot verification / update logic
     // Snapshot key includes scale to uniquely identify outputs
     // (same scenario with different scale may produce different output)
@@ -621,13 +1991,129 @@ async function runSingleBenchmark(
     return benchResult;
   } catch (e) {
     const errorMsg = e instanceof Error ? e.message : String(e);
+    const timeout = e instanceof AdapterTimeoutError && { timeout_ms: e.timeoutMs };
+    const streamed = e instanceof AdapterError ? e.partial : undefined;
+    const failed = streamed && steady ? steady.settlePartial(streamed) : streamed;
+    // A failed fork keeps the forks that completed before it
+    const partial =
+      forkResults.length > 0 && forkResults.length < forks
+        ? mergeForkPartial(forkResults, failed, forks * iterations, e)
+        : failed;
+    const overheadMs = forkResults[0]?.output.timer_overhead_ms;
+    const timer =
+      overheadMs !== undefined
+        ? { overheadMs, batchSize, subtract: measure.subtractOverhead }
+        : undefined;
+
+    // Salvage the iterations streamed before the failure
+    if (partial) {
+      const memory = calculateMemory(partial.memory, undefined);
+      const metrics = calculateTimingMetrics(
+        partial.timings.parse_ms,
+        partial.timings.render_ms,
+        timer,
+        measure
+      );
+      return {
+        success: true,
+        adapter,
+        scenario,
+        metrics,
+        throughput: calculateThroughput(metrics),
+        samples: partial.timings,
+        total_samples: totalSamples(
+          partial.timings.parse_ms,
+          partial.timings.render_ms,
+          timer,
+          outliers
+        ),
+        ...(memory && { memory }),
+        ...(overheadMs !== undefined && { timer_overhead_ms: overheadMs }),
+        ...(steady?.warmupIterations !== undefined && {
+          warmup_iterations: steady.warmupIterations,
+        }),
+        error: errorMsg,
+        ...timeout,
+        partial: {
+          reason: partial.reason,
+          completed_iterations: partial.completed,
+          total_iterations: partial.total,
+        },
+      };
+    }
+
     return {
       success: false,
       adapter,
       scenario,
       error: errorMsg,
+      ...timeout,
     };
+  } finally {
+    live?.clear();
+  }
+}
+
+/**
+ * Live iteration counter on stderr while a job runs.
+ * Only on a terminal: redirected logs get the per-scenario lines only.
+ */
+function liveProgress(): { listener: ProgressListener; clear: () => void } | undefined {
+  if (!process.stderr.isTTY) return undefined;
+
+  let shown = false;
+  return {
+    listener: (completed, total) => {
+      shown = true;
+      process.stderr.write(`\r    ${completed}/${total} iterations`);
+    },
+    clear: () => {
+      if (shown) process.stderr.write("\r\x1b[K");
+    },
+  };
+}
+
+/**
+ * Requested features that adapters may lack.
+ */
+interface FeatureRequest {
+  /** Fresh processes for cold-start measurement (0: off) */
+  coldStartRuns: number;
+  /** Consecutive calls timed per sample (1: off) */
+  batchSize: number;
+  /** Adaptive iterations, which send each batch a time budget */
+  adaptive: boolean;
+}
+
+/**
+ * Fit the requested features to an adapter's capabilities, logging each
+ * one it lacks: jobs leave out the input fields the adapter does not
+ * understand, so nothing else reports the downgrade.
+ *
+ * @returns Cold-start runs and batch size to use with this adapter
+ */
+function fitFeatures(
+  adapter: AdapterName,
+  protocol: AdapterProtocol,
+  request: FeatureRequest,
+  log: (msg: string) => void
+): Pick<FeatureRequest, "coldStartRuns" | "batchSize"> {
+  let { coldStartRuns, batchSize } = request;
+  if (coldStartRuns > 0 && !hasCapability(protocol, "cold_start")) {
+    log(`  ${adapter}: no cold-start support, measuring warm runs only`);
+    coldStartRuns = 0;
+  }
+  if (batchSize > 1 && !hasCapability(protocol, "batching")) {
+    log(`  ${adapter}: no batching support, timing single calls`);
+    batchSize = 1;
   }
+  if (request.adaptive && !hasCapability(protocol, "time_budget")) {
+    log(`  ${adapter}: no time budget support, a batch may overrun --max-time`);
+  }
+  if (!hasCapability(protocol, "progress")) {
+    log(`  ${adapter}: no progress support, a failed job salvages no iterations`);
+  }
+  return { coldStartRuns, batchSize };
 }
 
 /**
@@ -638,7 +2124,7 @@ async function runSingleBenchmark(
 async function runAll(options: AllBenchOptions): Promise<void> {
   // Load config for scenario exclusions and baseline
   const config = await loadConfig();
-  const baseline = config.baseline.library as AdapterName;
+  const baseline = getBaselineAdapter(config);
 
   // Get all scenarios (excluding partials), optionally filtered by category
   const loader = createScenarioLoader();
@@ -649,8 +2135,8 @@ async function runAll(options: AllBenchOptions): Promise<void> {
     allScenarios = allScenarios.filter((s) => s.category === options.category);
   }
 
-  // Adapter order: baseline first for table display purposes
-  const adapters = [baseline, ...ADAPTER_NAMES.filter((a) => a !== baseline)] as const;
+  // Adapter order: baseline first for table display purposes, then config order
+  const adapters = [baseline, ...listAdapters().filter((a) => a !== baseline)];
 
   // Verification options
   const verifyOptions: VerifyOptions = {
@@ -677,6 +2163,23 @@ async function runAll(options: AllBenchOptions): Promise<void> {
     `  scenarios: ${allScenarios.length}${options.category ? ` (category: ${options.category})` : ""}`
   );
   log(`  scale=${options.scale} iterations=${options.iterations} warmup=${options.warmup}`);
+  log(`  process: ${options.freshProcess ? "fresh per scenario" : "worker per adapter"}`);
+  if (options.coldStart > 0) {
+    log(`  cold start: ${options.coldStart} fresh processes per scenario`);
+  }
+  if (options.batchSize > 1) {
+    log(`  batch size: ${options.batchSize} calls per sample`);
+  }
+  if (options.forks > 1) {
+    log(`  forks: ${options.forks} processes per benchmark`);
+  }
+  if (options.adaptive) {
+    const { targetRsd, maxTimeMs } = options.adaptive;
+    log(`  adaptive: until ±${targetRsd * 100}% of the mean, up to ${maxTimeMs}ms`);
+  }
+  log(
+    `  timeout: ${options.timeout !== undefined ? `${options.timeout}ms (--timeout)` : "per scenario (leb.config.json)"}`
+  );
   log(`  format: ${options.format}`);
   if (options.updateSnapshots) {
     log(`  mode: updating snapshots`);
@@ -687,8 +2190,10 @@ async function runAll(options: AllBenchOptions): Promise<void> {
 
   const results: BenchResult[] = [];
   let completed = 0;
+  let partial = 0;
   let failed = 0;
   let skipped = 0;
+  let noisy = 0;
   // Verification result counters
   let verifyPassed = 0;
   let verifyFailed = 0;
@@ -696,11 +2201,9 @@ async function runAll(options: AllBenchOptions): Promise<void> {
 
   // Run benchmarks sequentially to avoid resource contention
   for (const adapter of adapters) {
-    // Get excluded scenarios for this adapter
+    // Scenarios excluded in leb.config.json are never run, not even probed
     const excludedScenarios = getExcludedScenarios(config, adapter);
-
-    // Filter scenarios for this adapter
-    const adapterScenarios = allScenarios.filter((s) => !excludedScenarios.has(s.path));
+    const candidateScenarios = allScenarios.filter((s) => !excludedScenarios.has(s.path));
 
     // Check adapter readiness
     try {
@@ -708,14 +2211,70 @@ async function runAll(options: AllBenchOptions): Promise<void> {
     } catch (e) {
       log(`  [skip] ${adapter}: ${e instanceof Error ? e.message : String(e)}`);
       // Skip this adapter entirely - don't add to results
-      skipped += adapterScenarios.length;
+      skipped += candidateScenarios.length;
       continue;
     }
 
+    // Handshake: refuse adapters speaking a newer protocol
+    const adapterConfig = getAdapterConfig(adapter);
+    let workerMode = false;
+    let coldStartRuns = options.coldStart;
+    let batchSize = options.batchSize;
+    if (adapterConfig) {
+      try {
+        const protocol = await negotiateProtocol(adapterConfig);
+        workerMode = hasCapability(protocol, "worker_mode");
+        if (protocol.version === 0) {
+          log(
+            `  ${adapter}: legacy adapter (no protocol handshake), optional features disabled, fresh process per scenario`
+          );
+        } else if (!workerMode && !options.freshProcess) {
+          log(`  ${adapter}: no worker mode, using a fresh process per scenario`);
+        }
+        ({ coldStartRuns, batchSize } = fitFeatures(
+          adapter,
+          protocol,
+          { coldStartRuns, batchSize, adaptive: options.adaptive !== undefined },
+          log
+        ));
+      } catch (e) {
+        log(`  [skip] ${adapter}: ${e instanceof Error ? e.message : String(e)}`);
+        skipped += candidateScenarios.length;
+        continue;
+      }
+    }
+
+    // One long-lived process per adapter unless isolation is requested
+    const worker =
+      options.freshProcess || !adapterConfig || !workerMode
+        ? undefined
+        : new AdapterWorker(adapterConfig);
+
+    // Probe scenarios not in the support cache; skip those using unknown tags/filters
+    const support = await resolveSupport({
+      adapter,
+      version: getLibraryVersion(config, adapter) ?? "unknown",
+      scenarios: candidateScenarios.map((s) => s.path),
+      run: (input, timeoutMs) =>
+        worker ? worker.run(input, timeoutMs) : runAdapter(adapter, input, timeoutMs),
+      reprobe: options.reprobe,
+    });
+    if (support.probed.length > 0) {
+      log(`  ${adapter}: probed ${support.probed.length} scenarios`);
+    }
+    const unsupported = candidateScenarios.filter(
+      (s) => support.scenarios[s.path]?.status === "unsupported"
+    );
+    const adapterScenarios = candidateScenarios.filter((s) => !unsupported.includes(s));
+
     // Log skipped scenarios
-    if (excludedScenarios.size > 0) {
-      log(`  ${adapter}: skipping ${excludedScenarios.size} unsupported scenarios`);
-      skipped += excludedScenarios.size;
+    const skippedCount = excludedScenarios.size + unsupported.length;
+    if (skippedCount > 0) {
+      log(
+        `  ${adapter}: skipping ${skippedCount} unsupported scenarios ` +
+          `(${excludedScenarios.size} excluded by config, ${unsupported.length} detected by probe)`
+      );
+      skipped += skippedCount;
     }
 
     for (const scenario of adapterScenarios) {
@@ -726,12 +2285,46 @@ async function runAll(options: AllBenchOptions): Promise<void> {
         options.iterations,
         options.warmup,
         !options.quiet, // show progress unless quiet mode
-        verifyOptions
+        verifyOptions,
+        worker,
+        resolveTimeout(config, {
+          adapter,
+          scenario: scenario.path,
+          scale: options.scale,
+          ...(options.timeout !== undefined && { override: options.timeout }),
+        }),
+        {
+          coldStartRuns,
+          batchSize,
+          forks: options.forks,
+          subtractOverhead: options.subtractOverhead,
+          bootstrap: options.bootstrap,
+          outliers: options.outliers,
+          percentiles: options.percentiles,
+          noiseThreshold: options.noiseThreshold,
+          ...(options.adaptive && { adaptive: options.adaptive }),
+        }
       );
       results.push(result);
 
       if (result.success) {
         completed++;
+        if (result.adaptive && result.adaptive.stop_reason !== "target_reached") {
+          log(`    [imprecise] ${describeAdaptive(result.adaptive)}`);
+        }
+        if (result.metrics && noisyPhases(result.metrics).length > 0) {
+          noisy++;
+          log(`    [noisy] ${describeNoise(result.metrics)}`);
+        }
+        if (result.partial) {
+          partial++;
+          log(
+            `    [partial] ${result.partial.completed_iterations}/${result.partial.total_iterations} iterations (${result.partial.reason}): ${result.error}`
+          );
+        }
+        if (result.cold_start_error) {
+          log(`    [cold start fail] ${result.cold_start_error}`);
+        }
         // Aggregate verification results
         if (result.verification) {
           switch (result.verification.status) {
@@ -753,12 +2346,16 @@ async function runAll(options: AllBenchOptions): Promise<void> {
         log(`    [fail] ${result.error}`);
       }
     }
+
+    await worker?.close();
   }
 
   const totalBenchmarks = completed + failed;
 
   log("");
-  log(`bench: completed ${completed}/${totalBenchmarks}, failed ${failed}, skipped ${skipped}`);
+  log(
+    `bench: completed ${completed}/${totalBenchmarks}${partial > 0 ? ` (${partial} partial)` : ""}, failed ${failed}, skipped ${skipped}, noisy ${noisy}`
+  );
 
   // Verification summary (only when verify mode is not "off")
   if (options.verifyMode !== "off" && !options.updateSnapshots) {
@@ -770,19 +2367,46 @@ async function runAll(options: AllBenchOptions): Promise<void> {
     log(`snapshots: updated for ${baseline}`);
   }
 
+  // Test each adapter's samples against the baseline's on the same scenario
+  for (const r of results) {
+    if (r.adapter === baseline) continue;
+    const base = results.find((b) => b.adapter === baseline && b.scenario === r.scenario);
+    const significance = compareTotals(r.total_samples, base?.total_samples);
+    if (significance) r.significance = significance;
+  }
+
   // Output based on format
   if (options.format === "json") {
+    const summary = scoreGrid(groupResults(results, adapters, baseline), (r) =>
+      r.metrics ? statValue(r.metrics.total, options.stat) : 0
+    );
     const output = {
       metadata: {
         timestamp: new Date().toISOString(),
         scale: options.scale,
         iterations: options.iterations,
         warmup: options.warmup,
+        fresh_process: options.freshProcess,
+        ...(options.coldStart > 0 && { cold_start_runs: options.coldStart }),
+        ...(options.batchSize > 1 && { batch_size: options.batchSize }),
+        ...(options.forks > 1 && { forks: options.forks }),
+        ...(options.subtractOverhead && { subtract_overhead: true }),
+        ...(options.bootstrap.resamples > 0 && { bootstrap: options.bootstrap }),
+        outliers: options.outliers,
+        noise_threshold: options.noiseThreshold,
+        ...(options.adaptive && {
+          adaptive: {
+            target_rsd: options.adaptive.targetRsd,
+            max_time_ms: options.adaptive.maxTimeMs,
+          },
+        }),
         baseline,
         total: totalBenchmarks,
         completed,
+        partial,
         failed,
         skipped,
+        noisy,
         // Include verification info in metadata
         ...(options.verifyMode !== "off" &&
           !options.updateSnapshots && {
@@ -799,19 +2423,43 @@ async function runAll(options: AllBenchOptions): Promise<void> {
         adapter: r.adapter,
         scenario: r.scenario,
         ...(r.metrics && { metrics: r.metrics }),
+        ...(r.metrics && noisyPhases(r.metrics).length > 0 && { noisy: true }),
+        ...(r.throughput && { throughput: r.throughput }),
+        ...(r.memory && { memory: r.memory }),
+        ...(r.cold_start && { cold_start: r.cold_start }),
+        ...(r.cold_start_error && { cold_start_error: r.cold_start_error }),
+        ...(r.timer_overhead_ms !== undefined && { timer_overhead_ms: r.timer_overhead_ms }),
         ...(r.library && { library: r.library }),
         ...(r.version && { version: r.version }),
         ...(r.lang && { lang: r.lang }),
         ...(r.runtime_version && { runtime_version: r.runtime_version }),
         ...(r.error && { error: r.error }),
+        ...(r.timeout_ms !== undefined && { timeout_ms: r.timeout_ms }),
+        ...(r.partial && { partial: r.partial }),
+        ...(r.adaptive && { adaptive: r.adaptive }),
+        ...(r.forks && { forks: r.forks }),
+        ...(r.warmup_iterations !== undefined && { warmup_iterations: r.warmup_iterations }),
+        ...(r.significance && { significance: r.significance }),
+        ...(r.total_samples &&
+          r.total_samples.length > 0 && { histogram: histogram(r.total_samples) }),
+        ...(options.saveSamples && r.samples && { samples: r.samples }),
         // Include verification result for each benchmark
         ...(r.verification && { verification: r.verification }),
       })),
+      ...(summary && { summary }),
     };
     console.log(JSON.stringify(output, null, 2));
   } else {
     // table format (default)
-    outputTable(results, adapters, baseline);
+    outputTable(
+      results,
+      adapters,
+      baseline,
+      options.bootstrap,
+      options.stat,
+      options.throughput,
+      options.noiseThreshold
+    );
   }
 
   // Exit with code 1 on verification failure (for CI pipelines)
@@ -831,14 +2479,32 @@ async function runSingle(options: SingleBenchOptions): Promise<void> {
   // Helper for conditional progress output
   const log = options.quiet ? () => {} : (msg: string) => console.error(msg);
 
-  // Pre-check: Verify environment is ready
+  // Pre-check: Verify environment is ready and the adapter speaks our protocol
+  let coldStartRuns = options.coldStart;
+  let batchSize = options.batchSize;
+  let adapterConfig: AdapterConfig | undefined;
+  let protocol: AdapterProtocol | undefined;
   try {
     await ensureAdapterReady(options.adapter);
+    adapterConfig = getAdapterConfig(options.adapter);
+    protocol = adapterConfig && (await negotiateProtocol(adapterConfig));
+    if (protocol) {
+      ({ coldStartRuns, batchSize } = fitFeatures(
+        options.adapter,
+        protocol,
+        { coldStartRuns, batchSize, adaptive: options.adaptive !== undefined },
+        log
+      ));
+    }
   } catch (e) {
     if (e instanceof CliError) {
       outputError(e, options.format);
       process.exit(1);
     }
+    if (e instanceof AdapterProtocolError) {
+      outputError(Errors.adapterProtocolMismatch(options.adapter, e.reason), options.format);
+      process.exit(1);
+    }
     throw e;
   }
 
@@ -849,9 +2515,27 @@ async function runSingle(options: SingleBenchOptions): Promise<void> {
     process.exit(1);
   }
 
+  // Load the earlier run to test against
+  let againstTotals: number[] | undefined;
+  if (options.against) {
+    try {
+      againstTotals = await loadRunTotals(
+        options.against,
+        options.subtractOverhead,
+        options.outliers
+      );
+    } catch (e) {
+      if (e instanceof CliError) {
+        outputError(e, options.format);
+        process.exit(1);
+      }
+      throw e;
+    }
+  }
+
   // Load config for baseline adapter
   const config = await loadConfig();
-  const baseline = config.baseline.library as AdapterName;
+  const baseline = getBaselineAdapter(config);
 
   // Verification options
   const verifyOptions: VerifyOptions = {
@@ -860,9 +2544,31 @@ async function runSingle(options: SingleBenchOptions): Promise<void> {
     baselineAdapter: baseline,
   };
 
+  const timeoutMs = resolveTimeout(config, {
+    adapter: options.adapter,
+    scenario: options.scenario,
+    scale: options.scale,
+    ...(options.timeout !== undefined && { override: options.timeout }),
+  });
+
   // Progress output to stderr
   log(`bench: ${options.adapter} ${options.scenario}`);
-  log(`  scale=${options.scale} iterations=${options.iterations} warmup=${options.warmup}`);
+  log(
+    `  scale=${options.scale} iterations=${options.iterations} warmup=${options.warmup} timeout=${timeoutMs}ms`
+  );
+  if (coldStartRuns > 0) {
+    log(`  cold start: ${coldStartRuns} fresh processes`);
+  }
+  if (batchSize > 1) {
+    log(`  batch size: ${batchSize} calls per sample`);
+  }
+  if (options.forks > 1) {
+    log(`  forks: ${options.forks} processes per benchmark`);
+  }
+  if (options.adaptive) {
+    const { targetRsd, maxTimeMs } = options.adaptive;
+    log(`  adaptive: until ±${targetRsd * 100}% of the mean, up to ${maxTimeMs}ms`);
+  }
   if (options.updateSnapshots) {
     log(`  mode: updating snapshots`);
   } else if (options.verifyMode === "off") {
@@ -872,20 +2578,45 @@ async function runSingle(options: SingleBenchOptions): Promise<void> {
     log(`  verify: ${options.verifyMode} (vs ${verifyTarget})`);
   }
 
+  // Adaptive batches share one warm process when the adapter can serve several jobs.
+  // Started only now, so the validation exits above leave no process behind.
+  const worker =
+    adapterConfig && protocol && options.adaptive && hasCapability(protocol, "worker_mode")
+      ? new AdapterWorker(adapterConfig)
+      : undefined;
+
   const startTime = Date.now();
-  const result = await runSingleBenchmark(
-    options.adapter,
-    options.scenario,
-    options.scale,
-    options.iterations,
-    options.warmup,
-    false, // progress already shown above
-    verifyOptions
-  );
+  let result: BenchResult;
+  try {
+    result = await runSingleBenchmark(
+      options.adapter,
+      options.scenario,
+      options.scale,
+      options.iterations,
+      options.warmup,
+      false, // progress already shown above
+      verifyOptions,
+      worker,
+      timeoutMs,
+      {
+        coldStartRuns,
+        batchSize,
+        forks: options.forks,
+        subtractOverhead: options.subtractOverhead,
+        bootstrap: options.bootstrap,
+        outliers: options.outliers,
+        percentiles: options.percentiles,
+        noiseThreshold: options.noiseThreshold,
+        ...(options.adaptive && { adaptive: options.adaptive }),
+      }
+    );
+  } finally {
+    await worker?.close();
+  }
 
   if (!result.success) {
-    if (result.error?.includes("timed out")) {
-      outputError(Errors.adapterTimeout(options.adapter, 300000), options.format);
+    if (result.timeout_ms !== undefined) {
+      outputError(Errors.adapterTimeout(options.adapter, result.timeout_ms), options.format);
     } else if (result.error?.includes("exited with code")) {
       const exitMatch = result.error.match(/code (\d+)/);
       const exitCode = exitMatch ? parseInt(exitMatch[1], 10) : 1;
@@ -898,6 +2629,39 @@ async function runSingle(options: SingleBenchOptions): Promise<void> {
 
   const totalTimeMs = Date.now() - startTime;
   log(`  completed in ${totalTimeMs}ms`);
+  if (result.warmup_iterations !== undefined) {
+    log(`  warmup: ${result.warmup_iterations} iterations until steady state`);
+  }
+  if (result.adaptive) {
+    log(`  adaptive: ${describeAdaptive(result.adaptive)} in ${result.adaptive.batches} batches`);
+  }
+  if (result.forks) {
+    log(`  forks: ${describeForks(result.forks)}`);
+  }
+  if (result.partial) {
+    log(
+      `  partial: ${result.partial.completed_iterations}/${result.partial.total_iterations} iterations (${result.partial.reason}): ${result.error}`
+    );
+  }
+  if (result.cold_start_error) {
+    log(`  cold start failed: ${result.cold_start_error}`);
+  }
+  const significance = compareTotals(result.total_samples, againstTotals);
+  const distribution =
+    result.total_samples && result.total_samples.length > 0
+      ? histogram(result.total_samples)
+      : undefined;
+  if (significance) {
+    log(`  vs ${options.against}: ${describeSignificance(significance)}`);
+  }
+  const unresolved = result.metrics ? phasesBelowResolution(result.metrics) : [];
+  if (unresolved.length > 0) {
+    log(`  below timer resolution: ${unresolved.join(", ")} (try --batch-size)`);
+  }
+  const noisy = result.metrics !== undefined && noisyPhases(result.metrics).length > 0;
+  if (noisy && result.metrics) {
+    log(`  noisy: ${describeNoise(result.metrics)} (above ${options.noiseThreshold * 100}%)`);
+  }
 
   // Log verification result
   if (result.verification) {
@@ -916,13 +2680,31 @@ async function runSingle(options: SingleBenchOptions): Promise<void> {
 
   // Output structure follows result.schema.json
   const output = {
-    success: true,
+    success: !result.partial,
     metadata: {
       timestamp: new Date().toISOString(),
       scenario: options.scenario,
       scale: options.scale,
       iterations: options.iterations,
       warmup: options.warmup,
+      ...(result.warmup_iterations !== undefined && {
+        warmup_iterations: result.warmup_iterations,
+      }),
+      ...(coldStartRuns > 0 && { cold_start_runs: coldStartRuns }),
+      ...(batchSize > 1 && { batch_size: batchSize }),
+      ...(options.forks > 1 && { forks: options.forks }),
+      ...(options.subtractOverhead && { subtract_overhead: true }),
+      ...(options.bootstrap.resamples > 0 && { bootstrap: options.bootstrap }),
+      outliers: options.outliers,
+      noise_threshold: options.noiseThreshold,
+      ...(options.against && { against: options.against }),
+      ...(options.adaptive && {
+        adaptive: {
+          target_rsd: options.adaptive.targetRsd,
+          max_time_ms: options.adaptive.maxTimeMs,
+          ...result.adaptive,
+        },
+      }),
     },
     adapter: {
       name: options.adapter,
@@ -932,8 +2714,20 @@ async function runSingle(options: SingleBenchOptions): Promise<void> {
       runtime_version: result.runtime_version,
     },
     metrics: result.metrics,
+    ...(noisy && { noisy: true }),
+    ...(result.throughput && { throughput: result.throughput }),
+    ...(result.memory && { memory: result.memory }),
+    ...(result.cold_start && { cold_start: result.cold_start }),
+    ...(result.cold_start_error && { cold_start_error: result.cold_start_error }),
+    ...(result.forks && { forks: result.forks }),
+    ...(result.timer_overhead_ms !== undefined && { timer_overhead_ms: result.timer_overhead_ms }),
+    ...(result.partial && { partial: result.partial, error: result.error }),
+    ...(result.timeout_ms !== undefined && { timeout_ms: result.timeout_ms }),
+    ...(significance && { significance }),
+    ...(distribution && { histogram: distribution }),
     // Include verification result in output
     ...(result.verification && { verification: result.verification }),
+    ...(options.saveSamples && { samples: result.samples }),
   };
 
   if (isJson) {
@@ -956,21 +2750,116 @@ async function runSingle(options: SingleBenchOptions): Promise<void> {
     console.log(`┌${hr}┐`);
     console.log(row(` ${options.adapter} × ${options.scenario}`));
     console.log(`├${hr}┤`);
-    console.log(
-      row(
-        `   Parse:  ${formatTime(metrics.parse.mean_ms)} (±${formatTime(metrics.parse.stddev_ms)})`
-      )
-    );
-    console.log(
-      row(
-        `   Render: ${formatTime(metrics.render.mean_ms)} (±${formatTime(metrics.render.stddev_ms)})`
-      )
-    );
-    console.log(
-      row(
-        `   Total:  ${formatTime(metrics.total.mean_ms)} (±${formatTime(metrics.total.stddev_ms)})`
-      )
-    );
+    // Mean (±stddev) with the mean's confidence interval when computed
+    const timing = (label: string, phase: PhaseMetrics) => {
+      const ci = phase.mean_ci
+        ? ` [${formatTime(phase.mean_ci.lower)}–${formatTime(phase.mean_ci.upper)}]`
+        : "";
+      return row(`   ${label} ${formatTime(phase.mean_ms)} (±${formatTime(phase.stddev_ms)})${ci}`);
+    };
+    console.log(timing("Parse: ", metrics.parse));
+    console.log(timing("Render:", metrics.render));
+    console.log(timing("Total: ", metrics.total));
+    // Include throughput at the mean times
+    if (result.throughput) {
+      const { parse_ops_per_sec: parses, render_ops_per_sec: renders } = result.throughput;
+      console.log(row(`   Rate:   ${formatRate(parses)} parses, ${formatRate(renders)} renders`));
+      if (result.throughput.output_bytes_per_sec !== undefined) {
+        console.log(row(`   Output: ${formatBytes(result.throughput.output_bytes_per_sec)}/s`));
+      }
+    }
+    // Include timer overhead and resolution flags when the adapter calibrated its timer
+    if (result.timer_overhead_ms !== undefined) {
+      const applied = options.subtractOverhead ? "subtracted" : "included";
+      console.log(row(`   Timer:  ${formatTime(result.timer_overhead_ms)} overhead (${applied})`));
+      if (unresolved.length > 0) {
+        console.log(row(`   ! below timer resolution: ${unresolved.join(", ")}`));
+      }
+    }
+    // Include the comparison with an earlier run when requested
+    if (significance && result.total_samples && againstTotals) {
+      const ratio = mean(result.total_samples) / mean(againstTotals);
+      console.log(row(`   vs run: ${formatRatio(ratio)}, ${describeSignificance(significance)}`));
+    }
+    // Include how the adaptive run stopped
+    if (result.adaptive) {
+      const { rsd, stop_reason: reason } = result.adaptive;
+      const precision = rsd !== undefined ? `±${(rsd * 100).toFixed(2)}%` : "±?";
+      console.log(row(`   Adaptive: ${precision} (${ADAPTIVE_REASONS[reason]})`));
+    }
+    // Include the warmup detected before steady state
+    if (result.warmup_iterations !== undefined) {
+      console.log(row(`   Warmup: ${result.warmup_iterations} iterations (auto)`));
+    }
+    // Include how much of the variance lies between processes
+    if (result.forks) {
+      const { count, between_stddev_ms: between, between_share: share } = result.forks;
+      console.log(
+        row(`   Forks:  ${count}, between ${formatSpread(between)} (${Math.round(share * 100)}%)`)
+      );
+    }
+    // Include the phases too noisy to trust
+    if (noisy) {
+      console.log(row(`   ~ noisy: ${describeNoise(metrics)}`));
+    }
+    // Include outlier counts when any phase has outliers
+    const { parse, render, total } = metrics;
+    if ((parse.outliers ?? 0) + (render.outliers ?? 0) + (total.outliers ?? 0) > 0) {
+      const handled = { keep: "kept", trim: "trimmed", winsorize: "clamped" }[options.outliers];
+      console.log(
+        row(
+          `   Outliers: parse ${parse.outliers}, render ${render.outliers}, total ${total.outliers} (${handled})`
+        )
+      );
+    }
+    // Include the distribution of total times
+    if (distribution) {
+      console.log(`├${hr}┤`);
+      console.log(row(" Total time distribution"));
+      for (const line of histogramRows(distribution, width - 4)) {
+        console.log(row(`   ${line}`));
+      }
+    }
+    // Include memory in table when measured
+    const memory = result.memory;
+    if (memory) {
+      console.log(`├${hr}┤`);
+      if (memory.parse && memory.render) {
+        // Live heap at phase end is not a peak, so it is labelled as what it is
+        const [measure, suffix] =
+          memory.measure === "live" ? ["live", " at phase end"] : ["peak", ""];
+        console.log(row(`   Parse ${measure}:  ${formatBytes(memory.parse.max_bytes)}${suffix}`));
+        console.log(row(`   Render ${measure}: ${formatBytes(memory.render.max_bytes)}${suffix}`));
+      }
+      if (memory.peak_rss_bytes !== undefined) {
+        console.log(row(`   Peak RSS:    ${formatBytes(memory.peak_rss_bytes)}`));
+      }
+    }
+    // Include cold start in table when measured
+    const coldStart = result.cold_start;
+    if (coldStart) {
+      const phase = (label: string, metrics: PhaseMetrics) =>
+        row(`   ${label} ${formatTime(metrics.mean_ms)} (±${formatTime(metrics.stddev_ms)})`);
+      console.log(`├${hr}┤`);
+      console.log(row(` Cold start (${coldStart.runs} processes)`));
+      console.log(phase("Boot:        ", coldStart.boot));
+      console.log(phase("Load:        ", coldStart.load));
+      console.log(phase("First parse: ", coldStart.first_parse));
+      console.log(phase("First render:", coldStart.first_render));
+      console.log(phase("Total:       ", coldStart.total));
+    }
+    if (result.cold_start_error) {
+      console.log(`├${hr}┤`);
+      console.log(row(" Cold start: failed"));
+    }
+    if (result.partial) {
+      console.log(`├${hr}┤`);
+      console.log(
+        row(
+          `   Partial: ${result.partial.completed_iterations}/${result.partial.total_iterations} iterations (${result.partial.reason})`
+        )
+      );
+    }
     // Include verification result in table
     if (result.verification) {
       console.log(`├${hr}┤`);
@@ -986,8 +2875,8 @@ async function runSingle(options: SingleBenchOptions): Promise<void> {
     console.log("");
   }
 
-  // Exit with code 1 on verification failure
-  if (result.verification?.status === "fail") {
+  // Exit with code 1 on verification failure or an incomplete run
+  if (result.verification?.status === "fail" || result.partial) {
     process.exit(1);
   }
 }
@@ -9,8 +9,10 @@ import { printHelp as benchHelp, run as benchRun } from "./bench";
 import { printHelp as listHelp, run as listRun } from "./list";
 import { printHelp as prepareHelp, run as prepareRun } from "./prepare";
 import { printHelp as setupHelp, run as setupRun } from "./setup";
+import { printHelp as supportHelp, run as supportRun } from "./support";
 
 export const bench = { run: benchRun, printHelp: benchHelp };
 export const list = { run: listRun, printHelp: listHelp };
 export const prepare = { run: prepareRun, printHelp: prepareHelp };
 export const setup = { run: setupRun, printHelp: setupHelp };
+export const support = { run: supportRun, printHelp: supportHelp };
@@ -3,8 +3,15 @@
  */
 
 import { describe, expect, test } from "bun:test";
-import type { LebConfig } from "../lib";
-import { generateComposerJson, generateGemfile } from "./setup";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { LebConfig, LibraryConfig } from "../lib";
+import {
+  generateComposerJson,
+  generateGemfile,
+  generateVersionComposerJson,
+  generateVersionGemfile,
+} from "./setup";
 
 const mockConfig: LebConfig = {
   runtimes: { php: "8.3", ruby: "3.3" },
@@ -16,6 +23,21 @@ const mockConfig: LebConfig = {
   ],
 };
 
+const PROJECT_ROOT = join(import.meta.dir, "../..");
+
+/**
+ * Run a function with another working directory.
+ */
+function inOtherDir<T>(fn: () => T): T {
+  const cwd = process.cwd();
+  process.chdir(tmpdir());
+  try {
+    return fn();
+  } finally {
+    process.chdir(cwd);
+  }
+}
+
 describe("generateComposerJson", () => {
   test("generates valid JSON", () => {
     const result = generateComposerJson(mockConfig);
@@ -93,3 +115,100 @@ describe("generateGemfile", () => {
     expect(result.endsWith("\n")).toBe(true);
   });
 });
+
+describe("generateVersionComposerJson", () => {
+  const keepsuit: LibraryConfig = {
+    lang: "php",
+    name: "keepsuit",
+    package: "keepsuit/liquid",
+    version: "1.0.0",
+  };
+
+  test("requires only the library at the given version", () => {
+    const json = JSON.parse(
+      generateVersionComposerJson(mockConfig, keepsuit, { version: "0.9.0" })
+    );
+
+    expect(json.require).toEqual({ php: ">=8.3", "keepsuit/liquid": "0.9.0" });
+    expect(json.repositories).toBeUndefined();
+  });
+
+  test("adds a path repository with the version pinned", () => {
+    const json = JSON.parse(
+      generateVersionComposerJson(mockConfig, keepsuit, {
+        version: "0.9.0",
+        repository: { type: "path", url: "/src/php-liquid" },
+      })
+    );
+
+    expect(json.repositories).toEqual([
+      {
+        type: "path",
+        url: "/src/php-liquid",
+        options: { symlink: false, versions: { "keepsuit/liquid": "0.9.0" } },
+      },
+    ]);
+  });
+
+  test("maps a package cache to an artifact repository", () => {
+    const json = JSON.parse(
+      generateVersionComposerJson(mockConfig, keepsuit, {
+        version: "0.9.0",
+        repository: { type: "cache", url: "/cache/composer" },
+      })
+    );
+
+    expect(json.repositories).toEqual([{ type: "artifact", url: "/cache/composer" }]);
+  });
+
+  test("resolves a relative repository against the project root", () => {
+    const json = JSON.parse(
+      inOtherDir(() =>
+        generateVersionComposerJson(mockConfig, keepsuit, {
+          version: "0.9.0",
+          repository: { type: "cache", url: "vendor-cache/composer" },
+        })
+      )
+    );
+
+    expect(json.repositories).toEqual([
+      { type: "artifact", url: join(PROJECT_ROOT, "vendor-cache/composer") },
+    ]);
+  });
+});
+
+describe("generateVersionGemfile", () => {
+  const shopify: LibraryConfig = {
+    lang: "ruby",
+    name: "shopify",
+    package: "liquid",
+    version: "5.6.0",
+  };
+
+  test("pins the gem to the given version", () => {
+    const result = generateVersionGemfile(shopify, { version: "5.5.0" });
+
+    expect(result).toContain("(shopify@5.5.0)");
+    expect(result).toContain('gem "liquid", "5.5.0"\n');
+  });
+
+  test("points the gem at a path repository", () => {
+    const result = generateVersionGemfile(shopify, {
+      version: "5.5.0",
+      repository: { type: "path", url: "/src/liquid" },
+    });
+
+    expect(result).toContain('gem "liquid", "5.5.0", path: "/src/liquid"');
+  });
+
+  test("resolves a relative path repository against the project root", () => {
+    const result = inOtherDir(() =>
+      generateVersionGemfile(shopify, {
+        version: "5.5.0",
+        repository: { type: "path", url: "../liquid" },
+      })
+    );
+
+    expect(result).toContain(`path: "${join(PROJECT_ROOT, "../liquid")}"`);
+  });
+});
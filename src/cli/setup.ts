@@ -3,31 +3,38 @@
  *
  * Prepares the benchmark environment:
  * - Generates dependency files (composer.json, Gemfile)
+ * - Installs additional library versions into .generated/deps/{name}@{version}/
  * - Seeds the benchmark database
  *
  * Usage:
  *   leb setup          # Run all setup (php + ruby + db)
- *   leb setup php      # Generate composer.json only
- *   leb setup ruby     # Generate Gemfile only
+ *   leb setup php      # PHP dependency files and versions only
+ *   leb setup ruby     # Ruby dependency files and versions only
  *
  * For database seeding only, run directly:
  *   bun src/db/seed.ts
  */
 
-import { join } from "node:path";
+import { existsSync, mkdirSync } from "node:fs";
+import { join, resolve } from "node:path";
 import {
   type ConfigLang,
   filterLibrariesByLang,
+  getAdapterConfig,
+  getDepsDir,
   getRuntimeVersion,
   type LebConfig,
+  type LibraryConfig,
   loadConfig,
+  versionAdapterName,
 } from "../lib";
+import type { LibraryRepository, LibraryVersion } from "../types";
 
 /**
  * Setup target options.
  * - "all": run all setup tasks (default when no args)
- * - "php": generate composer.json only
- * - "ruby": generate Gemfile only
+ * - "php": generate composer.json and install additional PHP library versions
+ * - "ruby": generate Gemfile and install additional Ruby library versions
  */
 type SetupTarget = ConfigLang | "all";
 
@@ -35,6 +42,16 @@ const VALID_TARGETS: ConfigLang[] = ["php", "ruby"];
 
 const SEED_SCRIPT = join(import.meta.dir, "../db/seed.ts");
 
+const PROJECT_ROOT = join(import.meta.dir, "../..");
+
+/**
+ * Absolute directory of a local library repository.
+ * Relative URLs are relative to the project root, not the working directory.
+ */
+function repositoryDir(repository: LibraryRepository): string {
+  return resolve(PROJECT_ROOT, repository.url);
+}
+
 /**
  * Parse setup command arguments.
  * No arguments means "all" (run everything).
@@ -81,8 +98,14 @@ Usage:
 
 Targets:
   (none)  Run all setup (php + ruby + db)
-  php     Generate composer.json only
-  ruby    Generate Gemfile only
+  php     Generate composer.json, install additional PHP library versions
+  ruby    Generate Gemfile, install additional Ruby library versions
+
+Library versions:
+  Entries in a library's "versions" are installed into
+  .generated/deps/{name}@{version}/ (composer install / bundle install) and
+  benchmarked as separate adapters named {name}@{version}. A "repository"
+  installs from a local path checkout or package cache directory.
 
 Examples:
   leb setup              # Full setup
@@ -142,6 +165,68 @@ export function generateGemfile(config: LebConfig): string {
   return `${lines.join("\n")}\n`;
 }
 
+/**
+ * Generate composer.json content for an additional library version.
+ * Requires only that library; a local repository takes precedence over Packagist.
+ */
+export function generateVersionComposerJson(
+  config: LebConfig,
+  library: LibraryConfig,
+  version: LibraryVersion
+): string {
+  const repository = version.repository;
+  const repositories = repository
+    ? [
+        repository.type === "path"
+          ? {
+              type: "path",
+              url: repositoryDir(repository),
+              options: { symlink: false, versions: { [library.package]: version.version } },
+            }
+          : { type: "artifact", url: repositoryDir(repository) },
+      ]
+    : undefined;
+
+  const composerJson = {
+    name: `liquid-engine-benchmarks/${library.name}-${version.version}`,
+    description: `${library.package} ${version.version} for benchmarking`,
+    type: "project",
+    license: "MIT",
+    require: {
+      php: `>=${getRuntimeVersion(config, "php")}`,
+      [library.package]: version.version,
+    },
+    ...(repositories && { repositories }),
+    config: {
+      "optimize-autoloader": true,
+      "sort-packages": true,
+    },
+  };
+
+  return JSON.stringify(composerJson, null, 2);
+}
+
+/**
+ * Generate Gemfile content for an additional library version.
+ * A path repository points the gem at a local checkout; a cache repository
+ * is used at install time (bundle install --local).
+ */
+export function generateVersionGemfile(library: LibraryConfig, version: LibraryVersion): string {
+  const path =
+    version.repository?.type === "path" ? `, path: "${repositoryDir(version.repository)}"` : "";
+
+  const lines = [
+    "# frozen_string_literal: true",
+    `# Auto-generated from leb.config.json (${versionAdapterName(library.name, version.version)})`,
+    "",
+    'source "https://rubygems.org"',
+    "",
+    `gem "${library.package}", "${version.version}"${path}`,
+  ];
+
+  return `${lines.join("\n")}\n`;
+}
+
 /**
  * Write file only if content has changed.
  * @returns true if file was written, false if unchanged
@@ -162,7 +247,57 @@ async function writeIfChanged(path: string, content: string): Promise<boolean> {
 }
 
 /**
- * Setup PHP dependencies - generates composer.json.
+ * Run a package manager command, streaming its output.
+ * @throws Error if the command exits non-zero
+ */
+async function install(
+  command: string[],
+  cwd: string,
+  env: Record<string, string> = {}
+): Promise<void> {
+  const proc = Bun.spawn(command, {
+    cwd,
+    env: { ...process.env, ...env },
+    stdout: "inherit",
+    stderr: "inherit",
+  });
+
+  if ((await proc.exited) !== 0) {
+    throw new Error(`'${command.join(" ")}' failed in ${cwd}`);
+  }
+}
+
+/**
+ * Write a version's dependency file and install it when it changed or was
+ * never installed. Each version gets its own .generated/deps/{name}@{version}/.
+ *
+ * @param installed - File whose presence marks a completed install
+ */
+async function setupVersion(
+  library: LibraryConfig,
+  version: LibraryVersion,
+  file: string,
+  content: string,
+  installed: string,
+  command: string[],
+  env: Record<string, string> = {}
+): Promise<void> {
+  const label = versionAdapterName(library.name, version.version);
+  const dir = getDepsDir(library.name, version.version);
+  mkdirSync(dir, { recursive: true });
+
+  const written = await writeIfChanged(join(dir, file), content);
+  if (!written && existsSync(join(dir, installed))) {
+    console.log(`${label} is up to date`);
+    return;
+  }
+
+  console.log(`Installing ${label}...`);
+  await install(command, dir, env);
+}
+
+/**
+ * Setup PHP dependencies - generates composer.json and installs versions.
  */
 async function setupPhp(config: LebConfig): Promise<void> {
   const content = generateComposerJson(config);
@@ -173,10 +308,25 @@ async function setupPhp(config: LebConfig): Promise<void> {
   } else {
     console.log("composer.json is up to date");
   }
+
+  for (const lib of filterLibrariesByLang(config.libraries, "php")) {
+    for (const version of lib.versions ?? []) {
+      await setupVersion(
+        lib,
+        version,
+        "composer.json",
+        generateVersionComposerJson(config, lib, version),
+        "vendor/autoload.php",
+        ["composer", "install", "--quiet"]
+      );
+    }
+  }
 }
 
 /**
- * Setup Ruby dependencies - generates Gemfile.
+ * Setup Ruby dependencies - generates Gemfile and installs versions.
+ * Versions install with the adapter's BUNDLE_GEMFILE/BUNDLE_PATH so the
+ * benchmark loads exactly what was installed.
  */
 async function setupRuby(config: LebConfig): Promise<void> {
   const content = generateGemfile(config);
@@ -187,6 +337,24 @@ async function setupRuby(config: LebConfig): Promise<void> {
   } else {
     console.log("Gemfile is up to date");
   }
+
+  for (const lib of filterLibrariesByLang(config.libraries, "ruby")) {
+    for (const version of lib.versions ?? []) {
+      const cache = version.repository?.type === "cache" ? version.repository : undefined;
+      await setupVersion(
+        lib,
+        version,
+        "Gemfile",
+        generateVersionGemfile(lib, version),
+        "Gemfile.lock",
+        ["bundle", "install", "--quiet", ...(cache ? ["--local"] : [])],
+        {
+          ...getAdapterConfig(versionAdapterName(lib.name, version.version))?.env,
+          ...(cache && { BUNDLE_CACHE_PATH: repositoryDir(cache) }),
+        }
+      );
+    }
+  }
 }
 
 /**
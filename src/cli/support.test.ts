@@ -0,0 +1,57 @@
+/**
+ * Unit tests for support CLI command
+ *
+ * Tests argument parsing for the support subcommand.
+ */
+
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { parseArgs_ } from "./support";
+
+describe("parseArgs_", () => {
+  let exitSpy: ReturnType<typeof spyOn>;
+  let errorSpy: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    // Prevent actual process.exit during tests
+    exitSpy = spyOn(process, "exit").mockImplementation(() => {
+      throw new Error("process.exit called");
+    });
+    errorSpy = spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    exitSpy.mockRestore();
+    errorSpy.mockRestore();
+  });
+
+  test("defaults to table format at small scale for all unit categories", () => {
+    expect(parseArgs_([])).toEqual({ format: "table", scale: "small", quiet: false });
+  });
+
+  test("parses format, scale, category and quiet", () => {
+    expect(parseArgs_(["-f", "markdown", "-s", "medium", "-c", "unit/filters", "-q"])).toEqual({
+      format: "markdown",
+      scale: "medium",
+      category: "unit/filters",
+      quiet: true,
+    });
+  });
+
+  test("accepts json format", () => {
+    expect(parseArgs_(["--format", "json"]).format).toBe("json");
+  });
+
+  test("rejects invalid format", () => {
+    expect(() => parseArgs_(["-f", "csv"])).toThrow("process.exit called");
+    expect(errorSpy).toHaveBeenCalledWith('Error: Invalid format "csv"');
+  });
+
+  test("rejects categories outside unit tags and filters", () => {
+    expect(() => parseArgs_(["-c", "representative"])).toThrow("process.exit called");
+    expect(errorSpy).toHaveBeenCalledWith('Error: Invalid category "representative"');
+  });
+
+  test("rejects positional arguments", () => {
+    expect(() => parseArgs_(["keepsuit"])).toThrow();
+  });
+});
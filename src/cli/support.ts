@@ -0,0 +1,408 @@
+/**
+ * Support CLI Command
+ *
+ * Prints a feature support matrix: unit scenarios × adapters.
+ * Answers "does <library> support <tag/filter>?" without reading leb.config.json.
+ *
+ * Each adapter renders every unit/tags and unit/filters scenario once.
+ * The output is compared against the baseline adapter's snapshot.
+ *
+ * Usage:
+ *   leb support                        # Table of all unit scenarios
+ *   leb support -c unit/filters -f markdown
+ */
+
+import { parseArgs } from "node:util";
+import {
+  AdapterWorker,
+  classifyFailure,
+  compareSnapshots,
+  ensureAdapterReady,
+  getAdapterConfig,
+  getBaselineAdapter,
+  getExcludedScenarios,
+  hasCapability,
+  listAdapters,
+  loadConfig,
+  loadData,
+  loadScenario,
+  negotiateProtocol,
+  PROBE_TIMEOUT_MS,
+  runAdapter,
+  ScenarioLoader,
+  verifySnapshot,
+} from "../lib";
+import { type AdapterName, isScale, SCALES, type Scale } from "../types";
+
+/**
+ * Output format for the support matrix.
+ */
+type SupportFormat = "table" | "markdown" | "json";
+
+/**
+ * Valid output formats.
+ */
+const SUPPORT_FORMATS = ["table", "markdown", "json"] as const;
+
+function isSupportFormat(s: string): s is SupportFormat {
+  return SUPPORT_FORMATS.includes(s as SupportFormat);
+}
+
+/**
+ * Scenario categories covered by the matrix.
+ */
+const SUPPORT_CATEGORIES = ["unit/tags", "unit/filters"] as const;
+
+type SupportCategory = (typeof SUPPORT_CATEGORIES)[number];
+
+function isSupportCategory(s: string): s is SupportCategory {
+  return SUPPORT_CATEGORIES.includes(s as SupportCategory);
+}
+
+/**
+ * Matrix cell status.
+ * - supported: renders the same output as the baseline
+ * - excluded: excludeScenarios in leb.config.json, or an unknown tag/filter
+ * - error: fails for another reason (crash, timeout, runtime error)
+ * - differs: renders, but the output differs from the baseline
+ * - unavailable: adapter environment is not ready, or its protocol is incompatible
+ */
+export type SupportCellStatus = "supported" | "excluded" | "error" | "differs" | "unavailable";
+
+/**
+ * One adapter × scenario cell.
+ */
+export interface SupportCell {
+  status: SupportCellStatus;
+  /** "config", the missing feature (e.g., "filter:sum") or the error message */
+  detail?: string;
+}
+
+/**
+ * CLI options for support command.
+ */
+interface SupportOptions {
+  format: SupportFormat;
+  scale: Scale;
+  category?: SupportCategory;
+  quiet: boolean;
+}
+
+/**
+ * Default data scale. Small keeps the matrix fast; support rarely depends on size.
+ */
+const DEFAULT_SCALE: Scale = "small";
+
+/**
+ * Parse command-line arguments for support command.
+ * @param args - CLI arguments (after 'support' subcommand)
+ */
+export function parseArgs_(args: string[]): SupportOptions {
+  if (args.includes("-h") || args.includes("--help")) {
+    printHelp();
+    process.exit(0);
+  }
+
+  const { values } = parseArgs({
+    args,
+    options: {
+      format: { type: "string", short: "f" },
+      scale: { type: "string", short: "s" },
+      category: { type: "string", short: "c" },
+      quiet: { type: "boolean", short: "q" },
+    },
+    strict: true,
+    allowPositionals: false,
+  });
+
+  const format = values.format ?? "table";
+  if (!isSupportFormat(format)) {
+    console.error(`Error: Invalid format "${format}"`);
+    console.error(`Valid formats: ${SUPPORT_FORMATS.join(", ")}`);
+    process.exit(1);
+  }
+
+  const scale = values.scale ?? DEFAULT_SCALE;
+  if (!isScale(scale)) {
+    console.error(`Error: Invalid scale "${scale}"`);
+    console.error(`Valid scales: ${SCALES.join(", ")}`);
+    process.exit(1);
+  }
+
+  const category = values.category;
+  if (category !== undefined && !isSupportCategory(category)) {
+    console.error(`Error: Invalid category "${category}"`);
+    console.error(`Valid categories: ${SUPPORT_CATEGORIES.join(", ")}`);
+    process.exit(1);
+  }
+
+  return {
+    format,
+    scale,
+    ...(category && { category }),
+    quiet: values.quiet ?? false,
+  };
+}
+
+/**
+ * Print help message for support command.
+ */
+export function printHelp(): void {
+  console.log(`
+support - Show which adapters support which tags and filters
+
+Usage:
+  leb support [options]
+
+Rows are unit/tags/* and unit/filters/* scenarios, columns are adapters.
+Each adapter renders each scenario once; output is compared against the
+baseline adapter's snapshot (or its live output when no snapshot exists).
+
+Cells:
+  supported    Renders the same output as the baseline
+  excluded     Listed in excludeScenarios, or uses an unknown tag/filter
+  error        Fails for another reason (crash, timeout, runtime error)
+  differs      Renders, but the output differs from the baseline
+  -            Adapter environment not ready, or incompatible protocol
+
+Options:
+  -c, --category <cat>   Only one category: unit/tags, unit/filters
+  -f, --format <type>    Output format: table, markdown, json (default: table)
+  -s, --scale <size>     Data scale: small, medium, large, 2xl (default: small)
+  -q, --quiet            Suppress progress output
+  -h, --help             Show this help
+
+Examples:
+  leb support
+  leb support -c unit/filters -f markdown >> docs/support.md
+  leb support -f json | jq '.scenarios[] | select(.scenario == "unit/filters/find")'
+`);
+}
+
+/**
+ * Probe one adapter across scenarios.
+ * Scenarios excluded by config are not run.
+ */
+async function probeAdapter(
+  adapter: AdapterName,
+  scenarios: string[],
+  excluded: Set<string>,
+  scale: Scale,
+  log: (msg: string) => void
+): Promise<{ cells: Map<string, SupportCell>; outputs: Map<string, string> }> {
+  const cells = new Map<string, SupportCell>();
+  const outputs = new Map<string, string>();
+
+  const adapterConfig = getAdapterConfig(adapter);
+  let workerMode = false;
+  try {
+    await ensureAdapterReady(adapter);
+    if (adapterConfig) {
+      workerMode = hasCapability(await negotiateProtocol(adapterConfig), "worker_mode");
+    }
+  } catch (e) {
+    log(`  [skip] ${adapter}: ${e instanceof Error ? e.message : String(e)}`);
+    for (const scenario of scenarios) {
+      cells.set(scenario, { status: "unavailable" });
+    }
+    return { cells, outputs };
+  }
+
+  const worker = adapterConfig && workerMode ? new AdapterWorker(adapterConfig) : undefined;
+  const data = loadData(scale);
+
+  for (const scenario of scenarios) {
+    if (excluded.has(scenario)) {
+      cells.set(scenario, { status: "excluded", detail: "config" });
+      continue;
+    }
+
+    log(`  ${adapter} × ${scenario}`);
+    const input = { template: await loadScenario(scenario), data, iterations: 1, warmup: 0 };
+
+    try {
+      const result = worker
+        ? await worker.run(input, PROBE_TIMEOUT_MS)
+        : await runAdapter(adapter, input, PROBE_TIMEOUT_MS);
+      cells.set(scenario, { status: "supported" });
+      outputs.set(scenario, result.output.rendered_output ?? "");
+    } catch (e) {
+      const failure = classifyFailure(e);
+      cells.set(
+        scenario,
+        failure.status === "unsupported"
+          ? { status: "excluded", ...(failure.feature && { detail: failure.feature }) }
+          : { status: "error", ...(failure.message && { detail: failure.message }) }
+      );
+    }
+  }
+
+  await worker?.close();
+  return { cells, outputs };
+}
+
+/**
+ * Compare an adapter's output against the baseline.
+ * Prefers the stored baseline snapshot, falling back to the baseline's
+ * output from this run when no snapshot exists.
+ */
+async function matchesBaseline(
+  scenario: string,
+  scale: Scale,
+  adapter: AdapterName,
+  baseline: AdapterName,
+  output: string,
+  baselineOutput: string | undefined
+): Promise<boolean> {
+  const verification = await verifySnapshot(`${scenario}/${scale}`, adapter, output, baseline);
+  if (verification.status !== "missing") {
+    return verification.status === "pass";
+  }
+  return baselineOutput === undefined || compareSnapshots(baselineOutput, output).match;
+}
+
+/**
+ * Short cell label for table and markdown output.
+ */
+function cellLabel(cell: SupportCell | undefined): string {
+  if (!cell || cell.status === "unavailable") return "-";
+  return cell.status;
+}
+
+/**
+ * Print the matrix as an aligned plain-text table.
+ */
+function outputTable(
+  scenarios: string[],
+  adapters: AdapterName[],
+  matrix: Map<string, Map<AdapterName, SupportCell>>,
+  baseline: AdapterName
+): void {
+  const scenarioWidth = Math.max(25, ...scenarios.map((s) => s.length));
+  const headers = adapters.map((a) => (a === baseline ? `${a} (base)` : a));
+  const colWidth = Math.max(11, ...headers.map((h) => h.length));
+
+  console.log("");
+  console.log(
+    ["Scenario".padEnd(scenarioWidth), ...headers.map((h) => h.padStart(colWidth))].join(" | ")
+  );
+  console.log(["-".repeat(scenarioWidth), ...adapters.map(() => "-".repeat(colWidth))].join("-|-"));
+
+  for (const scenario of scenarios) {
+    const row = matrix.get(scenario);
+    const cols = adapters.map((a) => cellLabel(row?.get(a)).padStart(colWidth));
+    console.log([scenario.padEnd(scenarioWidth), ...cols].join(" | "));
+  }
+
+  console.log("");
+}
+
+/**
+ * Print the matrix as a GitHub-flavored markdown table.
+ * Excluded cells name the missing feature when it is known.
+ */
+function outputMarkdown(
+  scenarios: string[],
+  adapters: AdapterName[],
+  matrix: Map<string, Map<AdapterName, SupportCell>>,
+  baseline: AdapterName
+): void {
+  const headers = adapters.map((a) => (a === baseline ? `${a} (base)` : a));
+  console.log(`| Scenario | ${headers.join(" | ")} |`);
+  console.log(`|----------|${adapters.map(() => "---").join("|")}|`);
+
+  for (const scenario of scenarios) {
+    const row = matrix.get(scenario);
+    const cols = adapters.map((a) => {
+      const cell = row?.get(a);
+      const label = cellLabel(cell);
+      return cell?.status === "excluded" && cell.detail && cell.detail !== "config"
+        ? `${label} (\`${cell.detail}\`)`
+        : label;
+    });
+    console.log(`| \`${scenario}\` | ${cols.join(" | ")} |`);
+  }
+}
+
+/**
+ * Run support command.
+ * @param args - CLI arguments (after 'support' subcommand)
+ */
+export async function run(args: string[]): Promise<void> {
+  const options = parseArgs_(args);
+  const log = options.quiet ? () => {} : (msg: string) => console.error(msg);
+
+  const config = await loadConfig();
+  const baseline = getBaselineAdapter(config);
+  const adapters = [baseline, ...listAdapters().filter((a) => a !== baseline)];
+
+  const categories = options.category ? [options.category] : SUPPORT_CATEGORIES;
+  const loader = new ScenarioLoader();
+  const scenarios = loader
+    .listAll()
+    .filter((s) => (categories as readonly string[]).includes(s.category))
+    .map((s) => s.path)
+    .sort();
+
+  log(`support: ${scenarios.length} scenarios × ${adapters.length} adapters`);
+  log(`  baseline: ${baseline}`);
+  log(`  scale: ${options.scale}`);
+
+  // scenario → adapter → cell
+  const matrix = new Map<string, Map<AdapterName, SupportCell>>(
+    scenarios.map((s) => [s, new Map()])
+  );
+  let baselineOutputs = new Map<string, string>();
+
+  // Baseline runs first so its output is available for comparison
+  for (const adapter of adapters) {
+    const { cells, outputs } = await probeAdapter(
+      adapter,
+      scenarios,
+      getExcludedScenarios(config, adapter),
+      options.scale,
+      log
+    );
+    if (adapter === baseline) baselineOutputs = outputs;
+
+    for (const [scenario, cell] of cells) {
+      const output = outputs.get(scenario);
+      if (
+        adapter !== baseline &&
+        output !== undefined &&
+        !(await matchesBaseline(
+          scenario,
+          options.scale,
+          adapter,
+          baseline,
+          output,
+          baselineOutputs.get(scenario)
+        ))
+      ) {
+        matrix.get(scenario)?.set(adapter, { status: "differs" });
+      } else {
+        matrix.get(scenario)?.set(adapter, cell);
+      }
+    }
+  }
+
+  if (options.format === "json") {
+    const output = {
+      metadata: {
+        timestamp: new Date().toISOString(),
+        scale: options.scale,
+        baseline,
+        adapters,
+      },
+      scenarios: scenarios.map((scenario) => ({
+        scenario,
+        adapters: Object.fromEntries(matrix.get(scenario) ?? []),
+      })),
+    };
+    console.log(JSON.stringify(output, null, 2));
+  } else if (options.format === "markdown") {
+    outputMarkdown(scenarios, adapters, matrix, baseline);
+  } else {
+    outputTable(scenarios, adapters, matrix, baseline);
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * Unit tests for adaptive iterations
+ */
+
+import { describe, expect, test } from "bun:test";
+import type { AdapterInput, AdapterOutput } from "../../types";
+import { MAX_ADAPTIVE_ITERATIONS, mergeResults, runAdaptive } from "./adaptive";
+import type { AdapterResult } from "./runner";
+
+const JOB: AdapterInput = {
+  template: "{{ x }}",
+  data: {},
+  iterations: 10,
+  warmup: 5,
+  progress_interval: 1,
+};
+
+function result(output: Partial<AdapterOutput>, peakRssBytes?: number): AdapterResult {
+  return {
+    output: {
+      library: "test/lib",
+      version: "1.0.0",
+      lang: "javascript",
+      timings: { parse_ms: [1], render_ms: [2] },
+      ...output,
+    },
+    executionTimeMs: 10,
+    ...(peakRssBytes !== undefined && { peakRssBytes }),
+  };
+}
+
+/**
+ * Job runner answering with samples alternating around `center`,
+ * recording the jobs it was given.
+ */
+function fakeRunner(center: number, spread: number, delayMs = 0) {
+  const jobs: AdapterInput[] = [];
+  const run = async (input: AdapterInput) => {
+    jobs.push(input);
+    if (delayMs > 0) await Bun.sleep(delayMs);
+    const parse = Array.from({ length: input.iterations }, (_, i) =>
+      i % 2 === 0 ? center + spread : center - spread
+    );
+    return result({
+      timings: { parse_ms: parse, render_ms: Array(input.iterations).fill(0) },
+    });
+  };
+  return { jobs, run };
+}
+
+describe("runAdaptive", () => {
+  test("doubles the samples until the target is reached", async () => {
+    const { jobs, run } = fakeRunner(1, 0.001);
+
+    const { result, adaptive } = await runAdaptive(run, JOB, {
+      targetRsd: 0.01,
+      maxTimeMs: 60_000,
+    });
+
+    // 10 samples, then 10 and 20 more: precise from the start, but 30 are needed
+    expect(jobs.map((j) => j.iterations)).toEqual([10, 10, 20]);
+    expect(adaptive).toMatchObject({ stop_reason: "target_reached", iterations: 40, batches: 3 });
+    expect(adaptive.rsd).toBeLessThan(0.01);
+    expect(result.output.timings.parse_ms).toHaveLength(40);
+  });
+
+  test("warms up only before the first batch", async () => {
+    const { jobs, run } = fakeRunner(1, 0.001);
+
+    await runAdaptive(run, JOB, { targetRsd: 0.01, maxTimeMs: 60_000 });
+
+    expect(jobs.map((j) => j.warmup)).toEqual([5, 0, 0]);
+    expect(jobs.map((j) => j.progress_interval)).toEqual([1, 1, 1]);
+  });
+
+  test("warms up before every batch in fresh processes", async () => {
+    const { jobs, run } = fakeRunner(1, 0.001);
+
+    await runAdaptive(run, JOB, { targetRsd: 0.01, maxTimeMs: 60_000, warmEveryBatch: true });
+
+    expect(jobs.map((j) => j.warmup)).toEqual([5, 5, 5]);
+  });
+
+  test("passes the time left to every batch", async () => {
+    const { jobs, run } = fakeRunner(1, 0.5);
+
+    await runAdaptive(run, JOB, { targetRsd: 0.001, maxTimeMs: 200 });
+
+    const budgets = jobs.map((j) => j.time_budget_ms ?? 0);
+    expect(budgets[0]).toBeGreaterThan(190);
+    expect(budgets.every((b, i) => b >= 1 && b <= (budgets[i - 1] ?? 200))).toBe(true);
+  });
+
+  test("stops when the time budget is spent", async () => {
+    const { jobs, run } = fakeRunner(1, 0.5, 30);
+
+    const { adaptive } = await runAdaptive(run, JOB, { targetRsd: 0.001, maxTimeMs: 20 });
+
+    expect(jobs).toHaveLength(1);
+    expect(adaptive).toMatchObject({ stop_reason: "max_time", iterations: 10, batches: 1 });
+  });
+
+  test("stops at the iteration cap", async () => {
+    const { run } = fakeRunner(1, 0.5);
+
+    const { adaptive } = await runAdaptive(
+      run,
+      { ...JOB, iterations: MAX_ADAPTIVE_ITERATIONS },
+      { targetRsd: 0, maxTimeMs: 60_000 }
+    );
+
+    expect(adaptive).toMatchObject({
+      stop_reason: "max_iterations",
+      iterations: MAX_ADAPTIVE_ITERATIONS,
+    });
+  });
+
+  test("uses the confidence level", async () => {
+    const narrow = await runAdaptive(fakeRunner(1, 0.1).run, JOB, {
+      targetRsd: 0,
+      maxTimeMs: 0,
+      level: 0.9,
+    });
+    const wide = await runAdaptive(fakeRunner(1, 0.1).run, JOB, {
+      targetRsd: 0,
+      maxTimeMs: 0,
+      level: 0.99,
+    });
+
+    expect(wide.adaptive.rsd).toBeGreaterThan(narrow.adaptive.rsd ?? 0);
+  });
+});
+
+describe("mergeResults", () => {
+  test("concatenates timings and memory", () => {
+    const merged = mergeResults([
+      result({
+        timings: { parse_ms: [1, 2], render_ms: [3, 4] },
+        memory: { parse_peak_bytes: [10, 20], render_peak_bytes: [30, 40] },
+        timer_overhead_ms: 0.001,
+        rendered_output: "first",
+      }),
+      result({
+        timings: { parse_ms: [5], render_ms: [6] },
+        memory: { parse_peak_bytes: [50], render_peak_bytes: [60] },
+        timer_overhead_ms: 0.002,
+        rendered_output: "last",
+      }),
+    ]);
+
+    expect(merged.output.timings).toEqual({ parse_ms: [1, 2, 5], render_ms: [3, 4, 6] });
+    expect(merged.output.memory).toEqual({
+      parse_peak_bytes: [10, 20, 50],
+      render_peak_bytes: [30, 40, 60],
+    });
+    expect(merged.output.timer_overhead_ms).toBe(0.001);
+    expect(merged.output.rendered_output).toBe("last");
+    expect(merged.executionTimeMs).toBe(20);
+  });
+
+  test("keeps what the memory values measure", () => {
+    const live = { parse_peak_bytes: [1], render_peak_bytes: [2], measure: "live" as const };
+    const merged = mergeResults([result({ memory: live }), result({ memory: live })]);
+
+    expect(merged.output.memory?.measure).toBe("live");
+  });
+
+  test("keeps the highest peak RSS and drops incomplete memory", () => {
+    const merged = mergeResults([
+      result({ memory: { parse_peak_bytes: [1], render_peak_bytes: [1] } }, 100),
+      result({}, 300),
+      result({}),
+    ]);
+
+    expect(merged.peakRssBytes).toBe(300);
+    expect(merged.output.memory).toBeUndefined();
+  });
+
+  test("rejects an empty list", () => {
+    expect(() => mergeResults([])).toThrow("empty list");
+  });
+});
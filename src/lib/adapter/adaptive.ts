@@ -0,0 +1,188 @@
+/**
+ * Adaptive Iterations
+ *
+ * Instead of a fixed iteration count, runs the same job in batches until
+ * the mean total time is known precisely enough: the half-width of its
+ * confidence interval, relative to the mean, is at or below a target.
+ * A time budget bounds the whole run.
+ *
+ * The first batch runs the requested iterations after warmup; each further
+ * batch doubles the samples collected so far, without warmup unless every
+ * job runs in a fresh process. Every batch
+ * is told the time left (time_budget_ms), so adapters with the time_budget
+ * capability stop on their own; for the others, and to avoid starting
+ * batches that cannot finish, batch sizes are capped by the time per
+ * iteration seen so far.
+ */
+
+import type { AdapterInput } from "../../types";
+import { addArrays, DEFAULT_BOOTSTRAP, max, relativeHalfWidth } from "../stats";
+import { progressInterval } from "./progress";
+import type { AdapterResult } from "./runner";
+
+/**
+ * Why an adaptive run stopped.
+ * - target_reached: the relative half-width is at or below the target
+ * - max_time: the time budget is spent
+ * - max_iterations: the iteration cap of a job (1000000) is reached
+ */
+export type AdaptiveStopReason = "target_reached" | "max_time" | "max_iterations";
+
+/**
+ * Settings of an adaptive run.
+ */
+export interface AdaptiveOptions {
+  /** Target relative half-width of the mean's confidence interval (e.g., 0.01) */
+  targetRsd: number;
+  /** Time budget of the whole run (milliseconds) */
+  maxTimeMs: number;
+  /** Confidence level of the interval (default: DEFAULT_BOOTSTRAP.level) */
+  level?: number;
+  /** Warm up before every batch, for runners that start a fresh process per job */
+  warmEveryBatch?: boolean;
+}
+
+/**
+ * How an adaptive run went.
+ */
+export interface AdaptiveSummary {
+  stop_reason: AdaptiveStopReason;
+  /** Measured iterations over all batches */
+  iterations: number;
+  /** Jobs run */
+  batches: number;
+  /** Relative half-width reached (absent when not computable) */
+  rsd?: number;
+}
+
+/**
+ * Runs one job (fresh process or worker).
+ */
+export type JobRunner = (input: AdapterInput) => Promise<AdapterResult>;
+
+/**
+ * Samples needed before the target can count as reached: the interval
+ * relies on the normal approximation.
+ */
+export const MIN_ADAPTIVE_SAMPLES = 30;
+
+/**
+ * Iterations over all batches (the iterations cap of a single job).
+ */
+export const MAX_ADAPTIVE_ITERATIONS = 1_000_000;
+
+/**
+ * Merge the results of consecutive batches into one.
+ * Timings and memory are concatenated; the rendered output is the last
+ * batch's, the timer overhead the first's.
+ */
+export function mergeResults(results: AdapterResult[]): AdapterResult {
+  const [first] = results;
+  const last = results[results.length - 1];
+  if (!first || !last) {
+    throw new Error("Cannot merge an empty list of results");
+  }
+
+  const outputs = results.map((r) => r.output);
+  const memories = outputs.flatMap((o) => (o.memory ? [o.memory] : []));
+  const peaks = results.flatMap((r) => (r.peakRssBytes !== undefined ? [r.peakRssBytes] : []));
+
+  return {
+    output: {
+      ...last.output,
+      timings: {
+        parse_ms: outputs.flatMap((o) => o.timings.parse_ms),
+        render_ms: outputs.flatMap((o) => o.timings.render_ms),
+      },
+      ...(memories.length === outputs.length && {
+        memory: {
+          parse_peak_bytes: memories.flatMap((m) => m.parse_peak_bytes),
+          render_peak_bytes: memories.flatMap((m) => m.render_peak_bytes),
+          ...(memories[0]?.measure && { measure: memories[0].measure }),
+        },
+      }),
+      ...(first.output.timer_overhead_ms !== undefined && {
+        timer_overhead_ms: first.output.timer_overhead_ms,
+      }),
+    },
+    executionTimeMs: results.reduce((acc, r) => acc + r.executionTimeMs, 0),
+    ...(peaks.length > 0 && { peakRssBytes: max(peaks) }),
+    ...(first.spawnedAtMs !== undefined && { spawnedAtMs: first.spawnedAtMs }),
+  };
+}
+
+/**
+ * Run a job in batches until the mean total time reaches the target
+ * precision, the time budget is spent or the iteration cap is reached.
+ *
+ * @param run Runs one batch
+ * @param job First batch: iterations and warmup as requested
+ * @param options Target, time budget and confidence level
+ * @returns Merged result of all batches and how the run went
+ * @throws AdapterError if a batch fails (earlier batches are discarded)
+ */
+export async function runAdaptive(
+  run: JobRunner,
+  job: AdapterInput,
+  options: AdaptiveOptions
+): Promise<{ result: AdapterResult; adaptive: AdaptiveSummary }> {
+  const { targetRsd, maxTimeMs, level = DEFAULT_BOOTSTRAP.level, warmEveryBatch = false } = options;
+  const start = performance.now();
+  const results: AdapterResult[] = [];
+  let totals: number[] = [];
+  let iterations = Math.min(job.iterations, MAX_ADAPTIVE_ITERATIONS);
+  let reason: AdaptiveStopReason;
+
+  for (;;) {
+    const remainingMs = maxTimeMs - (performance.now() - start);
+    const result = await run({
+      ...job,
+      iterations,
+      warmup: results.length === 0 || warmEveryBatch ? job.warmup : 0,
+      ...(job.progress_interval !== undefined && {
+        progress_interval: progressInterval(iterations),
+      }),
+      time_budget_ms: Math.max(1, Math.ceil(remainingMs)),
+    });
+    results.push(result);
+    const { parse_ms: parseMs, render_ms: renderMs } = result.output.timings;
+    totals = totals.concat(addArrays(parseMs, renderMs));
+
+    const elapsedMs = performance.now() - start;
+    if (totals.length >= MIN_ADAPTIVE_SAMPLES && relativeHalfWidth(totals, level) <= targetRsd) {
+      reason = "target_reached";
+      break;
+    }
+    if (elapsedMs >= maxTimeMs) {
+      reason = "max_time";
+      break;
+    }
+    if (totals.length >= MAX_ADAPTIVE_ITERATIONS) {
+      reason = "max_iterations";
+      break;
+    }
+
+    // Double the samples, as far as the time per iteration so far allows
+    const perIterationMs = elapsedMs / totals.length;
+    iterations = Math.min(
+      totals.length,
+      MAX_ADAPTIVE_ITERATIONS - totals.length,
+      Math.floor((maxTimeMs - elapsedMs) / perIterationMs)
+    );
+    if (iterations < 1) {
+      reason = "max_time";
+      break;
+    }
+  }
+
+  const rsd = relativeHalfWidth(totals, level);
+  return {
+    result: mergeResults(results),
+    adaptive: {
+      stop_reason: reason,
+      iterations: totals.length,
+      batches: results.length,
+      ...(Number.isFinite(rsd) && { rsd }),
+    },
+  };
+}
@@ -0,0 +1,72 @@
+/**
+ * Unit tests for cold-start measurement
+ */
+
+import { describe, expect, test } from "bun:test";
+import type { AdapterOutput } from "../../types";
+import { type ColdStartSample, calculateColdStartMetrics, coldStartSample } from "./cold-start";
+import type { AdapterResult } from "./runner";
+
+function result(output: Partial<AdapterOutput>, spawnedAtMs?: number): AdapterResult {
+  return {
+    output: {
+      library: "test/lib",
+      version: "1.0.0",
+      lang: "javascript",
+      timings: { parse_ms: [2], render_ms: [3] },
+      ...output,
+    },
+    executionTimeMs: 50,
+    ...(spawnedAtMs !== undefined && { spawnedAtMs }),
+  };
+}
+
+describe("coldStartSample", () => {
+  test("splits spawn → interpreter → library → first parse → first render", () => {
+    const sample = coldStartSample(
+      result({ boot: { interpreter_at_ms: 1_030, library_at_ms: 1_045 } }, 1_000)
+    );
+
+    expect(sample).toEqual({
+      boot_ms: 30,
+      load_ms: 15,
+      first_parse_ms: 2,
+      first_render_ms: 3,
+      total_ms: 50,
+    });
+  });
+
+  test("clamps phases skewed below zero by clock jitter", () => {
+    const sample = coldStartSample(
+      result({ boot: { interpreter_at_ms: 999.5, library_at_ms: 1_010 } }, 1_000)
+    );
+
+    expect(sample?.boot_ms).toBe(0);
+    expect(sample?.load_ms).toBe(10.5);
+  });
+
+  test("is undefined without boot timestamps or spawn time", () => {
+    expect(coldStartSample(result({}, 1_000))).toBeUndefined();
+    expect(
+      coldStartSample(result({ boot: { interpreter_at_ms: 1_030, library_at_ms: 1_045 } }))
+    ).toBeUndefined();
+  });
+});
+
+describe("calculateColdStartMetrics", () => {
+  test("summarizes each phase over the runs", () => {
+    const samples: ColdStartSample[] = [
+      { boot_ms: 10, load_ms: 20, first_parse_ms: 1, first_render_ms: 2, total_ms: 33 },
+      { boot_ms: 30, load_ms: 20, first_parse_ms: 3, first_render_ms: 2, total_ms: 55 },
+    ];
+
+    const metrics = calculateColdStartMetrics(samples);
+
+    expect(metrics.runs).toBe(2);
+    expect(metrics.boot.mean_ms).toBe(20);
+    expect(metrics.load.stddev_ms).toBe(0);
+    expect(metrics.first_parse.max_ms).toBe(3);
+    expect(metrics.first_render.min_ms).toBe(2);
+    expect(metrics.total.median_ms).toBe(44);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Cold-Start Measurement
+ *
+ * Measures what a CLI tool or serverless renderer pays per invocation:
+ * process start → interpreter up → library loaded → first parse → first
+ * render. Each run spawns a fresh adapter process for one job (a single
+ * iteration, no warmup) with cold_start set. The adapter reports when its
+ * interpreter came up and when the library was loaded; its only parse and
+ * render timings are the first ones.
+ */
+
+import type { AdapterInput, AdapterName, ColdStartMetrics } from "../../types";
+import { calculateMetrics } from "../stats";
+import { hasCapability } from "./protocol";
+import { getAdapterConfig } from "./registry";
+import {
+  AdapterError,
+  AdapterProtocolError,
+  type AdapterResult,
+  negotiateProtocol,
+  runAdapter,
+} from "./runner";
+
+/**
+ * Phases of one cold start (milliseconds).
+ */
+export interface ColdStartSample {
+  /** Spawn to interpreter up */
+  boot_ms: number;
+  /** Interpreter up to library loaded */
+  load_ms: number;
+  /** First parse */
+  first_parse_ms: number;
+  /** First render */
+  first_render_ms: number;
+  /** Sum of the phases */
+  total_ms: number;
+}
+
+/**
+ * Derive the cold-start phases of a one-shot cold-start job.
+ * Boot and load are clamped at 0 to absorb clock jitter between processes.
+ *
+ * @returns ColdStartSample, or undefined if the output has no boot timestamps
+ */
+export function coldStartSample(result: AdapterResult): ColdStartSample | undefined {
+  const { boot, timings } = result.output;
+  const firstParse = timings.parse_ms[0];
+  const firstRender = timings.render_ms[0];
+  if (
+    !boot ||
+    result.spawnedAtMs === undefined ||
+    firstParse === undefined ||
+    firstRender === undefined
+  ) {
+    return undefined;
+  }
+
+  const bootMs = Math.max(0, boot.interpreter_at_ms - result.spawnedAtMs);
+  const loadMs = Math.max(0, boot.library_at_ms - boot.interpreter_at_ms);
+
+  return {
+    boot_ms: bootMs,
+    load_ms: loadMs,
+    first_parse_ms: firstParse,
+    first_render_ms: firstRender,
+    total_ms: bootMs + loadMs + firstParse + firstRender,
+  };
+}
+
+/**
+ * Measure cold starts of an adapter over fresh processes.
+ *
+ * @param adapterName Adapter to run
+ * @param job Template and data of the scenario
+ * @param runs Number of fresh processes
+ * @param timeoutMs Timeout per process in milliseconds
+ * @returns One sample per process
+ * @throws AdapterProtocolError if the adapter does not report boot timestamps
+ * @throws AdapterError if a process fails
+ */
+export async function runColdStart(
+  adapterName: AdapterName,
+  job: Pick<AdapterInput, "template" | "data">,
+  runs: number,
+  timeoutMs?: number
+): Promise<ColdStartSample[]> {
+  const config = getAdapterConfig(adapterName);
+  if (!config) {
+    throw new AdapterError(`Unknown adapter: ${adapterName}`, adapterName);
+  }
+  if (!hasCapability(await negotiateProtocol(config), "cold_start")) {
+    throw new AdapterProtocolError(adapterName, "adapter does not support cold-start measurement");
+  }
+
+  const input: AdapterInput = { ...job, iterations: 1, warmup: 0, cold_start: true };
+  const samples: ColdStartSample[] = [];
+
+  for (let run = 0; run < runs; run++) {
+    const sample = coldStartSample(await runAdapter(adapterName, input, timeoutMs));
+    if (!sample) {
+      throw new AdapterError("Adapter did not report boot timestamps", adapterName);
+    }
+    samples.push(sample);
+  }
+
+  return samples;
+}
+
+/**
+ * Calculate cold-start metrics from samples.
+ */
+export function calculateColdStartMetrics(samples: ColdStartSample[]): ColdStartMetrics {
+  return {
+    runs: samples.length,
+    boot: calculateMetrics(samples.map((s) => s.boot_ms)),
+    load: calculateMetrics(samples.map((s) => s.load_ms)),
+    first_parse: calculateMetrics(samples.map((s) => s.first_parse_ms)),
+    first_render: calculateMetrics(samples.map((s) => s.first_render_ms)),
+    total: calculateMetrics(samples.map((s) => s.total_ms)),
+  };
+}
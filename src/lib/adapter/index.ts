@@ -5,11 +5,53 @@
  */
 
 export {
-  ADAPTERS,
-  AdapterError,
-  type AdapterResult,
+  type AdaptiveOptions,
+  type AdaptiveStopReason,
+  type AdaptiveSummary,
+  type JobRunner,
+  MAX_ADAPTIVE_ITERATIONS,
+  MIN_ADAPTIVE_SAMPLES,
+  mergeResults,
+  runAdaptive,
+} from "./adaptive";
+export {
+  type ColdStartSample,
+  calculateColdStartMetrics,
+  coldStartSample,
+  runColdStart,
+} from "./cold-start";
+export {
+  type PartialReason,
+  type PartialRun,
+  type ProgressListener,
+  progressInterval,
+} from "./progress";
+export {
+  type AdapterProtocol,
+  hasCapability,
+  LEGACY_PROTOCOL,
+  PROTOCOL_VERSION,
+} from "./protocol";
+export {
+  type AdapterRegistry,
   adapterExists,
+  createAdapterRegistry,
+  DEPS_DIR,
+  DEPS_DIR_ENV_VAR,
   getAdapterConfig,
+  getAdapterRegistry,
+  getDepsDir,
   listAdapters,
+  resolveAdapterConfig,
+  resolveVersionConfig,
+} from "./registry";
+export {
+  AdapterError,
+  AdapterProtocolError,
+  type AdapterResult,
+  AdapterTimeoutError,
+  negotiateProtocol,
   runAdapter,
 } from "./runner";
+export { MAX_AUTO_WARMUP, SteadyStateRunner, settle } from "./steady-state";
+export { AdapterWorker, WORKER_ENV_VAR } from "./worker";
@@ -0,0 +1,66 @@
+/**
+ * NDJSON Line Reader
+ *
+ * Splits a subprocess stdout stream into newline-delimited records.
+ * Used by worker mode, where one long-lived adapter process answers
+ * many jobs over the same pipe (one JSON document per line).
+ */
+
+/**
+ * Incremental line reader over a byte stream.
+ *
+ * Lines are returned without the trailing newline. A final unterminated
+ * line is returned once the stream ends; after that, next() returns null.
+ */
+export class LineReader {
+  private readonly chunks: AsyncIterator<Uint8Array>;
+  private readonly decoder = new TextDecoder();
+  private buffer = "";
+  /** Offset already scanned for a newline (avoids rescanning long lines) */
+  private scanned = 0;
+  private ended = false;
+
+  constructor(stream: ReadableStream<Uint8Array>) {
+    this.chunks = stream[Symbol.asyncIterator]();
+  }
+
+  /**
+   * Read the next line.
+   * @returns Line content, or null when the stream has ended
+   */
+  async next(): Promise<string | null> {
+    while (true) {
+      const newline = this.buffer.indexOf("\n", this.scanned);
+      if (newline !== -1) {
+        const line = this.buffer.slice(0, newline);
+        this.buffer = this.buffer.slice(newline + 1);
+        this.scanned = 0;
+        return line;
+      }
+      this.scanned = this.buffer.length;
+
+      if (this.ended) {
+        if (this.buffer.length === 0) return null;
+        const rest = this.buffer;
+        this.buffer = "";
+        this.scanned = 0;
+        return rest;
+      }
+
+      const { value, done } = await this.chunks.next();
+      if (done) {
+        this.ended = true;
+        this.buffer += this.decoder.decode();
+      } else {
+        this.buffer += this.decoder.decode(value, { stream: true });
+      }
+    }
+  }
+}
+
+/**
+ * Encode a value as a single NDJSON record (JSON + newline).
+ */
+export function encodeLine(value: unknown): string {
+  return `${JSON.stringify(value)}\n`;
+}
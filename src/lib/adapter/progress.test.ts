@@ -0,0 +1,101 @@
+/**
+ * Unit tests for adapter progress streaming
+ */
+
+import { describe, expect, test } from "bun:test";
+import { ProgressCollector, progressInterval } from "./progress";
+
+function line(progress: Record<string, unknown>): string {
+  return JSON.stringify({ progress });
+}
+
+const BATCH_1 = line({
+  completed: 2,
+  total: 5,
+  timings: { parse_ms: [0.1, 0.2], render_ms: [1, 2] },
+  memory: { parse_peak_bytes: [10, 20], render_peak_bytes: [30, 40] },
+});
+const BATCH_2 = line({
+  completed: 4,
+  total: 5,
+  timings: { parse_ms: [0.3, 0.4], render_ms: [3, 4] },
+  memory: { parse_peak_bytes: [50, 60], render_peak_bytes: [70, 80] },
+});
+
+describe("progressInterval", () => {
+  test("asks for about 20 records per job", () => {
+    expect(progressInterval(10_000)).toBe(500);
+    expect(progressInterval(100)).toBe(5);
+  });
+
+  test("is at least one iteration", () => {
+    expect(progressInterval(1)).toBe(1);
+  });
+});
+
+describe("ProgressCollector", () => {
+  test("consumes progress lines and leaves other lines", () => {
+    const collector = new ProgressCollector();
+
+    expect(collector.accept(line({ completed: 0, total: 5 }))).toBe(true);
+    expect(collector.accept('{"library": "x"}')).toBe(false);
+    expect(collector.accept('{"progress": 1}')).toBe(false);
+    expect(collector.accept('{"progress":')).toBe(false);
+  });
+
+  test("reports each record to the listener", () => {
+    const seen: [number, number][] = [];
+    const collector = new ProgressCollector((completed, total) => seen.push([completed, total]));
+
+    collector.accept(line({ completed: 0, total: 5 }));
+    collector.accept(BATCH_1);
+
+    expect(seen).toEqual([
+      [0, 5],
+      [2, 5],
+    ]);
+  });
+
+  test("salvages the accumulated batches", () => {
+    const collector = new ProgressCollector();
+    collector.accept(line({ completed: 0, total: 5 }));
+    collector.accept(BATCH_1);
+    collector.accept(BATCH_2);
+
+    expect(collector.partial("timeout")).toEqual({
+      reason: "timeout",
+      completed: 4,
+      total: 5,
+      timings: { parse_ms: [0.1, 0.2, 0.3, 0.4], render_ms: [1, 2, 3, 4] },
+      memory: { parse_peak_bytes: [10, 20, 50, 60], render_peak_bytes: [30, 40, 70, 80] },
+    });
+  });
+
+  test("keeps what the memory values measure", () => {
+    const collector = new ProgressCollector();
+    collector.accept(
+      line({
+        completed: 1,
+        total: 5,
+        timings: { parse_ms: [1], render_ms: [2] },
+        memory: { parse_peak_bytes: [10], render_peak_bytes: [20], measure: "live" },
+      })
+    );
+
+    expect(collector.partial("crash")?.memory?.measure).toBe("live");
+  });
+
+  test("omits memory when the adapter does not report it", () => {
+    const collector = new ProgressCollector();
+    collector.accept(line({ completed: 1, total: 5, timings: { parse_ms: [1], render_ms: [2] } }));
+
+    expect(collector.partial("crash")?.memory).toBeUndefined();
+  });
+
+  test("has nothing to salvage before the first batch", () => {
+    const collector = new ProgressCollector();
+    collector.accept(line({ completed: 0, total: 5 }));
+
+    expect(collector.partial("crash")).toBeUndefined();
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Adapter Progress Stream
+ *
+ * Adapters stream {"progress": ...} lines on stdout after warmup and after
+ * each batch of measured iterations, ahead of the final output. The harness
+ * accumulates the streamed timings so a job that times out or crashes at
+ * iteration 9,000 of 10,000 still yields 9,000 measurements, reported as a
+ * partial run together with the iteration where it stopped.
+ */
+
+import type { AdapterProgress, MemoryMeasure, RawMemory, RawTimings } from "../../types";
+
+/**
+ * Number of progress records the harness asks for per job.
+ * Few enough that reporting does not disturb the measurement loop.
+ */
+const PROGRESS_BATCHES = 20;
+
+/**
+ * Prefix identifying a progress line without parsing the (possibly large) final output.
+ */
+const PROGRESS_PREFIX = '{"progress":';
+
+/**
+ * Why a job ended before completing all iterations.
+ * - timeout: the harness killed it at the time limit
+ * - crash: the process exited
+ * - error: the adapter reported a job failure
+ */
+export type PartialReason = "timeout" | "crash" | "error";
+
+/**
+ * Measurements salvaged from a job that did not finish.
+ */
+export interface PartialRun {
+  reason: PartialReason;
+  /** Measured iterations completed before the job stopped */
+  completed: number;
+  /** Measured iterations requested */
+  total: number;
+  /** Timings of the completed iterations */
+  timings: RawTimings;
+  /** Memory of the completed iterations (when the adapter reports it) */
+  memory?: RawMemory;
+}
+
+/**
+ * Called for every progress record of a job.
+ */
+export type ProgressListener = (completed: number, total: number) => void;
+
+/**
+ * Progress interval for a job: about PROGRESS_BATCHES records per job.
+ *
+ * @param iterations Measured iterations of the job
+ */
+export function progressInterval(iterations: number): number {
+  return Math.max(1, Math.ceil(iterations / PROGRESS_BATCHES));
+}
+
+function isProgress(value: unknown): value is { progress: AdapterProgress } {
+  if (typeof value !== "object" || value === null || !("progress" in value)) return false;
+  const progress = (value as { progress: unknown }).progress;
+  return (
+    typeof progress === "object" &&
+    progress !== null &&
+    typeof (progress as AdapterProgress).completed === "number" &&
+    typeof (progress as AdapterProgress).total === "number"
+  );
+}
+
+/**
+ * Accumulates the progress records of one job.
+ */
+export class ProgressCollector {
+  private completed = 0;
+  private total = 0;
+  private readonly parseMs: number[] = [];
+  private readonly renderMs: number[] = [];
+  private readonly parsePeaks: number[] = [];
+  private readonly renderPeaks: number[] = [];
+  private measure: MemoryMeasure | undefined;
+
+  constructor(private readonly listener?: ProgressListener) {}
+
+  /**
+   * Consume a stdout line if it is a progress record.
+   *
+   * @returns true if the line was a progress record, false for any other line
+   */
+  accept(line: string): boolean {
+    if (!line.startsWith(PROGRESS_PREFIX)) return false;
+
+    let value: unknown;
+    try {
+      value = JSON.parse(line);
+    } catch {
+      return false;
+    }
+    if (!isProgress(value)) return false;
+
+    const { progress } = value;
+    this.completed = progress.completed;
+    this.total = progress.total;
+    this.parseMs.push(...(progress.timings?.parse_ms ?? []));
+    this.renderMs.push(...(progress.timings?.render_ms ?? []));
+    this.parsePeaks.push(...(progress.memory?.parse_peak_bytes ?? []));
+    this.renderPeaks.push(...(progress.memory?.render_peak_bytes ?? []));
+    this.measure ??= progress.memory?.measure;
+    this.listener?.(this.completed, this.total);
+    return true;
+  }
+
+  /**
+   * Salvage the streamed measurements of a job that did not finish.
+   *
+   * @returns PartialRun, or undefined when no measured iteration completed
+   */
+  partial(reason: PartialReason): PartialRun | undefined {
+    const completed = Math.min(this.parseMs.length, this.renderMs.length);
+    if (completed === 0) return undefined;
+
+    const memoryComplete =
+      this.parsePeaks.length >= completed && this.renderPeaks.length >= completed;
+
+    return {
+      reason,
+      completed,
+      total: this.total,
+      timings: {
+        parse_ms: this.parseMs.slice(0, completed),
+        render_ms: this.renderMs.slice(0, completed),
+      },
+      ...(memoryComplete && {
+        memory: {
+          parse_peak_bytes: this.parsePeaks.slice(0, completed),
+          render_peak_bytes: this.renderPeaks.slice(0, completed),
+          ...(this.measure && { measure: this.measure }),
+        },
+      }),
+    };
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Unit tests for adapter protocol negotiation
+ */
+
+import { describe, expect, test } from "bun:test";
+import type { AdapterInput } from "../../types";
+import {
+  type AdapterProtocol,
+  adaptInput,
+  handshakeRequest,
+  LEGACY_PROTOCOL,
+  PROTOCOL_VERSION,
+  parseHandshake,
+  protocolMismatch,
+} from "./protocol";
+
+const INPUT: AdapterInput = {
+  template: "{{ x }}",
+  data: {},
+  iterations: 10,
+  warmup: 1,
+  progress_interval: 2,
+};
+
+describe("handshakeRequest", () => {
+  test("announces the harness protocol version", () => {
+    expect(handshakeRequest().handshake.protocol_version).toBe(PROTOCOL_VERSION);
+  });
+});
+
+describe("parseHandshake", () => {
+  test("reads version and capabilities", () => {
+    const stdout =
+      '{"handshake": {"protocol_version": 1, "capabilities": ["memory", "progress"]}}\n';
+
+    expect(parseHandshake(stdout)).toEqual({ version: 1, capabilities: ["memory", "progress"] });
+  });
+
+  test("drops capabilities unknown to the harness", () => {
+    const stdout = '{"handshake": {"protocol_version": 1, "capabilities": ["memory", "gpu", 3]}}';
+
+    expect(parseHandshake(stdout)?.capabilities).toEqual(["memory"]);
+  });
+
+  test("rejects anything that is not a handshake answer", () => {
+    expect(parseHandshake("")).toBeUndefined();
+    expect(parseHandshake('{"library": "x"}')).toBeUndefined();
+    expect(parseHandshake('{"handshake": {"capabilities": []}}')).toBeUndefined();
+    expect(
+      parseHandshake('{"handshake": {"protocol_version": 0, "capabilities": []}}')
+    ).toBeUndefined();
+    expect(parseHandshake('{"handshake": {"protocol_version": 1}}')).toBeUndefined();
+  });
+});
+
+describe("protocolMismatch", () => {
+  test("accepts the harness version and older ones", () => {
+    expect(protocolMismatch({ version: PROTOCOL_VERSION, capabilities: [] })).toBeUndefined();
+    expect(protocolMismatch(LEGACY_PROTOCOL)).toBeUndefined();
+  });
+
+  test("refuses a newer protocol", () => {
+    expect(protocolMismatch({ version: PROTOCOL_VERSION + 1, capabilities: [] })).toContain(
+      `adapter speaks protocol ${PROTOCOL_VERSION + 1}`
+    );
+  });
+});
+
+describe("adaptInput", () => {
+  test("keeps fields the adapter announced and stamps the version", () => {
+    const protocol: AdapterProtocol = { version: 1, capabilities: ["progress"] };
+
+    expect(adaptInput(INPUT, protocol)).toEqual({ ...INPUT, protocol_version: 1 });
+  });
+
+  test("drops fields whose capability is missing", () => {
+    const adapted = adaptInput(INPUT, { version: 1, capabilities: ["memory"] });
+
+    expect(adapted).not.toHaveProperty("progress_interval");
+    expect(adapted.protocol_version).toBe(1);
+  });
+
+  test("drops batch_size unless the adapter supports batching", () => {
+    const batched = { ...INPUT, batch_size: 100 };
+
+    expect(adaptInput(batched, { version: 1, capabilities: ["batching"] }).batch_size).toBe(100);
+    expect(adaptInput(batched, { version: 1, capabilities: [] })).not.toHaveProperty("batch_size");
+  });
+
+  test("drops time_budget_ms unless the adapter supports time budgets", () => {
+    const budgeted = { ...INPUT, time_budget_ms: 500 };
+
+    expect(adaptInput(budgeted, { version: 1, capabilities: ["time_budget"] }).time_budget_ms).toBe(
+      500
+    );
+    expect(adaptInput(budgeted, { version: 1, capabilities: [] })).not.toHaveProperty(
+      "time_budget_ms"
+    );
+  });
+
+  test("sends legacy adapters only the base fields", () => {
+    expect(adaptInput({ ...INPUT, protocol_version: 1 }, LEGACY_PROTOCOL)).toEqual({
+      template: "{{ x }}",
+      data: {},
+      iterations: 10,
+      warmup: 1,
+    });
+  });
+
+  test("does not modify the original input", () => {
+    adaptInput(INPUT, LEGACY_PROTOCOL);
+
+    expect(INPUT.progress_interval).toBe(2);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Adapter Protocol Negotiation
+ *
+ * Before the first job the harness sends {"handshake": ...} with its
+ * protocol version and known capabilities. The adapter answers with the
+ * version it speaks and the capabilities it implements. Input fields tied
+ * to a capability are only sent to adapters that announce it, so a new
+ * field is never silently dropped by an adapter that does not know it.
+ *
+ * Adapters written before the handshake do not answer it. They are treated
+ * as protocol version 0 (legacy), only get the base job fields and run in a
+ * fresh process per job.
+ */
+
+import {
+  type AdapterHandshake,
+  type AdapterInput,
+  CAPABILITIES,
+  type Capability,
+  isCapability,
+} from "../../types";
+
+/**
+ * Protocol version spoken by the harness.
+ */
+export const PROTOCOL_VERSION = 1;
+
+/**
+ * Result of the handshake with one adapter.
+ */
+export interface AdapterProtocol {
+  /** Protocol version the adapter speaks (0: legacy, no handshake) */
+  version: number;
+  /** Capabilities the adapter implements (known to the harness) */
+  capabilities: Capability[];
+}
+
+/**
+ * Protocol assumed for adapters that do not answer the handshake.
+ * Adapters predating the handshake read a single job until EOF, so a
+ * worker that keeps stdin open would wait on them until the timeout.
+ */
+export const LEGACY_PROTOCOL: AdapterProtocol = { version: 0, capabilities: [] };
+
+/**
+ * Optional input fields and the capability an adapter needs to receive them.
+ */
+const FIELD_CAPABILITIES: Partial<Record<keyof AdapterInput, Capability>> = {
+  progress_interval: "progress",
+  cold_start: "cold_start",
+  batch_size: "batching",
+  time_budget_ms: "time_budget",
+};
+
+/**
+ * Handshake request sent to adapters.
+ */
+export function handshakeRequest(): { handshake: AdapterHandshake } {
+  return { handshake: { protocol_version: PROTOCOL_VERSION, capabilities: [...CAPABILITIES] } };
+}
+
+/**
+ * Parse an adapter's answer to the handshake.
+ * Capabilities unknown to the harness are dropped.
+ *
+ * @param stdout Raw adapter stdout
+ * @returns AdapterProtocol, or undefined if stdout is not a handshake answer
+ */
+export function parseHandshake(stdout: string): AdapterProtocol | undefined {
+  let value: unknown;
+  try {
+    value = JSON.parse(stdout);
+  } catch {
+    return undefined;
+  }
+  if (typeof value !== "object" || value === null || !("handshake" in value)) return undefined;
+
+  const handshake = (value as { handshake: unknown }).handshake;
+  if (typeof handshake !== "object" || handshake === null) return undefined;
+
+  const { protocol_version: version, capabilities } = handshake as Partial<AdapterHandshake>;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) return undefined;
+  if (!Array.isArray(capabilities)) return undefined;
+
+  return {
+    version,
+    capabilities: capabilities.filter(
+      (c): c is Capability => typeof c === "string" && isCapability(c)
+    ),
+  };
+}
+
+/**
+ * Check whether the harness can talk to an adapter.
+ *
+ * @returns Reason to refuse the adapter, or undefined if it is compatible
+ */
+export function protocolMismatch(protocol: AdapterProtocol): string | undefined {
+  if (protocol.version > PROTOCOL_VERSION) {
+    return `adapter speaks protocol ${protocol.version}, harness supports up to ${PROTOCOL_VERSION}`;
+  }
+  return undefined;
+}
+
+/**
+ * Whether an adapter implements a capability.
+ */
+export function hasCapability(protocol: AdapterProtocol, capability: Capability): boolean {
+  return protocol.capabilities.includes(capability);
+}
+
+/**
+ * Tailor a job to an adapter.
+ * Drops fields whose capability the adapter lacks and stamps the
+ * negotiated protocol version (legacy adapters get neither). Drops are
+ * silent: callers check hasCapability up front and report the downgrade.
+ */
+export function adaptInput(input: AdapterInput, protocol: AdapterProtocol): AdapterInput {
+  const adapted: AdapterInput = { ...input };
+
+  for (const [field, capability] of Object.entries(FIELD_CAPABILITIES)) {
+    if (!hasCapability(protocol, capability)) {
+      delete adapted[field as keyof AdapterInput];
+    }
+  }
+
+  if (protocol.version === 0) {
+    delete adapted.protocol_version;
+    return adapted;
+  }
+  return { ...adapted, protocol_version: protocol.version };
+}
@@ -0,0 +1,180 @@
+/**
+ * Unit tests for adapter registry
+ */
+
+import { describe, expect, test } from "bun:test";
+import { join } from "node:path";
+import type { LebConfig, LibraryConfig } from "../../types";
+import {
+  adapterExists,
+  createAdapterRegistry,
+  getAdapterConfig,
+  getDepsDir,
+  listAdapters,
+  resolveAdapterConfig,
+  resolveVersionConfig,
+} from "./registry";
+
+const PROJECT_ROOT = join(import.meta.dirname, "../../..");
+
+function library(overrides: Partial<LibraryConfig> = {}): LibraryConfig {
+  return {
+    lang: "php",
+    name: "keepsuit",
+    package: "keepsuit/liquid",
+    version: "0.9.0",
+    ...overrides,
+  };
+}
+
+describe("resolveAdapterConfig", () => {
+  test("derives runtime, script and command from lang and name", () => {
+    const config = resolveAdapterConfig(library());
+    const script = join(PROJECT_ROOT, "src/adapters/php/keepsuit.php");
+
+    expect(config.runtime).toBe("php");
+    expect(config.script).toBe(script);
+    expect(config.command[0]).toBe("php");
+    expect(config.command.at(-1)).toBe(script);
+  });
+
+  test("expands {script} in a custom command template", () => {
+    const config = resolveAdapterConfig(
+      library({
+        lang: "ruby",
+        name: "shopify-fork",
+        runtime: "ruby",
+        script: "adapters/fork.rb",
+        command: ["ruby", "--yjit", "{script}"],
+      })
+    );
+
+    expect(config.command).toEqual(["ruby", "--yjit", join(PROJECT_ROOT, "adapters/fork.rb")]);
+  });
+
+  test("uses bun defaults when runtime is bun", () => {
+    const config = resolveAdapterConfig(
+      library({ lang: "javascript", name: "reference", runtime: "bun" })
+    );
+
+    expect(config.command).toEqual(["bun", join(PROJECT_ROOT, "src/adapters/bun/reference.ts")]);
+  });
+
+  test("passes env through", () => {
+    const config = resolveAdapterConfig(library({ env: { FOO: "1" } }));
+
+    expect(config.env).toEqual({ FOO: "1" });
+  });
+
+  test("omits env when not configured", () => {
+    expect(resolveAdapterConfig(library())).not.toHaveProperty("env");
+  });
+
+  test("variant args go before the script and env merges over the library", () => {
+    const config = resolveAdapterConfig(library({ env: { A: "1", B: "1" } }), {
+      name: "keepsuit+jit",
+      args: ["-d", "opcache.jit=tracing"],
+      env: { B: "2" },
+    });
+    const script = join(PROJECT_ROOT, "src/adapters/php/keepsuit.php");
+
+    expect(config.name).toBe("keepsuit+jit");
+    expect(config.command.slice(-3)).toEqual(["-d", "opcache.jit=tracing", script]);
+    expect(config.env).toEqual({ A: "1", B: "2" });
+  });
+
+  test("variant command replaces the library command", () => {
+    const config = resolveAdapterConfig(
+      library({ lang: "ruby", name: "shopify", command: ["ruby", "{script}"] }),
+      { name: "shopify+yjit", command: ["ruby", "--yjit", "{script}"] }
+    );
+
+    expect(config.command).toEqual([
+      "ruby",
+      "--yjit",
+      join(PROJECT_ROOT, "src/adapters/ruby/shopify.rb"),
+    ]);
+  });
+
+  test("throws when runtime cannot be determined", () => {
+    expect(() => resolveAdapterConfig(library({ lang: "javascript" }))).toThrow(/no runtime/);
+  });
+});
+
+describe("resolveVersionConfig", () => {
+  test("names the adapter {name}@{version} and points PHP at its deps directory", () => {
+    const config = resolveVersionConfig(library({ env: { A: "1" } }), { version: "0.8.0" });
+
+    expect(config.name).toBe("keepsuit@0.8.0");
+    expect(config.script).toBe(join(PROJECT_ROOT, "src/adapters/php/keepsuit.php"));
+    expect(config.env).toEqual({ A: "1", LEB_DEPS_DIR: getDepsDir("keepsuit", "0.8.0") });
+  });
+
+  test("selects the version's Gemfile and bundle path for Ruby", () => {
+    const config = resolveVersionConfig(
+      library({ lang: "ruby", name: "shopify", package: "liquid" }),
+      { version: "5.10.0" }
+    );
+    const dir = join(PROJECT_ROOT, ".generated/deps/shopify@5.10.0");
+
+    expect(config.env).toMatchObject({
+      BUNDLE_GEMFILE: join(dir, "Gemfile"),
+      BUNDLE_PATH: join(dir, "vendor/bundle"),
+    });
+  });
+});
+
+describe("createAdapterRegistry", () => {
+  test("keys adapters by name in config order", () => {
+    const config: LebConfig = {
+      runtimes: { php: "8.3", ruby: "3.3" },
+      baseline: { library: "b", version: "1.0.0" },
+      libraries: [library({ name: "b" }), library({ name: "a" })],
+    };
+
+    expect([...createAdapterRegistry(config).keys()]).toEqual(["b", "a"]);
+  });
+
+  test("registers variants after their library", () => {
+    const config: LebConfig = {
+      runtimes: { php: "8.3" },
+      baseline: { library: "b", version: "1.0.0" },
+      libraries: [
+        library({ name: "b", variants: [{ name: "b+jit" }, { name: "b-nojit" }] }),
+        library({ name: "a" }),
+      ],
+    };
+
+    expect([...createAdapterRegistry(config).keys()]).toEqual(["b", "b+jit", "b-nojit", "a"]);
+  });
+
+  test("registers versions after variants", () => {
+    const config: LebConfig = {
+      runtimes: { php: "8.3" },
+      baseline: { library: "b", version: "1.0.0" },
+      libraries: [
+        library({
+          name: "b",
+          version: "1.0.0",
+          variants: [{ name: "b+jit" }],
+          versions: [{ version: "0.9.0" }, { version: "0.8.0" }],
+        }),
+      ],
+    };
+
+    expect([...createAdapterRegistry(config).keys()]).toEqual(["b", "b+jit", "b@0.9.0", "b@0.8.0"]);
+  });
+});
+
+describe("project registry", () => {
+  test("lists libraries from leb.config.json", () => {
+    expect(listAdapters()).toEqual(["keepsuit", "kalimatas", "shopify", "shopify-nojit"]);
+  });
+
+  test("looks up configured adapters", () => {
+    expect(adapterExists("shopify")).toBe(true);
+    expect(adapterExists("liquidjs")).toBe(false);
+    expect(getAdapterConfig("shopify")?.env).toEqual({ RUBY_YJIT_ENABLE: "1" });
+    expect(getAdapterConfig("shopify-nojit")?.env).toEqual({ RUBY_YJIT_ENABLE: "0" });
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * Adapter Registry Module
+ *
+ * Builds adapter execution settings from leb.config.json.
+ * Each LibraryConfig entry declares its runtime, script, command template
+ * and environment, so new engines and forks need no TypeScript changes.
+ * Runtime variants of a library (e.g., JIT on/off) and additional library
+ * versions (e.g., "keepsuit@0.8.0") become extra adapters.
+ */
+
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import {
+  type AdapterConfig,
+  type AdapterName,
+  isRuntimeName,
+  type LebConfig,
+  type LibraryConfig,
+  type LibraryVariant,
+  type LibraryVersion,
+  type RuntimeName,
+} from "../../types";
+import { loadConfigSync, versionAdapterName } from "../config";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const PROJECT_ROOT = join(__dirname, "../../..");
+
+/**
+ * Placeholder in command templates replaced with the absolute script path.
+ */
+export const SCRIPT_PLACEHOLDER = "{script}";
+
+/**
+ * Directory holding per-version dependency installs, one subdirectory per
+ * "{name}@{version}" (written by `leb setup`).
+ */
+export const DEPS_DIR = join(PROJECT_ROOT, ".generated/deps");
+
+/**
+ * Environment variable pointing a versioned adapter at its dependency directory.
+ * PHP adapters load vendor/autoload.php from it; unset means the project root.
+ */
+export const DEPS_DIR_ENV_VAR = "LEB_DEPS_DIR";
+
+/**
+ * Per-runtime defaults used when a library omits script or command.
+ */
+const RUNTIME_DEFAULTS: Record<RuntimeName, { extension: string; command: string[] }> = {
+  php: {
+    extension: "php",
+    command: [
+      "php",
+      "-d",
+      "opcache.enable_cli=1",
+      "-d",
+      "display_errors=stderr",
+      SCRIPT_PLACEHOLDER,
+    ],
+  },
+  ruby: {
+    extension: "rb",
+    command: ["ruby", SCRIPT_PLACEHOLDER],
+  },
+  bun: {
+    extension: "ts",
+    command: ["bun", SCRIPT_PLACEHOLDER],
+  },
+};
+
+/**
+ * Adapter configurations keyed by adapter name, in config order.
+ */
+export type AdapterRegistry = ReadonlyMap<AdapterName, AdapterConfig>;
+
+/**
+ * Resolve the execution settings for one library or one of its variants.
+ *
+ * A variant keeps the library's runtime and script. Its command replaces
+ * the library's, its args are inserted before the script path and its env
+ * is merged over the library's.
+ *
+ * @param library Library entry from leb.config.json
+ * @param variant Variant of the library (optional)
+ * @returns AdapterConfig with absolute script path and expanded command
+ * @throws Error if no runtime can be determined
+ */
+export function resolveAdapterConfig(
+  library: LibraryConfig,
+  variant?: LibraryVariant
+): AdapterConfig {
+  const runtime = library.runtime ?? (isRuntimeName(library.lang) ? library.lang : undefined);
+
+  if (!runtime) {
+    throw new Error(`Library "${library.name}" has no runtime: set "runtime" in leb.config.json`);
+  }
+
+  const defaults = RUNTIME_DEFAULTS[runtime];
+  const script = join(
+    PROJECT_ROOT,
+    library.script ?? `src/adapters/${runtime}/${library.name}.${defaults.extension}`
+  );
+  const template = insertArgs(
+    variant?.command ?? library.command ?? defaults.command,
+    variant?.args ?? []
+  );
+  const env = variant?.env ? { ...library.env, ...variant.env } : library.env;
+
+  return {
+    name: variant?.name ?? library.name,
+    lang: library.lang,
+    runtime,
+    script,
+    command: template.map((part) => part.replaceAll(SCRIPT_PLACEHOLDER, script)),
+    ...(env && { env }),
+  };
+}
+
+/**
+ * Get the dependency directory of an additional library version.
+ *
+ * @param name Library name
+ * @param version Library version
+ * @returns Absolute path (e.g., .generated/deps/keepsuit@0.8.0)
+ */
+export function getDepsDir(name: string, version: string): string {
+  return join(DEPS_DIR, versionAdapterName(name, version));
+}
+
+/**
+ * Resolve the execution settings for an additional version of a library.
+ *
+ * Same runtime, script and command as the library; the environment points
+ * the adapter at the version's own dependency directory. Ruby adapters
+ * select it through BUNDLE_GEMFILE and BUNDLE_PATH, PHP adapters through
+ * LEB_DEPS_DIR.
+ *
+ * @param library Library entry from leb.config.json
+ * @param version Additional version of the library
+ * @returns AdapterConfig named "{name}@{version}"
+ */
+export function resolveVersionConfig(
+  library: LibraryConfig,
+  version: LibraryVersion
+): AdapterConfig {
+  const base = resolveAdapterConfig(library);
+  const dir = getDepsDir(library.name, version.version);
+
+  return {
+    ...base,
+    name: versionAdapterName(library.name, version.version),
+    env: {
+      ...base.env,
+      [DEPS_DIR_ENV_VAR]: dir,
+      ...(base.runtime === "ruby" && {
+        BUNDLE_GEMFILE: join(dir, "Gemfile"),
+        BUNDLE_PATH: join(dir, "vendor/bundle"),
+      }),
+    },
+  };
+}
+
+/**
+ * Insert arguments before the script path in a command template.
+ * Without a script placeholder they go right after the executable.
+ */
+function insertArgs(template: string[], args: string[]): string[] {
+  if (args.length === 0) return template;
+  const index = template.findIndex((part) => part.includes(SCRIPT_PLACEHOLDER));
+  const at = index === -1 ? 1 : index;
+  return [...template.slice(0, at), ...args, ...template.slice(at)];
+}
+
+/**
+ * Build the adapter registry from configuration.
+ * Each library contributes itself followed by its variants and versions.
+ *
+ * @param config Configuration object
+ * @returns Registry of all configured adapters
+ */
+export function createAdapterRegistry(config: LebConfig): AdapterRegistry {
+  return new Map(
+    config.libraries.flatMap((lib) =>
+      [
+        resolveAdapterConfig(lib),
+        ...(lib.variants ?? []).map((v) => resolveAdapterConfig(lib, v)),
+        ...(lib.versions ?? []).map((v) => resolveVersionConfig(lib, v)),
+      ].map((adapter): [AdapterName, AdapterConfig] => [adapter.name, adapter])
+    )
+  );
+}
+
+/** Cached registry for the project configuration (lazy-loaded) */
+let registry: AdapterRegistry | null = null;
+
+/**
+ * Get the registry built from leb.config.json.
+ * Loaded on first use and cached for the lifetime of the process.
+ */
+export function getAdapterRegistry(): AdapterRegistry {
+  if (!registry) {
+    registry = createAdapterRegistry(loadConfigSync());
+  }
+  return registry;
+}
+
+/**
+ * Get adapter configuration by name.
+ *
+ * @param name Adapter name
+ * @returns AdapterConfig or undefined if not found
+ */
+export function getAdapterConfig(name: AdapterName): AdapterConfig | undefined {
+  return getAdapterRegistry().get(name);
+}
+
+/**
+ * List all configured adapter names in config order.
+ *
+ * @returns Array of adapter names
+ */
+export function listAdapters(): readonly AdapterName[] {
+  return [...getAdapterRegistry().keys()];
+}
+
+/**
+ * Check if an adapter is configured.
+ *
+ * @param name Adapter name to check
+ * @returns true if adapter exists
+ */
+export function adapterExists(name: string): name is AdapterName {
+  return getAdapterRegistry().has(name);
+}
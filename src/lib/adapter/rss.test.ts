@@ -0,0 +1,41 @@
+/**
+ * Unit tests for process RSS sampling
+ */
+
+import { describe, expect, test } from "bun:test";
+import { existsSync } from "node:fs";
+import { RssSampler, readPeakRss } from "./rss";
+
+const HAS_PROC = existsSync("/proc/self/status");
+
+describe("readPeakRss", () => {
+  test.if(HAS_PROC)("reads the peak RSS of a live process", () => {
+    const rss = readPeakRss(process.pid);
+
+    expect(rss).toBeGreaterThan(0);
+    expect((rss ?? 0) % 1024).toBe(0);
+  });
+
+  test("returns undefined for a missing process", () => {
+    expect(readPeakRss(2 ** 22 + 1)).toBeUndefined();
+  });
+});
+
+describe("RssSampler", () => {
+  test.if(HAS_PROC)("reports the peak seen while running", async () => {
+    const proc = Bun.spawn(["bun", "-e", "setTimeout(() => {}, 200)"]);
+    const sampler = new RssSampler(proc.pid);
+    sampler.start();
+    await proc.exited;
+
+    // The process is gone, but the last reading survives
+    expect(sampler.stop()).toBeGreaterThan(0);
+  });
+
+  test("returns undefined when nothing could be read", () => {
+    const sampler = new RssSampler(2 ** 22 + 1);
+    sampler.start();
+
+    expect(sampler.stop()).toBeUndefined();
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Process RSS Sampler
+ *
+ * Measures the peak resident set size of an adapter process from outside,
+ * independent of what the adapter runtime reports about itself.
+ *
+ * Reads VmHWM (peak RSS) from /proc/<pid>/status while a job runs. Before
+ * each job the peak is reset through /proc/<pid>/clear_refs, so a worker
+ * process reports the peak of the current job rather than of its lifetime.
+ * On systems without /proc every reading is undefined and sampling is a no-op.
+ */
+
+import { readFileSync, writeFileSync } from "node:fs";
+
+/**
+ * Interval between /proc reads while a job runs (milliseconds).
+ */
+const SAMPLE_INTERVAL_MS = 10;
+
+/**
+ * Value written to clear_refs to reset the peak RSS counter (Linux 4.0+).
+ */
+const CLEAR_PEAK_RSS = "5";
+
+/**
+ * Read the peak RSS of a process in bytes.
+ * Falls back to current RSS when VmHWM is not reported.
+ *
+ * @returns Bytes, or undefined if the process or /proc is unavailable
+ */
+export function readPeakRss(pid: number): number | undefined {
+  let status: string;
+  try {
+    status = readFileSync(`/proc/${pid}/status`, "utf-8");
+  } catch {
+    return undefined;
+  }
+
+  const kb = (status.match(/^VmHWM:\s+(\d+) kB$/m) ?? status.match(/^VmRSS:\s+(\d+) kB$/m))?.[1];
+  return kb === undefined ? undefined : parseInt(kb, 10) * 1024;
+}
+
+/**
+ * Reset the peak RSS counter of a process.
+ * Failures are ignored: the next reading then covers the process lifetime.
+ */
+function resetPeakRss(pid: number): void {
+  try {
+    writeFileSync(`/proc/${pid}/clear_refs`, CLEAR_PEAK_RSS);
+  } catch {
+    // Not Linux, not permitted, or the process already exited
+  }
+}
+
+/**
+ * Polls the peak RSS of one process for the duration of one job.
+ *
+ * The last successful reading is kept, so the result survives the process
+ * exiting before stop() (one-shot mode).
+ */
+export class RssSampler {
+  private peak: number | undefined;
+  private intervalId: Timer | undefined;
+
+  constructor(private readonly pid: number) {}
+
+  /**
+   * Reset the process peak and start polling.
+   */
+  start(): void {
+    resetPeakRss(this.pid);
+    this.sample();
+    this.intervalId = setInterval(() => this.sample(), SAMPLE_INTERVAL_MS);
+  }
+
+  /**
+   * Stop polling and return the peak RSS seen during the job.
+   *
+   * @returns Bytes, or undefined if no reading succeeded
+   */
+  stop(): number | undefined {
+    if (this.intervalId) clearInterval(this.intervalId);
+    this.intervalId = undefined;
+    this.sample();
+    return this.peak;
+  }
+
+  private sample(): void {
+    const rss = readPeakRss(this.pid);
+    if (rss !== undefined) {
+      this.peak = Math.max(this.peak ?? 0, rss);
+    }
+  }
+}
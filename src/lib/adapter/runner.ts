@@ -4,64 +4,27 @@
  * Executes benchmark adapters as subprocesses.
  * Sends AdapterInput via stdin, receives AdapterOutput via stdout.
  * Validates output against adapter-output.schema.json.
+ * Progress lines streamed ahead of the output are collected so a failed
+ * job still reports the iterations it completed (see progress.ts).
+ * Each adapter is asked for its protocol version and capabilities once
+ * before its first job (see protocol.ts).
  */
 
-import { dirname, join } from "node:path";
-import { fileURLToPath } from "node:url";
-import {
-  ADAPTER_NAMES,
-  type AdapterConfig,
-  type AdapterInput,
-  type AdapterName,
-  type AdapterOutput,
-  isAdapterName,
-} from "../../types";
+import type { AdapterConfig, AdapterInput, AdapterName, AdapterOutput } from "../../types";
+import { DEFAULT_TIMEOUT_MS } from "../config";
 import { validateAdapterOutput } from "../validator";
-
-const __dirname = dirname(fileURLToPath(import.meta.url));
-const PROJECT_ROOT = join(__dirname, "../../..");
-
-/**
- * Default timeout for adapter execution (milliseconds).
- */
-const DEFAULT_TIMEOUT_MS = 300_000; // 5 minutes
-
-/**
- * Adapter configurations.
- * Maps adapter names to their execution settings.
- */
-export const ADAPTERS: Record<AdapterName, AdapterConfig> = {
-  keepsuit: {
-    name: "keepsuit",
-    lang: "php",
-    command: [
-      "php",
-      "-d",
-      "opcache.enable_cli=1",
-      "-d",
-      "display_errors=stderr",
-      join(PROJECT_ROOT, "src/adapters/php/keepsuit.php"),
-    ],
-  },
-  kalimatas: {
-    name: "kalimatas",
-    lang: "php",
-    command: [
-      "php",
-      "-d",
-      "opcache.enable_cli=1",
-      "-d",
-      "display_errors=stderr",
-      join(PROJECT_ROOT, "src/adapters/php/kalimatas.php"),
-    ],
-  },
-  shopify: {
-    name: "shopify",
-    lang: "ruby",
-    command: ["ruby", join(PROJECT_ROOT, "src/adapters/ruby/shopify.rb")],
-    env: { RUBY_YJIT_ENABLE: "1" },
-  },
-};
+import { LineReader } from "./ndjson";
+import { type PartialRun, ProgressCollector, type ProgressListener } from "./progress";
+import {
+  type AdapterProtocol,
+  adaptInput,
+  handshakeRequest,
+  LEGACY_PROTOCOL,
+  parseHandshake,
+  protocolMismatch,
+} from "./protocol";
+import { getAdapterConfig } from "./registry";
+import { RssSampler } from "./rss";
 
 /**
  * Error thrown when adapter execution fails.
@@ -71,13 +34,124 @@ export class AdapterError extends Error {
     message: string,
     public readonly adapterName: AdapterName,
     public readonly exitCode?: number,
-    public readonly stderr?: string
+    public readonly stderr?: string,
+    /** Measurements completed before the failure (from progress records) */
+    public readonly partial?: PartialRun
   ) {
     super(message);
     this.name = "AdapterError";
   }
 }
 
+/**
+ * Error thrown when an adapter job exceeds its time limit.
+ */
+export class AdapterTimeoutError extends AdapterError {
+  constructor(
+    adapterName: AdapterName,
+    /** Limit that applied to the job (milliseconds) */
+    public readonly timeoutMs: number,
+    partial?: PartialRun
+  ) {
+    super(`Adapter timed out after ${timeoutMs}ms`, adapterName, undefined, undefined, partial);
+    this.name = "AdapterTimeoutError";
+  }
+}
+
+/**
+ * Error thrown when the harness cannot talk to an adapter
+ * (newer protocol version, or a required capability is missing).
+ */
+export class AdapterProtocolError extends AdapterError {
+  constructor(
+    adapterName: AdapterName,
+    /** Why the adapter was refused */
+    public readonly reason: string
+  ) {
+    super(`Incompatible adapter protocol: ${reason}`, adapterName);
+    this.name = "AdapterProtocolError";
+  }
+}
+
+/**
+ * Time limit for the handshake (milliseconds).
+ * Covers runtime boot and library loading, but no benchmark work.
+ */
+const HANDSHAKE_TIMEOUT_MS = 30_000;
+
+/**
+ * Negotiated protocols, keyed by command and environment.
+ * Variants and versions of a library launch differently, so they are
+ * negotiated separately.
+ */
+const protocols = new Map<string, Promise<AdapterProtocol>>();
+
+/**
+ * Negotiate the protocol with an adapter.
+ *
+ * Runs the adapter once with the handshake request as its job. Adapters
+ * that do not answer it are treated as legacy (LEGACY_PROTOCOL). The
+ * result is cached for the lifetime of the harness process.
+ *
+ * @param config Adapter configuration
+ * @returns Protocol version and capabilities of the adapter
+ * @throws AdapterProtocolError if the adapter speaks a newer protocol
+ * @throws AdapterTimeoutError if the adapter does not answer in time
+ */
+export function negotiateProtocol(config: AdapterConfig): Promise<AdapterProtocol> {
+  const key = JSON.stringify([config.command, config.env ?? {}]);
+  let protocol = protocols.get(key);
+  if (!protocol) {
+    protocol = handshake(config);
+    protocols.set(key, protocol);
+    // A failed handshake is retried on the next job
+    void protocol.catch(() => protocols.delete(key));
+  }
+  return protocol;
+}
+
+async function handshake(config: AdapterConfig): Promise<AdapterProtocol> {
+  const proc = Bun.spawn(config.command, {
+    stdin: "pipe",
+    stdout: "pipe",
+    stderr: "ignore",
+    env: {
+      ...process.env,
+      ...config.env,
+    },
+  });
+  void proc.stdin.write(JSON.stringify(handshakeRequest()));
+  await proc.stdin.end();
+
+  let timeoutId: Timer | undefined;
+  const timeoutPromise = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(() => {
+      proc.kill();
+      reject(new AdapterTimeoutError(config.name, HANDSHAKE_TIMEOUT_MS));
+    }, HANDSHAKE_TIMEOUT_MS);
+  });
+
+  let result: [string, number];
+  try {
+    result = await Promise.race([
+      Promise.all([new Response(proc.stdout).text(), proc.exited]),
+      timeoutPromise,
+    ]);
+  } finally {
+    if (timeoutId) clearTimeout(timeoutId);
+  }
+  const [stdout, exitCode] = result;
+
+  // Legacy adapters reject the handshake as a job without a template
+  const protocol = (exitCode === 0 && parseHandshake(stdout)) || LEGACY_PROTOCOL;
+
+  const mismatch = protocolMismatch(protocol);
+  if (mismatch) {
+    throw new AdapterProtocolError(config.name, mismatch);
+  }
+  return protocol;
+}
+
 /**
  * Result of adapter execution.
  */
@@ -86,32 +160,43 @@ export interface AdapterResult {
   output: AdapterOutput;
   /** Execution time in milliseconds (subprocess overhead) */
   executionTimeMs: number;
+  /** Peak RSS of the adapter process during the job in bytes (undefined without /proc) */
+  peakRssBytes?: number;
+  /** When the process was spawned, in Unix epoch milliseconds (one-shot runs only) */
+  spawnedAtMs?: number;
 }
 
 /**
  * Run a benchmark adapter.
  *
  * Spawns the adapter as a subprocess, sends input via stdin,
- * and parses the JSON output from stdout.
+ * and parses the JSON output from stdout. Input fields the adapter did
+ * not announce a capability for are left out.
  *
  * @param adapterName Name of the adapter to run
  * @param input AdapterInput to send
  * @param timeoutMs Timeout in milliseconds (default: 5 minutes)
+ * @param onProgress Called for each progress record (optional)
  * @returns AdapterResult with validated output
- * @throws AdapterError if execution fails or output is invalid
+ * @throws AdapterError if execution fails or output is invalid; carries
+ *   the completed iterations in `partial` when progress was streamed
+ * @throws AdapterProtocolError if the adapter speaks a newer protocol
  */
 export async function runAdapter(
   adapterName: AdapterName,
   input: AdapterInput,
-  timeoutMs: number = DEFAULT_TIMEOUT_MS
+  timeoutMs: number = DEFAULT_TIMEOUT_MS,
+  onProgress?: ProgressListener
 ): Promise<AdapterResult> {
-  const config = ADAPTERS[adapterName];
+  const config = getAdapterConfig(adapterName);
 
   if (!config) {
     throw new AdapterError(`Unknown adapter: ${adapterName}`, adapterName);
   }
 
+  const protocol = await negotiateProtocol(config);
   const startTime = performance.now();
+  const spawnedAtMs = performance.timeOrigin + startTime;
 
   // Spawn subprocess with Bun
   const proc = Bun.spawn(config.command, {
@@ -123,29 +208,42 @@ export async function runAdapter(
       ...config.env,
     },
   });
+  const rss = new RssSampler(proc.pid);
+  rss.start();
 
   // Write input to stdin
-  const inputJson = JSON.stringify(input);
+  const inputJson = JSON.stringify(adaptInput(input, protocol));
   proc.stdin.write(inputJson);
   await proc.stdin.end();
 
   // Set up timeout
+  const progress = new ProgressCollector(onProgress);
   let timeoutId: Timer | undefined;
   const timeoutPromise = new Promise<never>((_, reject) => {
     timeoutId = setTimeout(() => {
       proc.kill();
-      reject(new AdapterError(`Adapter timed out after ${timeoutMs}ms`, adapterName));
+      reject(new AdapterTimeoutError(adapterName, timeoutMs, progress.partial("timeout")));
     }, timeoutMs);
   });
 
   // Read stdout/stderr in parallel with waiting for exit to avoid deadlock
-  const [stdout, stderr, exitCode] = await Promise.race([
-    Promise.all([new Response(proc.stdout).text(), new Response(proc.stderr).text(), proc.exited]),
-    timeoutPromise,
-  ]);
-
-  // Clear timeout if process completed
-  if (timeoutId) clearTimeout(timeoutId);
+  let result: [string, string, number];
+  let peakRssBytes: number | undefined;
+  try {
+    result = await Promise.race([
+      Promise.all([
+        readOutput(proc.stdout, progress),
+        new Response(proc.stderr).text(),
+        proc.exited,
+      ]),
+      timeoutPromise,
+    ]);
+  } finally {
+    // Clear timeout if process completed
+    if (timeoutId) clearTimeout(timeoutId);
+    peakRssBytes = rss.stop();
+  }
+  const [stdout, stderr, exitCode] = result;
 
   const executionTimeMs = performance.now() - startTime;
 
@@ -155,14 +253,53 @@ export async function runAdapter(
       `Adapter exited with code ${exitCode}: ${stderr}`,
       adapterName,
       exitCode,
-      stderr
+      stderr,
+      progress.partial("crash")
     );
   }
 
-  // Parse JSON output
-  let output: unknown;
+  const output = parseOutputJson(stdout, adapterName, exitCode, stderr);
+
+  return {
+    output: await validateOutput(output, adapterName, exitCode, stderr),
+    executionTimeMs,
+    ...(peakRssBytes !== undefined && { peakRssBytes }),
+    spawnedAtMs,
+  };
+}
+
+/**
+ * Read adapter stdout, feeding progress lines to the collector.
+ * @returns The remaining lines (the final output document)
+ */
+async function readOutput(
+  stdout: ReadableStream<Uint8Array>,
+  progress: ProgressCollector
+): Promise<string> {
+  const reader = new LineReader(stdout);
+  const rest: string[] = [];
+
+  for (let line = await reader.next(); line !== null; line = await reader.next()) {
+    if (!progress.accept(line)) rest.push(line);
+  }
+
+  return rest.join("\n");
+}
+
+/**
+ * Parse raw adapter stdout as JSON.
+ * Shared by one-shot runs and worker mode.
+ *
+ * @throws AdapterError if the output is not valid JSON
+ */
+export function parseOutputJson(
+  stdout: string,
+  adapterName: AdapterName,
+  exitCode?: number,
+  stderr?: string
+): unknown {
   try {
-    output = JSON.parse(stdout);
+    return JSON.parse(stdout);
   } catch {
     throw new AdapterError(
       `Failed to parse adapter output as JSON: ${stdout.slice(0, 200)}`,
@@ -171,10 +308,21 @@ export async function runAdapter(
       stderr
     );
   }
+}
 
-  // Validate against schema
+/**
+ * Validate parsed adapter output against adapter-output.schema.json.
+ *
+ * @throws AdapterError if validation fails
+ */
+export async function validateOutput(
+  output: unknown,
+  adapterName: AdapterName,
+  exitCode?: number,
+  stderr?: string
+): Promise<AdapterOutput> {
   try {
-    await validateAdapterOutput(output);
+    return await validateAdapterOutput(output);
   } catch (e) {
     throw new AdapterError(
       `Adapter output validation failed: ${e instanceof Error ? e.message : String(e)}`,
@@ -183,40 +331,4 @@ export async function runAdapter(
       stderr
     );
   }
-
-  return {
-    output: output as AdapterOutput,
-    executionTimeMs,
-  };
-}
-
-/**
- * Get adapter configuration by name.
- *
- * @param name Adapter name
- * @returns AdapterConfig or undefined if not found
- */
-export function getAdapterConfig(name: AdapterName): AdapterConfig | undefined {
-  return ADAPTERS[name];
-}
-
-/**
- * List all available adapter names.
- * Returns a copy of the const tuple to prevent external mutation.
- *
- * @returns Array of adapter names
- */
-export function listAdapters(): readonly AdapterName[] {
-  return ADAPTER_NAMES;
-}
-
-/**
- * Check if an adapter exists (type guard).
- * Delegates to isAdapterName from types/adapter.ts.
- *
- * @param name Adapter name to check
- * @returns true if adapter exists
- */
-export function adapterExists(name: string): name is AdapterName {
-  return isAdapterName(name);
 }
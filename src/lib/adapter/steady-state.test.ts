@@ -0,0 +1,170 @@
+/**
+ * Unit tests for automatic warmup
+ */
+
+import { describe, expect, test } from "bun:test";
+import type { AdapterInput } from "../../types";
+import { MAX_ADAPTIVE_ITERATIONS } from "./adaptive";
+import type { PartialRun } from "./progress";
+import type { AdapterResult } from "./runner";
+import { MAX_AUTO_WARMUP, SteadyStateRunner, settle } from "./steady-state";
+
+const JOB: AdapterInput = {
+  template: "{{ x }}",
+  data: {},
+  iterations: 100,
+  warmup: 10,
+  progress_interval: 5,
+};
+
+/**
+ * Times of consecutive iterations of one process: 3× slower at first,
+ * settling linearly within `warmup` iterations.
+ */
+function timesFrom(first: number, count: number, warmup: number): number[] {
+  return Array.from({ length: count }, (_, i) => {
+    const n = first + i;
+    const slowdown = n < warmup ? 1 + (2 * (warmup - n)) / warmup : 1;
+    return slowdown * (n % 2 === 0 ? 1.01 : 0.99);
+  });
+}
+
+/**
+ * Job runner of a process that needs `warmup` iterations to settle,
+ * recording the jobs it was given. Each job starts a fresh process
+ * unless `warm` is set.
+ */
+function fakeRunner(warmup: number, warm = false) {
+  const jobs: AdapterInput[] = [];
+  let executed = 0;
+  const run = (input: AdapterInput): Promise<AdapterResult> => {
+    jobs.push(input);
+    if (!warm) executed = 0;
+    const parse = timesFrom(executed + input.warmup, input.iterations, warmup);
+    executed += input.warmup + input.iterations;
+    return Promise.resolve({
+      output: {
+        library: "test/lib",
+        version: "1.0.0",
+        lang: "javascript",
+        timings: { parse_ms: parse, render_ms: Array(input.iterations).fill(0) },
+        memory: {
+          parse_peak_bytes: parse.map((_, i) => i),
+          render_peak_bytes: parse.map((_, i) => i),
+        },
+      },
+      executionTimeMs: 10,
+    });
+  };
+  return { jobs, run };
+}
+
+describe("SteadyStateRunner", () => {
+  test("measures extra iterations without warmup in the first job", async () => {
+    const { jobs, run } = fakeRunner(30);
+    const runner = new SteadyStateRunner(run);
+
+    await runner.run(JOB);
+
+    expect(jobs[0]).toMatchObject({ iterations: 200, warmup: 0, progress_interval: 10 });
+  });
+
+  test("keeps the requested iterations after steady state", async () => {
+    const { run } = fakeRunner(30);
+    const runner = new SteadyStateRunner(run);
+
+    const result = await runner.run(JOB);
+
+    expect(runner.warmupIterations).toBeGreaterThanOrEqual(20);
+    expect(runner.warmupIterations).toBeLessThanOrEqual(35);
+    expect(result.output.timings.parse_ms).toHaveLength(100);
+    expect(result.output.memory?.parse_peak_bytes[0]).toBe(runner.warmupIterations ?? -1);
+    expect(Math.max(...result.output.timings.parse_ms)).toBeLessThan(1.2);
+  });
+
+  test("needs no warmup for a steady process", async () => {
+    const { run } = fakeRunner(0);
+    const runner = new SteadyStateRunner(run);
+
+    await runner.run(JOB);
+
+    expect(runner.warmupIterations).toBe(0);
+  });
+
+  test("limits the extra iterations", async () => {
+    const { jobs, run } = fakeRunner(0);
+
+    await new SteadyStateRunner(run).run({ ...JOB, iterations: 5000 });
+    await new SteadyStateRunner(run).run({ ...JOB, iterations: MAX_ADAPTIVE_ITERATIONS - 10 });
+
+    expect(jobs.map((j) => j.iterations)).toEqual([
+      5000 + MAX_AUTO_WARMUP,
+      MAX_ADAPTIVE_ITERATIONS,
+    ]);
+  });
+
+  test("repeats the detected warmup in fresh processes", async () => {
+    const { jobs, run } = fakeRunner(30);
+    const runner = new SteadyStateRunner(run, true);
+
+    await runner.run(JOB);
+    await runner.run({ ...JOB, warmup: 0 });
+
+    expect(jobs[1]).toMatchObject({ iterations: 100, warmup: runner.warmupIterations });
+  });
+
+  test("skips warmup in a warm worker", async () => {
+    const { jobs, run } = fakeRunner(30, true);
+    const runner = new SteadyStateRunner(run);
+
+    await runner.run(JOB);
+    await runner.run(JOB);
+
+    expect(jobs[1]).toMatchObject({ iterations: 100, warmup: 0 });
+  });
+
+  test("drops the warmup from a failed first job", async () => {
+    const runner = new SteadyStateRunner(() => Promise.reject(new Error("timed out")));
+    const partial: PartialRun = {
+      reason: "timeout",
+      completed: 80,
+      total: 200,
+      timings: { parse_ms: timesFrom(0, 80, 30), render_ms: Array(80).fill(0) },
+    };
+
+    const error = await runner.run(JOB).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(Error);
+    const settled = runner.settlePartial(partial);
+
+    expect(runner.warmupIterations).toBeGreaterThan(0);
+    expect(settled.total).toBe(100);
+    expect(settled.completed).toBe(80 - (runner.warmupIterations ?? 0));
+  });
+
+  test("passes partial runs of later jobs through", async () => {
+    const runner = new SteadyStateRunner(fakeRunner(0).run);
+    await runner.run(JOB);
+    const partial: PartialRun = {
+      reason: "crash",
+      completed: 1,
+      total: 100,
+      timings: { parse_ms: [1], render_ms: [1] },
+    };
+
+    expect(runner.settlePartial(partial)).toBe(partial);
+  });
+});
+
+describe("settle", () => {
+  test("keeps at most the requested samples", () => {
+    const { measured, warmupIterations } = settle(
+      { timings: { parse_ms: timesFrom(0, 300, 40), render_ms: Array(300).fill(1) } },
+      100,
+      200
+    );
+
+    expect(warmupIterations).toBeGreaterThan(0);
+    expect(measured.timings.parse_ms).toHaveLength(100);
+    expect(measured.timings.render_ms).toHaveLength(100);
+  });
+});
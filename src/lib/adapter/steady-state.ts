@@ -0,0 +1,123 @@
+/**
+ * Automatic Warmup
+ *
+ * Runtimes warm up at their own pace (YJIT, OPcache JIT), so a fixed warmup
+ * count is too short for one adapter and wasteful for another. Instead, the
+ * first job of a benchmark runs without warmup and with extra measured
+ * iterations; the harness finds where the total times settle (MSER-5, see
+ * stats/steady-state) and keeps the requested iterations from there. The
+ * samples before that point are the warmup the adapter actually needed.
+ *
+ * Later jobs of the same benchmark (adaptive batches) repeat the detected
+ * warmup when each starts a fresh process; a worker stays warm.
+ */
+
+import type { AdapterInput, RawMemory, RawTimings } from "../../types";
+import { addArrays, steadyStateStart } from "../stats";
+import { type JobRunner, MAX_ADAPTIVE_ITERATIONS } from "./adaptive";
+import { type PartialRun, progressInterval } from "./progress";
+import type { AdapterResult } from "./runner";
+
+/**
+ * Most warmup iterations detected (the --warmup limit).
+ */
+export const MAX_AUTO_WARMUP = 1000;
+
+/**
+ * Samples of a job, as in the final output or a partial run.
+ */
+interface Measured {
+  timings: RawTimings;
+  memory?: RawMemory;
+}
+
+/**
+ * Drop the samples before steady state, keeping at most `iterations` after it.
+ *
+ * @param measured Samples measured without warmup
+ * @param iterations Samples to keep
+ * @param maxWarmup Most samples dropped
+ * @returns Kept samples and the number dropped
+ */
+export function settle<T extends Measured>(
+  measured: T,
+  iterations: number,
+  maxWarmup: number
+): { measured: T; warmupIterations: number } {
+  const { parse_ms: parseMs, render_ms: renderMs } = measured.timings;
+  const start = steadyStateStart(addArrays(parseMs, renderMs), maxWarmup);
+  const keep = (values: number[]) => values.slice(start, start + iterations);
+
+  return {
+    measured: {
+      ...measured,
+      timings: { parse_ms: keep(parseMs), render_ms: keep(renderMs) },
+      ...(measured.memory && {
+        memory: {
+          ...measured.memory,
+          parse_peak_bytes: keep(measured.memory.parse_peak_bytes),
+          render_peak_bytes: keep(measured.memory.render_peak_bytes),
+        },
+      }),
+    },
+    warmupIterations: start,
+  };
+}
+
+/**
+ * Runs the jobs of one benchmark with automatic warmup.
+ */
+export class SteadyStateRunner {
+  /** Warmup iterations detected by the first job (undefined until it completes) */
+  warmupIterations: number | undefined;
+  /** Requested iterations and warmup limit of the first job, until it completes */
+  private detecting: { iterations: number; maxWarmup: number } | undefined;
+
+  /**
+   * @param runJob Runs one job
+   * @param rewarm Repeat the detected warmup in later jobs (fresh process per job)
+   */
+  constructor(
+    private readonly runJob: JobRunner,
+    private readonly rewarm = false
+  ) {}
+
+  /**
+   * Run a job. The first one detects the warmup: its iterations are the
+   * ones kept after steady state. The job's own warmup is ignored.
+   */
+  async run(job: AdapterInput): Promise<AdapterResult> {
+    if (this.warmupIterations !== undefined) {
+      return this.runJob({ ...job, warmup: this.rewarm ? this.warmupIterations : 0 });
+    }
+
+    const { iterations } = job;
+    const maxWarmup = Math.min(iterations, MAX_AUTO_WARMUP, MAX_ADAPTIVE_ITERATIONS - iterations);
+    this.detecting = { iterations, maxWarmup };
+    const total = iterations + maxWarmup;
+    const result = await this.runJob({
+      ...job,
+      iterations: total,
+      warmup: 0,
+      ...(job.progress_interval !== undefined && { progress_interval: progressInterval(total) }),
+    });
+    this.detecting = undefined;
+
+    const { measured, warmupIterations } = settle(result.output, iterations, maxWarmup);
+    this.warmupIterations = warmupIterations;
+    return { ...result, output: measured };
+  }
+
+  /**
+   * Drop the warmup from the measurements salvaged from a failed job.
+   * Only the first job's samples include warmup; later ones pass through.
+   */
+  settlePartial(partial: PartialRun): PartialRun {
+    if (!this.detecting) return partial;
+
+    const { iterations, maxWarmup } = this.detecting;
+    const { measured, warmupIterations } = settle(partial, iterations, maxWarmup);
+    this.warmupIterations = warmupIterations;
+    return { ...measured, completed: measured.timings.parse_ms.length, total: iterations };
+  }
+}
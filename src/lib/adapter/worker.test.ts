@@ -0,0 +1,211 @@
+/**
+ * Unit tests for adapter worker mode
+ *
+ * Uses a small Bun script as a stand-in adapter so the NDJSON job loop
+ * can be exercised without PHP or Ruby.
+ */
+
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdirSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import type { AdapterConfig, AdapterInput } from "../../types";
+import { LineReader } from "./ndjson";
+import { AdapterError, AdapterTimeoutError } from "./runner";
+import { AdapterWorker } from "./worker";
+
+/**
+ * Temporary directory for the stand-in adapter script.
+ */
+const TEST_DIR = join(import.meta.dirname, "__test_worker__");
+const SCRIPT_PATH = join(TEST_DIR, "echo-worker.ts");
+
+/**
+ * Stand-in adapter: announces worker mode in the handshake and answers
+ * each job line with a valid AdapterOutput.
+ * Template "fail" → error line, "crash" → exit 3, "hang" → never answers,
+ * "warn" → warning on stderr, then a normal answer.
+ * rendered_output carries the process id to check process reuse.
+ */
+const SCRIPT = `
+async function handle(line) {
+  const input = JSON.parse(line);
+  if ("handshake" in input) {
+    console.log(JSON.stringify({ handshake: { protocol_version: 1, capabilities: ["worker_mode"] } }));
+    return;
+  }
+  if (input.template === "warn") {
+    console.error("warning: deprecated");
+  }
+  if (input.template === "fail") {
+    console.error("boom at line 1");
+    console.log(JSON.stringify({ error: "RuntimeError: boom" }));
+    return;
+  }
+  if (input.template === "crash") {
+    console.error("fatal: crashed");
+    process.exit(3);
+  }
+  if (input.template === "hang") {
+    await new Promise(() => {});
+  }
+  console.log(JSON.stringify({
+    library: "test/echo",
+    version: "1.0.0",
+    lang: "javascript",
+    timings: { parse_ms: [0.1], render_ms: [0.2] },
+    rendered_output: \`\${process.env.LEB_WORKER}:\${process.pid}\`,
+  }));
+}
+
+const decoder = new TextDecoder();
+let buffer = "";
+for await (const chunk of Bun.stdin.stream()) {
+  buffer += decoder.decode(chunk);
+  let newline;
+  while ((newline = buffer.indexOf("\\n")) !== -1) {
+    const line = buffer.slice(0, newline);
+    buffer = buffer.slice(newline + 1);
+    await handle(line);
+  }
+}
+// One-shot messages (the handshake) end without a newline
+if (buffer.trim() !== "") await handle(buffer);
+`;
+
+const CONFIG: AdapterConfig = {
+  name: "shopify",
+  lang: "javascript",
+  command: ["bun", SCRIPT_PATH],
+};
+
+function input(template: string): AdapterInput {
+  return { template, data: {}, iterations: 1, warmup: 0 };
+}
+
+/**
+ * Await a promise that is expected to reject and return the error.
+ */
+async function captureError(promise: Promise<unknown>): Promise<AdapterError> {
+  try {
+    await promise;
+  } catch (e) {
+    expect(e).toBeInstanceOf(AdapterError);
+    return e as AdapterError;
+  }
+  throw new Error("Expected promise to reject");
+}
+
+describe("AdapterWorker", () => {
+  beforeAll(async () => {
+    mkdirSync(TEST_DIR, { recursive: true });
+    await Bun.write(SCRIPT_PATH, SCRIPT);
+  });
+
+  afterAll(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  test("runs multiple jobs on one process", async () => {
+    const worker = new AdapterWorker(CONFIG);
+    try {
+      const first = await worker.run(input("a"));
+      const second = await worker.run(input("b"));
+
+      expect(first.output.library).toBe("test/echo");
+      expect(first.output.rendered_output).toStartWith("1:");
+      expect(second.output.rendered_output).toBe(first.output.rendered_output);
+    } finally {
+      await worker.close();
+    }
+  });
+
+  test("keeps serving after a job error line", async () => {
+    const worker = new AdapterWorker(CONFIG);
+    try {
+      const before = await worker.run(input("a"));
+      const error = await captureError(worker.run(input("fail")));
+      expect(error.message).toContain("Adapter job failed: RuntimeError");
+      const after = await worker.run(input("b"));
+
+      expect(after.output.rendered_output).toBe(before.output.rendered_output);
+    } finally {
+      await worker.close();
+    }
+  });
+
+  test("reports only the stderr of the failed job", async () => {
+    const worker = new AdapterWorker(CONFIG);
+    try {
+      await worker.run(input("warn"));
+      // Let the warning drain before the next job starts
+      await Bun.sleep(100);
+      const error = await captureError(worker.run(input("fail")));
+
+      expect(error.stderr).toContain("boom at line 1");
+      expect(error.stderr).not.toContain("warning: deprecated");
+    } finally {
+      await worker.close();
+    }
+  });
+
+  test("reports crash with exit code and restarts on next job", async () => {
+    const worker = new AdapterWorker(CONFIG);
+    try {
+      const before = await worker.run(input("a"));
+
+      const error = await captureError(worker.run(input("crash")));
+      expect(error.exitCode).toBe(3);
+      expect(error.message).toContain("exited with code 3");
+
+      const after = await worker.run(input("b"));
+      expect(after.output.rendered_output).not.toBe(before.output.rendered_output);
+    } finally {
+      await worker.close();
+    }
+  });
+
+  test("times out a hung job", async () => {
+    const worker = new AdapterWorker(CONFIG);
+    try {
+      const error = await captureError(worker.run(input("hang"), 500));
+      expect(error.message).toContain("timed out after 500ms");
+      expect(error).toBeInstanceOf(AdapterTimeoutError);
+      expect((error as AdapterTimeoutError).timeoutMs).toBe(500);
+    } finally {
+      await worker.close();
+    }
+  });
+
+  test("close is a no-op when never started", async () => {
+    const worker = new AdapterWorker(CONFIG);
+    await worker.close();
+  });
+});
+
+describe("LineReader", () => {
+  function streamOf(...chunks: string[]): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+    return new ReadableStream({
+      start(controller) {
+        for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+        controller.close();
+      },
+    });
+  }
+
+  test("splits lines across chunk boundaries", async () => {
+    const reader = new LineReader(streamOf('{"a":', "1}\n{", '"b":2}\n'));
+
+    expect(await reader.next()).toBe('{"a":1}');
+    expect(await reader.next()).toBe('{"b":2}');
+    expect(await reader.next()).toBeNull();
+  });
+
+  test("returns unterminated final line", async () => {
+    const reader = new LineReader(streamOf("first\nlast"));
+
+    expect(await reader.next()).toBe("first");
+    expect(await reader.next()).toBe("last");
+    expect(await reader.next()).toBeNull();
+  });
+});
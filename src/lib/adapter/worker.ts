@@ -0,0 +1,249 @@
+/**
+ * Adapter Worker Module
+ *
+ * Runs an adapter as a long-lived process that answers many jobs.
+ * Avoids paying runtime boot, Composer autoload and `require 'liquid'`
+ * once per adapter × scenario pair.
+ *
+ * Protocol (newline-delimited JSON over stdin/stdout):
+ *   harness → adapter: one AdapterInput per line
+ *   adapter → harness: {"progress": ...} lines (optional), then one
+ *                      AdapterOutput line, or {"error": "..."}
+ *
+ * The adapter enters its job loop when LEB_WORKER=1 is set.
+ * Closing stdin ends the loop and the process exits. Only adapters that
+ * announce the worker_mode capability in the handshake are run this way.
+ */
+
+import type { Subprocess } from "bun";
+import type { AdapterConfig, AdapterInput } from "../../types";
+import { DEFAULT_TIMEOUT_MS } from "../config";
+import { encodeLine, LineReader } from "./ndjson";
+import { ProgressCollector, type ProgressListener } from "./progress";
+import { adaptInput, hasCapability } from "./protocol";
+import { RssSampler } from "./rss";
+import {
+  AdapterError,
+  AdapterProtocolError,
+  type AdapterResult,
+  AdapterTimeoutError,
+  negotiateProtocol,
+  parseOutputJson,
+  validateOutput,
+} from "./runner";
+
+/**
+ * Environment variable that switches adapter bootstraps into worker mode.
+ */
+export const WORKER_ENV_VAR = "LEB_WORKER";
+
+/**
+ * Grace period for a worker to exit after stdin is closed (milliseconds).
+ */
+const CLOSE_GRACE_MS = 5_000;
+
+/**
+ * Maximum stderr of a job retained for error messages (characters).
+ */
+const STDERR_LIMIT = 8_192;
+
+/**
+ * Per-job failure reported by an adapter in worker mode.
+ * The process stays alive and can accept the next job.
+ */
+interface WorkerErrorLine {
+  error: string;
+}
+
+function isWorkerErrorLine(value: unknown): value is WorkerErrorLine {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "error" in value &&
+    typeof (value as { error: unknown }).error === "string"
+  );
+}
+
+/**
+ * Persistent adapter process.
+ *
+ * The process is started lazily on the first job and restarted on the
+ * next job after a crash or timeout, so one failing scenario does not
+ * take down the rest of the run.
+ */
+export class AdapterWorker {
+  private proc: Subprocess<"pipe", "pipe", "pipe"> | null = null;
+  private lines: LineReader | null = null;
+  private stderr = "";
+  private stderrDrained: Promise<void> = Promise.resolve();
+
+  constructor(private readonly config: AdapterConfig) {}
+
+  /**
+   * Run one job on the worker process.
+   *
+   * @param input AdapterInput to send
+   * @param timeoutMs Timeout in milliseconds (default: 5 minutes)
+   * @param onProgress Called for each progress record (optional)
+   * @returns AdapterResult with validated output
+   * @throws AdapterError if the job fails, times out or the process dies;
+   *   carries the completed iterations in `partial` when progress was streamed
+   * @throws AdapterProtocolError if the adapter cannot run as a worker
+   */
+  async run(
+    input: AdapterInput,
+    timeoutMs: number = DEFAULT_TIMEOUT_MS,
+    onProgress?: ProgressListener
+  ): Promise<AdapterResult> {
+    const adapterName = this.config.name;
+    const protocol = await negotiateProtocol(this.config);
+    if (!hasCapability(protocol, "worker_mode")) {
+      throw new AdapterProtocolError(adapterName, "adapter does not support worker mode");
+    }
+
+    const { proc, lines } = this.start();
+    // Errors carry only what this job wrote to stderr
+    this.stderr = "";
+    const startTime = performance.now();
+    const rss = new RssSampler(proc.pid);
+    rss.start();
+
+    void proc.stdin.write(encodeLine(adaptInput(input, protocol)));
+    await proc.stdin.flush();
+
+    const progress = new ProgressCollector(onProgress);
+    let timeoutId: Timer | undefined;
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      timeoutId = setTimeout(() => {
+        this.kill();
+        reject(new AdapterTimeoutError(adapterName, timeoutMs, progress.partial("timeout")));
+      }, timeoutMs);
+    });
+
+    // Progress lines precede the response line
+    let line: string | null;
+    let peakRssBytes: number | undefined;
+    try {
+      do {
+        line = await Promise.race([lines.next(), timeoutPromise]);
+      } while (line !== null && progress.accept(line));
+    } finally {
+      if (timeoutId) clearTimeout(timeoutId);
+      peakRssBytes = rss.stop();
+    }
+
+    const executionTimeMs = performance.now() - startTime;
+
+    // stdout closed before a response: the process died mid-job
+    if (line === null) {
+      const exitCode = await proc.exited;
+      await this.stderrDrained;
+      const stderr = this.stderr;
+      this.reset();
+      throw new AdapterError(
+        `Adapter exited with code ${exitCode}: ${stderr}`,
+        adapterName,
+        exitCode,
+        stderr,
+        progress.partial("crash")
+      );
+    }
+
+    const output = parseOutputJson(line, adapterName, undefined, this.stderr);
+
+    if (isWorkerErrorLine(output)) {
+      throw new AdapterError(
+        `Adapter job failed: ${output.error}`,
+        adapterName,
+        undefined,
+        this.stderr,
+        progress.partial("error")
+      );
+    }
+
+    return {
+      output: await validateOutput(output, adapterName, undefined, this.stderr),
+      executionTimeMs,
+      ...(peakRssBytes !== undefined && { peakRssBytes }),
+    };
+  }
+
+  /**
+   * Stop the worker process.
+   * Closes stdin so the adapter leaves its loop, then kills it if it lingers.
+   */
+  async close(): Promise<void> {
+    const proc = this.proc;
+    if (!proc) return;
+
+    await proc.stdin.end();
+
+    let timeoutId: Timer | undefined;
+    const graceExpired = new Promise<"timeout">((resolve) => {
+      timeoutId = setTimeout(() => resolve("timeout"), CLOSE_GRACE_MS);
+    });
+    const outcome = await Promise.race([proc.exited, graceExpired]);
+    if (timeoutId) clearTimeout(timeoutId);
+
+    if (outcome === "timeout") {
+      proc.kill();
+      await proc.exited;
+    }
+    this.reset();
+  }
+
+  /**
+   * Spawn the process if it is not running.
+   */
+  private start(): { proc: Subprocess<"pipe", "pipe", "pipe">; lines: LineReader } {
+    // Reuse a live process; a process that exited while idle is replaced
+    if (this.proc && this.lines && this.proc.exitCode === null && !this.proc.killed) {
+      return { proc: this.proc, lines: this.lines };
+    }
+
+    const proc = Bun.spawn(this.config.command, {
+      stdin: "pipe",
+      stdout: "pipe",
+      stderr: "pipe",
+      env: {
+        ...process.env,
+        ...this.config.env,
+        [WORKER_ENV_VAR]: "1",
+      },
+    });
+    const lines = new LineReader(proc.stdout);
+
+    this.proc = proc;
+    this.lines = lines;
+    this.stderr = "";
+    this.stderrDrained = this.drainStderr(proc);
+
+    return { proc, lines };
+  }
+
+  /**
+   * Continuously read stderr so the adapter never blocks on a full pipe.
+   * Keeps only the tail for error reporting.
+   */
+  private async drainStderr(proc: Subprocess<"pipe", "pipe", "pipe">): Promise<void> {
+    const decoder = new TextDecoder();
+    try {
+      for await (const chunk of proc.stderr) {
+        if (this.proc !== proc) return;
+        this.stderr = (this.stderr + decoder.decode(chunk, { stream: true })).slice(-STDERR_LIMIT);
+      }
+    } catch {
+      // Stream torn down with the process; nothing left to report
+    }
+  }
+
+  private kill(): void {
+    this.proc?.kill();
+    this.reset();
+  }
+
+  private reset(): void {
+    this.proc = null;
+    this.lines = null;
+  }
+}
@@ -11,11 +11,18 @@ export type {
   ConfigLang,
   LebConfig,
   LibraryConfig,
+  TimeoutConfig,
 } from "../../types";
 export {
+  CONFIG_ENV_VAR,
   filterLibrariesByLang,
+  getBaselineAdapter,
   getExcludedScenarios,
   getLibraryConfig,
+  getLibraryVersion,
   getRuntimeVersion,
   loadConfig,
+  loadConfigSync,
+  versionAdapterName,
 } from "./loader";
+export { DEFAULT_TIMEOUT_MS, resolveTimeout, type TimeoutTarget } from "./timeout";
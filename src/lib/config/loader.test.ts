@@ -5,12 +5,15 @@
 import { describe, expect, test } from "bun:test";
 import {
   filterLibrariesByLang,
+  getBaselineAdapter,
   getExcludedScenarios,
   getLibraryConfig,
+  getLibraryVersion,
   getRuntimeVersion,
   type LebConfig,
   type LibraryConfig,
   loadConfig,
+  loadConfigSync,
 } from "./index";
 
 describe("loadConfig", () => {
@@ -51,6 +54,12 @@ describe("loadConfig", () => {
   });
 });
 
+describe("loadConfigSync", () => {
+  test("returns the same configuration as loadConfig", async () => {
+    expect(loadConfigSync()).toEqual(await loadConfig());
+  });
+});
+
 describe("filterLibrariesByLang", () => {
   const mockLibraries: LibraryConfig[] = [
     { lang: "php", name: "keepsuit", package: "keepsuit/liquid", version: "1.0.0" },
@@ -109,7 +118,14 @@ describe("getLibraryConfig", () => {
     baseline: { library: "shopify", version: "5.6.0" },
     libraries: [
       { lang: "php", name: "keepsuit", package: "keepsuit/liquid", version: "1.0.0" },
-      { lang: "ruby", name: "shopify", package: "liquid", version: "5.5.0" },
+      {
+        lang: "ruby",
+        name: "shopify",
+        package: "liquid",
+        version: "5.5.0",
+        variants: [{ name: "shopify-nojit", env: { RUBY_YJIT_ENABLE: "0" } }],
+        versions: [{ version: "5.4.0" }],
+      },
     ],
   };
 
@@ -121,6 +137,22 @@ describe("getLibraryConfig", () => {
     expect(lib?.lang).toBe("php");
   });
 
+  test("resolves a variant name to its library", () => {
+    expect(getLibraryConfig(mockConfig, "shopify-nojit")?.name).toBe("shopify");
+  });
+
+  test("resolves a version name to its library", () => {
+    expect(getLibraryConfig(mockConfig, "shopify@5.4.0")?.name).toBe("shopify");
+    expect(getLibraryConfig(mockConfig, "shopify@5.3.0")).toBeUndefined();
+  });
+
+  test("returns the version each adapter runs", () => {
+    expect(getLibraryVersion(mockConfig, "shopify")).toBe("5.5.0");
+    expect(getLibraryVersion(mockConfig, "shopify-nojit")).toBe("5.5.0");
+    expect(getLibraryVersion(mockConfig, "shopify@5.4.0")).toBe("5.4.0");
+    expect(getLibraryVersion(mockConfig, "unknown")).toBeUndefined();
+  });
+
   test("returns undefined for unknown library", () => {
     const lib = getLibraryConfig(mockConfig, "unknown");
 
@@ -128,6 +160,44 @@ describe("getLibraryConfig", () => {
   });
 });
 
+describe("getBaselineAdapter", () => {
+  function config(version: string): LebConfig {
+    return {
+      runtimes: { ruby: "3.3" },
+      baseline: { library: "shopify", version },
+      libraries: [
+        {
+          lang: "ruby",
+          name: "shopify",
+          package: "liquid",
+          version: "5.11.0",
+          versions: [{ version: "5.10.0" }],
+        },
+      ],
+    };
+  }
+
+  test("returns the library name for its main version", () => {
+    expect(getBaselineAdapter(config("5.11.0"))).toBe("shopify");
+  });
+
+  test("returns the versioned adapter for an additional version", () => {
+    expect(getBaselineAdapter(config("5.10.0"))).toBe("shopify@5.10.0");
+  });
+
+  test("throws for a version that is not configured", () => {
+    expect(() => getBaselineAdapter(config("5.9.0"))).toThrow(
+      "Baseline version 5.9.0 is not configured"
+    );
+  });
+
+  test("throws for an unknown library", () => {
+    expect(() =>
+      getBaselineAdapter({ ...config("5.11.0"), baseline: { library: "x", version: "1.0.0" } })
+    ).toThrow('Baseline library "x"');
+  });
+});
+
 describe("getExcludedScenarios", () => {
   test("returns empty set when no exclusions defined", () => {
     const config: LebConfig = {
@@ -2,26 +2,63 @@
  * Configuration Loader
  *
  * Loads and validates leb.config.json from project root.
+ * LEB_CONFIG points the harness at another file (e.g. test fixtures).
  */
 
+import { existsSync, readFileSync } from "node:fs";
 import type { ConfigLang, LebConfig, LibraryConfig } from "../../types";
 
 const CONFIG_FILE = "leb.config.json";
 
+/**
+ * Environment variable overriding the configuration file path.
+ */
+export const CONFIG_ENV_VAR = "LEB_CONFIG";
+
+/**
+ * Resolve the configuration file path (LEB_CONFIG or leb.config.json).
+ */
+function configPath(): string {
+  return process.env[CONFIG_ENV_VAR] || CONFIG_FILE;
+}
+
 /**
  * Load leb.config.json from project root.
  * @returns Parsed configuration object
  * @throws Error if file not found or invalid JSON
  */
 export async function loadConfig(): Promise<LebConfig> {
-  const file = Bun.file(CONFIG_FILE);
+  const path = configPath();
+  const file = Bun.file(path);
   const exists = await file.exists();
 
   if (!exists) {
-    throw new Error(`Configuration file not found: ${CONFIG_FILE}`);
+    throw new Error(`Configuration file not found: ${path}`);
   }
 
   const content = await file.text();
+  return parseConfig(content);
+}
+
+/**
+ * Load leb.config.json synchronously.
+ * Used where adapter lookups must stay synchronous (e.g. argument parsing).
+ * @returns Parsed configuration object
+ * @throws Error if file not found or invalid JSON
+ */
+export function loadConfigSync(): LebConfig {
+  const path = configPath();
+  if (!existsSync(path)) {
+    throw new Error(`Configuration file not found: ${path}`);
+  }
+
+  return parseConfig(readFileSync(path, "utf-8"));
+}
+
+/**
+ * Parse and validate configuration file content.
+ */
+function parseConfig(content: string): LebConfig {
   const config = JSON.parse(content) as LebConfig;
 
   validateConfig(config);
@@ -41,6 +78,31 @@ function validateConfig(config: LebConfig): void {
   if (!config.libraries || !Array.isArray(config.libraries)) {
     throw new Error("Missing or invalid 'libraries' in configuration");
   }
+
+  // Library, variant and version names share one namespace (all are adapter names)
+  const names = new Set<string>();
+  for (const name of config.libraries.flatMap((lib) => [
+    lib.name,
+    ...(lib.variants ?? []).map((v) => v.name),
+    ...(lib.versions ?? []).map((v) => versionAdapterName(lib.name, v.version)),
+  ])) {
+    if (names.has(name)) {
+      throw new Error(`Duplicate library name in configuration: ${name}`);
+    }
+    names.add(name);
+  }
+
+  getBaselineAdapter(config);
+}
+
+/**
+ * Build the adapter name for an additional library version.
+ * @param name - Library name (e.g., "keepsuit")
+ * @param version - Library version (e.g., "0.9.0")
+ * @returns Adapter name (e.g., "keepsuit@0.9.0")
+ */
+export function versionAdapterName(name: string, version: string): string {
+  return `${name}@${version}`;
 }
 
 /**
@@ -68,6 +130,8 @@ export function getRuntimeVersion(config: LebConfig, lang: ConfigLang): string {
 
 /**
  * Get library configuration by adapter name.
+ * Variant names (e.g., "shopify-nojit") and version names
+ * (e.g., "keepsuit@0.8.0") resolve to their library.
  * @param config - Configuration object
  * @param adapterName - Adapter name (e.g., "keepsuit", "shopify")
  * @returns Library configuration or undefined if not found
@@ -76,7 +140,54 @@ export function getLibraryConfig(
   config: LebConfig,
   adapterName: string
 ): LibraryConfig | undefined {
-  return config.libraries.find((lib) => lib.name === adapterName);
+  return config.libraries.find(
+    (lib) =>
+      lib.name === adapterName ||
+      lib.variants?.some((v) => v.name === adapterName) ||
+      lib.versions?.some((v) => versionAdapterName(lib.name, v.version) === adapterName)
+  );
+}
+
+/**
+ * Get the library version an adapter runs.
+ * @param config - Configuration object
+ * @param adapterName - Adapter name (e.g., "keepsuit", "keepsuit@0.8.0")
+ * @returns Version string or undefined if the adapter is not configured
+ */
+export function getLibraryVersion(config: LebConfig, adapterName: string): string | undefined {
+  const library = getLibraryConfig(config, adapterName);
+  if (!library) return undefined;
+
+  const extra = library.versions?.find(
+    (v) => versionAdapterName(library.name, v.version) === adapterName
+  );
+  return extra?.version ?? library.version;
+}
+
+/**
+ * Get the adapter name of the baseline (library at baseline.version).
+ * @param config - Configuration object
+ * @returns "shopify" for the library's main version, "shopify@5.10.0" for another one
+ * @throws Error if the baseline library or version is not configured
+ */
+export function getBaselineAdapter(config: LebConfig): string {
+  const { library: name, version } = config.baseline;
+  const library = config.libraries.find((lib) => lib.name === name);
+
+  if (!library) {
+    throw new Error(`Baseline library "${name}" is not in 'libraries'`);
+  }
+  if (library.version === version) {
+    return library.name;
+  }
+  if (library.versions?.some((v) => v.version === version)) {
+    return versionAdapterName(library.name, version);
+  }
+
+  const configured = [library.version, ...(library.versions ?? []).map((v) => v.version)];
+  throw new Error(
+    `Baseline version ${version} is not configured for "${name}" (configured: ${configured.join(", ")})`
+  );
 }
 
 /**
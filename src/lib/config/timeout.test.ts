@@ -0,0 +1,72 @@
+/**
+ * Unit tests for adapter timeout resolution
+ */
+
+import { describe, expect, test } from "bun:test";
+import type { LebConfig } from "../../types";
+import { DEFAULT_TIMEOUT_MS, resolveTimeout } from "./timeout";
+
+function config(overrides: Partial<LebConfig> = {}): LebConfig {
+  return {
+    runtimes: { php: "8.3" },
+    baseline: { library: "keepsuit", version: "0.9.0" },
+    libraries: [
+      { lang: "php", name: "keepsuit", package: "keepsuit/liquid", version: "0.9.0" },
+      {
+        lang: "php",
+        name: "kalimatas",
+        package: "liquid/liquid",
+        version: "1.4.44",
+        timeout: 600_000,
+      },
+    ],
+    ...overrides,
+  };
+}
+
+const target = { adapter: "keepsuit", scenario: "unit/tags/for", scale: "medium" } as const;
+
+describe("resolveTimeout", () => {
+  test("defaults to five minutes", () => {
+    expect(resolveTimeout(config(), target)).toBe(DEFAULT_TIMEOUT_MS);
+  });
+
+  test("uses timeouts.default and the library's timeout", () => {
+    const cfg = config({ timeouts: { default: 120_000 } });
+
+    expect(resolveTimeout(cfg, target)).toBe(120_000);
+    expect(resolveTimeout(cfg, { ...target, adapter: "kalimatas" })).toBe(600_000);
+  });
+
+  test("prefers the most specific scenario entry", () => {
+    const cfg = config({
+      timeouts: { scenarios: { unit: 30_000, "unit/tags": 20_000, "unit/tags/for": 10_000 } },
+    });
+
+    expect(resolveTimeout(cfg, target)).toBe(10_000);
+    expect(resolveTimeout(cfg, { ...target, scenario: "unit/tags/if" })).toBe(20_000);
+    expect(resolveTimeout(cfg, { ...target, scenario: "unit/filters/map" })).toBe(30_000);
+    expect(resolveTimeout(cfg, { ...target, adapter: "kalimatas" })).toBe(10_000);
+  });
+
+  test("matches whole path segments only", () => {
+    const cfg = config({ timeouts: { scenarios: { "unit/tags/for": 10_000 } } });
+
+    expect(resolveTimeout(cfg, { ...target, scenario: "unit/tags/forloop" })).toBe(
+      DEFAULT_TIMEOUT_MS
+    );
+  });
+
+  test("multiplies by the scale factor", () => {
+    const cfg = config({ timeouts: { scenarios: { unit: 30_000 }, scales: { "2xl": 4 } } });
+
+    expect(resolveTimeout(cfg, { ...target, scale: "2xl" })).toBe(120_000);
+    expect(resolveTimeout(cfg, target)).toBe(30_000);
+  });
+
+  test("--timeout overrides every setting", () => {
+    const cfg = config({ timeouts: { default: 1, scales: { "2xl": 4 } } });
+
+    expect(resolveTimeout(cfg, { ...target, scale: "2xl", override: 5000 })).toBe(5000);
+  });
+});
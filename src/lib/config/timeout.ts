@@ -0,0 +1,72 @@
+/**
+ * Adapter Timeout Resolution
+ *
+ * Determines how long one adapter job may run. A single fixed limit is
+ * either too short for 2xl data or too lenient for unit scenarios, so the
+ * limit is derived from the timeouts section of leb.config.json, the
+ * library's own timeout and the data scale.
+ */
+
+import type { LebConfig, Scale } from "../../types";
+import { getLibraryConfig } from "./loader";
+
+/**
+ * Default timeout for adapter execution (milliseconds).
+ */
+export const DEFAULT_TIMEOUT_MS = 300_000; // 5 minutes
+
+/**
+ * Job whose timeout is resolved.
+ */
+export interface TimeoutTarget {
+  /** Adapter name */
+  adapter: string;
+  /** Scenario path (e.g., "unit/tags/for") */
+  scenario: string;
+  /** Data scale */
+  scale: Scale;
+  /** --timeout value; used as is when set */
+  override?: number;
+}
+
+/**
+ * Find the base timeout for the most specific scenario key.
+ * A key matches the scenario path itself or any of its parent categories.
+ */
+function scenarioTimeout(
+  scenarios: Record<string, number> | undefined,
+  scenario: string
+): number | undefined {
+  let best: { key: string; timeout: number } | undefined;
+
+  for (const [key, timeout] of Object.entries(scenarios ?? {})) {
+    const matches = scenario === key || scenario.startsWith(`${key}/`);
+    if (matches && (!best || key.length > best.key.length)) {
+      best = { key, timeout };
+    }
+  }
+
+  return best?.timeout;
+}
+
+/**
+ * Resolve the timeout for one adapter job.
+ *
+ * @param config - Configuration object
+ * @param target - Adapter, scenario and scale of the job
+ * @returns Timeout in milliseconds
+ */
+export function resolveTimeout(config: LebConfig, target: TimeoutTarget): number {
+  if (target.override !== undefined) {
+    return target.override;
+  }
+
+  const timeouts = config.timeouts;
+  const base =
+    scenarioTimeout(timeouts?.scenarios, target.scenario) ??
+    getLibraryConfig(config, target.adapter)?.timeout ??
+    timeouts?.default ??
+    DEFAULT_TIMEOUT_MS;
+
+  return Math.round(base * (timeouts?.scales?.[target.scale] ?? 1));
+}
@@ -109,6 +109,15 @@ Zend Engine v4.3.14, Copyright (c) Zend Technologies`;
       expect(extractVersion("ruby", output)).toBeNull();
     });
   });
+  describe("Bun version parsing", () => {
+    test("extracts version from bun --version output", () => {
+      expect(extractVersion("bun", "1.1.38\n")).toBe("1.1");
+    });
+
+    test("returns null for non-version output", () => {
+      expect(extractVersion("bun", "bun: command not found")).toBeNull();
+    });
+  });
 });
 
 // ============================================================================
@@ -229,6 +238,15 @@ describe("checkAdapter", () => {
       expect(typeof result.ok).toBe("boolean");
     });
   });
+
+  describe("unregistered adapter", () => {
+    test("returns ADAPTER_NOT_FOUND", async () => {
+      const result = await checkAdapter("liquidjs");
+
+      expect(result.ok).toBe(false);
+      expect(result.error?.code).toBe("ADAPTER_NOT_FOUND");
+    });
+  });
 });
 
 // ============================================================================
@@ -294,7 +312,7 @@ describe("checkAllAdapters", () => {
     const errors = await checkAllAdapters();
 
     for (const result of errors) {
-      expect(["keepsuit", "kalimatas", "shopify"]).toContain(result.adapter);
+      expect(["keepsuit", "kalimatas", "shopify", "shopify-nojit"]).toContain(result.adapter);
     }
   });
 });
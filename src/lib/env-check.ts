@@ -13,36 +13,20 @@
 import { existsSync } from "node:fs";
 import { dirname, join } from "node:path";
 import { fileURLToPath } from "node:url";
-import { ADAPTER_NAMES, type AdapterName, type RuntimeName } from "../types";
+import type { AdapterName, RuntimeName } from "../types";
+import { DEPS_DIR_ENV_VAR, getAdapterConfig, listAdapters } from "./adapter/registry";
 import { type CliError, Errors } from "./errors";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const PROJECT_ROOT = join(__dirname, "../..");
 
-/**
- * Runtime configuration for each adapter.
- */
-const ADAPTER_RUNTIME: Record<AdapterName, RuntimeName> = {
-  keepsuit: "php",
-  kalimatas: "php",
-  shopify: "ruby",
-};
-
 /**
  * Minimum required versions (major.minor).
  */
 const REQUIRED_VERSIONS: Record<RuntimeName, string> = {
   php: "8.3",
   ruby: "3.3",
-};
-
-/**
- * Adapter script paths relative to project root.
- */
-const ADAPTER_SCRIPTS: Record<AdapterName, string> = {
-  keepsuit: "src/adapters/php/keepsuit.php",
-  kalimatas: "src/adapters/php/kalimatas.php",
-  shopify: "src/adapters/ruby/shopify.rb",
+  bun: "1.1",
 };
 
 /**
@@ -144,7 +128,7 @@ function extractVersion(name: RuntimeName, output: string): string | null {
       const parts = match[1].split(".");
       return `${parts[0]}.${parts[1]}`;
     }
-  } else {
+  } else if (name === "ruby") {
     // ruby 3.3.6 (2024-11-05 revision 75015d4c1f) [x86_64-linux]
     // Pattern: "ruby " at start of line, followed by version
     const match = firstLine.match(/^ruby\s+(\d+\.\d+\.\d+)/);
@@ -152,6 +136,13 @@ function extractVersion(name: RuntimeName, output: string): string | null {
       const parts = match[1].split(".");
       return `${parts[0]}.${parts[1]}`;
     }
+  } else {
+    // 1.1.38
+    // Pattern: bare version number on the first line
+    const match = firstLine.match(/^(\d+)\.(\d+)\.\d+/);
+    if (match) {
+      return `${match[1]}.${match[2]}`;
+    }
   }
 
   return null;
@@ -199,29 +190,44 @@ function versionSatisfies(actual: string, required: string): boolean {
 
 /**
  * Check if dependencies are installed.
+ * @param root - Dependency directory (project root, or .generated/deps/{name}@{version})
  */
-function checkDeps(runtime: RuntimeName): boolean {
+function checkDeps(runtime: RuntimeName, root: string): boolean {
+  // Bun adapters have no third-party dependencies
+  if (runtime === "bun") {
+    return true;
+  }
   if (runtime === "php") {
-    return existsSync(join(PROJECT_ROOT, "vendor/autoload.php"));
+    return existsSync(join(root, "vendor/autoload.php"));
   }
-  return (
-    existsSync(join(PROJECT_ROOT, "Gemfile.lock")) || existsSync(join(PROJECT_ROOT, ".bundle"))
-  );
+  return existsSync(join(root, "Gemfile.lock")) || existsSync(join(root, ".bundle"));
 }
 
 /**
  * Check environment for a specific adapter.
  *
  * Validation order:
+ * 0. Adapter is configured in leb.config.json
  * 1. Adapter script exists
  * 2. Runtime is available (feature test)
  * 3. Runtime version satisfies requirement
  * 4. Dependencies are installed
  */
 export async function checkAdapter(adapter: AdapterName): Promise<CheckResult> {
-  const runtime = ADAPTER_RUNTIME[adapter];
+  const config = getAdapterConfig(adapter);
+
+  // 0. Check adapter is registered
+  if (!config?.runtime || !config.script) {
+    return {
+      adapter,
+      ok: false,
+      error: Errors.adapterNotFound(adapter, listAdapters()),
+    };
+  }
+
+  const runtime = config.runtime;
   const requiredVersion = REQUIRED_VERSIONS[runtime];
-  const scriptPath = join(PROJECT_ROOT, ADAPTER_SCRIPTS[adapter]);
+  const scriptPath = config.script;
 
   // 1. Check adapter script exists
   if (!existsSync(scriptPath)) {
@@ -260,9 +266,14 @@ export async function checkAdapter(adapter: AdapterName): Promise<CheckResult> {
     };
   }
 
-  // 4. Check dependencies
-  if (!checkDeps(runtime)) {
-    const cmd = runtime === "php" ? "composer install" : "bundle install";
+  // 4. Check dependencies (additional library versions have their own directory)
+  const depsDir = config.env?.[DEPS_DIR_ENV_VAR];
+  if (!checkDeps(runtime, depsDir ?? PROJECT_ROOT)) {
+    const cmd = depsDir
+      ? `leb setup ${runtime}`
+      : runtime === "php"
+        ? "composer install"
+        : "bundle install";
     return {
       adapter,
       ok: false,
@@ -285,7 +296,7 @@ export async function checkAdapters(adapters: AdapterName[]): Promise<CheckResul
  * Check all adapters and return only errors.
  */
 export async function checkAllAdapters(): Promise<CheckResult[]> {
-  const results = await checkAdapters([...ADAPTER_NAMES]);
+  const results = await checkAdapters([...listAdapters()]);
   return results.filter((r) => !r.ok);
 }
 
@@ -313,6 +324,5 @@ export async function ensureAdapterReady(adapter: AdapterName): Promise<void> {
 export const internal = {
   extractVersion,
   versionSatisfies,
-  ADAPTER_RUNTIME,
   REQUIRED_VERSIONS,
 };
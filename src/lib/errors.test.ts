@@ -225,6 +225,7 @@ describe("ErrorCode", () => {
     expect(ErrorCode.ADAPTER_TIMEOUT).toBe("ADAPTER_TIMEOUT");
     expect(ErrorCode.ADAPTER_CRASHED).toBe("ADAPTER_CRASHED");
     expect(ErrorCode.ADAPTER_INVALID_OUTPUT).toBe("ADAPTER_INVALID_OUTPUT");
+    expect(ErrorCode.ADAPTER_PROTOCOL_MISMATCH).toBe("ADAPTER_PROTOCOL_MISMATCH");
   });
 
   test("has input error codes", () => {
@@ -268,6 +269,12 @@ describe("Errors factory", () => {
       expect(error.suggestion).toContain("Ruby");
     });
 
+    test("creates error for Bun with install hint", () => {
+      const error = Errors.runtimeNotFound("bun", "bun not found in PATH");
+
+      expect(error.suggestion).toContain("Bun");
+    });
+
     test("includes reason in details", () => {
       const error = Errors.runtimeNotFound("php", "specific error reason");
 
@@ -313,6 +320,21 @@ describe("Errors factory", () => {
     });
   });
 
+  describe("adapterNotFound", () => {
+    test("creates error with adapter name", () => {
+      const error = Errors.adapterNotFound("liquidjs", ["keepsuit", "shopify"]);
+
+      expect(error.code).toBe("ADAPTER_NOT_FOUND");
+      expect(error.message).toContain("liquidjs");
+    });
+
+    test("lists available adapters in details", () => {
+      const error = Errors.adapterNotFound("liquidjs", ["keepsuit", "shopify"]);
+
+      expect(error.details).toMatchObject({ available_adapters: ["keepsuit", "shopify"] });
+    });
+  });
+
   describe("adapterScriptMissing", () => {
     test("creates error with adapter name", () => {
       const error = Errors.adapterScriptMissing("keepsuit", "/path/to/keepsuit.php");
@@ -339,6 +361,10 @@ describe("Errors factory", () => {
       expect(error.message).toContain("timed out");
     });
 
+    test("states the limit that applied", () => {
+      expect(Errors.adapterTimeout("shopify", 45000).message).toContain("after 45000ms");
+    });
+
     test("includes timeout in details", () => {
       const error = Errors.adapterTimeout("shopify", 300000);
 
@@ -367,6 +393,22 @@ describe("Errors factory", () => {
     });
   });
 
+  describe("adapterProtocolMismatch", () => {
+    test("creates error with the reason", () => {
+      const error = Errors.adapterProtocolMismatch(
+        "go-liquid",
+        "adapter speaks protocol 2, harness supports up to 1"
+      );
+
+      expect(error.code).toBe("ADAPTER_PROTOCOL_MISMATCH");
+      expect(error.message).toContain("go-liquid");
+      expect(error.details).toEqual({
+        adapter: "go-liquid",
+        reason: "adapter speaks protocol 2, harness supports up to 1",
+      });
+    });
+  });
+
   describe("scenarioNotFound", () => {
     test("creates error with scenario path", () => {
       const error = Errors.scenarioNotFound("nonexistent/scenario");
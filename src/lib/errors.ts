@@ -7,6 +7,15 @@
 
 import type { RuntimeName } from "../types";
 
+/**
+ * Install hints shown when a runtime is missing.
+ */
+const RUNTIME_INSTALL_HINTS: Record<RuntimeName, string> = {
+  php: "PHP 8.3+",
+  ruby: "Ruby 3.3+",
+  bun: "Bun 1.1+",
+};
+
 /**
  * Semantic error codes.
  * Self-descriptive for both humans and LLMs.
@@ -23,6 +32,7 @@ export const ErrorCode = {
   ADAPTER_TIMEOUT: "ADAPTER_TIMEOUT",
   ADAPTER_CRASHED: "ADAPTER_CRASHED",
   ADAPTER_INVALID_OUTPUT: "ADAPTER_INVALID_OUTPUT",
+  ADAPTER_PROTOCOL_MISMATCH: "ADAPTER_PROTOCOL_MISMATCH",
 
   // Input errors (30xx)
   SCENARIO_NOT_FOUND: "SCENARIO_NOT_FOUND",
@@ -96,7 +106,7 @@ export const Errors = {
       code: ErrorCode.RUNTIME_NOT_FOUND,
       message: `${runtime} not found`,
       details: { runtime, reason: errorMessage },
-      suggestion: `Install ${runtime === "php" ? "PHP 8.3+" : "Ruby 3.3+"}`,
+      suggestion: `Install ${RUNTIME_INSTALL_HINTS[runtime]}`,
     });
   },
 
@@ -118,6 +128,15 @@ export const Errors = {
     });
   },
 
+  adapterNotFound(adapter: string, available: readonly string[]): CliError {
+    return new CliError({
+      code: ErrorCode.ADAPTER_NOT_FOUND,
+      message: `adapter not found: ${adapter}`,
+      details: { adapter, available_adapters: available },
+      suggestion: "Run 'leb list adapters' or add the library to leb.config.json",
+    });
+  },
+
   adapterScriptMissing(adapter: string, path: string): CliError {
     return new CliError({
       code: ErrorCode.ADAPTER_SCRIPT_MISSING,
@@ -130,9 +149,9 @@ export const Errors = {
   adapterTimeout(adapter: string, timeoutMs: number): CliError {
     return new CliError({
       code: ErrorCode.ADAPTER_TIMEOUT,
-      message: `adapter timed out: ${adapter}`,
+      message: `adapter timed out after ${timeoutMs}ms: ${adapter}`,
       details: { adapter, timeout_ms: timeoutMs },
-      suggestion: "Try reducing iterations or data scale",
+      suggestion: "Try reducing iterations or data scale, or raise the limit with --timeout",
     });
   },
 
@@ -145,6 +164,15 @@ export const Errors = {
     });
   },
 
+  adapterProtocolMismatch(adapter: string, reason: string): CliError {
+    return new CliError({
+      code: ErrorCode.ADAPTER_PROTOCOL_MISMATCH,
+      message: `incompatible adapter protocol: ${adapter} (${reason})`,
+      details: { adapter, reason },
+      suggestion: "Update the harness, or use an adapter release for this harness's protocol",
+    });
+  },
+
   scenarioNotFound(path: string): CliError {
     return new CliError({
       code: ErrorCode.SCENARIO_NOT_FOUND,
@@ -22,25 +22,60 @@ export {
 
 // Adapter module
 export {
-  ADAPTERS,
   AdapterError,
+  type AdapterProtocol,
+  AdapterProtocolError,
+  type AdapterRegistry,
   type AdapterResult,
+  AdapterTimeoutError,
+  AdapterWorker,
+  type AdaptiveOptions,
+  type AdaptiveStopReason,
+  type AdaptiveSummary,
   adapterExists,
+  type ColdStartSample,
+  calculateColdStartMetrics,
+  createAdapterRegistry,
+  DEPS_DIR_ENV_VAR,
   getAdapterConfig,
+  getAdapterRegistry,
+  getDepsDir,
+  hasCapability,
   listAdapters,
+  MAX_ADAPTIVE_ITERATIONS,
+  MAX_AUTO_WARMUP,
+  MIN_ADAPTIVE_SAMPLES,
+  mergeResults,
+  negotiateProtocol,
+  type PartialRun,
+  type ProgressListener,
+  progressInterval,
+  resolveAdapterConfig,
+  resolveVersionConfig,
   runAdapter,
+  runAdaptive,
+  runColdStart,
+  SteadyStateRunner,
 } from "./adapter";
 // Config module
 export {
   type BaselineConfig,
+  CONFIG_ENV_VAR,
   type ConfigLang,
+  DEFAULT_TIMEOUT_MS,
   filterLibrariesByLang,
+  getBaselineAdapter,
   getExcludedScenarios,
   getLibraryConfig,
+  getLibraryVersion,
   getRuntimeVersion,
   type LebConfig,
   type LibraryConfig,
   loadConfig,
+  loadConfigSync,
+  resolveTimeout,
+  type TimeoutConfig,
+  versionAdapterName,
 } from "./config";
 // Environment check module
 export {
@@ -64,6 +99,8 @@ export {
 } from "./scenario";
 // Snapshot module
 export {
+  compareSnapshots,
+  SNAPSHOT_DIR_ENV_VAR,
   updateSnapshot,
   type VerifyResult,
   verifySnapshot,
@@ -71,13 +108,59 @@ export {
 // Stats module
 export {
   addArrays,
+  affordableResamples,
+  type BootstrapOptions,
+  belowResolution,
+  bootstrapInterval,
+  bootstrapRatioInterval,
+  calculateMemoryMetrics,
   calculateMetrics,
+  calculateThroughput,
+  cliffsDelta,
+  coefficientOfVariation,
+  compareSamples,
+  DEFAULT_BOOTSTRAP,
+  DEFAULT_PERCENTILES,
+  geometricMean,
+  handleOutliers,
+  histogram,
+  isOutlierMode,
+  mannWhitneyU,
   max,
   mean,
   median,
   min,
+  normalQuantile,
+  OUTLIER_MODES,
+  type OutlierMode,
+  percentileKey,
+  perSecond,
+  quantile,
+  RESOLUTION_FACTOR,
+  relativeHalfWidth,
+  SIGNIFICANCE_LEVEL,
+  type Statistic,
+  scenarioCategory,
+  scoreAdapters,
   stddev,
+  steadyStateStart,
+  subtractOverhead,
+  varianceComponents,
+  welchTTest,
 } from "./stats";
+// Support module
+export {
+  type AdapterSupport,
+  classifyFailure,
+  loadSupportCache,
+  PROBE_TIMEOUT_MS,
+  type ResolvedSupport,
+  resolveSupport,
+  type ScenarioSupport,
+  SUPPORT_CACHE_ENV_VAR,
+  type SupportStatus,
+  supportKey,
+} from "./support";
 // Validator module
 export {
   formatErrors,
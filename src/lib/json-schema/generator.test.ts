@@ -106,7 +106,7 @@ describe("generateSchemas", () => {
       const schema = await file.json();
 
       expect(schema.properties.iterations.minimum).toBe(1);
-      expect(schema.properties.iterations.maximum).toBe(10000);
+      expect(schema.properties.iterations.maximum).toBe(1000000);
     });
   });
 
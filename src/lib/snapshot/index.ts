@@ -19,6 +19,7 @@ export {
   DEFAULT_SNAPSHOT_DIR,
   getSnapshotPath,
   loadSnapshot,
+  SNAPSHOT_DIR_ENV_VAR,
   saveSnapshot,
   snapshotExists,
 } from "./store";
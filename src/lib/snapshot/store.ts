@@ -17,9 +17,16 @@ import { existsSync, mkdirSync } from "node:fs";
 import { dirname, join } from "node:path";
 
 /**
- * Default snapshot directory relative to project root.
+ * Environment variable overriding the snapshot directory.
+ * Lets test runs keep their snapshots out of the repository.
  */
-export const DEFAULT_SNAPSHOT_DIR = join(import.meta.dirname, "../../../__snapshots__");
+export const SNAPSHOT_DIR_ENV_VAR = "LEB_SNAPSHOT_DIR";
+
+/**
+ * Default snapshot directory (LEB_SNAPSHOT_DIR, or __snapshots__ in project root).
+ */
+export const DEFAULT_SNAPSHOT_DIR =
+  process.env[SNAPSHOT_DIR_ENV_VAR] || join(import.meta.dirname, "../../../__snapshots__");
 
 /**
  * Generate the file path for a snapshot.
@@ -0,0 +1,121 @@
+/**
+ * Unit tests for bootstrap confidence intervals
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+  affordableResamples,
+  type BootstrapOptions,
+  bootstrapInterval,
+  bootstrapRatioInterval,
+  createRng,
+  DEFAULT_BOOTSTRAP,
+  MAX_BOOTSTRAP_DRAWS,
+  MIN_BOOTSTRAP_RESAMPLES,
+} from "./bootstrap";
+import { mean, median } from "./statistics";
+
+/** Deterministic, slightly skewed sample around 1.0 */
+const SAMPLE = Array.from({ length: 200 }, (_, i) => 1 + ((i * 37) % 100) / 500);
+
+describe("createRng", () => {
+  test("same seed yields the same sequence", () => {
+    const a = createRng(42);
+    const b = createRng(42);
+
+    expect([a(), a(), a()]).toEqual([b(), b(), b()]);
+  });
+
+  test("yields values in [0, 1)", () => {
+    const rng = createRng(7);
+    for (let i = 0; i < 1000; i++) {
+      const value = rng();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+});
+
+describe("affordableResamples", () => {
+  test("keeps the requested count within the draw budget", () => {
+    expect(affordableResamples(200, 1000)).toBe(1000);
+    expect(affordableResamples(MAX_BOOTSTRAP_DRAWS / 1000, 1000)).toBe(1000);
+  });
+
+  test("lowers the count for large samples", () => {
+    expect(affordableResamples(MAX_BOOTSTRAP_DRAWS / 400, 1000)).toBe(400);
+  });
+
+  test("gives up below the minimum resample count", () => {
+    expect(affordableResamples(MAX_BOOTSTRAP_DRAWS / MIN_BOOTSTRAP_RESAMPLES, 1000)).toBe(
+      MIN_BOOTSTRAP_RESAMPLES
+    );
+    expect(affordableResamples(MAX_BOOTSTRAP_DRAWS / MIN_BOOTSTRAP_RESAMPLES + 1, 1000)).toBe(0);
+  });
+});
+
+describe("bootstrapInterval", () => {
+  test("brackets the statistic of the sample", () => {
+    for (const statistic of [mean, median]) {
+      const { lower, upper } = bootstrapInterval(SAMPLE, statistic, DEFAULT_BOOTSTRAP);
+
+      expect(lower).toBeLessThanOrEqual(statistic(SAMPLE));
+      expect(upper).toBeGreaterThanOrEqual(statistic(SAMPLE));
+      expect(upper).toBeGreaterThan(lower);
+    }
+  });
+
+  test("is reproducible for a seed", () => {
+    const options: BootstrapOptions = { level: 0.95, resamples: 200, seed: 3 };
+
+    expect(bootstrapInterval(SAMPLE, mean, options)).toEqual(
+      bootstrapInterval(SAMPLE, mean, options)
+    );
+  });
+
+  test("widens with the confidence level", () => {
+    const narrow = bootstrapInterval(SAMPLE, mean, { ...DEFAULT_BOOTSTRAP, level: 0.8 });
+    const wide = bootstrapInterval(SAMPLE, mean, { ...DEFAULT_BOOTSTRAP, level: 0.99 });
+
+    expect(wide.lower).toBeLessThan(narrow.lower);
+    expect(wide.upper).toBeGreaterThan(narrow.upper);
+  });
+
+  test("collapses to the value for constant samples", () => {
+    expect(bootstrapInterval([5, 5, 5], mean, DEFAULT_BOOTSTRAP)).toEqual({ lower: 5, upper: 5 });
+  });
+
+  test("rejects empty samples and invalid settings", () => {
+    expect(() => bootstrapInterval([], mean, DEFAULT_BOOTSTRAP)).toThrow("empty array");
+    expect(() => bootstrapInterval(SAMPLE, mean, { ...DEFAULT_BOOTSTRAP, level: 1 })).toThrow(
+      "Confidence level"
+    );
+    expect(() => bootstrapInterval(SAMPLE, mean, { ...DEFAULT_BOOTSTRAP, resamples: 0 })).toThrow(
+      "Resamples"
+    );
+  });
+});
+
+describe("bootstrapRatioInterval", () => {
+  test("brackets the ratio of the statistics", () => {
+    const slower = SAMPLE.map((v) => v * 2.5);
+    const { lower, upper } = bootstrapRatioInterval(slower, SAMPLE, mean, DEFAULT_BOOTSTRAP);
+
+    expect(lower).toBeLessThan(2.5);
+    expect(upper).toBeGreaterThan(2.5);
+    expect(lower).toBeGreaterThan(2.3);
+    expect(upper).toBeLessThan(2.7);
+  });
+
+  test("includes 1 when both samples come from the same distribution", () => {
+    const { lower, upper } = bootstrapRatioInterval(
+      SAMPLE.slice(0, 100),
+      SAMPLE.slice(100),
+      median,
+      DEFAULT_BOOTSTRAP
+    );
+
+    expect(lower).toBeLessThan(1);
+    expect(upper).toBeGreaterThan(1);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Bootstrap Confidence Intervals
+ *
+ * Percentile bootstrap: resample the measurements with replacement many
+ * times, compute the statistic of each resample, and take the central
+ * `level` share of those estimates as the interval. Makes no assumption
+ * about the distribution of timings, which are usually skewed. Resampling
+ * uses a seeded RNG, so the same measurements always give the same interval.
+ */
+
+import type { ConfidenceInterval } from "../../types";
+
+/**
+ * Bootstrap settings.
+ */
+export interface BootstrapOptions {
+  /** Confidence level, between 0 and 1 (e.g., 0.95) */
+  level: number;
+  /** Number of resamples (0: no intervals) */
+  resamples: number;
+  /** RNG seed */
+  seed: number;
+}
+
+/**
+ * Default bootstrap settings: 95% intervals from 1000 resamples.
+ */
+export const DEFAULT_BOOTSTRAP: BootstrapOptions = { level: 0.95, resamples: 1000, seed: 1 };
+
+/**
+ * Values one interval may draw (resamples × sample size). Keeps an interval
+ * under a second: 1000 resamples up to 10,000 samples, fewer beyond.
+ */
+export const MAX_BOOTSTRAP_DRAWS = 10_000_000;
+
+/**
+ * Fewest resamples worth an interval; below, its bounds mostly reflect
+ * which resamples were drawn.
+ */
+export const MIN_BOOTSTRAP_RESAMPLES = 100;
+
+/**
+ * Statistic estimated by the bootstrap (e.g., mean or median).
+ */
+export type Statistic = (values: number[]) => number;
+
+/**
+ * mulberry32: small, fast, seedable 32-bit PRNG.
+ *
+ * @returns Function returning uniform values in [0, 1)
+ */
+export function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Resamples to draw for samples of `size` values in all: the requested
+ * count, lowered to stay within MAX_BOOTSTRAP_DRAWS, or 0 (no interval)
+ * when fewer than MIN_BOOTSTRAP_RESAMPLES would fit.
+ */
+export function affordableResamples(size: number, resamples: number): number {
+  const affordable = Math.min(resamples, Math.floor(MAX_BOOTSTRAP_DRAWS / size));
+  return affordable >= MIN_BOOTSTRAP_RESAMPLES ? affordable : 0;
+}
+
+/**
+ * Draw a resample of the same size, with replacement.
+ */
+function resample(values: number[], rng: () => number): number[] {
+  const drawn: number[] = [];
+  for (let i = 0; i < values.length; i++) {
+    drawn.push(values[Math.floor(rng() * values.length)] ?? 0);
+  }
+  return drawn;
+}
+
+/**
+ * Central `level` share of bootstrap estimates (linear interpolation).
+ */
+function percentileInterval(estimates: number[], level: number): ConfidenceInterval {
+  const sorted = [...estimates].sort((a, b) => a - b);
+  const at = (p: number) => {
+    const index = p * (sorted.length - 1);
+    const low = sorted[Math.floor(index)] ?? 0;
+    const high = sorted[Math.ceil(index)] ?? low;
+    return low + (high - low) * (index - Math.floor(index));
+  };
+  const tail = (1 - level) / 2;
+  return { lower: at(tail), upper: at(1 - tail) };
+}
+
+/**
+ * Validate samples and settings shared by both interval functions.
+ */
+function checkInputs(samples: number[][], options: BootstrapOptions): void {
+  if (samples.some((values) => values.length === 0)) {
+    throw new Error("Cannot bootstrap an empty array");
+  }
+  if (!(options.level > 0 && options.level < 1)) {
+    throw new Error(`Confidence level must be between 0 and 1, got ${options.level}`);
+  }
+  if (!Number.isInteger(options.resamples) || options.resamples < 1) {
+    throw new Error(`Resamples must be a positive integer, got ${options.resamples}`);
+  }
+}
+
+/**
+ * Bootstrap confidence interval of a statistic.
+ *
+ * @param values Measurements
+ * @param statistic Statistic to estimate
+ * @param options Level, resample count and seed
+ */
+export function bootstrapInterval(
+  values: number[],
+  statistic: Statistic,
+  options: BootstrapOptions
+): ConfidenceInterval {
+  checkInputs([values], options);
+  const rng = createRng(options.seed);
+  const estimates = Array.from({ length: options.resamples }, () =>
+    statistic(resample(values, rng))
+  );
+  return percentileInterval(estimates, options.level);
+}
+
+/**
+ * Bootstrap confidence interval of the ratio statistic(values) / statistic(baseline).
+ * Both samples are resampled independently.
+ *
+ * @param values Measurements of the compared run
+ * @param baseline Measurements of the baseline run
+ * @param statistic Statistic to compare
+ * @param options Level, resample count and seed
+ */
+export function bootstrapRatioInterval(
+  values: number[],
+  baseline: number[],
+  statistic: Statistic,
+  options: BootstrapOptions
+): ConfidenceInterval {
+  checkInputs([values, baseline], options);
+  const rng = createRng(options.seed);
+  const estimates = Array.from({ length: options.resamples }, () => {
+    const compared = statistic(resample(values, rng));
+    const reference = statistic(resample(baseline, rng));
+    return reference > 0 ? compared / reference : Number.POSITIVE_INFINITY;
+  });
+  return percentileInterval(estimates, options.level);
+}
@@ -0,0 +1,51 @@
+/**
+ * Unit tests for histograms
+ */
+
+import { describe, expect, test } from "bun:test";
+import { histogram, histogramBuckets, MAX_HISTOGRAM_BUCKETS } from "./histogram";
+
+describe("histogramBuckets", () => {
+  test("follows Sturges' rule", () => {
+    expect(histogramBuckets(1)).toBe(1);
+    expect(histogramBuckets(100)).toBe(8);
+    expect(histogramBuckets(1000)).toBe(11);
+  });
+
+  test("is capped", () => {
+    expect(histogramBuckets(1_000_000)).toBe(MAX_HISTOGRAM_BUCKETS);
+  });
+});
+
+describe("histogram", () => {
+  test("buckets samples into equal-width bins", () => {
+    const { buckets } = histogram([0, 1, 2, 3, 4, 5, 6, 7, 8, 10], 5);
+
+    expect(buckets.map((b) => b.count)).toEqual([2, 2, 2, 2, 2]);
+    expect(buckets.map((b) => b.lower)).toEqual([0, 2, 4, 6, 8]);
+    expect(buckets.map((b) => b.upper)).toEqual([2, 4, 6, 8, 10]);
+  });
+
+  test("includes the maximum in the last bucket", () => {
+    const { buckets } = histogram([0, 1, 1, 1], 2);
+
+    expect(buckets.map((b) => b.count)).toEqual([1, 3]);
+  });
+
+  test("shows two modes", () => {
+    const values = [...Array(90).fill(1), ...Array(10).fill(3)];
+    const { buckets } = histogram(values, 4);
+
+    expect(buckets.map((b) => b.count)).toEqual([90, 0, 0, 10]);
+  });
+
+  test("uses a single bucket for identical samples", () => {
+    expect(histogram([2, 2, 2])).toEqual({ buckets: [{ lower: 2, upper: 2, count: 3 }] });
+  });
+
+  test("rejects empty samples and invalid bucket counts", () => {
+    expect(() => histogram([])).toThrow("empty array");
+    expect(() => histogram([1, 2], 0)).toThrow("positive integer");
+    expect(() => histogram([1, 2], 1.5)).toThrow("positive integer");
+  });
+});
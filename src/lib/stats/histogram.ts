@@ -0,0 +1,61 @@
+/**
+ * Histograms
+ *
+ * Buckets samples into equal-width bins between their minimum and maximum,
+ * so distributions a mean and stddev hide (e.g., a second mode from periodic
+ * GC pauses) show up in reports without exporting the raw timings.
+ */
+
+import type { Histogram } from "../../types";
+
+/**
+ * Most buckets of a histogram (rows of the single-mode table).
+ */
+export const MAX_HISTOGRAM_BUCKETS = 16;
+
+/**
+ * Default number of buckets for n samples: Sturges' rule (⌈log2 n⌉ + 1),
+ * capped at MAX_HISTOGRAM_BUCKETS.
+ */
+export function histogramBuckets(n: number): number {
+  if (n < 1) return 1;
+  return Math.min(MAX_HISTOGRAM_BUCKETS, Math.ceil(Math.log2(n)) + 1);
+}
+
+/**
+ * Bucket samples into equal-width bins spanning [min, max].
+ * Each bucket holds lower ≤ x < upper; the last one includes max.
+ * Identical samples make a single zero-width bucket.
+ *
+ * @param values Samples
+ * @param buckets Number of buckets (default: histogramBuckets(values.length))
+ */
+export function histogram(values: number[], buckets = histogramBuckets(values.length)): Histogram {
+  if (values.length === 0) {
+    throw new Error("Cannot calculate histogram of empty array");
+  }
+  if (!Number.isInteger(buckets) || buckets < 1) {
+    throw new Error(`Buckets must be a positive integer, got ${buckets}`);
+  }
+
+  const low = values.reduce((acc, v) => Math.min(acc, v), Number.POSITIVE_INFINITY);
+  const high = values.reduce((acc, v) => Math.max(acc, v), Number.NEGATIVE_INFINITY);
+  if (low === high) {
+    return { buckets: [{ lower: low, upper: high, count: values.length }] };
+  }
+
+  const width = (high - low) / buckets;
+  const counts = new Array<number>(buckets).fill(0);
+  for (const v of values) {
+    const index = Math.min(buckets - 1, Math.floor((v - low) / width));
+    counts[index] = (counts[index] ?? 0) + 1;
+  }
+
+  return {
+    buckets: counts.map((count, i) => ({
+      lower: low + i * width,
+      upper: i === buckets - 1 ? high : low + (i + 1) * width,
+      count,
+    })),
+  };
+}
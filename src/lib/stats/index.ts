@@ -4,12 +4,54 @@
  * Re-exports statistical calculation functionality.
  */
 
+export {
+  affordableResamples,
+  type BootstrapOptions,
+  bootstrapInterval,
+  bootstrapRatioInterval,
+  createRng,
+  DEFAULT_BOOTSTRAP,
+  MAX_BOOTSTRAP_DRAWS,
+  MIN_BOOTSTRAP_RESAMPLES,
+  type Statistic,
+} from "./bootstrap";
+export { histogram, histogramBuckets, MAX_HISTOGRAM_BUCKETS } from "./histogram";
+export {
+  type Fences,
+  handleOutliers,
+  isOutlierMode,
+  OUTLIER_MODES,
+  type OutlierMode,
+  type OutlierResult,
+  TUKEY_K,
+  tukeyFences,
+} from "./outliers";
+export { belowResolution, RESOLUTION_FACTOR, subtractOverhead } from "./overhead";
+export { normalQuantile, relativeHalfWidth } from "./precision";
+export { geometricMean, scenarioCategory, scoreAdapters } from "./score";
+export {
+  cliffsDelta,
+  compareSamples,
+  effectSize,
+  mannWhitneyU,
+  SIGNIFICANCE_LEVEL,
+  welchTTest,
+} from "./significance";
 export {
   addArrays,
+  calculateMemoryMetrics,
   calculateMetrics,
+  coefficientOfVariation,
+  DEFAULT_PERCENTILES,
+  type MetricsOptions,
   max,
   mean,
   median,
   min,
+  percentileKey,
+  quantile,
   stddev,
 } from "./statistics";
+export { MSER_BATCH_SIZE, steadyStateStart } from "./steady-state";
+export { calculateThroughput, perSecond } from "./throughput";
+export { type VarianceComponents, varianceComponents } from "./variance";
@@ -0,0 +1,71 @@
+/**
+ * Unit tests for outlier detection
+ */
+
+import { describe, expect, test } from "bun:test";
+import { handleOutliers, isOutlierMode, tukeyFences } from "./outliers";
+
+/** Ten steady samples and one GC pause */
+const SAMPLES = [1, 1.1, 0.9, 1, 1.05, 0.95, 1, 1.1, 0.9, 1, 25];
+
+describe("tukeyFences", () => {
+  test("extends the quartiles by 1.5 IQR", () => {
+    // Q1 = 2, Q3 = 4, IQR = 2
+    expect(tukeyFences([1, 2, 3, 4, 5])).toEqual({ lower: -1, upper: 7 });
+  });
+
+  test("accepts a custom multiplier", () => {
+    expect(tukeyFences([1, 2, 3, 4, 5], 3)).toEqual({ lower: -4, upper: 10 });
+  });
+});
+
+describe("handleOutliers", () => {
+  test("keep counts outliers and leaves samples untouched", () => {
+    expect(handleOutliers(SAMPLES, "keep")).toEqual({ values: SAMPLES, outliers: 1, excluded: 0 });
+  });
+
+  test("trim drops outliers", () => {
+    const result = handleOutliers(SAMPLES, "trim");
+
+    expect(result.values).toEqual(SAMPLES.slice(0, -1));
+    expect(result.outliers).toBe(1);
+    expect(result.excluded).toBe(1);
+  });
+
+  test("winsorize clamps outliers to the most extreme inlier", () => {
+    const result = handleOutliers(SAMPLES, "winsorize");
+
+    expect(result.values).toEqual([...SAMPLES.slice(0, -1), 1.1]);
+    expect(result.outliers).toBe(1);
+    expect(result.excluded).toBe(0);
+  });
+
+  test("winsorizes samples at the iteration cap (1,000,000)", () => {
+    const values = Array.from({ length: 1_000_000 }, (_, i) =>
+      i === 0 ? 1000 : 1 + (i % 10) / 100
+    );
+    const result = handleOutliers(values, "winsorize");
+
+    expect(result.outliers).toBe(1);
+    expect(result.values[0]).toBe(1.09);
+  });
+
+  test("finds outliers on both sides", () => {
+    expect(handleOutliers([-20, ...SAMPLES], "trim").excluded).toBe(2);
+  });
+
+  test("finds none in steady samples", () => {
+    expect(handleOutliers([1, 2, 3, 4, 5], "trim")).toEqual({
+      values: [1, 2, 3, 4, 5],
+      outliers: 0,
+      excluded: 0,
+    });
+  });
+});
+
+describe("isOutlierMode", () => {
+  test("accepts known modes only", () => {
+    expect(isOutlierMode("trim")).toBe(true);
+    expect(isOutlierMode("drop")).toBe(false);
+  });
+});
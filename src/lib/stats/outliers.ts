@@ -0,0 +1,85 @@
+/**
+ * Outlier Detection
+ *
+ * GC pauses and scheduler hiccups show up as a few samples far above the
+ * rest, dragging the mean and inflating max. Samples outside the Tukey
+ * fences (quartiles ± 1.5 × IQR) are counted as outliers and, depending on
+ * the mode, kept, dropped, or clamped to the most extreme inlier.
+ */
+
+import { max, min, quantile } from "./statistics";
+
+/**
+ * How outliers are handled before computing statistics.
+ * - keep: count only (default)
+ * - trim: drop them from the samples
+ * - winsorize: clamp them to the most extreme sample inside the fences
+ */
+export const OUTLIER_MODES = ["keep", "trim", "winsorize"] as const;
+
+export type OutlierMode = (typeof OUTLIER_MODES)[number];
+
+export function isOutlierMode(s: string): s is OutlierMode {
+  return OUTLIER_MODES.includes(s as OutlierMode);
+}
+
+/**
+ * Fence multiplier of the interquartile range (Tukey's "outer" fences use 3).
+ */
+export const TUKEY_K = 1.5;
+
+/**
+ * Range outside of which a sample is an outlier.
+ */
+export interface Fences {
+  lower: number;
+  upper: number;
+}
+
+/**
+ * Samples after outlier handling.
+ */
+export interface OutlierResult {
+  /** Samples to compute statistics from */
+  values: number[];
+  /** Samples outside the fences */
+  outliers: number;
+  /** Samples dropped (trim mode only) */
+  excluded: number;
+}
+
+/**
+ * Tukey fences: [Q1 − k × IQR, Q3 + k × IQR].
+ */
+export function tukeyFences(values: number[], k = TUKEY_K): Fences {
+  const q1 = quantile(values, 0.25);
+  const q3 = quantile(values, 0.75);
+  const iqr = q3 - q1;
+  return { lower: q1 - k * iqr, upper: q3 + k * iqr };
+}
+
+/**
+ * Apply an outlier mode to samples.
+ * The outlier count is reported in every mode; samples are only
+ * removed by trim, so winsorize keeps the sample count.
+ */
+export function handleOutliers(values: number[], mode: OutlierMode): OutlierResult {
+  const { lower, upper } = tukeyFences(values);
+  const inliers = values.filter((v) => v >= lower && v <= upper);
+  const outliers = values.length - inliers.length;
+
+  if (mode === "keep" || outliers === 0) {
+    return { values, outliers, excluded: 0 };
+  }
+  if (mode === "trim") {
+    return { values: inliers, outliers, excluded: outliers };
+  }
+
+  const low = min(inliers);
+  const high = max(inliers);
+  return {
+    values: values.map((v) => Math.min(high, Math.max(low, v))),
+    outliers,
+    excluded: 0,
+  };
+}
@@ -0,0 +1,45 @@
+/**
+ * Unit tests for timer overhead correction
+ */
+
+import { describe, expect, test } from "bun:test";
+import { belowResolution, RESOLUTION_FACTOR, subtractOverhead } from "./overhead";
+
+describe("subtractOverhead", () => {
+  test("subtracts the overhead from each sample", () => {
+    expect(subtractOverhead([0.5, 1, 2], 0.25)).toEqual([0.25, 0.75, 1.75]);
+  });
+
+  test("spreads the overhead over the calls of a batch", () => {
+    expect(subtractOverhead([1, 2], 1, 4)).toEqual([0.75, 1.75]);
+  });
+
+  test("clamps at zero", () => {
+    expect(subtractOverhead([0.1, 0.5], 0.25)).toEqual([0, 0.25]);
+  });
+});
+
+describe("belowResolution", () => {
+  test("flags samples shorter than RESOLUTION_FACTOR overheads", () => {
+    expect(belowResolution([0.5, 0.5, 0.5], 0.1)).toBe(true);
+    expect(belowResolution([1, 1, 1], 0.1)).toBe(false);
+  });
+
+  test("judges the median", () => {
+    const overhead = 0.01;
+    const resolved = overhead * RESOLUTION_FACTOR;
+
+    expect(belowResolution([resolved / 2, resolved * 2, resolved * 3], overhead)).toBe(false);
+    expect(belowResolution([resolved / 2, resolved / 3, resolved * 3], overhead)).toBe(true);
+  });
+
+  test("judges the timed span of a batch, not the per-call value", () => {
+    expect(belowResolution([0.01, 0.01], 0.01)).toBe(true);
+    expect(belowResolution([0.01, 0.01], 0.01, 100)).toBe(false);
+  });
+
+  test("never flags without a known overhead or samples", () => {
+    expect(belowResolution([0.001], 0)).toBe(false);
+    expect(belowResolution([], 0.1)).toBe(false);
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * Timer Overhead Correction
+ *
+ * Every sample an adapter reports includes one call of its timer, whose
+ * cost differs by runtime (hrtime(true) in PHP, clock_gettime in Ruby).
+ * Adapters calibrate that cost at startup; these helpers subtract it from
+ * samples and detect phases too short for the timer to resolve, where a
+ * cross-runtime comparison would mostly compare the timers.
+ */
+
+import { median } from "./statistics";
+
+/**
+ * A sample must take at least this many timer overheads to be resolved.
+ */
+export const RESOLUTION_FACTOR = 10;
+
+/**
+ * Subtract the timer overhead from per-call samples.
+ * A sample of a batch includes the overhead once for batchSize calls.
+ * Results are clamped at 0.
+ *
+ * @param values Per-call samples (milliseconds)
+ * @param overheadMs Timer overhead per sample (milliseconds)
+ * @param batchSize Calls timed per sample
+ */
+export function subtractOverhead(values: number[], overheadMs: number, batchSize = 1): number[] {
+  const perCall = overheadMs / batchSize;
+  return values.map((v) => Math.max(0, v - perCall));
+}
+
+/**
+ * Whether samples are below the timer resolution: the median timed span
+ * (per-call sample × batch size) is shorter than RESOLUTION_FACTOR timer
+ * overheads.
+ *
+ * @param values Per-call samples (milliseconds), before subtraction
+ * @param overheadMs Timer overhead per sample (milliseconds)
+ * @param batchSize Calls timed per sample
+ */
+export function belowResolution(values: number[], overheadMs: number, batchSize = 1): boolean {
+  if (values.length === 0 || overheadMs <= 0) return false;
+  return median(values) * batchSize < RESOLUTION_FACTOR * overheadMs;
+}
@@ -0,0 +1,55 @@
+/**
+ * Unit tests for measurement precision
+ */
+
+import { describe, expect, test } from "bun:test";
+import { normalQuantile, relativeHalfWidth } from "./precision";
+
+describe("normalQuantile", () => {
+  test("matches standard normal quantiles", () => {
+    expect(normalQuantile(0.5)).toBeCloseTo(0, 10);
+    expect(normalQuantile(0.975)).toBeCloseTo(1.959964, 6);
+    expect(normalQuantile(0.995)).toBeCloseTo(2.575829, 6);
+    expect(normalQuantile(0.01)).toBeCloseTo(-2.326348, 6);
+  });
+
+  test("is symmetric", () => {
+    expect(normalQuantile(0.1)).toBeCloseTo(-normalQuantile(0.9), 9);
+  });
+
+  test("rejects probabilities outside (0, 1)", () => {
+    expect(() => normalQuantile(0)).toThrow("between 0 and 1");
+    expect(() => normalQuantile(1)).toThrow("between 0 and 1");
+  });
+});
+
+describe("relativeHalfWidth", () => {
+  test("is z · s / √n relative to the mean", () => {
+    // mean 3, sample stddev √2.5, n = 5
+    const expected = (1.959964 * Math.sqrt(2.5 / 5)) / 3;
+
+    expect(relativeHalfWidth([1, 2, 3, 4, 5])).toBeCloseTo(expected, 6);
+  });
+
+  test("shrinks with more samples", () => {
+    const few = [1, 2, 3, 4, 5];
+    const many = Array.from({ length: 20 }, () => few).flat();
+
+    expect(relativeHalfWidth(many)).toBeLessThan(relativeHalfWidth(few) / 2);
+  });
+
+  test("widens with the confidence level", () => {
+    const values = [1, 2, 3, 4, 5];
+
+    expect(relativeHalfWidth(values, 0.99)).toBeGreaterThan(relativeHalfWidth(values, 0.9));
+  });
+
+  test("is zero for constant samples", () => {
+    expect(relativeHalfWidth([2, 2, 2])).toBe(0);
+  });
+
+  test("is infinite without enough samples or with a zero mean", () => {
+    expect(relativeHalfWidth([1])).toBe(Number.POSITIVE_INFINITY);
+    expect(relativeHalfWidth([-1, 1])).toBe(Number.POSITIVE_INFINITY);
+  });
+});
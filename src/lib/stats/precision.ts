@@ -0,0 +1,68 @@
+/**
+ * Measurement Precision
+ *
+ * How tightly a set of samples pins down its mean: the half-width of the
+ * mean's confidence interval relative to the mean (normal approximation).
+ * Adaptive runs (leb bench --target-rsd) keep measuring until it drops
+ * below a target.
+ */
+
+import { mean } from "./statistics";
+
+/**
+ * Quantile function of the standard normal distribution
+ * (Acklam's rational approximation, relative error < 1.2e-9).
+ *
+ * @param p Probability strictly between 0 and 1
+ */
+export function normalQuantile(p: number): number {
+  if (!(p > 0 && p < 1)) {
+    throw new Error(`Probability must be between 0 and 1, got ${p}`);
+  }
+  const a = [
+    -39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716,
+    2.506628277459239,
+  ];
+  const b = [
+    -54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972,
+    -13.28068155288572, 1,
+  ];
+  const c = [
+    -0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734,
+    4.374664141464968, 2.938163982698783,
+  ];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416, 1];
+  const poly = (coefficients: number[], x: number) =>
+    coefficients.reduce((acc, coefficient) => acc * x + coefficient, 0);
+
+  const tail = 0.02425;
+  if (p < tail) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return poly(c, q) / poly(d, q);
+  }
+  if (p > 1 - tail) {
+    const q = Math.sqrt(-2 * Math.log(1 - p));
+    return -poly(c, q) / poly(d, q);
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (poly(a, r) * q) / poly(b, r);
+}
+
+/**
+ * Half-width of the mean's confidence interval relative to the mean:
+ * z · s / √n / |mean|, with the sample standard deviation s.
+ *
+ * @param values Samples
+ * @param level Confidence level (two-sided)
+ * @returns Relative half-width, or Infinity with fewer than 2 samples or a zero mean
+ */
+export function relativeHalfWidth(values: number[], level = 0.95): number {
+  if (values.length < 2) return Number.POSITIVE_INFINITY;
+  const avg = mean(values);
+  if (avg === 0) return Number.POSITIVE_INFINITY;
+
+  const variance = values.reduce((acc, v) => acc + (v - avg) ** 2, 0) / (values.length - 1);
+  const z = normalQuantile((1 + level) / 2);
+  return (z * Math.sqrt(variance / values.length)) / Math.abs(avg);
+}
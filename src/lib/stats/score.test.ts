@@ -0,0 +1,109 @@
+/**
+ * Unit tests for scores
+ */
+
+import { describe, expect, test } from "bun:test";
+import { geometricMean, scenarioCategory, scoreAdapters } from "./score";
+
+describe("geometricMean", () => {
+  test("averages ratios symmetrically", () => {
+    expect(geometricMean([2, 0.5])).toBeCloseTo(1, 10);
+    expect(geometricMean([1, 4, 16])).toBeCloseTo(4, 10);
+  });
+
+  test("rejects empty arrays and non-positive values", () => {
+    expect(() => geometricMean([])).toThrow("empty array");
+    expect(() => geometricMean([1, 0])).toThrow("positive");
+  });
+});
+
+describe("scenarioCategory", () => {
+  test("drops the scenario name", () => {
+    expect(scenarioCategory("unit/tags/for")).toBe("unit/tags");
+    expect(scenarioCategory("representative/simple")).toBe("representative");
+  });
+});
+
+describe("scoreAdapters", () => {
+  const values = new Map([
+    [
+      "unit/tags/for",
+      new Map([
+        ["base", 1],
+        ["fast", 0.5],
+        ["slow", 4],
+      ]),
+    ],
+    [
+      "unit/tags/if",
+      new Map([
+        ["base", 2],
+        ["fast", 0.5],
+        ["slow", 2],
+      ]),
+    ],
+    [
+      "unit/filters/map",
+      new Map([
+        ["base", 1],
+        ["fast", 1],
+        ["slow", 1],
+      ]),
+    ],
+    [
+      "unit/filters/sort",
+      new Map([
+        ["base", 1],
+        ["fast", 1],
+        ["slow", 0],
+      ]),
+    ],
+    [
+      "representative/simple",
+      new Map([
+        ["base", 1],
+        ["fast", 2],
+      ]),
+    ],
+  ]);
+
+  test("scores only scenarios every adapter completed", () => {
+    const summary = scoreAdapters(values, ["base", "fast", "slow"], "base");
+
+    expect(summary.baseline).toBe("base");
+    expect(summary.excluded).toEqual(["representative/simple", "unit/filters/sort"]);
+    expect(summary.overall.scenarios).toBe(3);
+    // fast: 0.5 · 0.25 · 1, slow: 4 · 1 · 1
+    expect(summary.overall.scores).toEqual({
+      base: 1,
+      fast: expect.closeTo(0.125 ** (1 / 3), 10),
+      slow: expect.closeTo(4 ** (1 / 3), 10),
+    });
+  });
+
+  test("scores each category", () => {
+    const { categories } = scoreAdapters(values, ["base", "fast", "slow"], "base");
+
+    expect(Object.keys(categories).sort()).toEqual(["unit/filters", "unit/tags"]);
+    expect(categories["unit/tags"]).toEqual({
+      scenarios: 2,
+      scores: { base: 1, fast: expect.closeTo(Math.sqrt(0.125), 10), slow: 2 },
+    });
+    expect(categories["unit/filters"]?.scores).toEqual({ base: 1, fast: 1, slow: 1 });
+  });
+
+  test("uses every scenario of fewer adapters", () => {
+    const { overall, excluded } = scoreAdapters(values, ["base", "fast"], "base");
+
+    expect(overall.scenarios).toBe(5);
+    expect(excluded).toEqual([]);
+  });
+
+  test("scores 0 without common scenarios", () => {
+    const none = new Map([["unit/tags/for", new Map([["base", 1]])]]);
+    const { overall, categories } = scoreAdapters(none, ["base", "fast"], "base");
+
+    expect(overall).toEqual({ scenarios: 0, scores: { base: 0, fast: 0 } });
+    expect(categories).toEqual({});
+  });
+});
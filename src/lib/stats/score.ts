@@ -0,0 +1,74 @@
+/**
+ * Scores
+ *
+ * Sums up per-scenario ratios to the baseline in one number per adapter.
+ * Ratios are averaged geometrically, so a scenario twice as fast and one
+ * twice as slow cancel out and the verdict does not depend on which
+ * adapter is the baseline.
+ */
+
+import type { GroupScore, ScoreSummary } from "../../types";
+
+/**
+ * Calculate the geometric mean of positive values.
+ */
+export function geometricMean(values: number[]): number {
+  if (values.length === 0) {
+    throw new Error("Cannot calculate geometric mean of empty array");
+  }
+  if (values.some((v) => !(v > 0))) {
+    throw new Error("Geometric mean needs positive values");
+  }
+  return Math.exp(values.reduce((acc, v) => acc + Math.log(v), 0) / values.length);
+}
+
+/**
+ * Category of a scenario path: everything before the name
+ * (unit/tags/for → unit/tags, representative/simple → representative).
+ */
+export function scenarioCategory(scenario: string): string {
+  const slash = scenario.lastIndexOf("/");
+  return slash > 0 ? scenario.slice(0, slash) : scenario;
+}
+
+/**
+ * Score adapters against the baseline over the scenarios all of them
+ * have a value for, overall and per category.
+ *
+ * @param values Metric value per scenario and adapter; missing or 0 means no result
+ * @param adapters Compared adapters, including the baseline
+ * @param baseline Adapter the ratios are relative to
+ */
+export function scoreAdapters(
+  values: Map<string, Map<string, number>>,
+  adapters: readonly string[],
+  baseline: string
+): ScoreSummary {
+  const scenarios = [...values.keys()].sort();
+  const complete = (scenario: string) =>
+    adapters.every((a) => (values.get(scenario)?.get(a) ?? 0) > 0);
+  const common = scenarios.filter(complete);
+
+  const score = (group: string[]): GroupScore => ({
+    scenarios: group.length,
+    scores: Object.fromEntries(
+      adapters.map((adapter) => {
+        const ratios = group.map((s) => {
+          const row = values.get(s);
+          return (row?.get(adapter) ?? 0) / (row?.get(baseline) ?? 0);
+        });
+        return [adapter, group.length > 0 ? geometricMean(ratios) : 0];
+      })
+    ),
+  });
+
+  const categories = [...new Set(common.map(scenarioCategory))];
+  return {
+    baseline,
+    overall: score(common),
+    categories: Object.fromEntries(
+      categories.map((c) => [c, score(common.filter((s) => scenarioCategory(s) === c))])
+    ),
+    excluded: scenarios.filter((s) => !complete(s)),
+  };
+}
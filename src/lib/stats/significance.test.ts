@@ -0,0 +1,104 @@
+/**
+ * Unit tests for significance testing
+ */
+
+import { describe, expect, test } from "bun:test";
+import { cliffsDelta, compareSamples, effectSize, mannWhitneyU, welchTTest } from "./significance";
+
+const LOW = [1, 2, 3, 4, 5];
+const HIGH = [3, 4, 5, 6, 7];
+
+/** Deterministic samples spread around a center */
+function around(center: number, count = 50): number[] {
+  return Array.from({ length: count }, (_, i) => center + ((i * 37) % 50) / 100);
+}
+
+describe("mannWhitneyU", () => {
+  test("matches the tie-corrected normal approximation", () => {
+    // Ranks of LOW: 1, 2, 3.5, 5.5, 7.5 → U = 19.5 − 15
+    const { u, p_value } = mannWhitneyU(LOW, HIGH);
+
+    expect(u).toBe(4.5);
+    expect(p_value).toBeCloseTo(0.1138, 4);
+  });
+
+  test("is not significant for identical samples", () => {
+    expect(mannWhitneyU(LOW, LOW).p_value).toBe(1);
+    expect(mannWhitneyU([2, 2, 2], [2, 2, 2]).p_value).toBe(1);
+  });
+
+  test("detects shifted samples", () => {
+    expect(mannWhitneyU(around(1), around(2)).p_value).toBeLessThan(0.001);
+  });
+
+  test("requires two samples on each side", () => {
+    expect(() => mannWhitneyU([1], HIGH)).toThrow("at least 2 samples");
+  });
+});
+
+describe("welchTTest", () => {
+  test("matches the reference t, df and p-value", () => {
+    const { t, df, p_value } = welchTTest(LOW, HIGH);
+
+    expect(t).toBeCloseTo(-2, 10);
+    expect(df).toBeCloseTo(8, 10);
+    expect(p_value).toBeCloseTo(0.0805, 4);
+  });
+
+  test("uses unequal variances", () => {
+    const { df } = welchTTest([1, 2, 3, 4, 5], [10, 30, 50, 70, 90]);
+
+    expect(df).toBeLessThan(8);
+  });
+
+  test("handles constant samples", () => {
+    expect(welchTTest([2, 2], [2, 2])).toEqual({ t: 0, df: 2, p_value: 1 });
+    expect(welchTTest([2, 2], [3, 3])).toEqual({ t: null, df: 2, p_value: 0 });
+  });
+});
+
+describe("cliffsDelta", () => {
+  test("is the share of larger minus smaller pairs", () => {
+    expect(cliffsDelta(LOW, HIGH)).toBeCloseTo(-0.64, 10);
+    expect(cliffsDelta(HIGH, LOW)).toBeCloseTo(0.64, 10);
+    expect(cliffsDelta(LOW, LOW)).toBe(0);
+  });
+
+  test("is ±1 for separated samples", () => {
+    expect(cliffsDelta([10, 11], [1, 2, 3])).toBe(1);
+    expect(cliffsDelta([1, 2, 3], [10, 11])).toBe(-1);
+  });
+});
+
+describe("effectSize", () => {
+  test("uses conventional thresholds", () => {
+    expect(effectSize(0.1)).toBe("negligible");
+    expect(effectSize(-0.2)).toBe("small");
+    expect(effectSize(0.4)).toBe("medium");
+    expect(effectSize(-0.64)).toBe("large");
+  });
+});
+
+describe("compareSamples", () => {
+  test("marks shifted samples as significant", () => {
+    const comparison = compareSamples(around(2), around(1));
+
+    expect(comparison.significant).toBe(true);
+    expect(comparison.cliffs_delta).toBe(1);
+    expect(comparison.effect).toBe("large");
+    expect(comparison.welch.p_value).toBeLessThan(0.001);
+  });
+
+  test("marks samples from the same distribution as not significant", () => {
+    const samples = around(1, 100);
+    const comparison = compareSamples(samples.slice(0, 50), samples.slice(50));
+
+    expect(comparison.significant).toBe(false);
+    expect(comparison.effect).toBe("negligible");
+  });
+
+  test("accepts a significance level", () => {
+    expect(compareSamples(LOW, HIGH).significant).toBe(false);
+    expect(compareSamples(LOW, HIGH, 0.2).significant).toBe(true);
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Significance Testing
+ *
+ * Decides whether two sets of timings (two adapters, or two runs of one
+ * adapter) differ by more than noise. Mann-Whitney U compares the
+ * distributions without assuming normality and decides significance;
+ * Welch's t-test compares the means without assuming equal variances and
+ * is reported alongside. Cliff's delta says how large the difference is,
+ * since with enough samples even a negligible one becomes significant.
+ */
+
+import type { EffectSize, MannWhitneyResult, SampleComparison, WelchResult } from "../../types";
+
+/**
+ * Default significance level (two-sided).
+ */
+export const SIGNIFICANCE_LEVEL = 0.05;
+
+/**
+ * Complementary error function (Chebyshev approximation, error < 1.2e-7).
+ */
+function erfc(x: number): number {
+  const coefficients = [
+    -1.26551223, 1.00002368, 0.37409196, 0.09678418, -0.18628806, 0.27886807, -1.13520398,
+    1.48851587, -0.82215223, 0.17087277,
+  ];
+  const z = Math.abs(x);
+  const t = 1 / (1 + 0.5 * z);
+  const poly = coefficients.reduceRight((acc, c) => c + t * acc, 0);
+  const result = t * Math.exp(-z * z + poly);
+  return x >= 0 ? result : 2 - result;
+}
+
+/**
+ * Natural log of the gamma function (Lanczos approximation).
+ */
+function logGamma(x: number): number {
+  const coefficients = [
+    76.18009172947146, -86.50532032941678, 24.01409824083091, -1.231739572450155,
+    0.1208650973866179e-2, -0.5395239384953e-5,
+  ];
+  let series = 1.000000000190015;
+  let y = x;
+  for (const c of coefficients) {
+    y += 1;
+    series += c / y;
+  }
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  return -tmp + Math.log((2.5066282746310007 * series) / x);
+}
+
+/**
+ * Continued fraction of the incomplete beta function (modified Lentz).
+ */
+function betaContinuedFraction(a: number, b: number, x: number): number {
+  const tiny = 1e-300;
+  const guard = (v: number) => (Math.abs(v) < tiny ? tiny : v);
+  let c = 1;
+  let d = 1 / guard(1 - ((a + b) * x) / (a + 1));
+  let h = d;
+  for (let m = 1; m <= 300; m++) {
+    const even = (m * (b - m) * x) / ((a + 2 * m - 1) * (a + 2 * m));
+    d = 1 / guard(1 + even * d);
+    c = guard(1 + even / c);
+    h *= d * c;
+    const odd = (-(a + m) * (a + b + m) * x) / ((a + 2 * m) * (a + 2 * m + 1));
+    d = 1 / guard(1 + odd * d);
+    c = guard(1 + odd / c);
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 3e-14) break;
+  }
+  return h;
+}
+
+/**
+ * Regularized incomplete beta function I_x(a, b).
+ */
+function incompleteBeta(a: number, b: number, x: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(
+    logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x)
+  );
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(a, b, x)) / a
+    : 1 - (front * betaContinuedFraction(b, a, 1 - x)) / b;
+}
+
+/**
+ * Validate that both samples are large enough to test.
+ */
+function checkSamples(a: number[], b: number[]): void {
+  if (a.length < 2 || b.length < 2) {
+    throw new Error("Significance tests need at least 2 samples on each side");
+  }
+}
+
+/**
+ * Rank sum of the first sample within both samples (ties get their mean rank),
+ * and the tie correction term Σ(t³ − t).
+ */
+function rankSum(a: number[], b: number[]): { rankSumA: number; ties: number } {
+  const pooled = [
+    ...a.map((value) => ({ value, first: true })),
+    ...b.map((value) => ({ value, first: false })),
+  ].sort((x, y) => x.value - y.value);
+
+  let rankSumA = 0;
+  let ties = 0;
+  for (let i = 0; i < pooled.length; ) {
+    let j = i;
+    while (j + 1 < pooled.length && pooled[j + 1]?.value === pooled[i]?.value) j++;
+    const count = j - i + 1;
+    const rank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) {
+      if (pooled[k]?.first) rankSumA += rank;
+    }
+    ties += count ** 3 - count;
+    i = j + 1;
+  }
+  return { rankSumA, ties };
+}
+
+/**
+ * U statistic of the first sample: pairs where it is larger, ties counting half.
+ */
+function uStatistic(a: number[], b: number[]): { u: number; ties: number } {
+  const { rankSumA, ties } = rankSum(a, b);
+  return { u: rankSumA - (a.length * (a.length + 1)) / 2, ties };
+}
+
+/**
+ * Mann-Whitney U test (two-sided).
+ */
+export function mannWhitneyU(a: number[], b: number[]): MannWhitneyResult {
+  checkSamples(a, b);
+  const { u, ties } = uStatistic(a, b);
+  const n1 = a.length;
+  const n2 = b.length;
+  const n = n1 + n2;
+  const sigma = Math.sqrt(((n1 * n2) / 12) * (n + 1 - ties / (n * (n - 1))));
+  if (sigma === 0) return { u, p_value: 1 };
+
+  const z = Math.max(0, Math.abs(u - (n1 * n2) / 2) - 0.5) / sigma;
+  return { u, p_value: Math.min(1, erfc(z / Math.SQRT2)) };
+}
+
+/**
+ * Welch's t-test (two-sided), using sample variances.
+ */
+export function welchTTest(a: number[], b: number[]): WelchResult {
+  checkSamples(a, b);
+  const moments = (values: number[]) => {
+    const m = values.reduce((acc, v) => acc + v, 0) / values.length;
+    const variance = values.reduce((acc, v) => acc + (v - m) ** 2, 0) / (values.length - 1);
+    return { m, se2: variance / values.length, n: values.length };
+  };
+  const x = moments(a);
+  const y = moments(b);
+  const se2 = x.se2 + y.se2;
+  const diff = x.m - y.m;
+
+  if (se2 === 0) {
+    return {
+      t: diff === 0 ? 0 : null,
+      df: x.n + y.n - 2,
+      p_value: diff === 0 ? 1 : 0,
+    };
+  }
+
+  const t = diff / Math.sqrt(se2);
+  const df = se2 ** 2 / (x.se2 ** 2 / (x.n - 1) + y.se2 ** 2 / (y.n - 1));
+  return { t, df, p_value: Math.min(1, incompleteBeta(df / 2, 0.5, df / (df + t * t))) };
+}
+
+/**
+ * Cliff's delta: P(a > b) − P(a < b), from −1 to 1.
+ */
+export function cliffsDelta(a: number[], b: number[]): number {
+  if (a.length === 0 || b.length === 0) {
+    throw new Error("Cannot calculate Cliff's delta of an empty array");
+  }
+  const { u } = uStatistic(a, b);
+  return (2 * u) / (a.length * b.length) - 1;
+}
+
+/**
+ * Conventional magnitude of Cliff's delta (Romano et al. thresholds).
+ */
+export function effectSize(delta: number): EffectSize {
+  const magnitude = Math.abs(delta);
+  if (magnitude < 0.147) return "negligible";
+  if (magnitude < 0.33) return "small";
+  if (magnitude < 0.474) return "medium";
+  return "large";
+}
+
+/**
+ * Compare two samples: both tests, the effect size and whether the
+ * Mann-Whitney p-value is below the significance level.
+ *
+ * @param a Samples of the compared run
+ * @param b Samples of the reference run (baseline adapter or earlier run)
+ * @param alpha Significance level
+ */
+export function compareSamples(
+  a: number[],
+  b: number[],
+  alpha = SIGNIFICANCE_LEVEL
+): SampleComparison {
+  const mannWhitney = mannWhitneyU(a, b);
+  const delta = cliffsDelta(a, b);
+  return {
+    mann_whitney: mannWhitney,
+    welch: welchTTest(a, b),
+    cliffs_delta: delta,
+    effect: effectSize(delta),
+    significant: mannWhitney.p_value < alpha,
+  };
+}
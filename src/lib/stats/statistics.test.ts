@@ -3,7 +3,19 @@
  */
 
 import { describe, expect, test } from "bun:test";
-import { addArrays, calculateMetrics, max, mean, median, min, stddev } from "./statistics";
+import { DEFAULT_BOOTSTRAP, MAX_BOOTSTRAP_DRAWS } from "./bootstrap";
+import {
+  addArrays,
+  calculateMemoryMetrics,
+  calculateMetrics,
+  coefficientOfVariation,
+  max,
+  mean,
+  median,
+  min,
+  quantile,
+  stddev,
+} from "./statistics";
 
 describe("mean", () => {
   test("calculates mean of positive numbers", () => {
@@ -43,6 +55,17 @@ describe("stddev", () => {
   });
 });
 
+describe("coefficientOfVariation", () => {
+  test("relates stddev to the mean", () => {
+    // Mean 5, stddev 2
+    expect(coefficientOfVariation([2, 4, 4, 4, 5, 5, 7, 9])).toBe(0.4);
+  });
+
+  test("returns 0 for a zero mean", () => {
+    expect(coefficientOfVariation([0, 0, 0])).toBe(0);
+  });
+});
+
 describe("min", () => {
   test("finds minimum value", () => {
     expect(min([3, 1, 4, 1, 5, 9])).toBe(1);
@@ -101,11 +124,49 @@ describe("median", () => {
     expect(median([10, 20])).toBe(15);
   });
 
+  test("matches the middle of the sorted array, with ties", () => {
+    // Resamples repeat values, which selection must not trip over
+    for (const length of [99, 100]) {
+      const values = Array.from({ length }, (_, i) => (i * 37) % 11);
+      const sorted = [...values].sort((a, b) => a - b);
+      const mid = Math.floor(length / 2);
+      const expected =
+        length % 2 === 0 ? ((sorted[mid - 1] ?? 0) + (sorted[mid] ?? 0)) / 2 : sorted[mid];
+
+      expect(median(values)).toBe(expected ?? 0);
+    }
+  });
+
+  test("leaves its input unchanged", () => {
+    const values = [9, 1, 7, 3, 5, 2];
+    median(values);
+
+    expect(values).toEqual([9, 1, 7, 3, 5, 2]);
+  });
+
   test("throws on empty array", () => {
     expect(() => median([])).toThrow("Cannot calculate median of empty array");
   });
 });
 
+describe("quantile", () => {
+  test("interpolates between closest ranks", () => {
+    expect(quantile([1, 2, 3, 4, 5], 0.25)).toBe(2);
+    expect(quantile([1, 2, 3, 4], 0.5)).toBe(2.5);
+    expect(quantile([4, 1, 3, 2], 0.75)).toBe(3.25);
+  });
+
+  test("returns min and max at the ends", () => {
+    expect(quantile([3, 1, 2], 0)).toBe(1);
+    expect(quantile([3, 1, 2], 1)).toBe(3);
+  });
+
+  test("rejects empty arrays and out-of-range quantiles", () => {
+    expect(() => quantile([], 0.5)).toThrow("Cannot calculate quantile of empty array");
+    expect(() => quantile([1], 1.5)).toThrow("Quantile must be between 0 and 1");
+  });
+});
+
 describe("calculateMetrics", () => {
   test("calculates all metrics", () => {
     const values = [1, 2, 3, 4, 5];
@@ -117,6 +178,7 @@ describe("calculateMetrics", () => {
     expect(metrics.median_ms).toBe(3);
     // Verify stddev (manual calculation: sqrt(2) ≈ 1.414)
     expect(metrics.stddev_ms).toBeCloseTo(Math.sqrt(2), 10);
+    expect(metrics.cv).toBeCloseTo(Math.sqrt(2) / 3, 10);
   });
 
   test("returns PhaseMetrics shape", () => {
@@ -124,10 +186,73 @@ describe("calculateMetrics", () => {
 
     expect(metrics).toHaveProperty("mean_ms");
     expect(metrics).toHaveProperty("stddev_ms");
+    expect(metrics).toHaveProperty("cv");
     expect(metrics).toHaveProperty("min_ms");
     expect(metrics).toHaveProperty("max_ms");
     expect(metrics).toHaveProperty("median_ms");
   });
+
+  test("reports default tail percentiles", () => {
+    const values = Array.from({ length: 101 }, (_, i) => i);
+
+    expect(calculateMetrics(values).percentiles).toEqual({ p75: 75, p90: 90, p95: 95, p99: 99 });
+  });
+
+  test("reports requested percentiles only", () => {
+    const metrics = calculateMetrics([1, 2, 3, 4, 5], { percentiles: [50, 99.9] });
+
+    expect(metrics.percentiles).toEqual({ p50: 3, "p99.9": expect.closeTo(4.996, 10) });
+    expect(calculateMetrics([1, 2, 3], { percentiles: [] })).not.toHaveProperty("percentiles");
+  });
+
+  test("adds mean and median confidence intervals with bootstrap settings", () => {
+    const metrics = calculateMetrics([1, 2, 3, 4, 5], { bootstrap: DEFAULT_BOOTSTRAP });
+
+    expect(metrics.mean_ci?.lower).toBeLessThanOrEqual(3);
+    expect(metrics.mean_ci?.upper).toBeGreaterThanOrEqual(3);
+    expect(metrics.median_ci?.lower).toBeLessThanOrEqual(3);
+    expect(metrics.median_ci?.upper).toBeGreaterThanOrEqual(3);
+  });
+
+  test("omits confidence intervals without resamples", () => {
+    const metrics = calculateMetrics([1, 2, 3], {
+      bootstrap: { ...DEFAULT_BOOTSTRAP, resamples: 0 },
+    });
+
+    expect(metrics).not.toHaveProperty("mean_ci");
+    expect(metrics).not.toHaveProperty("median_ci");
+  });
+
+  test("leaves out intervals when too few resamples fit the draw budget", () => {
+    const values = Array.from({ length: MAX_BOOTSTRAP_DRAWS / 50 }, (_, i) => 1 + (i % 7));
+    const metrics = calculateMetrics(values, { bootstrap: DEFAULT_BOOTSTRAP, percentiles: [] });
+
+    expect(metrics).not.toHaveProperty("mean_ci");
+    expect(metrics).not.toHaveProperty("median_ci");
+  });
+
+  test("handles samples at the iteration cap (1,000,000)", () => {
+    const values = Array.from({ length: 1_000_000 }, (_, i) => i % 1000);
+    const metrics = calculateMetrics(values, { percentiles: [] });
+
+    expect(metrics.min_ms).toBe(0);
+    expect(metrics.max_ms).toBe(999);
+    expect(metrics.mean_ms).toBeCloseTo(499.5, 10);
+  });
+});
+
+describe("calculateMemoryMetrics", () => {
+  test("calculates all metrics in bytes", () => {
+    const metrics = calculateMemoryMetrics([1024, 2048, 4096]);
+
+    expect(metrics).toEqual({
+      mean_bytes: 7168 / 3,
+      stddev_bytes: expect.any(Number),
+      min_bytes: 1024,
+      max_bytes: 4096,
+      median_bytes: 2048,
+    });
+  });
 });
 
 describe("addArrays", () => {
@@ -1,11 +1,28 @@
 /**
  * Statistics Module
  *
- * Calculates statistical metrics (mean, stddev, min, max, median) from
- * benchmark measurements. All adapters use the same algorithm for consistency.
+ * Calculates statistical metrics (mean, stddev, min, max, median,
+ * percentiles) from benchmark measurements. All adapters use the same
+ * algorithm for consistency.
  */
 
-import type { PhaseMetrics } from "../../types";
+import type { MemoryPhaseMetrics, PhaseMetrics } from "../../types";
+import { affordableResamples, type BootstrapOptions, bootstrapInterval } from "./bootstrap";
+
+/**
+ * Percentiles reported by default (tail latency).
+ */
+export const DEFAULT_PERCENTILES: readonly number[] = [75, 90, 95, 99];
+
+/**
+ * Options of calculateMetrics.
+ */
+export interface MetricsOptions {
+  /** Bootstrap settings for confidence intervals (omitted or 0 resamples: none) */
+  bootstrap?: BootstrapOptions;
+  /** Percentiles to report, between 0 and 100 (default: DEFAULT_PERCENTILES) */
+  percentiles?: readonly number[];
+}
 
 /**
  * Calculate the sum of an array.
@@ -24,6 +41,15 @@ export function mean(values: number[]): number {
   return sum(values) / values.length;
 }
 
+/**
+ * Calculate the coefficient of variation: stddev relative to the mean.
+ * Returns 0 when the mean is 0.
+ */
+export function coefficientOfVariation(values: number[]): number {
+  const avg = mean(values);
+  return avg !== 0 ? stddev(values) / Math.abs(avg) : 0;
+}
+
 /**
  * Calculate the population standard deviation.
  * Uses population stddev (not sample) because benchmarks measure all iterations.
@@ -42,22 +68,54 @@ export function stddev(values: number[]): number {
 
 /**
  * Find the minimum value.
+ * Reduces instead of spreading into Math.min, which overflows the call
+ * stack at the iteration cap.
  */
 export function min(values: number[]): number {
   if (values.length === 0) {
     throw new Error("Cannot calculate min of empty array");
   }
-  return Math.min(...values);
+  return values.reduce((acc, v) => Math.min(acc, v), Number.POSITIVE_INFINITY);
 }
 
 /**
- * Find the maximum value.
+ * Find the maximum value (see min).
  */
 export function max(values: number[]): number {
   if (values.length === 0) {
     throw new Error("Cannot calculate max of empty array");
   }
-  return Math.max(...values);
+  return values.reduce((acc, v) => Math.max(acc, v), Number.NEGATIVE_INFINITY);
+}
+
+/**
+ * Move the k-th smallest value to index k, smaller or equal values before it
+ * and greater or equal values after it (Hoare's selection, in place).
+ * Linear on average, where sorting is not: the bootstrap takes the median of
+ * a thousand resamples per interval.
+ */
+function selectInPlace(values: number[], k: number): number {
+  let left = 0;
+  let right = values.length - 1;
+  while (left < right) {
+    const pivot = values[k] ?? 0;
+    let i = left;
+    let j = right;
+    while (i <= j) {
+      while ((values[i] ?? 0) < pivot) i++;
+      while (pivot < (values[j] ?? 0)) j--;
+      if (i <= j) {
+        const swap = values[i] ?? 0;
+        values[i] = values[j] ?? 0;
+        values[j] = swap;
+        i++;
+        j--;
+      }
+    }
+    if (j < k) left = i;
+    if (k < i) right = j;
+  }
+  return values[k] ?? 0;
 }
 
 /**
@@ -67,35 +125,84 @@ export function median(values: number[]): number {
   if (values.length === 0) {
     throw new Error("Cannot calculate median of empty array");
   }
-  const sorted = [...values].sort((a, b) => a - b);
-  const mid = Math.floor(sorted.length / 2);
-
-  if (sorted.length % 2 === 0) {
-    // For even-length arrays, average the two middle values
-    const left = sorted[mid - 1];
-    const right = sorted[mid];
-    if (left === undefined || right === undefined) {
-      throw new Error("Unexpected undefined values in sorted array");
-    }
-    return (left + right) / 2;
+  const copy = [...values];
+  const mid = Math.floor(copy.length / 2);
+  const upper = selectInPlace(copy, mid);
+  if (copy.length % 2 === 0) {
+    // For even-length arrays, average the two middle values: the lower one
+    // is the largest value left of mid
+    return (max(copy.slice(0, mid)) + upper) / 2;
   }
-  const midValue = sorted[mid];
-  if (midValue === undefined) {
-    throw new Error("Unexpected undefined value at mid index");
+  return upper;
+}
+
+/**
+ * Calculate a quantile with linear interpolation between closest ranks.
+ * @param p - Quantile between 0 and 1 (0.5 is the median)
+ */
+export function quantile(values: number[], p: number): number {
+  if (values.length === 0) {
+    throw new Error("Cannot calculate quantile of empty array");
+  }
+  if (!(p >= 0 && p <= 1)) {
+    throw new Error(`Quantile must be between 0 and 1, got ${p}`);
   }
-  return midValue;
+  const sorted = [...values].sort((a, b) => a - b);
+  const index = p * (sorted.length - 1);
+  const low = sorted[Math.floor(index)] ?? 0;
+  const high = sorted[Math.ceil(index)] ?? low;
+  return low + (high - low) * (index - Math.floor(index));
+}
+
+/**
+ * Key of a percentile in PhaseMetrics.percentiles (e.g., 95 → "p95").
+ */
+export function percentileKey(p: number): string {
+  return `p${p}`;
 }
 
 /**
  * Calculate all phase metrics from an array of values.
+ * Percentiles are keyed by percentileKey. With bootstrap settings (and at
+ * least one resample), adds confidence intervals of the mean and the median,
+ * with as many resamples as affordableResamples allows for the sample size.
  */
-export function calculateMetrics(values: number[]): PhaseMetrics {
-  return {
+export function calculateMetrics(values: number[], options: MetricsOptions = {}): PhaseMetrics {
+  const { bootstrap, percentiles = DEFAULT_PERCENTILES } = options;
+  const metrics: PhaseMetrics = {
     mean_ms: mean(values),
     stddev_ms: stddev(values),
+    cv: coefficientOfVariation(values),
     min_ms: min(values),
     max_ms: max(values),
     median_ms: median(values),
+    ...(percentiles.length > 0 && {
+      percentiles: Object.fromEntries(
+        percentiles.map((p) => [percentileKey(p), quantile(values, p / 100)])
+      ),
+    }),
+  };
+  const resamples = bootstrap ? affordableResamples(values.length, bootstrap.resamples) : 0;
+  if (!bootstrap || resamples === 0) return metrics;
+
+  return {
+    ...metrics,
+    mean_ci: bootstrapInterval(values, mean, { ...bootstrap, resamples }),
+    median_ci: bootstrapInterval(values, median, { ...bootstrap, resamples }),
+  };
+}
+
+/**
+ * Calculate memory phase metrics from an array of byte values.
+ * Same statistics as calculateMetrics, in bytes instead of milliseconds.
+ */
+export function calculateMemoryMetrics(values: number[]): MemoryPhaseMetrics {
+  return {
+    mean_bytes: mean(values),
+    stddev_bytes: stddev(values),
+    min_bytes: min(values),
+    max_bytes: max(values),
+    median_bytes: median(values),
   };
 }
 
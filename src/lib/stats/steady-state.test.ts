@@ -0,0 +1,45 @@
+/**
+ * Unit tests for steady-state detection
+ */
+
+import { describe, expect, test } from "bun:test";
+import { steadyStateStart } from "./steady-state";
+
+/**
+ * Samples alternating around `center` after `warmup` slower ones that
+ * decay linearly from 3× to 1×.
+ */
+function series(length: number, warmup: number, center = 1): number[] {
+  return Array.from({ length }, (_, i) => {
+    const slowdown = i < warmup ? 1 + (2 * (warmup - i)) / warmup : 1;
+    return center * slowdown * (i % 2 === 0 ? 1.01 : 0.99);
+  });
+}
+
+describe("steadyStateStart", () => {
+  test("finds the end of a warmup transient", () => {
+    const start = steadyStateStart(series(200, 40));
+
+    expect(start).toBeGreaterThanOrEqual(30);
+    expect(start).toBeLessThanOrEqual(45);
+    expect(start % 5).toBe(0);
+  });
+
+  test("keeps a steady series whole", () => {
+    expect(steadyStateStart(Array(100).fill(2))).toBe(0);
+    expect(steadyStateStart(series(100, 0))).toBe(0);
+  });
+
+  test("truncates at most half of the series", () => {
+    expect(steadyStateStart(series(100, 90))).toBeLessThanOrEqual(50);
+  });
+
+  test("truncates at most maxStart samples", () => {
+    expect(steadyStateStart(series(200, 40), 12)).toBe(10);
+  });
+
+  test("needs at least two batches", () => {
+    expect(steadyStateStart([])).toBe(0);
+    expect(steadyStateStart([9, 9, 9, 1, 1, 1, 1, 1, 1])).toBe(0);
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Steady-State Detection
+ *
+ * Where a series of samples stops drifting (JIT compilation, caches filling)
+ * and settles, with the MSER-5 truncation rule: samples are averaged in
+ * batches of 5, and the start is the batch boundary that minimizes the
+ * squared standard error of the batch means after it. Truncation is limited
+ * to the first half of the series, beyond which the rule is unreliable.
+ */
+
+/**
+ * Samples per batch mean of MSER-5.
+ */
+export const MSER_BATCH_SIZE = 5;
+
+/**
+ * Index of the first steady-state sample (MSER-5).
+ *
+ * @param values Samples in the order they were measured
+ * @param maxStart Largest start considered (default: no limit beyond half the series)
+ * @returns Start index, a multiple of 5; 0 with fewer than 2 batches
+ */
+export function steadyStateStart(values: number[], maxStart = values.length): number {
+  const batches = Math.floor(values.length / MSER_BATCH_SIZE);
+  if (batches < 2) return 0;
+
+  const means = Array.from({ length: batches }, (_, b) => {
+    let sum = 0;
+    for (let i = b * MSER_BATCH_SIZE; i < (b + 1) * MSER_BATCH_SIZE; i++) sum += values[i] ?? 0;
+    return sum / MSER_BATCH_SIZE;
+  });
+
+  // Sums of the (centered, against cancellation) batch means and their
+  // squares from each batch to the end
+  const center = means.reduce((acc, m) => acc + m, 0) / batches;
+  const sums = new Array<number>(batches + 1).fill(0);
+  const squares = new Array<number>(batches + 1).fill(0);
+  for (let b = batches - 1; b >= 0; b--) {
+    const m = (means[b] ?? 0) - center;
+    sums[b] = (sums[b + 1] ?? 0) + m;
+    squares[b] = (squares[b + 1] ?? 0) + m * m;
+  }
+
+  const last = Math.min(Math.floor(batches / 2), Math.floor(maxStart / MSER_BATCH_SIZE));
+  let best = 0;
+  let bestScore = Number.POSITIVE_INFINITY;
+  for (let d = 0; d <= last; d++) {
+    const count = batches - d;
+    const sum = sums[d] ?? 0;
+    const deviations = Math.max(0, (squares[d] ?? 0) - (sum * sum) / count);
+    const score = deviations / (count * count);
+    if (score < bestScore) {
+      bestScore = score;
+      best = d;
+    }
+  }
+  return best * MSER_BATCH_SIZE;
+}
@@ -0,0 +1,45 @@
+/**
+ * Unit tests for throughput
+ */
+
+import { describe, expect, test } from "bun:test";
+import type { PhaseMetrics } from "../../types";
+import { calculateThroughput, perSecond } from "./throughput";
+
+function phase(meanMs: number): PhaseMetrics {
+  return {
+    mean_ms: meanMs,
+    stddev_ms: 0,
+    cv: 0,
+    min_ms: meanMs,
+    max_ms: meanMs,
+    median_ms: meanMs,
+  };
+}
+
+describe("perSecond", () => {
+  test("converts a time per operation into a rate", () => {
+    expect(perSecond(0.25)).toBe(4000);
+    expect(perSecond(2, 512)).toBe(256_000);
+  });
+
+  test("is 0 for a zero time", () => {
+    expect(perSecond(0)).toBe(0);
+  });
+});
+
+describe("calculateThroughput", () => {
+  const metrics = { parse: phase(0.05), render: phase(0.2), total: phase(0.25) };
+
+  test("derives rates from mean times", () => {
+    expect(calculateThroughput(metrics)).toEqual({
+      parse_ops_per_sec: 20_000,
+      render_ops_per_sec: 5000,
+      total_ops_per_sec: 4000,
+    });
+  });
+
+  test("adds output bytes per second of render time", () => {
+    expect(calculateThroughput(metrics, 1000).output_bytes_per_sec).toBe(5_000_000);
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * Throughput
+ *
+ * Rates derived from times, for capacity planning in requests per second:
+ * operations per second per phase, and rendered output bytes per second.
+ */
+
+import type { ThroughputMetrics, TimingMetrics } from "../../types";
+
+/**
+ * Operations per second at a time per operation.
+ *
+ * @param ms Time per operation (milliseconds)
+ * @param units Units per operation (e.g., output bytes per render)
+ * @returns Units per second, 0 when the time is 0 (not measurable)
+ */
+export function perSecond(ms: number, units = 1): number {
+  return ms > 0 ? (units * 1000) / ms : 0;
+}
+
+/**
+ * Throughput at the mean time of each phase.
+ *
+ * @param metrics Timing metrics
+ * @param outputBytes Size of the rendered output (UTF-8 bytes), when known
+ */
+export function calculateThroughput(
+  metrics: TimingMetrics,
+  outputBytes?: number
+): ThroughputMetrics {
+  return {
+    parse_ops_per_sec: perSecond(metrics.parse.mean_ms),
+    render_ops_per_sec: perSecond(metrics.render.mean_ms),
+    total_ops_per_sec: perSecond(metrics.total.mean_ms),
+    ...(outputBytes !== undefined && {
+      output_bytes_per_sec: perSecond(metrics.render.mean_ms, outputBytes),
+    }),
+  };
+}
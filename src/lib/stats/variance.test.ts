@@ -0,0 +1,54 @@
+/**
+ * Unit tests for variance components
+ */
+
+import { describe, expect, test } from "bun:test";
+import { varianceComponents } from "./variance";
+
+describe("varianceComponents", () => {
+  test("splits variance within and between groups", () => {
+    // Within: each group has sample variance 1
+    // Between: means 2, 5, 8 → mean square 3 · 18 / 2 = 27, minus within, per sample
+    const { within, between } = varianceComponents([
+      [1, 2, 3],
+      [4, 5, 6],
+      [7, 8, 9],
+    ]);
+
+    expect(within).toBeCloseTo(1, 10);
+    expect(between).toBeCloseTo((27 - 1) / 3, 10);
+  });
+
+  test("finds no between-group variance in groups with equal means", () => {
+    const { within, between } = varianceComponents([
+      [1, 3],
+      [0, 4],
+      [2, 2],
+    ]);
+
+    expect(within).toBeCloseTo(10 / 3, 10);
+    expect(between).toBe(0);
+  });
+
+  test("finds only between-group variance in constant groups", () => {
+    const { within, between } = varianceComponents([
+      [1, 1, 1],
+      [3, 3, 3],
+    ]);
+
+    expect(within).toBe(0);
+    expect(between).toBeCloseTo(2, 10);
+  });
+
+  test("handles groups of different sizes", () => {
+    const { within, between } = varianceComponents([[1, 2, 3, 4, 5], [10]]);
+
+    expect(within).toBeCloseTo(2.5, 10);
+    expect(between).toBeGreaterThan(0);
+  });
+
+  test("rejects fewer than two groups and empty groups", () => {
+    expect(() => varianceComponents([[1, 2]])).toThrow("at least two");
+    expect(() => varianceComponents([[1], []])).toThrow("at least two");
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Variance Components
+ *
+ * Splits the variance of samples measured in several processes (forks)
+ * into the part within a process and the part between processes, with
+ * one-way random-effects ANOVA. A single process cannot show the second
+ * part: JIT decisions, address-space layout and allocator state are fixed
+ * for its lifetime, so its samples understate how much results vary.
+ */
+
+/**
+ * Variance within and between groups of samples.
+ */
+export interface VarianceComponents {
+  /** Pooled variance of samples around their group's mean */
+  within: number;
+  /** Variance of the true group means (0 when within-group noise explains their spread) */
+  between: number;
+}
+
+/**
+ * Estimate variance components from groups of samples (one-way ANOVA,
+ * method of moments; groups may differ in size).
+ *
+ * @param groups Samples per group (e.g., per process), at least two non-empty groups
+ */
+export function varianceComponents(groups: number[][]): VarianceComponents {
+  if (groups.length < 2 || groups.some((g) => g.length === 0)) {
+    throw new Error("Variance components need at least two non-empty groups");
+  }
+
+  const sizes = groups.map((g) => g.length);
+  const total = sizes.reduce((acc, n) => acc + n, 0);
+  const means = groups.map((g) => g.reduce((acc, v) => acc + v, 0) / g.length);
+  const grand = groups.flat().reduce((acc, v) => acc + v, 0) / total;
+
+  const withinSquares = groups.reduce(
+    (acc, g, i) => acc + g.reduce((s, v) => s + (v - (means[i] ?? 0)) ** 2, 0),
+    0
+  );
+  const betweenSquares = means.reduce((acc, m, i) => acc + (sizes[i] ?? 0) * (m - grand) ** 2, 0);
+
+  const k = groups.length;
+  const within = total > k ? withinSquares / (total - k) : 0;
+  const betweenMean = betweenSquares / (k - 1);
+  // Effective group size for unequal groups
+  const n0 = (total - sizes.reduce((acc, n) => acc + n * n, 0) / total) / (k - 1);
+
+  return { within, between: Math.max(0, (betweenMean - within) / n0) };
+}
@@ -0,0 +1,91 @@
+/**
+ * Support Matrix Cache
+ *
+ * Persists probe results so each library version is probed only once.
+ * Entries are keyed by "{adapter}@{version}"; bumping the version in
+ * leb.config.json therefore re-probes the adapter automatically.
+ *
+ * File structure (.generated/support.json):
+ *   { "keepsuit@0.9.0": { adapter, version, probed_at, scenarios: { ... } } }
+ */
+
+import { existsSync, mkdirSync } from "node:fs";
+import { dirname, join } from "node:path";
+import type { ScenarioSupport } from "./probe";
+
+/**
+ * Environment variable overriding the support cache file.
+ * Lets test runs keep their cache out of the project tree.
+ */
+export const SUPPORT_CACHE_ENV_VAR = "LEB_SUPPORT_CACHE";
+
+/**
+ * Default cache file (LEB_SUPPORT_CACHE, or .generated/support.json in project root).
+ */
+export const DEFAULT_SUPPORT_CACHE =
+  process.env[SUPPORT_CACHE_ENV_VAR] ||
+  join(import.meta.dirname, "../../../.generated/support.json");
+
+/**
+ * Probe results for one adapter at one library version.
+ */
+export interface AdapterSupport {
+  /** Adapter name */
+  adapter: string;
+  /** Library version the probe ran against */
+  version: string;
+  /** ISO 8601 timestamp of the latest probe */
+  probed_at: string;
+  /** Results by scenario path */
+  scenarios: Record<string, ScenarioSupport>;
+}
+
+/**
+ * Cache file contents, keyed by supportKey().
+ */
+export type SupportCache = Record<string, AdapterSupport>;
+
+/**
+ * Build the cache key for an adapter version.
+ */
+export function supportKey(adapter: string, version: string): string {
+  return `${adapter}@${version}`;
+}
+
+/**
+ * Load the support cache.
+ * A missing or unreadable file yields an empty cache (everything is re-probed).
+ *
+ * @param path Cache file path
+ */
+export async function loadSupportCache(
+  path: string = DEFAULT_SUPPORT_CACHE
+): Promise<SupportCache> {
+  const file = Bun.file(path);
+  if (!(await file.exists())) return {};
+
+  try {
+    const parsed: unknown = await file.json();
+    return typeof parsed === "object" && parsed !== null ? (parsed as SupportCache) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Save the support cache.
+ * Creates the parent directory if needed.
+ *
+ * @param cache Cache contents
+ * @param path Cache file path
+ */
+export async function saveSupportCache(
+  cache: SupportCache,
+  path: string = DEFAULT_SUPPORT_CACHE
+): Promise<void> {
+  const dir = dirname(path);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+  await Bun.write(path, `${JSON.stringify(cache, null, 2)}\n`);
+}
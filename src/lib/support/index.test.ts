@@ -0,0 +1,121 @@
+/**
+ * Unit tests for support module public API
+ *
+ * Uses a fake probe runner and a temporary cache file.
+ */
+
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdirSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import type { AdapterInput } from "../../types";
+import type { AdapterResult } from "../adapter";
+import { loadSupportCache, type ProbeRunner, resolveSupport, supportKey } from "./index";
+
+const TEST_DIR = join(import.meta.dirname, "__test_support__");
+const CACHE = join(TEST_DIR, "support.json");
+
+const SCENARIOS = ["unit/tags/for", "unit/tags/extends", "unit/filters/sum"];
+
+/**
+ * Fake adapter: extends is an unknown tag, sum crashes, everything else works.
+ * Records the templates it was asked to run.
+ */
+function fakeRunner(calls: string[]): ProbeRunner {
+  return (input: AdapterInput): Promise<AdapterResult> => {
+    calls.push(input.template);
+    if (input.template.includes("{% extends")) {
+      return Promise.reject(new Error("Adapter job failed: SyntaxError: Unknown tag 'extends'"));
+    }
+    if (input.template.includes("| sum")) {
+      return Promise.reject(new Error("Adapter exited with code 139"));
+    }
+    return Promise.resolve({
+      output: {
+        library: "fake",
+        version: "1.0.0",
+        lang: "javascript",
+        timings: { parse_ms: [1], render_ms: [1] },
+      },
+      executionTimeMs: 1,
+    });
+  };
+}
+
+describe("resolveSupport", () => {
+  beforeAll(() => {
+    mkdirSync(TEST_DIR, { recursive: true });
+  });
+
+  afterAll(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  test("probes and classifies each scenario", async () => {
+    const calls: string[] = [];
+    const { scenarios, probed } = await resolveSupport({
+      adapter: "fake",
+      version: "1.0.0",
+      scenarios: SCENARIOS,
+      run: fakeRunner(calls),
+      cachePath: CACHE,
+    });
+
+    expect(probed).toEqual(SCENARIOS);
+    expect(calls).toHaveLength(3);
+    expect(scenarios["unit/tags/for"]?.status).toBe("supported");
+    expect(scenarios["unit/tags/extends"]).toMatchObject({
+      status: "unsupported",
+      feature: "tag:extends",
+    });
+    expect(scenarios["unit/filters/sum"]?.status).toBe("error");
+  });
+
+  test("caches results per version but retries errors", async () => {
+    const cache = await loadSupportCache(CACHE);
+    const entry = cache[supportKey("fake", "1.0.0")];
+    expect(Object.keys(entry?.scenarios ?? {}).sort()).toEqual([
+      "unit/tags/extends",
+      "unit/tags/for",
+    ]);
+
+    const calls: string[] = [];
+    const { probed } = await resolveSupport({
+      adapter: "fake",
+      version: "1.0.0",
+      scenarios: SCENARIOS,
+      run: fakeRunner(calls),
+      cachePath: CACHE,
+    });
+    expect(probed).toEqual(["unit/filters/sum"]);
+  });
+
+  test("a new version is probed from scratch", async () => {
+    const calls: string[] = [];
+    const { probed } = await resolveSupport({
+      adapter: "fake",
+      version: "1.1.0",
+      scenarios: SCENARIOS,
+      run: fakeRunner(calls),
+      cachePath: CACHE,
+    });
+
+    expect(probed).toEqual(SCENARIOS);
+  });
+
+  test("reprobe ignores the cache", async () => {
+    const calls: string[] = [];
+    const { probed } = await resolveSupport({
+      adapter: "fake",
+      version: "1.0.0",
+      scenarios: ["unit/tags/for"],
+      run: fakeRunner(calls),
+      cachePath: CACHE,
+      reprobe: true,
+    });
+
+    expect(probed).toEqual(["unit/tags/for"]);
+    // Other cached scenarios are kept
+    const cache = await loadSupportCache(CACHE);
+    expect(cache[supportKey("fake", "1.0.0")]?.scenarios["unit/tags/extends"]).toBeDefined();
+  });
+});
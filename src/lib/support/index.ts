@@ -0,0 +1,115 @@
+/**
+ * Support Module
+ *
+ * Detects which scenarios each adapter supports by running them once
+ * (probe) and caches the resulting matrix per library version.
+ *
+ * excludeScenarios in leb.config.json remains as a manual override for
+ * cases the probe cannot detect (e.g., filters that are silently ignored).
+ */
+
+import { type BenchmarkData, loadData } from "../../db";
+import type { Scale } from "../../types";
+import { loadScenario } from "../scenario";
+import { DEFAULT_SUPPORT_CACHE, loadSupportCache, saveSupportCache, supportKey } from "./cache";
+import { type ProbeRunner, probeScenario, type ScenarioSupport } from "./probe";
+
+// Re-export types and utilities
+export {
+  type AdapterSupport,
+  DEFAULT_SUPPORT_CACHE,
+  loadSupportCache,
+  SUPPORT_CACHE_ENV_VAR,
+  type SupportCache,
+  saveSupportCache,
+  supportKey,
+} from "./cache";
+export {
+  classifyFailure,
+  PROBE_TIMEOUT_MS,
+  type ProbeRunner,
+  probeScenario,
+  type ScenarioSupport,
+  type SupportStatus,
+} from "./probe";
+
+/**
+ * Data scale used for probing. Support does not depend on data size.
+ */
+const PROBE_SCALE: Scale = "small";
+
+/**
+ * Options for resolveSupport.
+ */
+export interface ResolveSupportOptions {
+  /** Adapter name */
+  adapter: string;
+  /** Library version (cache key) */
+  version: string;
+  /** Scenario paths to resolve */
+  scenarios: string[];
+  /** Executes probe jobs on the adapter */
+  run: ProbeRunner;
+  /** Ignore cached results and probe every scenario again */
+  reprobe?: boolean;
+  /** Cache file path */
+  cachePath?: string;
+}
+
+/**
+ * Result of resolveSupport.
+ */
+export interface ResolvedSupport {
+  /** Support status by scenario path (requested scenarios only) */
+  scenarios: Record<string, ScenarioSupport>;
+  /** Scenario paths that were probed in this call (rest came from cache) */
+  probed: string[];
+}
+
+/**
+ * Resolve support for scenarios, probing only those not cached yet.
+ *
+ * Supported and unsupported outcomes are cached. Errors are not, so a
+ * crash caused by a broken environment is retried on the next run.
+ *
+ * @returns Support status for each requested scenario
+ */
+export async function resolveSupport(options: ResolveSupportOptions): Promise<ResolvedSupport> {
+  const cachePath = options.cachePath ?? DEFAULT_SUPPORT_CACHE;
+  const key = supportKey(options.adapter, options.version);
+
+  const cache = await loadSupportCache(cachePath);
+  const cached = options.reprobe ? undefined : cache[key];
+
+  const scenarios: Record<string, ScenarioSupport> = {};
+  const probed: string[] = [];
+  let data: BenchmarkData | undefined;
+
+  for (const path of options.scenarios) {
+    const hit = cached?.scenarios[path];
+    if (hit) {
+      scenarios[path] = hit;
+      continue;
+    }
+
+    data ??= loadData(PROBE_SCALE);
+    scenarios[path] = await probeScenario(options.run, await loadScenario(path), data);
+    probed.push(path);
+  }
+
+  if (probed.length > 0) {
+    // Keep cached results for scenarios outside this call; errors are dropped
+    const merged = { ...cache[key]?.scenarios, ...scenarios };
+    cache[key] = {
+      adapter: options.adapter,
+      version: options.version,
+      probed_at: new Date().toISOString(),
+      scenarios: Object.fromEntries(
+        Object.entries(merged).filter(([, result]) => result.status !== "error")
+      ),
+    };
+    await saveSupportCache(cache, cachePath);
+  }
+
+  return { scenarios, probed };
+}
@@ -0,0 +1,77 @@
+/**
+ * Unit tests for the feature support probe
+ */
+
+import { describe, expect, test } from "bun:test";
+import { AdapterError } from "../adapter";
+import { classifyFailure, probeScenario } from "./probe";
+
+describe("classifyFailure", () => {
+  const unsupported: [string, string, string][] = [
+    ["shopify", "Liquid::SyntaxError: Liquid syntax error: Unknown tag 'extends'", "tag:extends"],
+    [
+      "keepsuit",
+      "Keepsuit\\Liquid\\Exceptions\\SyntaxException: Unknown tag 'liquid'",
+      "tag:liquid",
+    ],
+    ["reference", "LiquidSyntaxError: Unknown filter 'sum'", "filter:sum"],
+    ["strict filters", "Liquid error: undefined filter find", "filter:find"],
+  ];
+
+  for (const [name, message, feature] of unsupported) {
+    test(`detects ${name} wording`, () => {
+      const result = classifyFailure(new AdapterError(`Adapter job failed: ${message}`, "x"));
+      expect(result).toMatchObject({ status: "unsupported", feature });
+    });
+  }
+
+  test("searches stderr of a crashed one-shot process", () => {
+    const error = new AdapterError("Adapter exited with code 1", "x", 1, "Unknown tag 'render'");
+    expect(classifyFailure(error)).toMatchObject({ status: "unsupported", feature: "tag:render" });
+  });
+
+  test("reports crashes and timeouts as errors", () => {
+    expect(classifyFailure(new AdapterError("Adapter exited with code 139: ", "x", 139))).toEqual({
+      status: "error",
+      message: "Adapter exited with code 139:",
+    });
+    expect(classifyFailure(new AdapterError("Adapter timed out after 30000ms", "x")).status).toBe(
+      "error"
+    );
+  });
+});
+
+describe("probeScenario", () => {
+  test("runs one iteration without warmup", async () => {
+    let seen: unknown;
+    const result = await probeScenario(
+      (input) => {
+        seen = input;
+        return Promise.resolve({
+          output: {
+            library: "x",
+            version: "1.0.0",
+            lang: "javascript",
+            timings: { parse_ms: [1], render_ms: [1] },
+          },
+          executionTimeMs: 1,
+        });
+      },
+      "{{ a }}",
+      { a: 1 }
+    );
+
+    expect(result).toEqual({ status: "supported" });
+    expect(seen).toEqual({ template: "{{ a }}", data: { a: 1 }, iterations: 1, warmup: 0 });
+  });
+
+  test("classifies a failed run", async () => {
+    const result = await probeScenario(
+      () => Promise.reject(new Error("Unknown tag 'extends'")),
+      "{% extends 'x' %}",
+      {}
+    );
+
+    expect(result.status).toBe("unsupported");
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Feature Support Probe
+ *
+ * Runs a scenario once on an adapter and classifies the outcome.
+ * A parse error naming an unknown tag or filter means the library does not
+ * implement that feature; any other failure (crash, timeout, runtime error)
+ * is reported as an error so real bugs are not hidden as "unsupported".
+ */
+
+import type { AdapterInput } from "../../types";
+import type { AdapterResult } from "../adapter";
+
+/**
+ * Probe outcome for one scenario.
+ * - supported: ran successfully
+ * - unsupported: failed on an unknown tag or filter
+ * - error: failed for any other reason
+ */
+export type SupportStatus = "supported" | "unsupported" | "error";
+
+/**
+ * Probe result for one adapter × scenario pair.
+ */
+export interface ScenarioSupport {
+  status: SupportStatus;
+  /** Missing feature for unsupported scenarios (e.g., "tag:extends", "filter:sum") */
+  feature?: string;
+  /** First line of the failure message */
+  message?: string;
+}
+
+/**
+ * Executes one probe job (worker or fresh process).
+ */
+export type ProbeRunner = (input: AdapterInput, timeoutMs: number) => Promise<AdapterResult>;
+
+/**
+ * Timeout for a single probe run (milliseconds).
+ * A probe is one iteration, so anything slower is treated as an error.
+ */
+export const PROBE_TIMEOUT_MS = 30_000;
+
+/**
+ * Error patterns that mean "feature not implemented".
+ * Covers the wording of shopify/liquid, keepsuit/liquid, liquid/liquid
+ * and the reference adapter.
+ */
+const UNSUPPORTED_PATTERNS: { pattern: RegExp; kind: "tag" | "filter" }[] = [
+  { pattern: /unknown tag\s+['"]?([\w-]+)/i, kind: "tag" },
+  { pattern: /unknown filter\s+['"]?([\w-]+)/i, kind: "filter" },
+  { pattern: /undefined filter:?\s+['"]?([\w-]+)/i, kind: "filter" },
+];
+
+/**
+ * Classify a failed probe run.
+ * Searches the error message and the adapter's stderr.
+ */
+export function classifyFailure(error: unknown): ScenarioSupport {
+  const message = error instanceof Error ? error.message : String(error);
+  const stderr =
+    typeof error === "object" && error !== null && "stderr" in error
+      ? String((error as { stderr: unknown }).stderr ?? "")
+      : "";
+  const text = `${message}\n${stderr}`;
+  const firstLine = message.split("\n")[0]?.trim() ?? "";
+
+  for (const { pattern, kind } of UNSUPPORTED_PATTERNS) {
+    const name = text.match(pattern)?.[1];
+    if (name) {
+      return { status: "unsupported", feature: `${kind}:${name}`, message: firstLine };
+    }
+  }
+
+  return { status: "error", message: firstLine };
+}
+
+/**
+ * Run a template once and classify the outcome.
+ *
+ * @param run Executes the job on the adapter
+ * @param template Scenario template source
+ * @param data Template variables
+ */
+export async function probeScenario(
+  run: ProbeRunner,
+  template: string,
+  data: Record<string, unknown>
+): Promise<ScenarioSupport> {
+  try {
+    await run({ template, data, iterations: 1, warmup: 0 }, PROBE_TIMEOUT_MS);
+    return { status: "supported" };
+  } catch (e) {
+    return classifyFailure(e);
+  }
+}
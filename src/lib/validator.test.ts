@@ -93,7 +93,7 @@ describe("validateAdapterInput", () => {
     const input = {
       template: "{{ name }}",
       data: {},
-      iterations: 10001,
+      iterations: 1000001,
       warmup: 10,
     };
 
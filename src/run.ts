@@ -14,9 +14,10 @@
  *   list      List adapters or scenarios
  *   prepare   Seed benchmark database
  *   setup     Prepare environment (dependencies + database)
+ *   support   Show tag/filter support matrix
  */
 
-import { bench, list, prepare, setup } from "./cli";
+import { bench, list, prepare, setup, support } from "./cli";
 
 /**
  * Command registry maps command names to their handler functions.
@@ -26,6 +27,7 @@ const COMMANDS = {
   list: list.run,
   prepare: prepare.run,
   setup: setup.run,
+  support: support.run,
 } as const;
 
 type Command = keyof typeof COMMANDS;
@@ -46,6 +48,7 @@ Commands:
   list      List adapters or scenarios
   prepare   Seed benchmark database
   setup     Prepare environment (dependencies + database)
+  support   Show tag/filter support matrix
 
 Examples:
   # Full setup (generates files + seeds database)
@@ -64,6 +67,9 @@ Examples:
   leb list adapters
   leb list scenarios -c unit/tags
 
+  # Which adapters support which tags and filters
+  leb support -f markdown
+
 Run 'leb <command> --help' for command-specific help.
 `);
 }
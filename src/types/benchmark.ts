@@ -5,8 +5,8 @@
  * These types are the Single Source of Truth for JSON Schema generation.
  */
 
-import type { Lang, Scale } from "./constants";
-import type { SemVer, TimingMetrics } from "./schema";
+import type { Lang, RuntimeName, Scale } from "./constants";
+import type { ColdStartMetrics, MemoryMetrics, SemVer, TimingMetrics } from "./schema";
 
 // Re-export SemVer for convenience
 export type { SemVer } from "./schema";
@@ -40,10 +40,58 @@ export type LibraryName = string;
 export interface BaselineConfig {
   /** Library name (must match a name in libraries) */
   library: string;
-  /** Version to use as baseline */
+  /** Version to use as baseline (version or one of versions of the library) */
   version: SemVer;
 }
 
+/**
+ * Named runtime variant of a library (e.g., with and without a JIT).
+ * Registered as a separate adapter that shares the library's package,
+ * script and excluded scenarios.
+ */
+export interface LibraryVariant {
+  /**
+   * Adapter name for this variant (e.g., "shopify+yjit", "shopify-nojit")
+   * @pattern ^[a-z][a-z0-9+-]*$
+   */
+  name: string;
+  /** Extra runtime arguments inserted before the script path */
+  args?: string[];
+  /**
+   * Command template replacing the library's command.
+   * "{script}" is replaced with the absolute script path.
+   * @minItems 1
+   */
+  command?: string[];
+  /** Environment variables merged over the library's env */
+  env?: Record<string, string>;
+}
+
+/**
+ * Local package source for a library version.
+ * - path: package source checkout (Composer "path" repository, Bundler "path:" gem)
+ * - cache: directory of package archives (Composer "artifact" repository,
+ *   Bundler cache path installed with --local)
+ */
+export interface LibraryRepository {
+  /** Repository type */
+  type: "path" | "cache";
+  /** Directory, absolute or relative to project root */
+  url: string;
+}
+
+/**
+ * Additional version of a library benchmarked next to its main version.
+ * Registered as a separate adapter named "{name}@{version}" whose
+ * dependencies are installed into .generated/deps/{name}@{version}/.
+ */
+export interface LibraryVersion {
+  /** Library version to install */
+  version: SemVer;
+  /** Install from a local repository instead of the package registry */
+  repository?: LibraryRepository;
+}
+
 /**
  * Library configuration for benchmarking.
  * Defines a target library with its package info and version to test.
@@ -59,6 +107,46 @@ export interface LibraryConfig {
   version: SemVer;
   /** Scenarios to exclude (not supported by this library) */
   excludeScenarios?: string[];
+  /** Runtime that executes the adapter (defaults to lang when it is a runtime) */
+  runtime?: RuntimeName;
+  /** Adapter script path relative to project root (default: src/adapters/{lang}/{name}.{ext}) */
+  script?: string;
+  /**
+   * Command template for the adapter process.
+   * "{script}" is replaced with the absolute script path (default depends on runtime).
+   * @minItems 1
+   */
+  command?: string[];
+  /** Extra environment variables for the adapter process */
+  env?: Record<string, string>;
+  /** Runtime variants benchmarked as additional adapters */
+  variants?: LibraryVariant[];
+  /** Other versions benchmarked as additional adapters (e.g., for upgrade impact) */
+  versions?: LibraryVersion[];
+  /**
+   * Base adapter timeout in milliseconds, replacing timeouts.default
+   * @minimum 1
+   */
+  timeout?: number;
+}
+
+/**
+ * Adapter timeout settings.
+ *
+ * The limit for one job is --timeout when given. Otherwise it is the most
+ * specific scenario override, the library's timeout or the default, in that
+ * order, multiplied by the factor for the data scale.
+ */
+export interface TimeoutConfig {
+  /**
+   * Base timeout in milliseconds (default: 300000)
+   * @minimum 1
+   */
+  default?: number;
+  /** Base timeout by scenario path or category prefix (e.g., "unit": 30000); longest match wins */
+  scenarios?: Record<string, number>;
+  /** Timeout multiplier by data scale (e.g., "2xl": 4) */
+  scales?: Partial<Record<Scale, number>>;
 }
 
 /**
@@ -74,6 +162,8 @@ export interface LebConfig {
   baseline: BaselineConfig;
   /** Target libraries to benchmark */
   libraries: LibraryConfig[];
+  /** Adapter timeout settings */
+  timeouts?: TimeoutConfig;
 }
 
 // ============================================================================
@@ -92,6 +182,10 @@ export interface BenchmarkEntry {
   lang: Lang;
   /** Timing measurements */
   timings: TimingMetrics;
+  /** Memory measurements (when the adapter or runner provides them) */
+  memory?: MemoryMetrics;
+  /** Cold-start measurements (when requested) */
+  cold_start?: ColdStartMetrics;
   /** Performance ratio compared to baseline (1.0 = same as baseline) */
   baseline_ratio?: number;
 }
@@ -167,4 +261,10 @@ export interface RunResult {
   adapter: RunAdapter;
   /** Calculated metrics */
   metrics: TimingMetrics;
+  /** Calculated memory metrics */
+  memory?: MemoryMetrics;
+  /** Calculated cold-start metrics */
+  cold_start?: ColdStartMetrics;
+  /** Timer overhead calibrated by the adapter (milliseconds) */
+  timer_overhead_ms?: number;
 }
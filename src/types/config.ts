@@ -5,17 +5,29 @@
  * Used by adapter-runner.ts and run.ts.
  */
 
-import type { AdapterName, Lang, Scale } from "./constants";
+import type { Lang, RuntimeName, Scale } from "./constants";
+
+/**
+ * Benchmark adapter name.
+ * Adapters are declared in leb.config.json, so any library name is valid
+ * at the type level; use adapterExists() to check against the registry.
+ */
+export type AdapterName = string;
 
 /**
  * Adapter configuration.
  * Defines how to execute a benchmark adapter subprocess.
+ * Resolved from a LibraryConfig entry by the adapter registry.
  */
 export interface AdapterConfig {
   /** Adapter name */
   name: AdapterName;
   /** Programming language */
   lang: Lang;
+  /** Runtime that executes the adapter script (used by environment checks) */
+  runtime?: RuntimeName;
+  /** Absolute path to the adapter script */
+  script?: string;
   /** Execution command */
   command: string[];
   /** Environment variables (optional) */
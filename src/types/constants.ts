@@ -29,17 +29,11 @@ type ArrayElement<T extends readonly unknown[]> = T extends readonly (infer E)[]
  */
 export const LANGS = ["php", "ruby", "go", "rust", "javascript"] as const;
 
-/**
- * Benchmark adapter names as const tuple.
- * This is the runtime and compile-time source of truth for adapter names.
- */
-export const ADAPTER_NAMES = ["keepsuit", "kalimatas", "shopify"] as const;
-
 /**
  * Supported runtime environments as const tuple.
- * Subset of LANGS that have implemented adapters.
+ * Runtimes that can execute adapters ("bun" runs JavaScript adapters).
  */
-export const RUNTIME_NAMES = ["php", "ruby"] as const;
+export const RUNTIME_NAMES = ["php", "ruby", "bun"] as const;
 
 /**
  * Data scales as const tuple.
@@ -47,6 +41,25 @@ export const RUNTIME_NAMES = ["php", "ruby"] as const;
  */
 export const SCALES = ["small", "medium", "large", "2xl"] as const;
 
+/**
+ * Adapter capabilities as const tuple.
+ * Features an adapter announces in the protocol handshake:
+ * - memory: reports per-phase peak memory
+ * - progress: streams progress records (honors progress_interval)
+ * - worker_mode: serves many jobs per process (LEB_WORKER=1)
+ * - cold_start: reports boot timestamps (honors cold_start)
+ * - batching: times batches of calls per sample (honors batch_size)
+ * - time_budget: stops measuring when its time is up (honors time_budget_ms)
+ */
+export const CAPABILITIES = [
+  "memory",
+  "progress",
+  "worker_mode",
+  "cold_start",
+  "batching",
+  "time_budget",
+] as const;
+
 // ============================================================================
 // Derived Types (from const tuples)
 // ============================================================================
@@ -57,12 +70,6 @@ export const SCALES = ["small", "medium", "large", "2xl"] as const;
  */
 export type Lang = ArrayElement<typeof LANGS>;
 
-/**
- * Benchmark adapter names.
- * Derived from ADAPTER_NAMES const tuple using ArrayElement.
- */
-export type AdapterName = ArrayElement<typeof ADAPTER_NAMES>;
-
 /**
  * Data scale for benchmark datasets.
  * Derived from SCALES const tuple using ArrayElement.
@@ -75,6 +82,12 @@ export type Scale = ArrayElement<typeof SCALES>;
  */
 export type RuntimeName = ArrayElement<typeof RUNTIME_NAMES>;
 
+/**
+ * Adapter capability.
+ * Derived from CAPABILITIES const tuple using ArrayElement.
+ */
+export type Capability = ArrayElement<typeof CAPABILITIES>;
+
 // ============================================================================
 // Type Guards (for runtime validation)
 // ============================================================================
@@ -88,11 +101,11 @@ export function isLang(value: string): value is Lang {
 }
 
 /**
- * Type guard for AdapterName.
- * Validates that a string is a valid adapter name.
+ * Type guard for RuntimeName.
+ * Validates that a string is a supported runtime.
  */
-export function isAdapterName(value: string): value is AdapterName {
-  return (ADAPTER_NAMES as readonly string[]).includes(value);
+export function isRuntimeName(value: string): value is RuntimeName {
+  return (RUNTIME_NAMES as readonly string[]).includes(value);
 }
 
 /**
@@ -102,3 +115,11 @@ export function isAdapterName(value: string): value is AdapterName {
 export function isScale(value: string): value is Scale {
   return (SCALES as readonly string[]).includes(value);
 }
+
+/**
+ * Type guard for Capability.
+ * Validates that a string is a capability known to the harness.
+ */
+export function isCapability(value: string): value is Capability {
+  return (CAPABILITIES as readonly string[]).includes(value);
+}
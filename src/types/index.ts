@@ -15,20 +15,25 @@ export type {
   LebConfig,
   LibraryConfig,
   LibraryName,
+  LibraryRepository,
+  LibraryVariant,
+  LibraryVersion,
   RunAdapter,
   RunMetadata,
   RunResult,
   RuntimeVersion,
+  TimeoutConfig,
 } from "./benchmark";
 
 // Configuration types
-export type { AdapterConfig, RunOptions } from "./config";
+export type { AdapterConfig, AdapterName, RunOptions } from "./config";
 // Constants and type guards
 export {
-  ADAPTER_NAMES,
-  type AdapterName,
-  isAdapterName,
+  CAPABILITIES,
+  type Capability,
+  isCapability,
   isLang,
+  isRuntimeName,
   isScale,
   LANGS,
   type Lang,
@@ -39,11 +44,31 @@ export {
 } from "./constants";
 // Adapter I/O types
 export type {
+  AdapterHandshake,
   AdapterInput,
   AdapterOutput,
+  AdapterProgress,
+  BootTimestamps,
+  ColdStartMetrics,
+  ConfidenceInterval,
+  EffectSize,
+  ForkMetrics,
+  GroupScore,
+  Histogram,
+  HistogramBucket,
+  MannWhitneyResult,
+  MemoryMeasure,
+  MemoryMetrics,
+  MemoryPhaseMetrics,
+  MemoryValue,
   PhaseMetrics,
+  RawMemory,
   RawTimings,
+  SampleComparison,
+  ScoreSummary,
   SemVer,
+  ThroughputMetrics,
   TimingMetrics,
   TimingValue,
+  WelchResult,
 } from "./schema";
@@ -7,7 +7,7 @@
  * JSDoc annotations are used for JSON Schema generation constraints.
  */
 
-import type { Lang } from "./constants";
+import type { Capability, Lang } from "./constants";
 
 // ============================================================================
 // Adapter I/O Types (adapter-input.schema.json, adapter-output.schema.json)
@@ -26,9 +26,9 @@ export interface AdapterInput {
   /** Template variables passed to render() */
   data: Record<string, unknown>;
   /**
-   * Number of measurement iterations
+   * Number of measurement iterations (timing samples)
    * @minimum 1
-   * @maximum 10000
+   * @maximum 1000000
    */
   iterations: number;
   /**
@@ -37,11 +37,43 @@ export interface AdapterInput {
    * @maximum 1000
    */
   warmup: number;
+  /**
+   * Protocol version negotiated in the handshake (absent for legacy adapters)
+   * @minimum 1
+   */
+  protocol_version?: number;
+  /**
+   * Emit a progress record after warmup and after every N measured
+   * iterations (0 or absent: no progress records)
+   * @minimum 0
+   */
+  progress_interval?: number;
+  /**
+   * Consecutive calls timed together per sample (absent: 1). Each sample
+   * reports the per-call value, so sub-microsecond phases are not lost
+   * in clock resolution and timer overhead.
+   * @minimum 1
+   * @maximum 100000
+   */
+  batch_size?: number;
+  /**
+   * Stop measuring once this much time has been spent on measured
+   * iterations, after at least one (absent: run all iterations).
+   * Adaptive runs use it so a single job cannot overrun the time budget.
+   * @minimum 1
+   */
+  time_budget_ms?: number;
+  /**
+   * Report boot timestamps in the output (cold-start jobs, sent to a
+   * freshly spawned process only)
+   */
+  cold_start?: boolean;
 }
 
 /**
  * Raw timing measurements.
  * Holds timing values for each iteration as arrays.
+ * With batch_size, each value is the per-call time of one batch.
  */
 export interface RawTimings {
   /**
@@ -62,6 +94,57 @@ export interface RawTimings {
  */
 export type TimingValue = number;
 
+/**
+ * What an adapter's phase memory values measure.
+ * - peak: highest memory in use during the phase
+ * - live: memory still in use when the phase ends (runtimes without a peak counter)
+ */
+export type MemoryMeasure = "peak" | "live";
+
+/**
+ * Raw memory measurements.
+ * Holds the memory of each phase for each iteration as arrays.
+ * How each runtime measures it is described in src/adapters/README.md.
+ */
+export interface RawMemory {
+  /**
+   * Memory during parse for each iteration (bytes)
+   * @minItems 1
+   */
+  parse_peak_bytes: MemoryValue[];
+  /**
+   * Memory during render for each iteration (bytes)
+   * @minItems 1
+   */
+  render_peak_bytes: MemoryValue[];
+  /** What the values measure (default: peak) */
+  measure?: MemoryMeasure;
+}
+
+/**
+ * Memory value in bytes.
+ * @minimum 0
+ */
+export type MemoryValue = number;
+
+/**
+ * Boot timestamps of an adapter process.
+ * Unix epoch milliseconds (fractional), so the harness can relate them to
+ * the moment it spawned the process.
+ */
+export interface BootTimestamps {
+  /**
+   * Interpreter up: the bootstrap started executing
+   * @minimum 0
+   */
+  interpreter_at_ms: number;
+  /**
+   * Library loaded: the adapter script finished its setup and entered serve()
+   * @minimum 0
+   */
+  library_at_ms: number;
+}
+
 /**
  * Semantic version string (e.g., "1.2.3").
  * @pattern ^[0-9]+\.[0-9]+\.[0-9]+$
@@ -86,6 +169,16 @@ export interface AdapterOutput {
   runtime_version?: string;
   /** Raw timing measurements */
   timings: RawTimings;
+  /** Raw per-phase memory measurements (optional, runtime-specific) */
+  memory?: RawMemory;
+  /** Boot timestamps (cold-start jobs only) */
+  boot?: BootTimestamps;
+  /**
+   * Median time of an empty timing call, calibrated once at adapter startup
+   * (milliseconds). Every sample includes it once.
+   * @minimum 0
+   */
+  timer_overhead_ms?: number;
   /**
    * Rendered template output.
    * Used for snapshot testing to verify output consistency across implementations.
@@ -93,6 +186,39 @@ export interface AdapterOutput {
   rendered_output?: string;
 }
 
+/**
+ * Progress record streamed by adapters before the final output.
+ * Written to stdout as one line: {"progress": AdapterProgress}.
+ * Timings and memory hold only the iterations completed since the
+ * previous record, so the harness can salvage them if the job dies.
+ */
+export interface AdapterProgress {
+  /** Measured iterations completed so far (0 right after warmup) */
+  completed: number;
+  /** Measured iterations requested */
+  total: number;
+  /** Timings of the iterations since the previous record */
+  timings?: RawTimings;
+  /** Memory of the iterations since the previous record */
+  memory?: RawMemory;
+}
+
+/**
+ * Protocol handshake.
+ * The harness sends {"handshake": AdapterHandshake} with its own protocol
+ * version and known capabilities; the adapter answers in the same shape
+ * with the version it speaks and the capabilities it implements.
+ */
+export interface AdapterHandshake {
+  /**
+   * Protocol version
+   * @minimum 1
+   */
+  protocol_version: number;
+  /** Implemented (adapter) or known (harness) capabilities */
+  capabilities: Capability[];
+}
+
 // ============================================================================
 // Result Types (result.schema.json)
 // ============================================================================
@@ -106,12 +232,127 @@ export interface PhaseMetrics {
   mean_ms: number;
   /** Standard deviation (milliseconds) */
   stddev_ms: number;
+  /**
+   * Coefficient of variation: stddev / mean
+   * @minimum 0
+   */
+  cv: number;
   /** Minimum value (milliseconds) */
   min_ms: number;
   /** Maximum value (milliseconds) */
   max_ms: number;
   /** Median value (milliseconds) */
   median_ms: number;
+  /** Percentiles keyed by name, e.g., { "p95": 1.2 } (milliseconds) */
+  percentiles?: Record<string, number>;
+  /** Bootstrap confidence interval of the mean (milliseconds) */
+  mean_ci?: ConfidenceInterval;
+  /** Bootstrap confidence interval of the median (milliseconds) */
+  median_ci?: ConfidenceInterval;
+  /** Set when the samples are too short for the adapter's timer to resolve */
+  below_resolution?: boolean;
+  /** Set when the coefficient of variation exceeds the noise threshold */
+  noisy?: boolean;
+  /**
+   * Samples outside the Tukey fences
+   * @minimum 0
+   */
+  outliers?: number;
+  /**
+   * Samples dropped before computing the statistics (--outliers trim)
+   * @minimum 0
+   */
+  excluded?: number;
+}
+
+/**
+ * Distribution of samples in equal-width buckets, in the samples' unit.
+ */
+export interface Histogram {
+  /** Buckets in ascending order, covering the minimum to the maximum */
+  buckets: HistogramBucket[];
+}
+
+/**
+ * Samples in [lower, upper) (the last bucket includes its upper bound).
+ */
+export interface HistogramBucket {
+  /** Lower bound */
+  lower: number;
+  /** Upper bound */
+  upper: number;
+  /**
+   * Samples in the bucket
+   * @minimum 0
+   */
+  count: number;
+}
+
+/**
+ * Confidence interval of a statistic, in the statistic's unit.
+ * The confidence level is recorded in the run metadata.
+ */
+export interface ConfidenceInterval {
+  /** Lower bound */
+  lower: number;
+  /** Upper bound */
+  upper: number;
+}
+
+/**
+ * Result of a two-sided Mann-Whitney U test.
+ */
+export interface MannWhitneyResult {
+  /** U statistic of the compared sample */
+  u: number;
+  /**
+   * p-value (normal approximation with tie and continuity correction)
+   * @minimum 0
+   * @maximum 1
+   */
+  p_value: number;
+}
+
+/**
+ * Result of a two-sided Welch's t-test.
+ */
+export interface WelchResult {
+  /** t statistic (null when both samples are constant and differ) */
+  t: number | null;
+  /** Welch–Satterthwaite degrees of freedom */
+  df: number;
+  /**
+   * p-value
+   * @minimum 0
+   * @maximum 1
+   */
+  p_value: number;
+}
+
+/**
+ * Conventional magnitude of Cliff's delta.
+ */
+export type EffectSize = "negligible" | "small" | "medium" | "large";
+
+/**
+ * Significance of the difference between two sets of total-time samples
+ * (an adapter vs the baseline adapter, or a run vs an earlier run).
+ */
+export interface SampleComparison {
+  /** Mann-Whitney U test; decides significance */
+  mann_whitney: MannWhitneyResult;
+  /** Welch's t-test on the means */
+  welch: WelchResult;
+  /**
+   * Cliff's delta: P(compared > reference) − P(compared < reference)
+   * @minimum -1
+   * @maximum 1
+   */
+  cliffs_delta: number;
+  /** Magnitude of cliffs_delta */
+  effect: EffectSize;
+  /** Mann-Whitney p-value below the significance level (0.05) */
+  significant: boolean;
 }
 
 /**
@@ -123,3 +364,123 @@ export interface TimingMetrics {
   render: PhaseMetrics;
   total: PhaseMetrics;
 }
+
+/**
+ * Variation between processes of a benchmark run in several forks.
+ * Variances split with one-way random-effects ANOVA on total time.
+ */
+export interface ForkMetrics {
+  /**
+   * Processes run
+   * @minimum 2
+   */
+  count: number;
+  /** Timing metrics of each fork (without confidence intervals) */
+  runs: TimingMetrics[];
+  /** Pooled standard deviation of total time within a fork (milliseconds) */
+  within_stddev_ms: number;
+  /** Standard deviation of the mean total time between forks, beyond within-fork noise (milliseconds) */
+  between_stddev_ms: number;
+  /**
+   * Share of total-time variance between forks (intraclass correlation)
+   * @minimum 0
+   * @maximum 1
+   */
+  between_share: number;
+}
+
+/**
+ * Throughput derived from mean times (0 when the mean time is 0).
+ */
+export interface ThroughputMetrics {
+  /** Parses per second */
+  parse_ops_per_sec: number;
+  /** Renders per second */
+  render_ops_per_sec: number;
+  /** Parse and render cycles per second */
+  total_ops_per_sec: number;
+  /** Rendered output bytes per second of render time (when the output is known) */
+  output_bytes_per_sec?: number;
+}
+
+/**
+ * Cold-start metrics after statistical calculation.
+ * Corresponds to result.schema.json#/definitions/coldStartMetrics.
+ * Each phase is measured once per fresh process:
+ * spawn → interpreter up → library loaded → first parse → first render.
+ */
+export interface ColdStartMetrics {
+  /** Fresh processes measured */
+  runs: number;
+  /** Spawn to interpreter up */
+  boot: PhaseMetrics;
+  /** Interpreter up to library loaded */
+  load: PhaseMetrics;
+  /** First parse of the template */
+  first_parse: PhaseMetrics;
+  /** First render of the template */
+  first_render: PhaseMetrics;
+  /** Sum of the four phases */
+  total: PhaseMetrics;
+}
+
+/**
+ * Memory phase metrics after statistical calculation.
+ * Corresponds to result.schema.json#/definitions/memoryPhaseMetrics.
+ */
+export interface MemoryPhaseMetrics {
+  /** Mean value (bytes) */
+  mean_bytes: number;
+  /** Standard deviation (bytes) */
+  stddev_bytes: number;
+  /** Minimum value (bytes) */
+  min_bytes: number;
+  /** Maximum value (bytes) */
+  max_bytes: number;
+  /** Median value (bytes) */
+  median_bytes: number;
+}
+
+/**
+ * Memory metrics after statistical calculation.
+ * Corresponds to result.schema.json#/definitions/memoryMetrics.
+ * Phase metrics come from the adapter, process RSS from the runner.
+ */
+export interface MemoryMetrics {
+  /** Memory during parse (adapter-reported) */
+  parse?: MemoryPhaseMetrics;
+  /** Memory during render (adapter-reported) */
+  render?: MemoryPhaseMetrics;
+  /** What parse and render measure (default: peak) */
+  measure?: MemoryMeasure;
+  /**
+   * Peak resident set size of the adapter process during the job (bytes).
+   * In fresh-process mode this includes interpreter boot and library loading.
+   */
+  peak_rss_bytes?: number;
+}
+
+/**
+ * Geometric-mean scores of a group of scenarios.
+ */
+export interface GroupScore {
+  /** Scenarios in the group every compared adapter completed */
+  scenarios: number;
+  /** Geometric mean of each adapter's ratios to the baseline (1 for the baseline, 0 without scenarios) */
+  scores: Record<string, number>;
+}
+
+/**
+ * Overall verdict of an all-mode run: geometric mean of each adapter's
+ * ratios to the baseline over the scenarios every compared adapter completed.
+ */
+export interface ScoreSummary {
+  /** Adapter the ratios are relative to */
+  baseline: string;
+  /** Scores over all common scenarios */
+  overall: GroupScore;
+  /** Scores per scenario category (e.g., unit/tags), for categories with common scenarios */
+  categories: Record<string, GroupScore>;
+  /** Scenarios left out because at least one adapter has no result for them */
+  excluded: string[];
+}
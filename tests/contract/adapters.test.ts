@@ -12,8 +12,8 @@
 
 import { beforeAll, describe, expect, test } from "bun:test";
 import {
-  ADAPTERS,
   AdapterError,
+  getAdapterConfig,
   isValidAdapterOutput,
   listAdapters,
   runAdapter,
@@ -42,7 +42,10 @@ const TEST_INPUT: AdapterInput = {
  * Uses feature-test approach: execute the runtime directly.
  */
 async function isAdapterAvailable(adapterName: AdapterName): Promise<boolean> {
-  const config = ADAPTERS[adapterName];
+  const config = getAdapterConfig(adapterName);
+  if (!config) {
+    return false;
+  }
 
   // Check environment skip flags (bracket notation for index signature access)
   if (config.lang === "php" && process.env.SKIP_PHP_ADAPTERS === "1") {
@@ -194,8 +197,8 @@ describe("Adapter Contract Tests", () => {
   describe("Language Correctness", () => {
     test("PHP adapters report lang as php", async () => {
       for (const adapterName of adapters) {
-        const config = ADAPTERS[adapterName];
-        if (config.lang !== "php") continue;
+        const config = getAdapterConfig(adapterName);
+        if (config?.lang !== "php") continue;
 
         if (!(await isAdapterAvailable(adapterName))) {
           console.log(`Skipping ${adapterName}: runtime not available`);
@@ -209,8 +212,8 @@ describe("Adapter Contract Tests", () => {
 
     test("Ruby adapters report lang as ruby", async () => {
       for (const adapterName of adapters) {
-        const config = ADAPTERS[adapterName];
-        if (config.lang !== "ruby") continue;
+        const config = getAdapterConfig(adapterName);
+        if (config?.lang !== "ruby") continue;
 
         if (!(await isAdapterAvailable(adapterName))) {
           console.log(`Skipping ${adapterName}: runtime not available`);
@@ -0,0 +1,381 @@
+/**
+ * Reference Adapter Contract Tests
+ *
+ * Verifies the Bun reference adapter (src/adapters/bun/reference.ts):
+ * schema compliance, deterministic timings, the supported Liquid subset
+ * and fault injection. Needs only Bun, so it runs on any machine.
+ */
+
+import { afterEach, describe, expect, test } from "bun:test";
+import { join } from "node:path";
+import {
+  AdapterError,
+  AdapterProtocolError,
+  AdapterTimeoutError,
+  AdapterWorker,
+  createAdapterRegistry,
+  isValidAdapterOutput,
+  type LebConfig,
+  negotiateProtocol,
+} from "../../src/lib";
+import type { AdapterConfig, AdapterInput } from "../../src/types";
+
+const FIXTURE = join(import.meta.dir, "../fixtures/reference.config.json");
+
+const registry = createAdapterRegistry((await Bun.file(FIXTURE).json()) as LebConfig);
+
+function configFor(name: string, env: Record<string, string> = {}): AdapterConfig {
+  const config = registry.get(name);
+  if (!config) throw new Error(`fixture adapter missing: ${name}`);
+  return { ...config, env: { ...config.env, ...env } };
+}
+
+function input(template: string, data: Record<string, unknown> = {}): AdapterInput {
+  return { template, data, iterations: 5, warmup: 0 };
+}
+
+/**
+ * Await a promise that is expected to reject and return the error.
+ */
+async function captureError(promise: Promise<unknown>): Promise<AdapterError> {
+  try {
+    await promise;
+  } catch (e) {
+    expect(e).toBeInstanceOf(AdapterError);
+    return e as AdapterError;
+  }
+  throw new Error("Expected promise to reject");
+}
+
+/** Workers started by a test, closed afterwards */
+const workers: AdapterWorker[] = [];
+
+function startWorker(config: AdapterConfig): AdapterWorker {
+  const worker = new AdapterWorker(config);
+  workers.push(worker);
+  return worker;
+}
+
+afterEach(async () => {
+  await Promise.all(workers.splice(0).map((w) => w.close()));
+});
+
+describe("Reference Adapter", () => {
+  describe("Protocol", () => {
+    test("produces schema-valid output", async () => {
+      const worker = startWorker(configFor("reference"));
+      const { output } = await worker.run(input("Hello, {{ name }}!", { name: "World" }));
+
+      expect(await isValidAdapterOutput(output)).toBe(true);
+      expect(output.library).toBe("leb/reference");
+      expect(output.lang).toBe("javascript");
+      expect(output.rendered_output).toBe("Hello, World!");
+      expect(output.timings.parse_ms).toHaveLength(5);
+      expect(output.timings.render_ms).toHaveLength(5);
+    });
+
+    test("reports per-phase memory and process RSS", async () => {
+      const result = await startWorker(configFor("reference")).run(input("{{ a }}"));
+
+      expect(result.output.memory?.parse_peak_bytes).toHaveLength(5);
+      expect(result.output.memory?.render_peak_bytes).toHaveLength(5);
+      if (process.platform === "linux") {
+        expect(result.peakRssBytes).toBeGreaterThan(0);
+      }
+    });
+
+    test("timings are deterministic for the same seed and template", async () => {
+      const first = await startWorker(configFor("reference")).run(input("{{ a }}"));
+      const second = await startWorker(configFor("reference")).run(input("{{ a }}"));
+
+      expect(second.output.timings).toEqual(first.output.timings);
+    });
+
+    test("timings follow configured seed and means", async () => {
+      const base = await startWorker(configFor("reference")).run(input("{{ a }}"));
+      const slow = await startWorker(configFor("reference-slow")).run(input("{{ a }}"));
+
+      expect(slow.output.timings).not.toEqual(base.output.timings);
+      const mean = (xs: number[]) => xs.reduce((a, b) => a + b, 0) / xs.length;
+      expect(mean(slow.output.timings.render_ms)).toBeGreaterThan(
+        mean(base.output.timings.render_ms)
+      );
+    });
+  });
+
+  describe("Liquid subset", () => {
+    const cases: [string, string, Record<string, unknown>, string][] = [
+      ["filters", "{{ name | upcase | append: '!' }}", { name: "liquid" }, "LIQUID!"],
+      ["whitespace control", "a {{- ' b ' -}} c", {}, "a b c"],
+      [
+        "for with forloop",
+        "{% for x in items %}{{ x }}{% unless forloop.last %},{% endunless %}{% endfor %}",
+        { items: [1, 2, 3] },
+        "1,2,3",
+      ],
+      ["for else", "{% for x in items %}{{ x }}{% else %}none{% endfor %}", { items: [] }, "none"],
+      [
+        "if/elsif/else",
+        "{% if n > 10 %}big{% elsif n > 5 %}mid{% else %}small{% endif %}",
+        { n: 7 },
+        "mid",
+      ],
+      [
+        "assign and capture",
+        "{% assign t = items | map: 'title' | join: '/' %}{% capture c %}[{{ t }}]{% endcapture %}{{ c }}",
+        { items: [{ title: "a" }, { title: "b" }] },
+        "[a/b]",
+      ],
+      [
+        "case/when",
+        "{% case n %}{% when 1, 2 %}low{% when 3 %}three{% else %}other{% endcase %}",
+        { n: 2 },
+        "low",
+      ],
+      ["comment", "{% comment %}{% extends 'x' %}{% endcomment %}ok", {}, "ok"],
+      ["math", "{{ 7 | divided_by: 2 }} {{ 7.5 | round }} {{ 10 | modulo: 3 }}", {}, "3 8 1"],
+      ["where", "{{ v | where: 'ok', true | size }}", { v: [{ ok: true }, { ok: false }] }, "1"],
+    ];
+
+    for (const [name, template, data, expected] of cases) {
+      test(`renders ${name}`, async () => {
+        const { output } = await startWorker(configFor("reference")).run(input(template, data));
+        expect(output.rendered_output).toBe(expected);
+      });
+    }
+
+    test("renders partials from scenarios/partials", async () => {
+      const product = { title: "Shirt", price: 10, variants: [{ available: true }] };
+      const { output } = await startWorker(configFor("reference")).run(
+        input("{% render 'product_card', product: p %}", { p: product })
+      );
+
+      expect(output.rendered_output).toContain("<h2>Shirt</h2>");
+      expect(output.rendered_output).toContain("In Stock");
+    });
+
+    test("rejects unknown tags", async () => {
+      const worker = startWorker(configFor("reference"));
+      const error = await captureError(worker.run(input("{% extends 'base' %}")));
+
+      expect(error.message).toContain("Unknown tag 'extends'");
+    });
+
+    test("rejects unknown filters", async () => {
+      const worker = startWorker(configFor("reference"));
+      const error = await captureError(worker.run(input("{{ items | sum }}")));
+
+      expect(error.message).toContain("Unknown filter 'sum'");
+    });
+  });
+
+  describe("Fault injection", () => {
+    test("error reports a job failure and keeps serving", async () => {
+      const worker = startWorker(
+        configFor("reference", { LEB_REF_FAULT: "error", LEB_REF_FAULT_MATCH: "boom" })
+      );
+
+      const error = await captureError(worker.run(input("boom")));
+      expect(error.message).toContain("Injected failure");
+
+      const { output } = await worker.run(input("fine"));
+      expect(output.rendered_output).toBe("fine");
+    });
+
+    test("crash exits with code 70", async () => {
+      const worker = startWorker(configFor("reference", { LEB_REF_FAULT: "crash" }));
+      const error = await captureError(worker.run(input("x")));
+
+      expect(error.exitCode).toBe(70);
+      expect(error.stderr).toContain("injected crash");
+    });
+
+    test("malformed emits invalid JSON", async () => {
+      const worker = startWorker(configFor("reference", { LEB_REF_FAULT: "malformed" }));
+      const error = await captureError(worker.run(input("x")));
+
+      expect(error.message).toContain("Failed to parse adapter output as JSON");
+    });
+
+    test("timeout never answers", async () => {
+      const worker = startWorker(configFor("reference", { LEB_REF_FAULT: "timeout" }));
+      const error = await captureError(worker.run(input("x"), 1_000));
+
+      expect(error.message).toContain("timed out after 1000ms");
+    });
+  });
+
+  describe("Handshake", () => {
+    test("announces protocol version and capabilities", async () => {
+      expect(await negotiateProtocol(configFor("reference"))).toEqual({
+        version: 1,
+        capabilities: [
+          "memory",
+          "progress",
+          "worker_mode",
+          "cold_start",
+          "batching",
+          "time_budget",
+        ],
+      });
+    });
+
+    test("a legacy adapter gets no optional features, not even worker mode", async () => {
+      const config = configFor("reference", { LEB_REF_PROTOCOL: "0" });
+      expect(await negotiateProtocol(config)).toEqual({ version: 0, capabilities: [] });
+
+      // Refused up front instead of waiting for an EOF that never comes
+      const error = await captureError(startWorker(config).run(input("x"), 1_000));
+
+      expect(error).toBeInstanceOf(AdapterProtocolError);
+      expect(error.message).toContain("does not support worker mode");
+    });
+
+    test("progress is only requested from adapters announcing it", async () => {
+      const config = configFor("reference", { LEB_REF_CAPABILITIES: "memory,worker_mode" });
+      const seen: number[] = [];
+
+      await startWorker(config).run({ ...input("x"), progress_interval: 1 }, undefined, (c) =>
+        seen.push(c)
+      );
+
+      expect(seen).toEqual([]);
+    });
+
+    test("refuses an adapter speaking a newer protocol", async () => {
+      const worker = startWorker(configFor("reference", { LEB_REF_PROTOCOL: "2" }));
+      const error = await captureError(worker.run(input("x")));
+
+      expect(error).toBeInstanceOf(AdapterProtocolError);
+      expect(error.message).toContain("adapter speaks protocol 2, harness supports up to 1");
+    });
+
+    test("refuses worker mode unless announced", async () => {
+      const worker = startWorker(configFor("reference", { LEB_REF_CAPABILITIES: "memory" }));
+      const error = await captureError(worker.run(input("x")));
+
+      expect(error).toBeInstanceOf(AdapterProtocolError);
+      expect(error.message).toContain("does not support worker mode");
+    });
+
+    test("the adapter rejects input fields it does not know", async () => {
+      const worker = startWorker(configFor("reference"));
+      const error = await captureError(
+        worker.run({ ...input("x"), sample_rate: 10 } as AdapterInput)
+      );
+
+      expect(error.message).toContain("Unknown input field: sample_rate");
+    });
+  });
+
+  describe("Cold start", () => {
+    test("reports boot timestamps only when asked", async () => {
+      const worker = startWorker(configFor("reference"));
+
+      const plain = await worker.run(input("x"));
+      const cold = await worker.run({ ...input("x"), cold_start: true });
+
+      expect(plain.output.boot).toBeUndefined();
+      expect(await isValidAdapterOutput(cold.output)).toBe(true);
+      expect(cold.output.boot?.library_at_ms).toBeGreaterThanOrEqual(
+        cold.output.boot?.interpreter_at_ms ?? Infinity
+      );
+    });
+  });
+
+  describe("Timer overhead", () => {
+    test("reports the timer overhead with every output", async () => {
+      const worker = startWorker(configFor("reference", { LEB_REF_TIMER_OVERHEAD_MS: "0.002" }));
+      const { output } = await worker.run(input("x"));
+
+      expect(await isValidAdapterOutput(output)).toBe(true);
+      expect(output.timer_overhead_ms).toBe(0.002);
+    });
+  });
+
+  describe("Batching", () => {
+    test("per-call timings of a batch vary less than single calls", async () => {
+      const worker = startWorker(configFor("reference"));
+      const spread = (xs: number[]) => Math.max(...xs) - Math.min(...xs);
+
+      const single = await worker.run({ ...input("x"), iterations: 50 });
+      const batched = await worker.run({ ...input("x"), iterations: 50, batch_size: 100 });
+
+      expect(await isValidAdapterOutput(batched.output)).toBe(true);
+      expect(batched.output.timings.render_ms).toHaveLength(50);
+      expect(spread(batched.output.timings.render_ms)).toBeLessThan(
+        spread(single.output.timings.render_ms)
+      );
+    });
+  });
+
+  describe("Time budget", () => {
+    test("stops at the iteration that exhausts the budget", async () => {
+      const worker = startWorker(configFor("reference", { LEB_REF_RENDER_MS: "1" }));
+      const seen: [number, number][] = [];
+
+      const { output } = await worker.run(
+        { ...input("x"), iterations: 100, progress_interval: 25, time_budget_ms: 10 },
+        undefined,
+        (completed, total) => seen.push([completed, total])
+      );
+
+      const { parse_ms: parse, render_ms: render } = output.timings;
+      const spent = parse.reduce((acc, v, i) => acc + v + (render[i] ?? 0), 0);
+      expect(await isValidAdapterOutput(output)).toBe(true);
+      expect(parse.length).toBeLessThan(100);
+      expect(spent).toBeGreaterThanOrEqual(10);
+      expect(spent - (parse.at(-1) ?? 0) - (render.at(-1) ?? 0)).toBeLessThan(10);
+      expect(output.memory?.render_peak_bytes).toHaveLength(parse.length);
+      expect(seen.at(-1)).toEqual([parse.length, 100]);
+    });
+
+    test("runs every iteration within the budget", async () => {
+      const worker = startWorker(configFor("reference"));
+      const { output } = await worker.run({ ...input("x"), time_budget_ms: 60_000 });
+
+      expect(output.timings.parse_ms).toHaveLength(5);
+    });
+  });
+
+  describe("Progress", () => {
+    const streamed = (template: string): AdapterInput => ({
+      ...input(template),
+      iterations: 10,
+      progress_interval: 4,
+    });
+
+    test("streams progress after warmup and after each batch", async () => {
+      const worker = startWorker(configFor("reference"));
+      const seen: number[] = [];
+
+      const { output } = await worker.run(streamed("x"), undefined, (completed) =>
+        seen.push(completed)
+      );
+
+      expect(seen).toEqual([0, 4, 8, 10]);
+      expect(output.timings.parse_ms).toHaveLength(10);
+    });
+
+    test("a crash keeps the iterations completed before it", async () => {
+      const worker = startWorker(
+        configFor("reference", { LEB_REF_FAULT: "crash", LEB_REF_FAULT_AT: "5" })
+      );
+      const error = await captureError(worker.run(streamed("x")));
+
+      expect(error.exitCode).toBe(70);
+      expect(error.partial).toMatchObject({ reason: "crash", completed: 8, total: 10 });
+      expect(error.partial?.timings.render_ms).toHaveLength(8);
+    });
+
+    test("a timeout keeps the iterations completed before it", async () => {
+      const worker = startWorker(
+        configFor("reference", { LEB_REF_FAULT: "timeout", LEB_REF_FAULT_AT: "1" })
+      );
+      const error = await captureError(worker.run(streamed("x"), 1_000));
+
+      expect(error).toBeInstanceOf(AdapterTimeoutError);
+      expect(error.partial).toMatchObject({ reason: "timeout", completed: 4, total: 10 });
+    });
+  });
+});
@@ -0,0 +1,715 @@
+/**
+ * End-to-End Tests (reference adapter)
+ *
+ * Runs the full bench → stats → snapshot → report pipeline through run.ts
+ * against the Bun reference adapters in tests/fixtures/reference.config.json.
+ * Needs no PHP or Ruby; snapshots and the support cache go to a temporary
+ * directory. "reference" relies on the support probe, "reference-slow" on
+ * excludeScenarios.
+ */
+
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+const PROJECT_ROOT = join(import.meta.dir, "../..");
+const RUN_SCRIPT = join(PROJECT_ROOT, "src/run.ts");
+const CONFIG = join(PROJECT_ROOT, "tests/fixtures/reference.config.json");
+const SNAPSHOT_DIR = mkdtempSync(join(tmpdir(), "leb-reference-"));
+
+/**
+ * Run the benchmark CLI against the reference configuration.
+ */
+async function runCli(
+  args: string[],
+  env: Record<string, string> = {}
+): Promise<{ stdout: string; stderr: string; exitCode: number }> {
+  const proc = Bun.spawn(["bun", RUN_SCRIPT, ...args], {
+    stdout: "pipe",
+    stderr: "pipe",
+    cwd: PROJECT_ROOT,
+    env: {
+      ...process.env,
+      LEB_CONFIG: CONFIG,
+      LEB_SNAPSHOT_DIR: SNAPSHOT_DIR,
+      LEB_SUPPORT_CACHE: join(SNAPSHOT_DIR, "support.json"),
+      ...env,
+    },
+  });
+
+  // Read stdout/stderr before waiting for exit to avoid deadlock
+  const [stdout, stderr, exitCode] = await Promise.all([
+    new Response(proc.stdout).text(),
+    new Response(proc.stderr).text(),
+    proc.exited,
+  ]);
+
+  return { stdout, stderr, exitCode };
+}
+
+const FAST = ["--scale", "small", "--iterations", "5", "--warmup", "0"];
+
+afterAll(() => {
+  rmSync(SNAPSHOT_DIR, { recursive: true, force: true });
+});
+
+describe("E2E: Reference Adapter", () => {
+  test("lists adapters from LEB_CONFIG", async () => {
+    const { stdout, exitCode } = await runCli(["list", "adapters"]);
+
+    expect(exitCode).toBe(0);
+    expect(stdout.trim().split("\n")).toEqual(["reference", "reference-slow"]);
+  });
+
+  test("single mode outputs deterministic JSON", async () => {
+    const args = ["bench", "reference", "unit/tags/for", ...FAST, "--verify", "off"];
+    const first = await runCli(args);
+    const second = await runCli(args);
+
+    expect(first.exitCode).toBe(0);
+    const result = JSON.parse(first.stdout);
+    expect(result.adapter.library).toBe("leb/reference");
+    expect(result.metrics.total.mean_ms).toBeGreaterThan(0);
+    expect(result.memory.render.max_bytes).toBeGreaterThan(0);
+    expect(result.metadata.bootstrap).toEqual({ level: 0.95, resamples: 1000, seed: 1 });
+    expect(result.metrics.total.mean_ci.lower).toBeLessThanOrEqual(result.metrics.total.mean_ms);
+    expect(result.metrics.total.mean_ci.upper).toBeGreaterThanOrEqual(result.metrics.total.mean_ms);
+    expect(Object.keys(result.metrics.total.percentiles)).toEqual(["p75", "p90", "p95", "p99"]);
+    expect(result.throughput.render_ops_per_sec).toBeCloseTo(1000 / result.metrics.render.mean_ms);
+    expect(result.throughput.output_bytes_per_sec).toBeGreaterThan(0);
+    expect(result.metrics.total.cv).toBeGreaterThan(0);
+    expect(result).not.toHaveProperty("noisy");
+    expect(JSON.parse(second.stdout).metrics).toEqual(result.metrics);
+  }, 30_000);
+
+  test("reports outlier counts and the samples trimmed", async () => {
+    const { stdout, exitCode } = await runCli([
+      "bench",
+      "reference",
+      "unit/tags/for",
+      ...FAST,
+      "--verify",
+      "off",
+      "--outliers",
+      "trim",
+    ]);
+
+    expect(exitCode).toBe(0);
+    const result = JSON.parse(stdout);
+    expect(result.metadata.outliers).toBe("trim");
+    for (const phase of ["parse", "render", "total"]) {
+      expect(result.metrics[phase].outliers).toBeGreaterThanOrEqual(0);
+      expect(result.metrics[phase].excluded).toBe(result.metrics[phase].outliers);
+    }
+  }, 30_000);
+
+  test("flags results above the noise threshold", async () => {
+    const noisy = { LEB_REF_JITTER: "0.5" };
+    const args = ["bench", "reference", "unit/tags/for", ...FAST, "--verify", "off"];
+
+    const single = await runCli(args, noisy);
+    expect(single.exitCode).toBe(0);
+    const result = JSON.parse(single.stdout);
+    expect(result.metadata.noise_threshold).toBe(0.1);
+    expect(result.noisy).toBe(true);
+    expect(result.metrics.total.noisy).toBe(true);
+    expect(single.stderr).toContain("noisy: cv");
+
+    const tolerant = await runCli([...args, "--noise-threshold", "99%"], noisy);
+    expect(JSON.parse(tolerant.stdout)).not.toHaveProperty("noisy");
+
+    const all = await runCli(
+      ["bench", "--category", "unit/tags", ...FAST, "--verify", "off", "-f", "table"],
+      noisy
+    );
+    expect(all.exitCode).toBe(0);
+    expect(all.stdout).toMatch(/unit\/tags\/for\s+\|\s+[\d.]+(ms|μs)!?~ \|/);
+    expect(all.stdout).toContain("~ noisy: a phase's coefficient of variation is above 10%");
+    expect(all.stderr).toContain("[noisy] cv");
+    expect(all.stderr).toMatch(/skipped \d+, noisy 18/);
+  }, 120_000);
+
+  test("single mode shows the distribution of total times", async () => {
+    const args = ["bench", "reference", "unit/tags/for", "-s", "small", "-i", "200", "-w", "0"];
+
+    const json = await runCli([...args, "--verify", "off"]);
+    expect(json.exitCode).toBe(0);
+    const { histogram, metrics } = JSON.parse(json.stdout);
+    const counts = histogram.buckets.map((b: { count: number }) => b.count);
+    expect(counts).toHaveLength(9);
+    expect(counts.reduce((a: number, b: number) => a + b, 0)).toBe(200);
+    expect(histogram.buckets[0].lower).toBe(metrics.total.min_ms);
+    expect(histogram.buckets[8].upper).toBe(metrics.total.max_ms);
+
+    const table = await runCli([...args, "--verify", "off", "-f", "table"]);
+    expect(table.exitCode).toBe(0);
+    expect(table.stdout).toContain("Total time distribution");
+    expect(table.stdout).toContain("█");
+  }, 30_000);
+
+  test("single mode reports a partial result when the adapter times out", async () => {
+    const { stdout, exitCode } = await runCli(
+      [
+        "bench",
+        "reference",
+        "unit/tags/for",
+        "-s",
+        "small",
+        "-i",
+        "40",
+        "-w",
+        "0",
+        "-v",
+        "off",
+      ].concat(["--timeout", "2000"]),
+      { LEB_REF_FAULT: "timeout", LEB_REF_FAULT_AT: "10" }
+    );
+
+    expect(exitCode).toBe(1);
+    const result = JSON.parse(stdout);
+    expect(result.success).toBe(false);
+    expect(result.partial).toEqual({
+      reason: "timeout",
+      completed_iterations: 10,
+      total_iterations: 40,
+    });
+    expect(result.timeout_ms).toBe(2000);
+    expect(result.metrics.total.mean_ms).toBeGreaterThan(0);
+  }, 30_000);
+
+  test("all mode compares against the baseline and skips excluded scenarios", async () => {
+    const { stdout, stderr, exitCode } = await runCli([
+      "bench",
+      "--category",
+      "unit/tags",
+      ...FAST,
+      "--verify",
+      "off",
+      "--format",
+      "table",
+    ]);
+
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain("reference (base)");
+    expect(stdout).toContain("reference-slow");
+    expect(stdout).toMatch(/unit\/tags\/for\s+\|.*\(\d\.\d\dx \[\d\.\d\d–\d\.\d\d\]\)/);
+    expect(stdout).not.toContain("unit/tags/extends");
+    expect(stdout).toMatch(/Score \(9\)\s+\|\s+1\.00x \|\s+\d\.\d\dx/);
+    expect(stdout).toContain("score: geometric mean of ratios over 9 scenarios");
+    expect(stderr).toMatch(
+      /reference: skipping 2 unsupported scenarios \(0 excluded by config, 2 detected by probe\)/
+    );
+    expect(stderr).toMatch(
+      /reference-slow: skipping 7 unsupported scenarios \(7 excluded by config/
+    );
+  }, 120_000);
+
+  test("all mode scores each adapter across scenarios", async () => {
+    const { stdout, exitCode } = await runCli([
+      "bench",
+      "--category",
+      "unit/tags",
+      ...FAST,
+      "--verify",
+      "off",
+      "-f",
+      "json",
+    ]);
+
+    expect(exitCode).toBe(0);
+    const { summary } = JSON.parse(stdout);
+    expect(summary.baseline).toBe("reference");
+    expect(summary.overall.scenarios).toBe(9);
+    expect(summary.overall.scores.reference).toBe(1);
+    // reference-slow takes twice as long per call
+    expect(summary.overall.scores["reference-slow"]).toBeGreaterThan(1.5);
+    expect(summary.categories["unit/tags"]).toEqual(summary.overall);
+    expect(summary.excluded).toEqual([]);
+  }, 120_000);
+
+  test("all mode leaves scenarios with a partial run out of the score", async () => {
+    const { stdout, exitCode } = await runCli(
+      [
+        "bench",
+        "--category",
+        "unit/tags",
+        "-s",
+        "small",
+        "-i",
+        "40",
+        "-w",
+        "0",
+        "--verify",
+        "off",
+        "-f",
+        "json",
+      ],
+      { LEB_REF_FAULT: "crash", LEB_REF_FAULT_AT: "10", LEB_REF_FAULT_MATCH: "case/when" }
+    );
+
+    expect(exitCode).toBe(0);
+    const { results, summary } = JSON.parse(stdout);
+    const caseRun = results.find(
+      (r: { adapter: string; scenario: string }) =>
+        r.adapter === "reference" && r.scenario === "unit/tags/case"
+    );
+    expect(caseRun.partial.reason).toBe("crash");
+    expect(summary.excluded).toEqual(["unit/tags/case"]);
+    expect(summary.overall.scenarios).toBe(8);
+  }, 120_000);
+
+  test("all mode compares a chosen statistic", async () => {
+    const { stdout, exitCode } = await runCli([
+      "bench",
+      "--category",
+      "unit/tags",
+      ...FAST,
+      "--verify",
+      "off",
+      "--format",
+      "table",
+      "--stat",
+      "p95",
+    ]);
+
+    expect(exitCode).toBe(0);
+    expect(stdout).toMatch(/Scenario \(p95\)\s+\|/);
+    expect(stdout).toMatch(/unit\/tags\/for\s+\|.*\(\d\.\d\dx \[\d\.\d\d–\d\.\d\d\]\)/);
+  }, 120_000);
+
+  test("all mode compares throughput instead of time", async () => {
+    const { stdout, exitCode } = await runCli([
+      "bench",
+      "--category",
+      "unit/tags",
+      ...FAST,
+      "--verify",
+      "off",
+      "--format",
+      "table",
+      "--throughput",
+      "renders",
+    ]);
+
+    expect(exitCode).toBe(0);
+    expect(stdout).toMatch(/Scenario \(renders\/s\)\s+\|/);
+    // reference-slow renders half as fast
+    expect(stdout).toMatch(/unit\/tags\/for\s+\|\s+[\d.]+k\/s \|\s+[\d.]+k\/s \(0\.[45]\dx\)/);
+    expect(stdout).toContain("higher is faster");
+  }, 120_000);
+
+  test("all mode caches probe results", async () => {
+    const args = ["bench", "--category", "unit/filters", ...FAST, "--verify", "off", "-f", "json"];
+
+    const first = await runCli(args);
+    expect(first.exitCode).toBe(0);
+    expect(first.stderr).toMatch(/reference: probed \d+ scenarios/);
+
+    const cache = await Bun.file(join(SNAPSHOT_DIR, "support.json")).json();
+    expect(cache["reference@1.0.0"].scenarios["unit/filters/sum"]).toMatchObject({
+      status: "unsupported",
+      feature: "filter:sum",
+    });
+
+    const second = await runCli(args);
+    expect(second.stderr).not.toMatch(/reference: probed/);
+    const scenarios = JSON.parse(second.stdout).results.map(
+      (r: { scenario: string }) => r.scenario
+    );
+    expect(scenarios).not.toContain("unit/filters/sum");
+  }, 120_000);
+
+  test("all mode tests each adapter against the baseline", async () => {
+    const { stdout, exitCode } = await runCli([
+      "bench",
+      "--category",
+      "unit/filters",
+      ...FAST,
+      "--verify",
+      "off",
+      "-f",
+      "json",
+      "--save-samples",
+    ]);
+
+    expect(exitCode).toBe(0);
+    const results = JSON.parse(stdout).results;
+    const base = results.find((r: { adapter: string }) => r.adapter === "reference");
+    const slow = results.find((r: { adapter: string }) => r.adapter === "reference-slow");
+    expect(base.significance).toBeUndefined();
+    expect(base.samples.render_ms).toHaveLength(5);
+    expect(slow.significance).toMatchObject({ significant: true, effect: "large" });
+    expect(slow.significance.mann_whitney.p_value).toBeLessThan(0.05);
+  }, 120_000);
+
+  test("single mode tests a run against an earlier one", async () => {
+    const earlier = join(SNAPSHOT_DIR, "earlier.json");
+    const args = ["bench", "reference", "unit/tags/for", ...FAST, "--verify", "off"];
+    expect((await runCli([...args, "-o", earlier, "--save-samples"])).exitCode).toBe(0);
+
+    const same = await runCli([...args, "--against", earlier]);
+    expect(same.exitCode).toBe(0);
+    expect(JSON.parse(same.stdout).significance.significant).toBe(false);
+    expect(same.stderr).toContain("no significant difference");
+
+    const slower = await runCli([...args, "--against", earlier], { LEB_REF_RENDER_MS: "1" });
+    const result = JSON.parse(slower.stdout);
+    expect(result.metadata.against).toBe(earlier);
+    expect(result.significance).toMatchObject({ significant: true, effect: "large" });
+  }, 60_000);
+
+  test("single mode leaves raw samples out unless asked to save them", async () => {
+    const plain = join(SNAPSHOT_DIR, "plain.json");
+    const args = ["bench", "reference", "unit/tags/for", ...FAST, "--verify", "off"];
+    expect((await runCli([...args, "-o", plain])).exitCode).toBe(0);
+    expect(await Bun.file(plain).json()).not.toHaveProperty("samples");
+
+    const { stderr, exitCode } = await runCli([...args, "--against", plain]);
+    expect(exitCode).toBe(1);
+    expect(stderr).toContain("saved with --save-samples");
+  }, 60_000);
+
+  test("single mode rejects --against without samples", async () => {
+    const { stderr, exitCode } = await runCli([
+      "bench",
+      "reference",
+      "unit/tags/for",
+      ...FAST,
+      "--against",
+      join(SNAPSHOT_DIR, "missing.json"),
+    ]);
+
+    expect(exitCode).toBe(1);
+    expect(stderr).toContain("INVALID_ARGUMENT");
+  }, 30_000);
+
+  test("single mode runs batches until the target precision", async () => {
+    const args = ["bench", "reference", "unit/tags/for", ...FAST, "--verify", "off"];
+
+    const precise = await runCli([...args, "--target-rsd", "1%", "--save-samples"]);
+    expect(precise.exitCode).toBe(0);
+    const result = JSON.parse(precise.stdout);
+    expect(result.metadata.adaptive).toMatchObject({
+      target_rsd: 0.01,
+      max_time_ms: 30_000,
+      stop_reason: "target_reached",
+    });
+    expect(result.metadata.adaptive.batches).toBeGreaterThan(1);
+    expect(result.metadata.adaptive.rsd).toBeLessThanOrEqual(0.01);
+    expect(result.samples.parse_ms).toHaveLength(result.metadata.adaptive.iterations);
+    expect(precise.stderr).toContain("(target reached)");
+
+    // Samples spread as wide as their mean cannot get within ±0.1% in 200ms
+    const noisy = await runCli([...args, "--target-rsd", "0.1%", "--max-time", "200ms"], {
+      LEB_REF_JITTER: "1",
+    });
+    expect(noisy.exitCode).toBe(0);
+    expect(JSON.parse(noisy.stdout).metadata.adaptive).toMatchObject({
+      max_time_ms: 200,
+      stop_reason: "max_time",
+    });
+  }, 60_000);
+
+  test("all mode reports how each adaptive run stopped", async () => {
+    const { stdout, exitCode } = await runCli([
+      "bench",
+      "--category",
+      "unit/filters",
+      ...FAST,
+      "--verify",
+      "off",
+      "-f",
+      "json",
+      "--target-rsd",
+      "5%",
+      "--save-samples",
+    ]);
+
+    expect(exitCode).toBe(0);
+    const output = JSON.parse(stdout);
+    expect(output.metadata.adaptive).toEqual({ target_rsd: 0.05, max_time_ms: 30_000 });
+    for (const result of output.results) {
+      expect(result.adaptive.stop_reason).toBe("target_reached");
+      expect(result.samples.render_ms).toHaveLength(result.adaptive.iterations);
+    }
+  }, 120_000);
+
+  test("automatic warmup starts measuring at steady state", async () => {
+    const args = ["bench", "reference", "unit/tags/for", "-s", "small", "-i", "50"];
+
+    const { stdout, stderr, exitCode } = await runCli(
+      [...args, "-w", "auto", "--verify", "off", "--save-samples"],
+      {
+        LEB_REF_WARMUP: "20",
+      }
+    );
+
+    expect(exitCode).toBe(0);
+    const result = JSON.parse(stdout);
+    expect(result.metadata.warmup).toBe("auto");
+    expect(result.metadata.warmup_iterations).toBeGreaterThanOrEqual(10);
+    expect(result.metadata.warmup_iterations).toBeLessThanOrEqual(30);
+    expect(result.samples.parse_ms).toHaveLength(50);
+    expect(stderr).toContain("until steady state");
+  }, 60_000);
+
+  test("single mode runs each fork in a fresh process", async () => {
+    const { stdout, stderr, exitCode } = await runCli([
+      "bench",
+      "reference",
+      "unit/tags/for",
+      ...FAST,
+      "--verify",
+      "off",
+      "--forks",
+      "3",
+      "--save-samples",
+    ]);
+
+    expect(exitCode).toBe(0);
+    const result = JSON.parse(stdout);
+    expect(result.metadata.forks).toBe(3);
+    expect(result.forks.count).toBe(3);
+    expect(result.forks.runs).toHaveLength(3);
+    expect(result.forks.between_share).toBeGreaterThanOrEqual(0);
+    expect(result.forks.between_share).toBeLessThanOrEqual(1);
+    expect(result.samples.parse_ms).toHaveLength(3 * result.metadata.iterations);
+    expect(stderr).toContain("forks: 3 processes");
+  }, 60_000);
+
+  test("single mode keeps the completed forks when a later fork fails", async () => {
+    const spare = join(SNAPSHOT_DIR, "fault-spare");
+    const { stdout, exitCode } = await runCli(
+      [
+        "bench",
+        "reference",
+        "unit/tags/for",
+        "-s",
+        "small",
+        "-i",
+        "40",
+        "-w",
+        "0",
+        "-v",
+        "off",
+        "--forks",
+        "3",
+        "--save-samples",
+      ],
+      { LEB_REF_FAULT: "crash", LEB_REF_FAULT_AT: "10", LEB_REF_FAULT_SPARE: spare }
+    );
+
+    expect(exitCode).toBe(1);
+    const result = JSON.parse(stdout);
+    expect(result.partial).toEqual({
+      reason: "crash",
+      completed_iterations: 50,
+      total_iterations: 120,
+    });
+    expect(result.samples.parse_ms).toHaveLength(50);
+  }, 60_000);
+
+  test("single mode keeps the completed forks when a later fork streams nothing", async () => {
+    const spare = join(SNAPSHOT_DIR, "fault-spare-early");
+    const { stdout, exitCode } = await runCli(
+      ["bench", "reference", "unit/tags/for", ...FAST, "--verify", "off", "--forks", "3"],
+      { LEB_REF_FAULT: "crash", LEB_REF_FAULT_SPARE: spare }
+    );
+
+    expect(exitCode).toBe(1);
+    const result = JSON.parse(stdout);
+    expect(result.partial).toEqual({
+      reason: "crash",
+      completed_iterations: 5,
+      total_iterations: 15,
+    });
+    expect(result.error).toContain("injected crash");
+  }, 60_000);
+
+  test("support matrix reports probe and config exclusions", async () => {
+    const { stdout, exitCode } = await runCli([
+      "support",
+      "-c",
+      "unit/filters",
+      "-f",
+      "json",
+      "-q",
+    ]);
+
+    expect(exitCode).toBe(0);
+    const matrix = JSON.parse(stdout);
+    expect(matrix.metadata.adapters).toEqual(["reference", "reference-slow"]);
+
+    const sum = matrix.scenarios.find(
+      (s: { scenario: string }) => s.scenario === "unit/filters/sum"
+    );
+    expect(sum.adapters.reference).toEqual({ status: "excluded", detail: "filter:sum" });
+    expect(sum.adapters["reference-slow"]).toEqual({ status: "excluded", detail: "config" });
+
+    const map = matrix.scenarios.find(
+      (s: { scenario: string }) => s.scenario === "unit/filters/map"
+    );
+    expect(map.adapters["reference-slow"]).toEqual({ status: "supported" });
+  }, 60_000);
+
+  test("support matrix flags output that differs from the baseline", async () => {
+    // Baseline snapshot that no adapter will reproduce
+    await Bun.write(join(SNAPSHOT_DIR, "unit/tags/assign/small/reference.snap"), "stale");
+
+    const { stdout, exitCode } = await runCli([
+      "support",
+      "-c",
+      "unit/tags",
+      "-f",
+      "markdown",
+      "-q",
+    ]);
+
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain("| Scenario | reference (base) | reference-slow |");
+    expect(stdout).toContain("| `unit/tags/assign` | supported | differs |");
+    expect(stdout).toContain("| `unit/tags/extends` | excluded (`tag:extends`) | excluded |");
+  }, 60_000);
+
+  test("snapshot update then verification passes", async () => {
+    const args = ["bench", "reference", "representative/deep-nested", ...FAST, "-q"];
+
+    const update = await runCli([...args, "--update-snapshots"]);
+    expect(update.exitCode).toBe(0);
+    expect(
+      await Bun.file(join(SNAPSHOT_DIR, "representative/deep-nested/small/reference.snap")).exists()
+    ).toBe(true);
+
+    const verify = await runCli(args);
+    expect(verify.exitCode).toBe(0);
+  }, 30_000);
+
+  test("reports an adapter crash", async () => {
+    const { stderr, exitCode } = await runCli(
+      ["bench", "reference", "unit/tags/for", ...FAST, "--verify", "off"],
+      { LEB_REF_FAULT: "crash" }
+    );
+
+    expect(exitCode).toBe(1);
+    expect(stderr).toContain("exited with code 70");
+  }, 30_000);
+
+  test("single mode measures cold starts over fresh processes", async () => {
+    const { stdout, exitCode } = await runCli([
+      "bench",
+      "reference",
+      "unit/tags/for",
+      ...FAST,
+      "--verify",
+      "off",
+      "--cold-start",
+      "3",
+    ]);
+
+    expect(exitCode).toBe(0);
+    const result = JSON.parse(stdout);
+    expect(result.metadata.cold_start_runs).toBe(3);
+    expect(result.cold_start.runs).toBe(3);
+    expect(result.cold_start.boot.mean_ms).toBeGreaterThan(0);
+    expect(result.cold_start.total.mean_ms).toBeGreaterThanOrEqual(
+      result.cold_start.boot.mean_ms + result.cold_start.load.mean_ms
+    );
+  }, 30_000);
+
+  test("single mode logs the features an adapter lacks and carries on", async () => {
+    const { stdout, stderr, exitCode } = await runCli(
+      [
+        "bench",
+        "reference",
+        "unit/tags/for",
+        ...FAST,
+        "--verify",
+        "off",
+        "--cold-start",
+        "2",
+        "--target-rsd",
+        "5%",
+        "--max-time",
+        "2s",
+      ],
+      { LEB_REF_CAPABILITIES: "memory,worker_mode" }
+    );
+
+    expect(exitCode).toBe(0);
+    const result = JSON.parse(stdout);
+    expect(result.metadata.cold_start_runs).toBeUndefined();
+    expect(result.cold_start).toBeUndefined();
+    expect(stderr).toContain("reference: no cold-start support, measuring warm runs only");
+    expect(stderr).toContain("reference: no time budget support, a batch may overrun --max-time");
+    expect(stderr).toContain("reference: no progress support, a failed job salvages no iterations");
+  }, 60_000);
+
+  test("single mode keeps the warm measurement when cold starts fail", async () => {
+    const spare = join(SNAPSHOT_DIR, "fault-spare-cold");
+    const { stdout, stderr, exitCode } = await runCli(
+      ["bench", "reference", "unit/tags/case", ...FAST, "--update-snapshots", "--cold-start", "2"],
+      { LEB_REF_FAULT: "crash", LEB_REF_FAULT_SPARE: spare }
+    );
+
+    expect(exitCode).toBe(0);
+    const result = JSON.parse(stdout);
+    expect(result.success).toBe(true);
+    expect(result.metrics.total.mean_ms).toBeGreaterThan(0);
+    expect(result.cold_start).toBeUndefined();
+    expect(result.cold_start_error).toContain("injected crash");
+    expect(stderr).toContain("cold start failed:");
+    expect(await Bun.file(join(SNAPSHOT_DIR, "unit/tags/case/small/reference.snap")).exists()).toBe(
+      true
+    );
+  }, 30_000);
+
+  test("flags phases below the timer resolution and subtracts the overhead", async () => {
+    const { stdout, stderr, exitCode } = await runCli(
+      ["bench", "reference", "unit/tags/for", ...FAST, "--verify", "off", "--subtract-overhead"],
+      { LEB_REF_PARSE_MS: "0.0005", LEB_REF_JITTER: "0" }
+    );
+
+    expect(exitCode).toBe(0);
+    const result = JSON.parse(stdout);
+    expect(result.metadata.subtract_overhead).toBe(true);
+    expect(result.timer_overhead_ms).toBe(0.0001);
+    expect(result.metrics.parse.below_resolution).toBe(true);
+    expect(result.metrics.parse.mean_ms).toBeCloseTo(0.0004, 10);
+    expect(result.metrics.render.below_resolution).toBeUndefined();
+    expect(stderr).toContain("below timer resolution: parse");
+  }, 30_000);
+
+  test("runs a legacy adapter in a fresh process per scenario", async () => {
+    // A worker would wait for EOF until the timeout
+    const { stderr, exitCode } = await runCli(
+      ["bench", "--category", "unit/tags", ...FAST, "--verify", "off", "--timeout", "10000"],
+      { LEB_REF_PROTOCOL: "0" }
+    );
+
+    expect(exitCode).toBe(0);
+    expect(stderr).toContain("reference: legacy adapter (no protocol handshake)");
+    expect(stderr).toContain("fresh process per scenario");
+    expect(stderr).toMatch(/completed 18\/18, failed 0/);
+  }, 120_000);
+
+  test("refuses an adapter speaking a newer protocol", async () => {
+    const { stderr, exitCode } = await runCli(
+      ["bench", "reference", "unit/tags/for", ...FAST, "--verify", "off"],
+      { LEB_REF_PROTOCOL: "2" }
+    );
+
+    expect(exitCode).toBe(1);
+    expect(stderr).toContain("ADAPTER_PROTOCOL_MISMATCH");
+  }, 30_000);
+
+  test("reports malformed adapter output", async () => {
+    const { stderr, exitCode } = await runCli(
+      ["bench", "reference", "unit/tags/for", ...FAST, "--verify", "off"],
+      { LEB_REF_FAULT: "malformed" }
+    );
+
+    expect(exitCode).toBe(1);
+    expect(stderr).toContain("Failed to parse adapter output");
+  }, 30_000);
+});